@@ -0,0 +1,228 @@
+import {
+  CartManager,
+  createMemoryCartStorage,
+} from "../../src/managers/CartManager";
+
+const createCart = (storage = createMemoryCartStorage()) =>
+  new CartManager({
+    brandId: "brand-1",
+    pointId: "point-1",
+    orderType: "PICKUP",
+    storage,
+  });
+
+const mockProduct = {
+  id: "product-1",
+  name: "Pizza",
+  pricePoint: 50000,
+  images: [{ fileId: "file-1", priority: 1, url: "https://example.com/1.jpg" }],
+  variants: [
+    { id: "variant-small", name: "Pizza 25 cm", pricePoint: 45000 },
+    { id: "variant-large", name: "Pizza 35 cm", pricePoint: 65000 },
+  ],
+};
+
+/** Saved cart with a pizza line and a comment */
+const savedCart = () => {
+  const saved = createCart();
+  saved.addProduct(mockProduct, { quantity: 2 });
+  saved.setComment("Window seat");
+  return JSON.stringify(saved.getSnapshot());
+};
+
+/** Storage whose read stays pending until resolveItem is called */
+const createPendingStorage = () => {
+  let resolveItem: (value: string | null) => void = () => {};
+  const storage = {
+    getItem: () =>
+      new Promise<string | null>((resolve) => {
+        resolveItem = resolve;
+      }),
+    setItem: jest.fn(),
+    removeItem: jest.fn(),
+  };
+  return { storage, resolveItem: (value: string) => resolveItem(value) };
+};
+
+describe("CartManager", () => {
+  describe("lines", () => {
+    it("should merge duplicate lines for the same product", () => {
+      const cart = createCart();
+
+      cart.addProduct(mockProduct, { quantity: 2 });
+      cart.addProduct(mockProduct);
+
+      expect(cart.getLines()).toHaveLength(1);
+      expect(cart.getLines()[0]).toMatchObject({
+        productId: "product-1",
+        quantity: 3,
+        pricePoint: 50000,
+        imageUrl: "https://example.com/1.jpg",
+      });
+    });
+
+    it("should keep chosen variants as separate lines", () => {
+      const cart = createCart();
+
+      cart.addProduct(mockProduct, { variantId: "variant-small" });
+      cart.addProduct(mockProduct, { variantId: "variant-large" });
+
+      expect(cart.getLines().map((line) => line.productId)).toEqual([
+        "variant-small",
+        "variant-large",
+      ]);
+      expect(cart.getLines()[0]?.parentProductId).toBe("product-1");
+    });
+
+    it("should reject products without a resolved price", () => {
+      const cart = createCart();
+
+      expect(() => cart.addProduct({ id: "product-2", name: "Tea" })).toThrow(
+        "Price is not resolved for product product-2"
+      );
+    });
+
+    it("should remove a line when quantity drops to zero", () => {
+      const cart = createCart();
+
+      cart.addProduct(mockProduct);
+      cart.setQuantity("product-1", 0);
+
+      expect(cart.isEmpty()).toBe(true);
+    });
+  });
+
+  describe("totals", () => {
+    it("should recalculate totals in kopecks", () => {
+      const cart = createCart();
+
+      cart.addProduct(mockProduct, { quantity: 2 });
+      cart.addProduct(mockProduct, { variantId: "variant-small" });
+
+      expect(cart.getTotals()).toEqual({
+        subtotal: 145000,
+        total: 145000,
+        itemsCount: 3,
+        linesCount: 2,
+      });
+    });
+  });
+
+  describe("toPreOrderInput", () => {
+    it("should build an orderPreOrderByEmployeeCreate input", () => {
+      const cart = createCart();
+
+      cart.addProduct(mockProduct, { quantity: 2 });
+      cart.setPersonsNumber(3);
+      cart.setComment("No onions");
+
+      expect(cart.toPreOrderInput()).toEqual({
+        brandId: "brand-1",
+        pointId: "point-1",
+        itemsAdd: [{ productId: "product-1", quantity: 2 }],
+        personsNumber: 3,
+        comment: "No onions",
+      });
+    });
+
+    it("should omit empty comment and persons number", () => {
+      const cart = createCart();
+
+      cart.addProduct(mockProduct);
+      cart.setComment("");
+
+      const input = cart.toPreOrderInput();
+      expect(input).not.toHaveProperty("comment");
+      expect(input).not.toHaveProperty("personsNumber");
+    });
+  });
+
+  describe("persistence", () => {
+    it("should restore a cart from storage", async () => {
+      const storage = createMemoryCartStorage();
+      const cart = createCart(storage);
+
+      cart.addProduct(mockProduct, { quantity: 2 });
+      cart.setComment("Window seat");
+      await Promise.resolve();
+
+      const restored = createCart(storage);
+      await expect(restored.hydrate()).resolves.toBe(true);
+      expect(restored.getLines()).toEqual(cart.getLines());
+      expect(restored.getSnapshot().comment).toBe("Window seat");
+    });
+
+    it("should ignore carts saved for another point", async () => {
+      const storage = createMemoryCartStorage();
+      storage.setItem(
+        "restomenu:cart:brand-1:point-1:PICKUP",
+        JSON.stringify({
+          version: 1,
+          brandId: "brand-1",
+          pointId: "point-2",
+          orderType: "PICKUP",
+          lines: [],
+          updatedAt: new Date().toISOString(),
+        })
+      );
+
+      await expect(createCart(storage).hydrate()).resolves.toBe(false);
+    });
+
+    it("should keep lines added while a saved cart is loading", async () => {
+      const { storage, resolveItem } = createPendingStorage();
+      const cart = createCart(storage);
+
+      const hydrating = cart.hydrate();
+      cart.addItem({ productId: "tea", name: "Tea", pricePoint: 15000 });
+      resolveItem(savedCart());
+
+      await expect(hydrating).resolves.toBe(true);
+      expect(cart.getLines().map((line) => line.productId)).toEqual([
+        "product-1",
+        "tea",
+      ]);
+      expect(cart.getSnapshot().comment).toBe("Window seat");
+    });
+
+    it("should not restore a cart cleared while loading", async () => {
+      const { storage, resolveItem } = createPendingStorage();
+      const cart = createCart(storage);
+
+      const hydrating = cart.hydrate();
+      cart.clear();
+      resolveItem(savedCart());
+
+      await expect(hydrating).resolves.toBe(false);
+      expect(cart.isEmpty()).toBe(true);
+      expect(cart.getSnapshot().comment).toBeUndefined();
+    });
+
+    it("should keep removals and resets made while loading", async () => {
+      const { storage, resolveItem } = createPendingStorage();
+      const cart = createCart(storage);
+
+      const hydrating = cart.hydrate();
+      cart.removeItem("product-1");
+      cart.setComment(undefined);
+      resolveItem(savedCart());
+
+      await expect(hydrating).resolves.toBe(true);
+      expect(cart.isEmpty()).toBe(true);
+      expect(cart.getSnapshot().comment).toBeUndefined();
+    });
+
+    it("should notify subscribers about changes", () => {
+      const cart = createCart();
+      const listener = jest.fn();
+
+      const unsubscribe = cart.subscribe(listener);
+      cart.addProduct(mockProduct);
+      unsubscribe();
+      cart.clear();
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener.mock.calls[0][0].lines).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,457 @@
+import {
+  ApolloClient,
+  InMemoryCache,
+  ApolloLink,
+  Observable,
+} from "@apollo/client";
+import {
+  MenuSnapshotManager,
+  createMenuSnapshot,
+  parseMenuSnapshot,
+  serializeMenuSnapshot,
+} from "../../src/managers/MenuSnapshotManager";
+
+const priceSettings = {
+  __typename: "ProductPriceSettings",
+  price: 50000,
+  priceOrderTypes: [
+    {
+      __typename: "ProductPriceSettingsOrderType",
+      orderType: "DELIVERY",
+      priceCommon: 55000,
+      priceCities: [
+        {
+          __typename: "ProductPriceSettingsCity",
+          cityId: "city-1",
+          price: 52000,
+        },
+      ],
+      pricePoints: [
+        {
+          __typename: "ProductPriceSettingsPoint",
+          pointId: "point-1",
+          price: 51000,
+        },
+      ],
+    },
+  ],
+};
+
+const sourceData = {
+  brandId: "brand-source",
+  categories: [
+    {
+      id: "cat-child",
+      name: "Pizza",
+      slug: "pizza",
+      isActive: true,
+      priority: 1,
+      parentId: "cat-root",
+      imageUrl: null,
+      pointBinds: [{ pointId: "point-1", orderType: "DELIVERY" }],
+    },
+    {
+      id: "cat-root",
+      name: "Food",
+      slug: "food",
+      isActive: true,
+      priority: 0,
+      parentId: null,
+      imageUrl: null,
+      pointBinds: [],
+    },
+  ],
+  tags: [{ id: "tag-1", name: "Spicy" }],
+  variantProperties: [
+    {
+      id: "prop-size",
+      name: "Size",
+      innerName: null,
+      isShowName: true,
+      displayType: "BUTTONS",
+      values: [
+        { id: "value-30", name: "30 cm", priority: 0 },
+        { id: "value-40", name: "40 cm", priority: 1 },
+      ],
+    },
+  ],
+  products: [
+    {
+      id: "product-1",
+      name: "Pepperoni",
+      slug: "pepperoni",
+      description: "Hot",
+      isActive: true,
+      unit: null,
+      unitValue: null,
+      calories: 250,
+      carbohydrates: null,
+      fats: null,
+      protein: null,
+      priceSettings,
+      pointBinds: [
+        { pointId: "point-1", orderType: "DELIVERY" },
+        { pointId: "point-2", orderType: "DELIVERY" },
+      ],
+      categoryBinds: [{ categoryId: "cat-child", priority: 3 }],
+      tagBinds: [{ tagId: "tag-1", priority: 0 }],
+      images: [{ fileId: "file-1", priority: 0, url: "https://img/1.jpg" }],
+      variantGroup: {
+        variantPropertyBinds: [{ variantPropertyId: "prop-size", priority: 0 }],
+      },
+      variantSettings: null,
+      variants: [
+        { id: "product-1-40", name: "Pepperoni", slug: "pepperoni-40" },
+      ],
+    },
+    {
+      id: "product-1-40",
+      name: "Pepperoni",
+      slug: "pepperoni-40",
+      isActive: true,
+      unitValue: "40 cm",
+      priceSettings: { price: 70000, priceOrderTypes: [] },
+      variantSettings: {
+        isMain: false,
+        priority: 1,
+        variantPropertyBinds: [
+          {
+            variantPropertyId: "prop-size",
+            variantPropertyValueId: "value-40",
+          },
+        ],
+      },
+      variants: [],
+    },
+  ],
+};
+
+const createMockClient = (
+  operations: any[],
+  // Created entities come back without the 40 cm value and variant
+  { partial = false }: { partial?: boolean } = {}
+) => {
+  const mockLink = new ApolloLink((operation) => {
+    return new Observable((observer) => {
+      operations.push(operation);
+      const input = operation.variables.input;
+      let data: any;
+
+      switch (operation.operationName) {
+        case "GetAllBrandCategories":
+          data = { categories: [] };
+          break;
+        case "GetProductsDetail":
+          data = {
+            products: [
+              {
+                __typename: "Product",
+                id: "existing-1",
+                name: "Old pepperoni",
+                slug: "pepperoni-old",
+                description: null,
+                isActive: true,
+                brandId: "brand-target",
+                unit: null,
+                unitValue: null,
+                calories: null,
+                carbohydrates: null,
+                fats: null,
+                protein: null,
+                priceSettings,
+              },
+            ],
+          };
+          break;
+        case "GetProductVariantProperties":
+          data = { productVariantProperties: [] };
+          break;
+        case "CreateProductVariantProperty":
+          data = {
+            productVariantPropertyCreate: {
+              __typename: "ProductVariantProperty",
+              id: "new-prop",
+              name: input.name,
+              isShowName: input.isShowName,
+              displayType: input.displayType,
+              innerName: null,
+              brandId: input.brandId,
+              values: input.valuesCreate
+                .slice(0, partial ? 1 : undefined)
+                .map((value: any) => ({
+                  __typename: "ProductVariantPropertyValue",
+                  id: `new-${value.name}`,
+                  ...value,
+                })),
+            },
+          };
+          break;
+        case "CreateCategory":
+          data = {
+            categoryCreate: {
+              __typename: "Category",
+              id: `new-${input.slug}`,
+              name: input.name,
+              slug: input.slug,
+              imageUrl: null,
+              priority: 0,
+              isActive: true,
+              brandId: input.brandId,
+              parentId: input.parentId ?? null,
+              pointBinds: [],
+            },
+          };
+          break;
+        case "CreateProductFull":
+          data = {
+            productCreate: {
+              __typename: "Product",
+              id: "new-product",
+              name: input.name,
+              slug: input.slug,
+              description: null,
+              isActive: true,
+              brandId: input.brandId,
+              unit: null,
+              unitValue: null,
+              calories: null,
+              carbohydrates: null,
+              fats: null,
+              protein: null,
+              images: [],
+              tags: [],
+              tagBinds: [],
+              pointBinds: [],
+              categoryBinds: [],
+              variantGroup: null,
+              variantSettings: null,
+              variants: [
+                {
+                  __typename: "Product",
+                  id: "new-variant",
+                  name: input.name,
+                  slug: partial ? "pepperoni-xl" : "pepperoni-40",
+                  unitValue: "40 cm",
+                  isActive: true,
+                },
+              ],
+              priceSettings,
+            },
+          };
+          break;
+        case "UpdateProduct":
+          data = {
+            productUpdate: {
+              __typename: "Product",
+              id: input.id,
+              name: "Pepperoni",
+              slug: "pepperoni",
+              description: null,
+              isActive: true,
+              brandId: input.brandId,
+              unit: null,
+              unitValue: null,
+              calories: null,
+              carbohydrates: null,
+              fats: null,
+              protein: null,
+              priceSettings,
+            },
+          };
+          break;
+      }
+
+      observer.next({ data });
+      observer.complete();
+    });
+  });
+
+  return new ApolloClient({ link: mockLink, cache: new InMemoryCache() });
+};
+
+describe("Menu snapshot format", () => {
+  const snapshot = createMenuSnapshot(sourceData);
+
+  it("should store variants under their product", () => {
+    expect(snapshot.products).toHaveLength(1);
+    expect(snapshot.products[0]?.variants).toEqual([
+      {
+        id: "product-1-40",
+        name: "Pepperoni",
+        slug: "pepperoni-40",
+        isActive: true,
+        unitValue: "40 cm",
+        priceSettings: { price: 70000, priceOrderTypes: [] },
+        variantSettings: {
+          isMain: false,
+          priority: 1,
+          variantPropertyBinds: [
+            {
+              variantPropertyId: "prop-size",
+              variantPropertyValueId: "value-40",
+            },
+          ],
+        },
+      },
+    ]);
+  });
+
+  it("should round-trip through JSON and reject unknown versions", () => {
+    expect(parseMenuSnapshot(serializeMenuSnapshot(snapshot))).toEqual(
+      snapshot
+    );
+    expect(() => parseMenuSnapshot({ ...snapshot, version: 99 })).toThrow(
+      "Unsupported menu snapshot version 99"
+    );
+    expect(() => parseMenuSnapshot({ format: "other" })).toThrow(
+      "Not a menu snapshot"
+    );
+  });
+});
+
+describe("MenuSnapshotManager.importSnapshot", () => {
+  const snapshot = createMenuSnapshot(sourceData);
+
+  it("should report planned operations in dry run", async () => {
+    const operations: any[] = [];
+    const manager = new MenuSnapshotManager({
+      client: createMockClient(operations),
+    });
+
+    const report = await manager.importSnapshot(snapshot, {
+      brandId: "brand-target",
+      dryRun: true,
+      pointIdMap: { "point-1": "target-point-1" },
+    });
+
+    expect(
+      operations.every((operation) =>
+        operation.operationName.startsWith("Get")
+      )
+    ).toBe(true);
+    expect(report.operations.map((operation) => operation.kind)).toEqual([
+      "variantPropertyCreate",
+      "categoryCreate",
+      "categoryCreate",
+      "productCreate",
+    ]);
+    expect(report.idMap.categories).toEqual({
+      "cat-root": "dry-run:cat-root",
+      "cat-child": "dry-run:cat-child",
+    });
+    expect(report.warnings).toContain(
+      'Product "Pepperoni": point point-2 is not mapped'
+    );
+    expect(report.summary).toEqual({
+      created: 4,
+      updated: 0,
+      reused: 0,
+      failed: 0,
+    });
+  });
+
+  it("should create entities with remapped ids", async () => {
+    const operations: any[] = [];
+    const manager = new MenuSnapshotManager({
+      client: createMockClient(operations),
+      defaultBrandId: "brand-target",
+    });
+
+    const report = await manager.importSnapshot(
+      serializeMenuSnapshot(snapshot),
+      { pointIdMap: { "point-1": "target-point-1" } }
+    );
+
+    expect(report.errors).toEqual([]);
+    expect(report.idMap).toEqual({
+      categories: { "cat-root": "new-food", "cat-child": "new-pizza" },
+      products: { "product-1": "new-product", "product-1-40": "new-variant" },
+      variantProperties: { "prop-size": "new-prop" },
+      variantPropertyValues: {
+        "value-30": "new-30 cm",
+        "value-40": "new-40 cm",
+      },
+    });
+
+    const childCategory = operations.find(
+      (operation) =>
+        operation.operationName === "CreateCategory" &&
+        operation.variables.input.slug === "pizza"
+    );
+    expect(childCategory.variables.input).toMatchObject({
+      parentId: "new-food",
+      pointBinds: [{ pointId: "target-point-1", orderType: "DELIVERY" }],
+    });
+
+    const productInput = operations.find(
+      (operation) => operation.operationName === "CreateProductFull"
+    ).variables.input;
+    expect(productInput).toMatchObject({
+      brandId: "brand-target",
+      slug: "pepperoni",
+      categoryBinds: [{ categoryId: "new-pizza", priority: 3 }],
+      tagBindsByName: [{ name: "Spicy", priority: 0 }],
+      variantGroup: {
+        variantPropertyBinds: [{ variantPropertyId: "new-prop", priority: 0 }],
+      },
+      variantsCreate: [
+        {
+          slug: "pepperoni-40",
+          unitValue: "40 cm",
+          variantSettings: {
+            isMain: false,
+            priority: 1,
+            variantPropertyBinds: [
+              {
+                variantPropertyId: "new-prop",
+                variantPropertyValueId: "new-40 cm",
+              },
+            ],
+          },
+        },
+      ],
+    });
+    expect(productInput.priceSettings.priceOrderTypes[0].pricePoints).toEqual(
+      [{ pointId: "target-point-1", price: 51000 }]
+    );
+
+    const imageUpdate = operations.find(
+      (operation) => operation.operationName === "UpdateProduct"
+    );
+    expect(imageUpdate.variables.input).toEqual({
+      id: "new-product",
+      brandId: "brand-target",
+      images: [{ fileId: "file-1", priority: 0 }],
+    });
+  });
+
+  it("should not map ids of unmatched created entities", async () => {
+    const operations: any[] = [];
+    const manager = new MenuSnapshotManager({
+      client: createMockClient(operations, { partial: true }),
+      defaultBrandId: "brand-target",
+    });
+
+    const report = await manager.importSnapshot(snapshot, {
+      pointIdMap: { "point-1": "target-point-1" },
+    });
+
+    expect(report.idMap.variantPropertyValues).toEqual({
+      "value-30": "new-30 cm",
+    });
+    expect(report.idMap.products).toEqual({ "product-1": "new-product" });
+    expect(report.warnings).toEqual(
+      expect.arrayContaining([
+        'Variant property "Size": created value "40 cm" is not found',
+        'Product "Pepperoni": created variant pepperoni-40 is not found',
+      ])
+    );
+
+    const productInput = operations.find(
+      (operation) => operation.operationName === "CreateProductFull"
+    ).variables.input;
+    expect(
+      productInput.variantsCreate[0].variantSettings.variantPropertyBinds
+    ).toEqual([]);
+  });
+});
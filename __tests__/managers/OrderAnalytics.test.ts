@@ -0,0 +1,209 @@
+import {
+  ApolloClient,
+  InMemoryCache,
+  ApolloLink,
+  Observable,
+} from "@apollo/client";
+import {
+  OrderAnalytics,
+  computeOrderAnalytics,
+} from "../../src/managers/OrderAnalytics";
+
+const createItem = (
+  productId: string,
+  quantity: number,
+  price: number,
+  categoryId: string | null
+) => ({
+  __typename: "OrderItem",
+  id: `${productId}-${quantity}`,
+  productId,
+  name: productId,
+  quantity,
+  price,
+  imageUrl: null,
+  productVariantProperties: [],
+  categories: categoryId
+    ? [
+        {
+          __typename: "OrderItemCategory",
+          categoryId,
+          categoryName: categoryId,
+        },
+      ]
+    : [],
+  product: null,
+});
+
+const createOrder = (
+  id: string,
+  dueTime: string,
+  overrides: Record<string, any> = {}
+) => ({
+  __typename: "OrderPreOrder",
+  id,
+  number: 1,
+  type: "PICKUP",
+  status: "COMPLETE",
+  comment: null,
+  priceTotal: 100000,
+  personsNumber: null,
+  pointId: "point-1",
+  brandId: "brand-1",
+  creatorType: "EMPLOYEE",
+  creatorId: "employee-1",
+  dueTime,
+  createdTime: dueTime,
+  customerId: null,
+  customerName: null,
+  customerPhone: null,
+  items: [createItem("pizza", 2, 50000, "pizza")],
+  ...overrides,
+});
+
+const orders = [
+  createOrder("1", "2024-01-01T09:30:00Z"),
+  createOrder("2", "2024-01-01T10:15:00Z", {
+    type: "DELIVERY",
+    pointId: "point-2",
+    priceTotal: 60000,
+    items: [
+      createItem("pizza", 1, 50000, "pizza"),
+      createItem("tea", 1, 10000, null),
+    ],
+  }),
+  createOrder("3", "2024-01-08T21:30:00Z", {
+    creatorType: "CUSTOMER",
+    creatorId: "customer-1",
+    priceTotal: 20000,
+    items: [createItem("tea", 2, 10000, null)],
+  }),
+];
+
+describe("computeOrderAnalytics", () => {
+  const analytics = computeOrderAnalytics(orders, { utcOffset: 180 });
+
+  it("should compute totals", () => {
+    expect(analytics.totals).toEqual({
+      orderCount: 3,
+      revenue: 180000,
+      averageCheck: 60000,
+      itemCount: 6,
+      itemsPerOrder: 2,
+    });
+  });
+
+  it("should bucket orders in the requested time zone", () => {
+    expect(analytics.hourly).toHaveLength(24);
+    expect(analytics.hourly[12]).toMatchObject({ orderCount: 1 });
+    expect(analytics.hourly[13]).toMatchObject({ orderCount: 1 });
+    // 21:30 UTC is past midnight at UTC+3
+    expect(analytics.daily.map((bucket) => bucket.key)).toEqual([
+      "2024-01-01",
+      "2024-01-09",
+    ]);
+    expect(analytics.weekly.map((bucket) => bucket.key)).toEqual([
+      "2024-01-01",
+      "2024-01-08",
+    ]);
+  });
+
+  it("should rank products and split by dimension", () => {
+    expect(analytics.topProductsByRevenue[0]).toMatchObject({
+      productId: "pizza",
+      quantity: 3,
+      revenue: 150000,
+      orderCount: 2,
+    });
+    expect(analytics.topProductsByQuantity[0]?.productId).toBe("pizza");
+    expect(analytics.categoryMix).toEqual([
+      {
+        categoryId: "pizza",
+        categoryName: "pizza",
+        quantity: 3,
+        revenue: 150000,
+        revenueShare: 0.8333,
+      },
+      {
+        categoryId: null,
+        categoryName: null,
+        quantity: 3,
+        revenue: 30000,
+        revenueShare: 0.1667,
+      },
+    ]);
+    expect(
+      analytics.byOrderType.map((split) => [split.key, split.orderCount])
+    ).toEqual([
+      ["PICKUP", 2],
+      ["DELIVERY", 1],
+    ]);
+    expect(analytics.byPoint[0]).toMatchObject({
+      key: "point-1",
+      revenue: 120000,
+      revenueShare: 0.6667,
+    });
+    expect(analytics.byEmployee).toHaveLength(1);
+  });
+});
+
+describe("OrderAnalytics", () => {
+  it("should page through the dueTime range with items", async () => {
+    const requests: any[] = [];
+    const mockLink = new ApolloLink((operation) => {
+      return new Observable((observer) => {
+        const { after } = operation.variables.input.pagination.forward;
+        requests.push(operation.variables.input);
+        const page = after ? orders.slice(2) : orders.slice(0, 2);
+
+        observer.next({
+          data: {
+            orderConnection: {
+              __typename: "OrderConnection",
+              edges: page.map((order) => ({
+                __typename: "OrderEdge",
+                cursor: `cursor-${order.id}`,
+                order,
+              })),
+              pageInfo: {
+                __typename: "PageInfo",
+                cursorStart: `cursor-${page[0]!.id}`,
+                cursorEnd: `cursor-${page[page.length - 1]!.id}`,
+                hasNextPage: !after,
+              },
+              totalCount: orders.length,
+            },
+          },
+        });
+        observer.complete();
+      });
+    });
+
+    const service = new OrderAnalytics({
+      client: new ApolloClient({ link: mockLink, cache: new InMemoryCache() }),
+      pageSize: 2,
+    });
+
+    const result = await service.getAnalytics({
+      brandId: "brand-1",
+      from: "2024-01-01T00:00:00Z",
+      to: "2024-01-31T23:59:59Z",
+      filter: { pointsId: ["point-1", "point-2"] },
+    });
+
+    expect(result.error).toBeNull();
+    expect(result.analytics?.totals.orderCount).toBe(3);
+    expect(requests).toHaveLength(2);
+    expect(requests[0].filter).toEqual({
+      pointsId: ["point-1", "point-2"],
+      dueTime: {
+        from: "2024-01-01T00:00:00.000Z",
+        to: "2024-01-31T23:59:59.000Z",
+      },
+    });
+    expect(requests[1].pagination.forward).toEqual({
+      first: 2,
+      after: "cursor-2",
+    });
+  });
+});
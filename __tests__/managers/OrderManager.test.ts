@@ -0,0 +1,366 @@
+import {
+  ApolloClient,
+  InMemoryCache,
+  ApolloLink,
+  Observable,
+} from "@apollo/client";
+import { OrderManager } from "../../src/managers/OrderManager";
+import { createOptimizedCache } from "../../src/managers";
+import { GET_ORDER_CONNECTION } from "../../src/graphql/queries/order";
+import {
+  OrderSortStrategy,
+  OrderStatus,
+  OrderType,
+  Sort,
+} from "../../src/graphql-types";
+
+const createMockOrder = (number: number) => ({
+  __typename: "OrderPreOrder",
+  id: `order-${number}`,
+  number,
+  type: "PICKUP",
+  status: "NEW",
+  comment: null,
+  priceTotal: 1000 * number,
+  personsNumber: null,
+  pointId: "point-1",
+  brandId: "brand-1",
+  creatorType: "EMPLOYEE",
+  creatorId: "employee-1",
+  dueTime: "2024-01-01T12:00:00Z",
+  createdTime: "2024-01-01T11:00:00Z",
+  customerId: null,
+  customerName: null,
+  customerPhone: null,
+});
+
+const createConnection = (
+  numbers: number[],
+  hasNextPage: boolean,
+  totalCount = 5
+) => ({
+  __typename: "OrderConnection",
+  edges: numbers.map((number) => ({
+    __typename: "OrderEdge",
+    cursor: `cursor-${number}`,
+    order: createMockOrder(number),
+  })),
+  pageInfo: {
+    __typename: "PageInfo",
+    cursorStart: `cursor-${numbers[0]}`,
+    cursorEnd: `cursor-${numbers[numbers.length - 1]}`,
+    hasNextPage,
+  },
+  totalCount,
+});
+
+// Serves 5 orders in pages following the forward cursor
+const createPagedClient = (requests: any[] = []) => {
+  const allNumbers = [1, 2, 3, 4, 5];
+
+  const mockLink = new ApolloLink((operation) => {
+    return new Observable((observer) => {
+      const { first, after } = operation.variables.input.pagination.forward;
+      requests.push(operation.variables.input);
+
+      const start = after
+        ? allNumbers.indexOf(Number(after.replace("cursor-", ""))) + 1
+        : 0;
+      const numbers = allNumbers.slice(start, start + first);
+
+      observer.next({
+        data: {
+          orderConnection: createConnection(
+            numbers,
+            start + first < allNumbers.length
+          ),
+        },
+      });
+      observer.complete();
+    });
+  });
+
+  return new ApolloClient({
+    link: mockLink,
+    cache: new InMemoryCache(),
+  });
+};
+
+// Returns given orders and records request variables
+const createOrdersClient = (orders: any[], requests: any[] = []) => {
+  const mockLink = new ApolloLink((operation) => {
+    return new Observable((observer) => {
+      requests.push(operation.variables);
+      observer.next({ data: { orders } });
+      observer.complete();
+    });
+  });
+
+  return new ApolloClient({
+    link: mockLink,
+    cache: new InMemoryCache(),
+  });
+};
+
+describe("OrderManager", () => {
+  describe("updatePreOrder", () => {
+    it("should send only the changes needed for the desired state", async () => {
+      const operations: any[] = [];
+      const currentOrder = {
+        ...createMockOrder(1),
+        comment: "Window seat",
+        items: [
+          {
+            __typename: "OrderItem",
+            id: "item-1",
+            productId: "product-1",
+            quantity: 1,
+            price: 1000,
+            name: "Pizza",
+            imageUrl: null,
+            categories: [],
+            productVariantProperties: [],
+            product: null,
+          },
+        ],
+      };
+
+      const mockLink = new ApolloLink((operation) => {
+        return new Observable((observer) => {
+          operations.push(operation);
+          observer.next({
+            data:
+              operation.operationName === "GetOrderWithItems"
+                ? { order: currentOrder }
+                : {
+                    orderPreOrderByEmployeeUpdate: {
+                      ...currentOrder,
+                      restoplaceReserveId: null,
+                    },
+                  },
+          });
+          observer.complete();
+        });
+      });
+      const manager = new OrderManager({
+        client: new ApolloClient({
+          link: mockLink,
+          cache: new InMemoryCache(),
+        }),
+        defaultBrandId: "brand-1",
+      });
+
+      const result = await manager.updatePreOrder({
+        id: "order-1",
+        desired: {
+          items: [
+            { productId: "product-1", quantity: 1 },
+            { productId: "product-2", quantity: 2 },
+          ],
+          comment: null,
+        },
+      });
+
+      expect(result.success).toBe(true);
+      expect(operations[1].variables.input).toEqual({
+        id: "order-1",
+        brandId: "brand-1",
+        itemsAdd: [{ productId: "product-2", quantity: 2 }],
+        isCommentClear: true,
+      });
+    });
+  });
+
+  describe("getOrdersForPoint", () => {
+    it("should query orders with the full filter and sorting", async () => {
+      const requests: any[] = [];
+      const manager = new OrderManager({
+        client: createOrdersClient([createMockOrder(1)], requests),
+        defaultBrandId: "brand-1",
+      });
+
+      const result = await manager.getOrdersForPoint("point-1", {
+        statuses: [OrderStatus.New, OrderStatus.Accepted],
+        types: [OrderType.Pickup],
+        dueTime: { from: "2024-01-01T00:00:00Z" },
+        priceTotalFrom: 1000,
+        creatorEmployeesId: ["employee-1"],
+        sortStrategy: OrderSortStrategy.DueTime,
+        sort: Sort.Desc,
+      });
+
+      expect(result.error).toBeNull();
+      expect(result.orders).toHaveLength(1);
+      expect(requests[0].input).toEqual({
+        brandId: "brand-1",
+        filter: {
+          pointsId: ["point-1"],
+          statuses: ["NEW", "ACCEPTED"],
+          types: ["PICKUP"],
+          dueTime: { from: "2024-01-01T00:00:00Z" },
+          priceTotalFrom: 1000,
+          creatorEmployeesId: ["employee-1"],
+        },
+        sortStrategy: "DUE_TIME",
+        sort: "DESC",
+      });
+    });
+
+    it("should map legacy filter aliases", () => {
+      const manager = new OrderManager({ client: createOrdersClient([]) });
+
+      expect(
+        manager.buildOrdersInput("brand-1", {
+          status: ["READY"],
+          employeeId: "employee-1",
+          dateRange: { from: "2024-01-01", to: "2024-01-02" },
+        })
+      ).toEqual({
+        brandId: "brand-1",
+        filter: {
+          statuses: ["READY"],
+          creatorEmployeesId: ["employee-1"],
+          dueTime: { from: "2024-01-01", to: "2024-01-02" },
+        },
+      });
+      expect(
+        manager.buildOrdersInput("brand-1", { brandsId: ["brand-1"] })
+      ).toEqual({ brandId: "brand-1" });
+      expect(() =>
+        manager.buildOrdersInput("brand-1", {
+          brandsId: ["brand-1", "brand-2"],
+        })
+      ).toThrow(
+        "Orders are queried for one brand, got brandsId brand-2 besides brand-1"
+      );
+    });
+
+    it("should require brandId", async () => {
+      const manager = new OrderManager({ client: createOrdersClient([]) });
+
+      await expect(manager.getOrdersForPoint("point-1")).rejects.toThrow(
+        "brandId is required"
+      );
+    });
+  });
+
+  describe("getOrdersPage", () => {
+    it("should request a forward page with filter and sort", async () => {
+      const requests: any[] = [];
+      const manager = new OrderManager({
+        client: createPagedClient(requests),
+        defaultBrandId: "brand-1",
+      });
+
+      const page = await manager.getOrdersPage({
+        first: 2,
+        filter: { pointsId: ["point-1"] },
+        sortStrategy: OrderSortStrategy.Number,
+      });
+
+      expect(page.orders.map((order) => order.number)).toEqual([1, 2]);
+      expect(page.totalCount).toBe(5);
+      expect(page.pageInfo.cursorEnd).toBe("cursor-2");
+      expect(requests[0]).toEqual({
+        brandId: "brand-1",
+        filter: { pointsId: ["point-1"] },
+        pagination: { forward: { first: 2 } },
+        sortStrategy: "NUMBER",
+      });
+    });
+
+    it("should require brandId", async () => {
+      const manager = new OrderManager({ client: createPagedClient() });
+
+      await expect(manager.getOrdersPage()).rejects.toThrow(
+        "brandId is required"
+      );
+    });
+  });
+
+  describe("iterateOrders", () => {
+    it("should walk every page following cursors", async () => {
+      const requests: any[] = [];
+      const manager = new OrderManager({
+        client: createPagedClient(requests),
+        defaultBrandId: "brand-1",
+      });
+
+      const numbers: number[] = [];
+      for await (const order of manager.iterateOrders({ first: 2 })) {
+        numbers.push(order.number);
+      }
+
+      expect(numbers).toEqual([1, 2, 3, 4, 5]);
+      expect(
+        requests.map((input) => input.pagination.forward.after)
+      ).toEqual([undefined, "cursor-2", "cursor-4"]);
+    });
+  });
+
+  describe("orderConnection cache policy", () => {
+    const variables = (pagination: any, pointId = "point-1") => ({
+      input: {
+        brandId: "brand-1",
+        filter: { pointsId: [pointId] },
+        pagination,
+      },
+    });
+
+    it("should append forward pages and prepend backward pages", () => {
+      const cache = createOptimizedCache();
+
+      cache.writeQuery({
+        query: GET_ORDER_CONNECTION,
+        variables: variables({ forward: { first: 2 } }),
+        data: { orderConnection: createConnection([2, 3], true) },
+      });
+      cache.writeQuery({
+        query: GET_ORDER_CONNECTION,
+        variables: variables({ forward: { first: 2, after: "cursor-3" } }),
+        data: { orderConnection: createConnection([4, 5], false) },
+      });
+      cache.writeQuery({
+        query: GET_ORDER_CONNECTION,
+        variables: variables({ backward: { last: 2, before: "cursor-2" } }),
+        data: { orderConnection: createConnection([1], false) },
+      });
+
+      const result: any = cache.readQuery({
+        query: GET_ORDER_CONNECTION,
+        variables: variables({ forward: { first: 2 } }),
+      });
+
+      expect(
+        result.orderConnection.edges.map((edge: any) => edge.order.number)
+      ).toEqual([1, 2, 3, 4, 5]);
+      expect(result.orderConnection.pageInfo).toMatchObject({
+        cursorStart: "cursor-1",
+        cursorEnd: "cursor-5",
+      });
+    });
+
+    it("should keep separate lists per filter", () => {
+      const cache = createOptimizedCache();
+
+      cache.writeQuery({
+        query: GET_ORDER_CONNECTION,
+        variables: variables({ forward: { first: 2 } }),
+        data: { orderConnection: createConnection([1, 2], true) },
+      });
+      cache.writeQuery({
+        query: GET_ORDER_CONNECTION,
+        variables: variables({ forward: { first: 2 } }, "point-2"),
+        data: { orderConnection: createConnection([3], false, 1) },
+      });
+
+      const result: any = cache.readQuery({
+        query: GET_ORDER_CONNECTION,
+        variables: variables({ forward: { first: 2 } }),
+      });
+
+      expect(result.orderConnection.edges).toHaveLength(2);
+      expect(result.orderConnection.totalCount).toBe(5);
+    });
+  });
+});
@@ -0,0 +1,86 @@
+import {
+  OrderStatusMachine,
+  orderStatusMachine,
+} from "../../src/managers/OrderStatusMachine";
+import { OrderStatus, OrderType } from "../../src/graphql-types";
+
+const createOrder = (status: OrderStatus, type = OrderType.Pickup) => ({
+  status,
+  type,
+  items: [{ id: "item-1" }],
+});
+
+describe("OrderStatusMachine", () => {
+  it("should follow the pickup flow", () => {
+    const order = createOrder(OrderStatus.Ready);
+
+    expect(orderStatusMachine.transition(order, "COMPLETE")).toEqual({
+      allowed: true,
+      from: OrderStatus.Ready,
+      to: OrderStatus.Complete,
+    });
+    expect(orderStatusMachine.transition(order, "SUBMIT").allowed).toBe(false);
+  });
+
+  it("should require submitting delivery orders before completing", () => {
+    const order = createOrder(OrderStatus.Ready, OrderType.Delivery);
+
+    expect(orderStatusMachine.getAvailableStatuses(order)).toEqual([
+      OrderStatus.Submitted,
+    ]);
+    expect(orderStatusMachine.transition(order, "COMPLETE")).toMatchObject({
+      allowed: false,
+      reason: "Cannot move order from READY to COMPLETE",
+    });
+  });
+
+  it("should not mark an order without items as ready", () => {
+    const order = { ...createOrder(OrderStatus.Prepared), items: [] };
+
+    expect(orderStatusMachine.transition(order, "MARK_READY")).toMatchObject({
+      allowed: false,
+      reason: "Cannot move order to READY without items",
+    });
+  });
+
+  it("should run custom guards", () => {
+    const machine = new OrderStatusMachine();
+    const removeGuard = machine.addGuard((_, { to }) =>
+      to === OrderStatus.Accepted ? "Point is closed" : null
+    );
+    const order = createOrder(OrderStatus.New);
+
+    expect(() => machine.assertTransition(order, OrderStatus.Accepted)).toThrow(
+      "Point is closed"
+    );
+
+    removeGuard();
+    expect(machine.transition(order, "ACCEPT").allowed).toBe(true);
+  });
+
+  it("should reject unknown statuses", () => {
+    expect(
+      orderStatusMachine.canTransition(createOrder(OrderStatus.New), "PENDING")
+    ).toMatchObject({ allowed: false, to: null });
+  });
+
+  it("should build a localized status flow", () => {
+    const flow = orderStatusMachine.getStatusFlow(OrderType.Pickup, "en");
+
+    expect(flow.statuses.map((status) => status.value)).toEqual([
+      OrderStatus.New,
+      OrderStatus.Accepted,
+      OrderStatus.Prepared,
+      OrderStatus.Ready,
+      OrderStatus.Complete,
+    ]);
+    expect(flow.statuses[0]).toEqual({
+      value: OrderStatus.New,
+      label: "New",
+      color: "blue",
+    });
+    expect(orderStatusMachine.getStatusInfo(OrderStatus.Ready).label).toBe(
+      "Готов"
+    );
+  });
+});
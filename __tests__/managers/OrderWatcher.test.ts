@@ -0,0 +1,153 @@
+import { ApolloClient, ApolloLink, InMemoryCache } from "@apollo/client";
+import {
+  OrderWatcher,
+  createPollingOrderTransport,
+  diffOrderSnapshots,
+  type OrderFeedTransport,
+  type VisibilitySource,
+} from "../../src/managers/OrderWatcher";
+
+const createOrder = (id: string, status = "NEW", quantity = 1) => ({
+  id,
+  status,
+  items: [{ id: `${id}-item`, productId: "product-1", quantity }],
+});
+
+// Transport driven by the test
+const createManualTransport = () => {
+  let push: (orders: any[]) => void = () => {};
+
+  const transport: OrderFeedTransport = {
+    subscribe: ({ next }) => {
+      push = next;
+      return () => {
+        push = () => {};
+      };
+    },
+  };
+
+  return { transport, push: (orders: any[]) => push(orders) };
+};
+
+const createFakeVisibility = () => {
+  let hidden = false;
+  const listeners = new Set<() => void>();
+
+  const visibility: VisibilitySource = {
+    isHidden: () => hidden,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+
+  return {
+    visibility,
+    setHidden: (value: boolean) => {
+      hidden = value;
+      listeners.forEach((listener) => listener());
+    },
+  };
+};
+
+describe("diffOrderSnapshots", () => {
+  it("should detect created, changed and removed orders", () => {
+    const events = diffOrderSnapshots(
+      [createOrder("1"), createOrder("2"), createOrder("3")],
+      [
+        createOrder("1", "ACCEPTED"),
+        createOrder("2", "NEW", 2),
+        createOrder("4"),
+      ]
+    );
+
+    expect(events.map((event) => [event.type, event.order.id])).toEqual([
+      ["orderStatusChanged", "1"],
+      ["orderItemsChanged", "2"],
+      ["orderCreated", "4"],
+      ["orderRemoved", "3"],
+    ]);
+    expect(events[0]).toMatchObject({
+      previousStatus: "NEW",
+      status: "ACCEPTED",
+    });
+  });
+});
+
+describe("OrderWatcher", () => {
+  const client = new ApolloClient({
+    link: ApolloLink.empty(),
+    cache: new InMemoryCache(),
+  });
+
+  it("should use the first result as baseline and emit typed events", () => {
+    const { transport, push } = createManualTransport();
+    const watcher = new OrderWatcher({
+      client,
+      brandId: "brand-1",
+      pointId: "point-1",
+      transport,
+    });
+    const created = jest.fn();
+    const all = jest.fn();
+
+    watcher.on("orderCreated", created);
+    watcher.onEvent(all);
+    watcher.start();
+
+    push([createOrder("1")]);
+    expect(all).not.toHaveBeenCalled();
+
+    push([createOrder("1"), createOrder("2")]);
+    expect(created).toHaveBeenCalledWith({
+      type: "orderCreated",
+      order: createOrder("2"),
+    });
+    expect(watcher.getOrders()).toHaveLength(2);
+
+    watcher.stop();
+    push([]);
+    expect(all).toHaveBeenCalledTimes(1);
+    expect(watcher.isRunning()).toBe(false);
+  });
+});
+
+describe("createPollingOrderTransport", () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("should slow down while hidden and poll once visible again", async () => {
+    const fetchOrders = jest.fn().mockResolvedValue([]);
+    const { visibility, setHidden } = createFakeVisibility();
+    const transport = createPollingOrderTransport({
+      fetchOrders,
+      interval: 1000,
+      hiddenInterval: 10000,
+      visibility,
+    });
+
+    const stop = transport.subscribe({ next: jest.fn(), error: jest.fn() });
+    await jest.advanceTimersByTimeAsync(0);
+    expect(fetchOrders).toHaveBeenCalledTimes(1);
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(fetchOrders).toHaveBeenCalledTimes(2);
+
+    setHidden(true);
+    await jest.advanceTimersByTimeAsync(5000);
+    expect(fetchOrders).toHaveBeenCalledTimes(2);
+
+    setHidden(false);
+    await jest.advanceTimersByTimeAsync(0);
+    expect(fetchOrders).toHaveBeenCalledTimes(3);
+
+    stop();
+    await jest.advanceTimersByTimeAsync(20000);
+    expect(fetchOrders).toHaveBeenCalledTimes(3);
+  });
+});
@@ -0,0 +1,175 @@
+import {
+  ApolloClient,
+  InMemoryCache,
+  ApolloLink,
+  Observable,
+} from "@apollo/client";
+import {
+  applyAvailabilityEdits,
+  buildAvailabilityMatrix,
+  getAvailabilityCell,
+  getAvailabilityUpdates,
+} from "../../src/utils/availabilityMatrix";
+import { MenuManager } from "../../src/managers/MenuManager";
+import { OrderType } from "../../src/graphql-types";
+
+const source = {
+  brandId: "brand-1",
+  orderTypes: [OrderType.Delivery, OrderType.Pickup],
+  points: [
+    { id: "point-1", name: "Center", cityId: "city-1" },
+    { id: "point-2", name: "Mall", cityId: "city-2" },
+  ],
+  categories: [
+    {
+      id: "cat-pizza",
+      pointBinds: [
+        { pointId: "point-1", orderType: OrderType.Delivery },
+        { pointId: "point-2", orderType: OrderType.Pickup },
+      ],
+    },
+  ],
+  products: [
+    {
+      id: "pepperoni",
+      name: "Pepperoni",
+      slug: "pepperoni",
+      isActive: true,
+      categoryBinds: [{ categoryId: "cat-pizza", priority: 0 }],
+      pointBinds: [
+        { pointId: "point-1", orderType: OrderType.Delivery },
+        { pointId: "point-3", orderType: OrderType.Delivery },
+      ],
+      priceSettings: {
+        price: 50000,
+        priceOrderTypes: [
+          {
+            orderType: OrderType.Delivery,
+            priceCommon: 55000,
+            priceCities: [{ cityId: "city-2", price: 53000 }],
+            pricePoints: [],
+          },
+        ],
+      },
+    },
+    {
+      id: "tea",
+      name: "Tea",
+      slug: "tea",
+      isActive: true,
+      categoryBinds: [],
+      pointBinds: [{ pointId: "point-2", orderType: OrderType.Pickup }],
+      priceSettings: { price: 10000, priceOrderTypes: [] },
+    },
+  ],
+};
+
+describe("Availability matrix", () => {
+  const matrix = buildAvailabilityMatrix(source);
+
+  it("should build a cell per product, point and order type", () => {
+    expect(matrix.columns.map((column) => column.key)).toEqual([
+      "point-1:DELIVERY",
+      "point-1:PICKUP",
+      "point-2:DELIVERY",
+      "point-2:PICKUP",
+    ]);
+    expect(matrix.rows[0]?.otherPointBinds).toEqual([
+      { pointId: "point-3", orderType: OrderType.Delivery },
+    ]);
+
+    expect(
+      getAvailabilityCell(matrix, "pepperoni", "point-1", OrderType.Delivery)
+    ).toMatchObject({
+      available: true,
+      categoryAvailable: true,
+      price: 55000,
+      priceRule: "ORDER_TYPE",
+    });
+    expect(
+      getAvailabilityCell(matrix, "pepperoni", "point-2", OrderType.Delivery)
+    ).toMatchObject({
+      available: false,
+      categoryAvailable: false,
+      price: 53000,
+      priceRule: "CITY",
+    });
+    expect(
+      getAvailabilityCell(matrix, "tea", "point-2", OrderType.Pickup)
+    ).toMatchObject({
+      available: true,
+      categoryAvailable: false,
+      price: 10000,
+    });
+  });
+
+  it("should emit pointBinds only for changed products", () => {
+    const edited = applyAvailabilityEdits(matrix, [
+      {
+        pointIds: ["point-2"],
+        orderTypes: [OrderType.Pickup],
+        available: true,
+      },
+      { productIds: ["pepperoni"], pointIds: ["point-1"], available: false },
+    ]);
+
+    expect(getAvailabilityUpdates(matrix, edited)).toEqual([
+      {
+        id: "pepperoni",
+        brandId: "brand-1",
+        pointBinds: [
+          { pointId: "point-3", orderType: OrderType.Delivery },
+          { pointId: "point-2", orderType: OrderType.Pickup },
+        ],
+      },
+    ]);
+
+    // Edits that end where they started produce no update
+    const reverted = applyAvailabilityEdits(edited, [
+      { productIds: ["pepperoni"], pointIds: ["point-2"], available: false },
+      {
+        productIds: ["pepperoni"],
+        pointIds: ["point-1"],
+        orderTypes: [OrderType.Delivery],
+        available: true,
+      },
+    ]);
+    expect(getAvailabilityUpdates(matrix, reverted)).toEqual([]);
+  });
+
+  it("should save changed products through MenuManager", async () => {
+    const inputs: any[] = [];
+    const mockLink = new ApolloLink((operation) => {
+      return new Observable((observer) => {
+        const { input } = operation.variables;
+        inputs.push(input);
+        observer.next({
+          data: {
+            productUpdate: {
+              __typename: "Product",
+              id: input.id,
+              pointBinds: input.pointBinds.map((bind: any) => ({
+                __typename: "ProductPointBind",
+                ...bind,
+              })),
+            },
+          },
+        });
+        observer.complete();
+      });
+    });
+
+    const manager = new MenuManager({
+      client: new ApolloClient({ link: mockLink, cache: new InMemoryCache() }),
+    });
+    const edited = applyAvailabilityEdits(matrix, [
+      { productIds: ["tea"], available: true },
+    ]);
+
+    const result = await manager.saveAvailabilityMatrix(matrix, edited);
+
+    expect(result).toMatchObject({ updated: ["tea"], failed: [], error: null });
+    expect(inputs).toHaveLength(1);
+    expect(inputs[0].pointBinds).toHaveLength(4);
+  });
+});
@@ -0,0 +1,104 @@
+import {
+  getProductAllergenInfo,
+  getProductTaxonomyCodes,
+  resolveAllergenFilter,
+  type TaxonomyMapping,
+} from "../../src/utils/menuAllergens";
+import {
+  decodeMenuFilter,
+  encodeMenuFilter,
+} from "../../src/utils/menuFilterUrl";
+import { matchesMenuFilter } from "../../src/utils/menuFacets";
+
+const tags = {
+  milk: { id: "t-milk", name: "Молоко" },
+  nuts: { id: "t-nuts", name: "орехи " },
+  hot: { id: "t-hot", name: "Очень острое" },
+  chili: { id: "t-chili", name: "🌶🌶🌶" },
+  vegan: { id: "t-vegan", name: "Vegan" },
+  cheese: { id: "t-cheese", name: "Сырное" },
+  gf: { id: "t-gf", name: "Без глютена" },
+};
+
+const products = [
+  { id: "latte", name: "Латте", tags: [tags.milk] },
+  { id: "baklava", name: "Пахлава", tags: [tags.nuts, tags.milk] },
+  { id: "tom-yum", name: "Том ям", tags: [tags.hot, tags.chili] },
+  { id: "salad", name: "Салат", tags: [tags.vegan, tags.gf] },
+  { id: "pizza", name: "Пицца", tags: [tags.cheese] },
+];
+
+const allTags = Object.values(tags);
+
+describe("Menu allergens", () => {
+  it("should map tags by aliases and brand mapping", () => {
+    expect(getProductTaxonomyCodes(products[1])).toEqual(["milk", "nuts"]);
+    // "Без глютена" is not the gluten allergen
+    expect(getProductTaxonomyCodes(products[3])).toEqual(["vegan"]);
+
+    const mapping: TaxonomyMapping = { "t-chili": "spicy-3", сырное: ["milk"] };
+    expect(getProductTaxonomyCodes(products[2], { mapping })).toEqual([
+      "spicy-2",
+      "spicy-3",
+    ]);
+    expect(getProductTaxonomyCodes(products[4], { mapping })).toEqual([
+      "milk",
+    ]);
+    expect(getProductTaxonomyCodes(products[0], { aliases: false })).toEqual(
+      []
+    );
+  });
+
+  it("should translate excluded allergens to tagsIdNotAny", () => {
+    const filters = resolveAllergenFilter(
+      { excludeAllergens: ["milk"], tagsIdNotAny: ["t-hot"] },
+      allTags,
+      { mapping: { "t-cheese": "milk" } }
+    );
+
+    expect(filters).toEqual({
+      tagsIdNotAny: ["t-hot", "t-milk", "t-cheese"],
+    });
+    expect(
+      products
+        .filter((product) => matchesMenuFilter(product, filters))
+        .map((product) => product.id)
+    ).toEqual(["salad"]);
+    expect(
+      resolveAllergenFilter({ excludeAllergens: ["lupin"] }, allTags)
+    ).toEqual({});
+
+    const params = encodeMenuFilter({ excludeAllergens: ["milk", "nuts"] });
+    expect(params).toEqual({ v: "1", al: "milk,nuts" });
+    expect(decodeMenuFilter("al=milk,spicy-1").issues).toEqual([
+      'Invalid menu filter parameter "al": unknown allergen',
+    ]);
+  });
+
+  it("should list badges and warnings for the product card", () => {
+    expect(
+      getProductAllergenInfo(products[1], { avoid: ["nuts", "fish"] })
+    ).toEqual({
+      allergens: [
+        { code: "milk", label: "Молоко", icon: "allergen-milk" },
+        { code: "nuts", label: "Орехи", icon: "allergen-nuts" },
+      ],
+      diets: [],
+      spicy: null,
+      conflicts: ["nuts"],
+      warnings: ["Не подходит, содержит: орехи", "Содержит: молоко, орехи"],
+    });
+
+    const tomYum = getProductAllergenInfo(products[2], { locale: "en" });
+    expect(tomYum.spicy).toEqual({
+      code: "spicy-2",
+      label: "Very spicy",
+      icon: "spicy-2",
+      level: 2,
+    });
+    expect(tomYum.warnings).toEqual(["Very spicy"]);
+    expect(getProductAllergenInfo(products[3]).diets).toEqual([
+      { code: "vegan", label: "Веганское", icon: "diet-vegan" },
+    ]);
+  });
+});
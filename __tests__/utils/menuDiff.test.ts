@@ -0,0 +1,293 @@
+import {
+  ApolloClient,
+  InMemoryCache,
+  ApolloLink,
+  Observable,
+} from "@apollo/client";
+import {
+  diffMenus,
+  renderMenuDiffHtml,
+  renderMenuDiffText,
+} from "../../src/utils/menuDiff";
+import { MenuManager } from "../../src/managers/MenuManager";
+
+const snapshot = {
+  label: "Snapshot",
+  tags: [
+    { id: "tag-spicy", name: "Spicy" },
+    { id: "tag-vegan", name: "Vegan" },
+  ],
+  categories: [
+    { id: "cat-pizza", name: "Pizza", slug: "pizza", priority: 1 },
+    { id: "cat-soup", name: "Soups", slug: "soups", priority: 2 },
+    { id: "cat-old", name: "Old", slug: "old", priority: 3 },
+  ],
+  products: [
+    {
+      id: "pepperoni",
+      name: "Pepperoni",
+      slug: "pepperoni",
+      priceSettings: {
+        price: 50000,
+        priceOrderTypes: [
+          {
+            orderType: "DELIVERY",
+            priceCommon: null,
+            priceCities: [],
+            pricePoints: [{ pointId: "point-1", price: 52000 }],
+          },
+        ],
+      },
+      pointBinds: [
+        { pointId: "point-1", orderType: "DELIVERY" },
+        { pointId: "point-1", orderType: "PICKUP" },
+      ],
+      categoryBinds: [{ categoryId: "cat-pizza", priority: 1 }],
+      tagBinds: [{ tagId: "tag-spicy", priority: 0 }],
+    },
+    {
+      id: "borsch",
+      name: "Borsch",
+      slug: "borsch",
+      priceSettings: { price: 30000, priceOrderTypes: [] },
+      pointBinds: [{ pointId: "point-1", orderType: "DELIVERY" }],
+      categoryBinds: [{ categoryId: "cat-soup", priority: 0 }],
+      tagBinds: [{ tagId: "tag-vegan", priority: 0 }],
+    },
+    {
+      id: "kompot",
+      name: "Kompot",
+      slug: "kompot",
+      priceSettings: { price: 10000, priceOrderTypes: [] },
+      pointBinds: [{ pointId: "point-1", orderType: "DELIVERY" }],
+      categoryBinds: [],
+      tagBinds: [],
+    },
+  ],
+};
+
+const liveMenu = {
+  label: "Live",
+  pointId: "point-1",
+  orderType: "DELIVERY",
+  categories: [
+    { id: "cat-pizza", name: "Pizza", slug: "pizza", priority: 2 },
+    { id: "cat-soup-new", name: "Супы", slug: "soups", priority: 1 },
+  ],
+  products: [
+    {
+      id: "pepperoni",
+      name: "Pepperoni",
+      slug: "pepperoni",
+      pricePoint: 55000,
+      pointBinds: [{ pointId: "point-1", orderType: "DELIVERY" }],
+      categoryBinds: [{ categoryId: "cat-pizza", priority: 4 }],
+      tags: [
+        { id: "tag-spicy", name: "Spicy" },
+        { id: "tag-hit", name: "Hit" },
+      ],
+    },
+    {
+      id: "borsch-2",
+      name: "Borsch with cream",
+      slug: "borsch",
+      pricePoint: 30000,
+      pointBinds: [{ pointId: "point-1", orderType: "DELIVERY" }],
+      categoryBinds: [
+        { categoryId: "cat-soup-new", priority: 0 },
+        { categoryId: "cat-pizza", priority: 9 },
+      ],
+      tags: [{ id: "tag-vegan", name: "Vegan" }],
+    },
+    {
+      id: "lemonade",
+      name: "Lemonade",
+      slug: "lemonade",
+      pricePoint: 15000,
+      pointBinds: [{ pointId: "point-1", orderType: "DELIVERY" }],
+      categoryBinds: [],
+      tags: [],
+    },
+  ],
+};
+
+describe("diffMenus", () => {
+  const diff = diffMenus(snapshot, liveMenu);
+
+  it("should report added, removed, renamed and reordered entities", () => {
+    expect(diff.categories.added).toEqual([]);
+    expect(diff.categories.removed).toEqual([
+      { id: "cat-old", name: "Old", slug: "old" },
+    ]);
+    expect(diff.categories.renamed).toEqual([
+      {
+        id: "cat-soup-new",
+        beforeId: "cat-soup",
+        name: "Супы",
+        slug: "soups",
+        previousName: "Soups",
+      },
+    ]);
+    expect(
+      diff.categories.reordered.map((item) => [
+        item.id,
+        item.before,
+        item.after,
+      ])
+    ).toEqual([
+      ["cat-pizza", 1, 2],
+      ["cat-soup-new", 2, 1],
+    ]);
+
+    expect(diff.products.added.map((item) => item.id)).toEqual(["lemonade"]);
+    expect(diff.products.removed.map((item) => item.id)).toEqual(["kompot"]);
+    expect(diff.products.renamed).toMatchObject([
+      { id: "borsch-2", beforeId: "borsch", previousName: "Borsch" },
+    ]);
+    expect(diff.products.reordered).toMatchObject([
+      { id: "pepperoni", categoryId: "cat-pizza", before: 1, after: 4 },
+    ]);
+    expect(diff.products.moved).toMatchObject([
+      { id: "borsch-2", addedCategories: ["Pizza"], removedCategories: [] },
+    ]);
+  });
+
+  it("should compare prices, availability and tags", () => {
+    expect(diff.prices).toMatchObject([
+      {
+        id: "pepperoni",
+        pointId: "point-1",
+        orderType: "DELIVERY",
+        before: 52000,
+        after: 55000,
+        difference: 3000,
+      },
+    ]);
+    expect(diff.availability).toMatchObject([
+      {
+        id: "pepperoni",
+        pointId: "point-1",
+        orderType: "PICKUP",
+        available: false,
+      },
+    ]);
+    expect(diff.tags).toMatchObject([
+      { id: "pepperoni", addedTags: ["Hit"], removedTags: [] },
+    ]);
+    expect(diff.summary).toEqual({
+      categoriesAdded: 0,
+      categoriesRemoved: 1,
+      categoriesChanged: 2,
+      productsAdded: 1,
+      productsRemoved: 1,
+      productsChanged: 2,
+      priceChanges: 1,
+      availabilityChanges: 1,
+    });
+    expect(diff.hasChanges).toBe(true);
+  });
+
+  it("should compare effective prices of two points", () => {
+    const pointDiff = diffMenus(
+      { ...liveMenu, label: "Point 1" },
+      {
+        ...liveMenu,
+        label: "Point 2",
+        pointId: "point-2",
+        products: liveMenu.products.map((product) => ({
+          ...product,
+          pricePoint: product.pricePoint + 1000,
+        })),
+      }
+    );
+
+    expect(pointDiff.availability).toEqual([]);
+    expect(pointDiff.prices).toHaveLength(3);
+    expect(pointDiff.prices[0]).not.toHaveProperty("pointId");
+    expect(pointDiff.prices[0]).toMatchObject({ before: 55000, after: 56000 });
+  });
+
+  it("should render text and HTML reports", () => {
+    const text = renderMenuDiffText(diff, { locale: "en" });
+
+    expect(text).toContain("Menu changes: Snapshot → Live");
+    expect(text).toContain("  ~ Soups → Супы (renamed)");
+    expect(text).toContain(
+      "  Pepperoni (point-1 / DELIVERY): 520 ₽ → 550 ₽ (+30 ₽)"
+    );
+    expect(text).toContain(
+      "  - Pepperoni: unavailable (point-1 / PICKUP)"
+    );
+    expect(text).toContain("  Pepperoni: +Hit");
+
+    const html = renderMenuDiffHtml(diff);
+    expect(html).toContain(
+      '<li class="menu-diff__change menu-diff__change--added">+ Lemonade</li>'
+    );
+    expect(html).toContain("<h2>Цены</h2>");
+
+    expect(renderMenuDiffText(diffMenus(liveMenu, liveMenu))).toBe(
+      "Изменения меню: Live → Live\nИзменений нет"
+    );
+  });
+});
+
+describe("MenuManager.compareMenus", () => {
+  it("should load both order types and diff them", async () => {
+    const requests: any[] = [];
+    const mockLink = new ApolloLink((operation) => {
+      return new Observable((observer) => {
+        const { orderType } = operation.variables;
+        requests.push(operation.variables);
+
+        observer.next({
+          data: {
+            categories: [],
+            products: [
+              {
+                __typename: "Product",
+                id: "pepperoni",
+                name: "Pepperoni",
+                slug: "pepperoni",
+                description: null,
+                isActive: true,
+                unit: null,
+                unitValue: null,
+                calories: null,
+                protein: null,
+                fats: null,
+                carbohydrates: null,
+                images: [],
+                pointBinds: [],
+                categoryBinds: [],
+                tags: [],
+                pricePoint: orderType === "DELIVERY" ? 55000 : 50000,
+              },
+            ],
+          },
+        });
+        observer.complete();
+      });
+    });
+
+    const manager = new MenuManager({
+      client: new ApolloClient({ link: mockLink, cache: new InMemoryCache() }),
+      defaultBrandId: "brand-1",
+      defaultPointId: "point-1",
+    });
+
+    const result = await manager.compareMenus({
+      before: { orderType: "PICKUP" },
+      after: { orderType: "DELIVERY" },
+    });
+
+    expect(result.error).toBeNull();
+    expect(requests.map((variables) => variables.orderType)).toEqual([
+      "PICKUP",
+      "DELIVERY",
+    ]);
+    expect(result.diff?.prices).toMatchObject([
+      { id: "pepperoni", before: 50000, after: 55000, difference: 5000 },
+    ]);
+  });
+});
@@ -0,0 +1,222 @@
+import {
+  ApolloClient,
+  InMemoryCache,
+  ApolloLink,
+  Observable,
+} from "@apollo/client";
+import {
+  buildFacetBuckets,
+  computeMenuFacets,
+  matchesTagFilters,
+} from "../../src/utils/menuFacets";
+import { MenuManager } from "../../src/managers/MenuManager";
+import { ProductUnit } from "../../src/graphql-types";
+
+const categories = [
+  { id: "pizza", name: "Pizza" },
+  { id: "salads", name: "Salads" },
+];
+
+const spicy = { id: "spicy", name: "Spicy" };
+const vegan = { id: "vegan", name: "Vegan" };
+
+const products = [
+  {
+    id: "pepperoni",
+    name: "Pepperoni",
+    pricePoint: 55000,
+    calories: 850,
+    unit: ProductUnit.Gram,
+    tags: [spicy],
+    categoryBinds: [{ categoryId: "pizza", priority: 0 }],
+  },
+  {
+    id: "veggie",
+    name: "Veggie pizza",
+    pricePoint: 45000,
+    calories: 620,
+    unit: ProductUnit.Gram,
+    tags: [vegan],
+    categoryBinds: [{ categoryId: "pizza", priority: 1 }],
+  },
+  {
+    id: "greek",
+    name: "Greek salad",
+    pricePoint: 32000,
+    calories: 310,
+    unit: ProductUnit.Portion,
+    tags: [vegan, spicy],
+    categoryBinds: [{ categoryId: "salads", priority: 0 }],
+  },
+  {
+    id: "lemonade",
+    name: "Lemonade",
+    pricePoint: 15000,
+    calories: null,
+    unit: ProductUnit.Milliliters,
+    tags: [],
+    categoryBinds: [],
+  },
+];
+
+const counts = (
+  values: Array<{ value?: string; key?: string; count: number }>
+) =>
+  Object.fromEntries(
+    values.map((value) => [value.value ?? value.key, value.count])
+  );
+
+describe("Menu facets", () => {
+  it("should build inclusive buckets between boundaries", () => {
+    expect(buildFacetBuckets([60000, 30000])).toEqual([
+      { key: "-29999", max: 29999 },
+      { key: "30000-59999", min: 30000, max: 59999 },
+      { key: "60000-", min: 60000 },
+    ]);
+  });
+
+  it("should count every value with the full menu", () => {
+    const facets = computeMenuFacets({ products, categories });
+
+    expect(facets.total).toBe(4);
+    expect(counts(facets.categories)).toEqual({ pizza: 2, salads: 1 });
+    expect(facets.tags.map((tag) => [tag.label, tag.count])).toEqual([
+      ["Spicy", 2],
+      ["Vegan", 2],
+    ]);
+    expect(facets.units[0]).toEqual({
+      value: "GRAM",
+      label: "г",
+      count: 2,
+      selected: false,
+    });
+    expect(counts(facets.price)).toEqual({
+      "-29999": 1,
+      "30000-59999": 3,
+      "60000-99999": 0,
+      "100000-": 0,
+    });
+    expect(counts(facets.calories)).toEqual({
+      "-199": 0,
+      "200-399": 1,
+      "400-599": 0,
+      "600-": 2,
+    });
+  });
+
+  it("should exclude each facet's own dimension", () => {
+    const facets = computeMenuFacets(
+      { products, categories },
+      {
+        categoryId: "pizza",
+        tagsIdAny: ["vegan"],
+        priceRange: { min: 30000, max: 59999 },
+      }
+    );
+
+    expect(facets.total).toBe(1);
+    // Tag counts ignore tagsIdAny but keep the category and price
+    expect(counts(facets.tags)).toEqual({ spicy: 1, vegan: 1 });
+    expect(facets.tags.find((tag) => tag.value === "vegan")?.selected).toBe(
+      true
+    );
+    // Category counts ignore categoryId
+    expect(counts(facets.categories)).toEqual({ pizza: 1, salads: 1 });
+    // Price buckets ignore priceRange
+    expect(facets.price.find((bucket) => bucket.selected)?.count).toBe(1);
+
+    const excluded = computeMenuFacets(
+      { products, categories },
+      { tagsIdNotAny: ["spicy"], caloriesRange: { min: 200 } }
+    );
+    expect(excluded.total).toBe(1);
+    expect(counts(excluded.calories)["-199"]).toBe(0);
+    // Exclusions are part of the tag dimension too
+    expect(counts(excluded.tags)).toEqual({ spicy: 2, vegan: 2 });
+  });
+
+  it("should keep applyMenuFilters tag semantics", () => {
+    const greek = products[2];
+
+    expect(matchesTagFilters(greek, { tagsIdAll: ["vegan", "spicy"] })).toBe(
+      true
+    );
+    expect(
+      matchesTagFilters(greek, { tagsIdNotAll: ["vegan", "spicy"] })
+    ).toBe(false);
+    expect(matchesTagFilters(greek, { tagsIdNotAll: ["vegan", "hit"] })).toBe(
+      true
+    );
+    expect(matchesTagFilters(greek, { tagIds: ["hit"] })).toBe(false);
+  });
+});
+
+describe("MenuManager.getFilteredMenu facets", () => {
+  it("should return facets next to the filtered products", async () => {
+    const mockLink = new ApolloLink(() => {
+      return new Observable((observer) => {
+        observer.next({
+          data: {
+            categories: categories.map((category) => ({
+              __typename: "Category",
+              ...category,
+              slug: category.id,
+              imageUrl: null,
+              priority: 0,
+              isActive: true,
+              brandId: "brand-1",
+              parentId: null,
+              pointBinds: [],
+              productsCount: 1,
+            })),
+            products: products.map((product) => ({
+              __typename: "Product",
+              ...product,
+              slug: product.id,
+              description: null,
+              isActive: true,
+              unitValue: 100,
+              protein: null,
+              fats: null,
+              carbohydrates: null,
+              images: [],
+              pointBinds: [],
+              tags: product.tags.map((tag) => ({
+                __typename: "ProductTag",
+                ...tag,
+              })),
+              categoryBinds: product.categoryBinds.map((bind) => ({
+                __typename: "ProductCategoryBind",
+                ...bind,
+              })),
+            })),
+          },
+        });
+        observer.complete();
+      });
+    });
+
+    const manager = new MenuManager({
+      client: new ApolloClient({ link: mockLink, cache: new InMemoryCache() }),
+      defaultBrandId: "brand-1",
+      defaultPointId: "point-1",
+      defaultOrderType: "DELIVERY",
+    });
+
+    const result = await manager.getFilteredMenu({
+      filters: { tagsIdAny: ["spicy"], units: [ProductUnit.Gram] },
+    });
+
+    expect(result.error).toBeNull();
+    expect(result.products.map((product) => product.id)).toEqual([
+      "pepperoni",
+    ]);
+    expect(result.facets?.total).toBe(1);
+    expect(counts(result.facets!.units)).toEqual({
+      GRAM: 1,
+      PORTION: 1,
+      MILLILITERS: 0,
+    });
+    expect(counts(result.facets!.tags)).toEqual({ spicy: 1, vegan: 1 });
+  });
+});
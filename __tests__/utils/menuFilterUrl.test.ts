@@ -0,0 +1,100 @@
+import {
+  decodeMenuFilter,
+  encodeMenuFilter,
+  mergeMenuFilterSearch,
+  type MenuFilterUrlState,
+} from "../../src/utils/menuFilterUrl";
+import { ProductUnit } from "../../src/graphql-types";
+
+describe("Menu filter URL", () => {
+  it("should round-trip the full filter state through compact params", () => {
+    const filters: MenuFilterUrlState = {
+      searchTerm: "борщ",
+      categoryId: "soups",
+      tagsIdAny: ["vegan", "spicy"],
+      tagsIdNotAny: ["nuts"],
+      priceRange: { min: 20000 },
+      caloriesRange: { min: 100, max: 400 },
+      units: [ProductUnit.Gram, ProductUnit.Portion],
+      nutrition: {
+        basis: "per100g",
+        protein: { min: 12.5 },
+        lowCarb: true,
+      },
+      dietaryProfile: { id: "keto" },
+      sortBy: "price",
+      sortOrder: "desc",
+      isVariantsGroup: true,
+      variantsGroupStrategy: "PRIORITY_MIN",
+      variantsGroupByPrice: {
+        type: "MIN",
+        pointId: "p1",
+        orderType: "DELIVERY",
+      },
+    };
+
+    const params = encodeMenuFilter(filters);
+    expect(params).toEqual({
+      v: "1",
+      q: "борщ",
+      c: "soups",
+      tn: "vegan,spicy",
+      xn: "nuts",
+      p: "20000-",
+      kc: "100-400",
+      u: "GRAM,PORTION",
+      n: "b:per100g;p:12.5-;lc:1",
+      d: "keto",
+      s: "price",
+      o: "d",
+      vg: "PRIORITY_MIN",
+      vp: "MIN:p1:DELIVERY",
+    });
+
+    const decoded = decodeMenuFilter(new URLSearchParams(params));
+    expect(decoded.issues).toEqual([]);
+    expect(decoded.version).toBe(1);
+    expect(decoded.filters).toEqual({ ...filters, dietaryProfile: "keto" });
+    expect(encodeMenuFilter({})).toEqual({});
+  });
+
+  it("should drop invalid params and report them", () => {
+    const { filters, issues } = decodeMenuFilter(
+      "?p=500-100&u=GRAM,CUPS&s=random&ta=a,b&c=<script>&q=%20pizza%20"
+    );
+
+    expect(filters).toEqual({ searchTerm: "pizza", tagsIdAll: ["a", "b"] });
+    expect(issues).toEqual([
+      'Invalid menu filter parameter "c": expected an id',
+      'Invalid menu filter parameter "p": expected a range like 100-500',
+      'Invalid menu filter parameter "u": unknown unit',
+      'Invalid menu filter parameter "s": unknown sort random',
+    ]);
+
+    expect(decodeMenuFilter("v=2&q=pizza")).toMatchObject({
+      filters: {},
+      version: null,
+    });
+    expect(() => decodeMenuFilter("kc=abc", { strict: true })).toThrow(
+      'Invalid menu filter parameter "kc": expected a range like 100-500'
+    );
+  });
+
+  it("should replace only filter params in a query string", () => {
+    const search = "?utm_source=qr&mf_q=old&mf_s=name&table=12";
+
+    expect(
+      mergeMenuFilterSearch(
+        search,
+        { categoriesId: ["a", "b"], sortBy: "name" },
+        { prefix: "mf_" }
+      )
+    ).toBe("utm_source=qr&table=12&mf_v=1&mf_cs=a,b&mf_s=name");
+    expect(mergeMenuFilterSearch(search, {}, { prefix: "mf_" })).toBe(
+      "utm_source=qr&table=12"
+    );
+    expect(
+      decodeMenuFilter(search, { prefix: "mf_" }).filters
+    ).toEqual({ searchTerm: "old", sortBy: "name" });
+  });
+});
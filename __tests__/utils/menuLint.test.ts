@@ -0,0 +1,220 @@
+import {
+  getMenuLintFixes,
+  lintMenu,
+  type MenuLintRule,
+} from "../../src/utils/menuLint";
+import { OrderType, ProductUnit } from "../../src/graphql-types";
+
+const delivery = { pointId: "p1", orderType: OrderType.Delivery };
+const pickup = { pointId: "p1", orderType: OrderType.Pickup };
+
+const category = (id: string, extra = {}) => ({
+  id,
+  name: id,
+  slug: id,
+  isActive: true,
+  parentId: null,
+  priority: 0,
+  pointBinds: [delivery],
+  ...extra,
+});
+
+const product = (id: string, categoryId: string | null, extra = {}) => ({
+  id,
+  name: id,
+  slug: id,
+  description: `${id} description`,
+  isActive: true,
+  unit: ProductUnit.Gram,
+  unitValue: "250",
+  images: [{ fileId: `${id}-image`, priority: 0, url: `${id}.jpg` }],
+  pointBinds: [delivery],
+  categoryBinds: categoryId ? [{ categoryId, priority: 0 }] : [],
+  priceSettings: { price: 35000, priceOrderTypes: [] },
+  variants: [],
+  ...extra,
+});
+
+const source = {
+  brandId: "brand-1",
+  categories: [
+    category("kitchen"),
+    category("soups", { parentId: "kitchen", pointBinds: [] }),
+    category("archive", { isActive: false }),
+    category("seasonal", { parentId: "archive" }),
+    category("drinks", { slug: "soups", pointBinds: [pickup] }),
+  ],
+  products: [
+    product("borscht", "soups"),
+    product("salad", "kitchen", {
+      description: " ",
+      images: [],
+      unitValue: null,
+      pointBinds: [delivery, pickup],
+      priceSettings: {
+        price: 0,
+        priceOrderTypes: [
+          {
+            orderType: OrderType.Delivery,
+            priceCommon: 42000,
+            priceCities: [],
+            pricePoints: [],
+          },
+        ],
+      },
+    }),
+    product("pizza", "kitchen", {
+      variantSettings: { isMain: false, priority: 1 },
+      variants: [{ id: "pizza-30" }],
+    }),
+    product("pizza-30", "kitchen", {
+      name: "pizza",
+      unit: ProductUnit.Pieces,
+      unitValue: "1",
+      variantSettings: { isMain: false, priority: 0 },
+    }),
+    product("bread", null, { name: "Borscht " }),
+  ],
+};
+
+describe("Menu lint", () => {
+  it("should report issues with rule ids, severities and entities", () => {
+    const report = lintMenu(source);
+
+    expect(
+      report.issues.map((issue) => [
+        issue.ruleId,
+        issue.severity,
+        issue.entityIds,
+      ])
+    ).toEqual([
+      ["product-missing-image", "warning", ["salad"]],
+      ["product-missing-description", "info", ["salad"]],
+      ["product-missing-price", "error", ["salad"]],
+      ["product-uncategorized", "warning", ["bread"]],
+      ["product-category-unbound", "error", ["borscht", "soups"]],
+      ["product-category-unbound", "error", ["salad", "kitchen"]],
+      ["category-empty", "warning", ["seasonal"]],
+      ["category-empty", "warning", ["drinks"]],
+      ["category-inactive-parent", "warning", ["seasonal", "archive"]],
+      ["duplicate-name", "warning", ["borscht", "bread"]],
+      ["duplicate-slug", "error", ["drinks", "soups"]],
+      ["variant-missing-main", "error", ["pizza", "pizza-30"]],
+      ["unit-inconsistent", "warning", ["salad"]],
+      ["unit-inconsistent", "warning", ["pizza", "pizza-30"]],
+    ]);
+    expect(report.issues[2]).toMatchObject({
+      message: 'Product "salad" has no price for PICKUP at point p1',
+      pointId: "p1",
+      orderType: OrderType.Pickup,
+    });
+    expect(report.counts).toEqual({ error: 5, warning: 8, info: 1 });
+    expect(report.passed).toBe(false);
+    expect(report.recommendations).toContain(
+      "Add pricing information to all products"
+    );
+  });
+
+  it("should produce merged mutation inputs for fixable issues", () => {
+    const catalog = {
+      ...source,
+      products: [
+        ...source.products,
+        product("okroshka", "soups", { pointBinds: [pickup] }),
+      ],
+    };
+    const fixes = getMenuLintFixes(lintMenu(catalog).issues);
+
+    expect(fixes.categories).toEqual([
+      { id: "soups", brandId: "brand-1", pointBinds: [delivery, pickup] },
+      {
+        id: "kitchen",
+        brandId: "brand-1",
+        pointBinds: [delivery, pickup],
+      },
+      { id: "seasonal", brandId: "brand-1", isActive: false },
+      {
+        id: "drinks",
+        brandId: "brand-1",
+        isActive: false,
+        slug: "soups-2",
+      },
+    ]);
+    expect(fixes.products).toEqual([
+      {
+        id: "pizza",
+        brandId: "brand-1",
+        variants: [{ id: "pizza-30", variantSettings: { isMain: true } }],
+      },
+      { id: "salad", brandId: "brand-1", isUnitRemove: true },
+    ]);
+  });
+
+  it("should apply rule sets, overrides, scope and custom rules", () => {
+    const noSpicy: MenuLintRule = {
+      id: "brand/no-spicy-soups",
+      severity: "info",
+      description: "Soups should not be spicy",
+      check: ({ products }) =>
+        products
+          .filter((item) => item.id === "borscht")
+          .map((item) => ({
+            message: "Too spicy",
+            entityType: "product",
+            entityIds: [item.id],
+          })),
+    };
+
+    const report = lintMenu(source, {
+      ruleSet: "storefront",
+      rules: {
+        "product-missing-description": "off",
+        "product-missing-image": "error",
+      },
+      customRules: [noSpicy],
+      pointId: "p1",
+      orderType: OrderType.Delivery,
+    });
+
+    expect(report.rules).toEqual({
+      "product-missing-image": "error",
+      "product-missing-price": "error",
+      "product-uncategorized": "warning",
+      "product-category-unbound": "error",
+      "category-empty": "warning",
+      "unit-inconsistent": "warning",
+      "brand/no-spicy-soups": "info",
+    });
+    expect(
+      report.issues
+        .filter((issue) => issue.ruleId === "product-category-unbound")
+        .map((issue) => issue.entityIds[0])
+    ).toEqual(["borscht"]);
+    expect(
+      report.issues.some((issue) => issue.ruleId === "product-missing-price")
+    ).toBe(false);
+    expect(report.issues[report.issues.length - 1]?.message).toBe(
+      "Too spicy"
+    );
+
+    expect(
+      lintMenu(
+        {
+          categories: [
+            category("a", { parentId: "b" }),
+            category("b", { parentId: "a" }),
+            category("c", { parentId: "gone" }),
+          ],
+          products: [],
+        },
+        { ruleSet: "structure" }
+      ).issues.map((issue) => [issue.ruleId, issue.entityIds, !!issue.fix])
+    ).toEqual([
+      ["category-orphaned", ["c"], false],
+      ["category-circular", ["a", "b"], false],
+    ]);
+    expect(() => lintMenu(source, { ruleSet: "pedantic" })).toThrow(
+      "Unknown menu lint rule set: pedantic"
+    );
+  });
+});
@@ -0,0 +1,146 @@
+import {
+  getProductNutrition,
+  getProductWeight,
+  matchesDietaryProfile,
+  matchesNutritionFilter,
+} from "../../src/utils/menuNutrition";
+import { computeMenuFacets } from "../../src/utils/menuFacets";
+import { ProductUnit } from "../../src/graphql-types";
+
+const steak = {
+  id: "steak",
+  name: "Стейк",
+  unit: ProductUnit.Gram,
+  unitValue: "250",
+  calories: 600,
+  protein: 55,
+  fats: 40,
+  carbohydrates: 0,
+  tags: [],
+  categoryBinds: [],
+};
+
+const salad = {
+  id: "salad",
+  name: "Салат",
+  unit: ProductUnit.Gram,
+  unitValue: "150/50",
+  calories: 200,
+  protein: 6,
+  fats: 8,
+  carbohydrates: 24,
+  tags: [{ id: "tag-veg", name: "Вегетарианское" }],
+  categoryBinds: [],
+};
+
+const juice = {
+  id: "juice",
+  name: "Сок",
+  unit: ProductUnit.Liters,
+  unitValue: "0,5",
+  calories: 220,
+  protein: 2,
+  fats: 0,
+  carbohydrates: 50,
+  tags: [{ id: "tag-veg", name: "Вегетарианское" }],
+  categoryBinds: [],
+};
+
+const dumplings = {
+  id: "dumplings",
+  name: "Пельмени",
+  unit: ProductUnit.Pieces,
+  unitValue: "12",
+  calories: 480,
+  protein: 22,
+  fats: 20,
+  carbohydrates: 50,
+  tags: [],
+  categoryBinds: [],
+};
+
+describe("Nutrition normalization", () => {
+  it("should derive portion weight from unit and unitValue", () => {
+    expect(getProductWeight(steak)).toBe(250);
+    expect(getProductWeight(salad)).toBe(200);
+    expect(getProductWeight(juice)).toBe(500);
+    expect(getProductWeight(dumplings)).toBeNull();
+  });
+
+  it("should convert between portion and per 100 g", () => {
+    expect(getProductNutrition(steak, "per100g")).toEqual({
+      calories: 240,
+      protein: 22,
+      fats: 16,
+      carbohydrates: 0,
+    });
+    expect(
+      getProductNutrition({ ...salad, calories: 90 }, "portion", "per100g")
+    ).toMatchObject({ calories: 180 });
+    expect(getProductNutrition(dumplings, "per100g").calories).toBeNull();
+    expect(getProductNutrition(dumplings).calories).toBe(480);
+  });
+});
+
+describe("Nutrition filters", () => {
+  it("should apply ranges and thresholds in the requested basis", () => {
+    expect(matchesNutritionFilter(steak, { calories: { max: 500 } })).toBe(
+      false
+    );
+    expect(
+      matchesNutritionFilter(steak, {
+        basis: "per100g",
+        calories: { max: 250 },
+      })
+    ).toBe(true);
+    expect(matchesNutritionFilter(steak, { highProtein: true })).toBe(true);
+    expect(matchesNutritionFilter(salad, { highProtein: true })).toBe(false);
+    expect(
+      matchesNutritionFilter(salad, { basis: "per100g", lowCarb: 12 })
+    ).toBe(true);
+    // Unknown weight fails per 100 g constraints
+    expect(
+      matchesNutritionFilter(dumplings, { basis: "per100g", lowCarb: true })
+    ).toBe(false);
+  });
+
+  it("should combine nutrition and tag rules in dietary profiles", () => {
+    expect(matchesDietaryProfile(steak, "sport")).toBe(true);
+    expect(matchesDietaryProfile(salad, "sport")).toBe(false);
+    expect(matchesDietaryProfile(salad, "light")).toBe(true);
+    expect(matchesDietaryProfile(juice, "vegetarian")).toBe(true);
+    expect(matchesDietaryProfile(steak, "unknown")).toBe(false);
+
+    const leanVeg = {
+      id: "leanVeg",
+      name: "Lean veg",
+      nutrition: { calories: { max: 210 } },
+      tags: { all: ["tag-veg"] },
+    };
+    expect(matchesDietaryProfile(salad, leanVeg)).toBe(true);
+    expect(matchesDietaryProfile(juice, leanVeg)).toBe(false);
+  });
+
+  it("should filter and count menus by profile", () => {
+    const products = [steak, salad, juice, dumplings];
+    const facets = computeMenuFacets(
+      { products, categories: [] },
+      { dietaryProfile: "lunch", units: [ProductUnit.Gram] },
+      {
+        dietaryProfiles: {
+          lunch: {
+            id: "lunch",
+            name: "Lunch",
+            nutrition: { calories: { min: 300 } },
+          },
+        },
+      }
+    );
+
+    expect(facets.total).toBe(1);
+    // The unit facet keeps the profile but not the unit filter
+    expect(
+      Object.fromEntries(facets.units.map((unit) => [unit.value, unit.count]))
+    ).toEqual({ GRAM: 1, PIECES: 1, LITERS: 0 });
+  });
+});
@@ -0,0 +1,148 @@
+import {
+  buildMenuPrintDocument,
+  renderMenuPrintDocumentHtml,
+  renderMenuPrintHtml,
+} from "../../src/utils/menuPrint";
+import { ProductUnit } from "../../src/graphql-types";
+
+const categories = [
+  { id: "drinks", name: "Напитки", priority: 2, parentId: null },
+  { id: "kitchen", name: "Кухня", priority: 1, parentId: null },
+  { id: "soups", name: "Супы", priority: 2, parentId: "kitchen" },
+  { id: "salads", name: "Салаты", priority: 1, parentId: "kitchen" },
+  { id: "empty", name: "Пусто", priority: 0, parentId: null },
+];
+
+const product = (id: string, categoryId: string | null, extra = {}) => ({
+  id,
+  name: id,
+  description: null,
+  unit: ProductUnit.Gram,
+  unitValue: "250",
+  calories: null,
+  protein: null,
+  fats: null,
+  carbohydrates: null,
+  pricePoint: 35000,
+  categoryBinds: categoryId ? [{ categoryId, priority: 0 }] : [],
+  ...extra,
+});
+
+const products = [
+  product("Борщ", "soups", {
+    description: "Со сметаной & зеленью",
+    calories: 320,
+    protein: 14,
+    fats: 12,
+    carbohydrates: 30,
+  }),
+  product("Цезарь", "salads", { pricePoint: 45050 }),
+  product("Морс", "drinks", {
+    unit: ProductUnit.Milliliters,
+    unitValue: "300",
+  }),
+  product("Хлеб", null, { unitValue: null }),
+];
+
+describe("Menu print", () => {
+  it("should order sections by hierarchy and format items", () => {
+    const document = buildMenuPrintDocument(
+      { categories, products },
+      { orderType: "DELIVERY", title: "Ресторан" }
+    );
+    const sections = document.pages.flatMap((page) => page.sections);
+
+    expect(sections.map((section) => [section.title, section.depth])).toEqual(
+      [
+        ["Кухня", 0],
+        ["Салаты", 1],
+        ["Супы", 1],
+        ["Напитки", 0],
+        ["Другое", 0],
+      ]
+    );
+    expect(sections[2]?.items[0]).toEqual({
+      id: "Борщ",
+      name: "Борщ",
+      description: "Со сметаной & зеленью",
+      unit: "250 г",
+      nutrition: "320 ккал · Б 14 г · Ж 12 г · У 30 г",
+      price: "350 ₽",
+    });
+    expect(sections[1]?.items[0]?.price).toBe("450,50 ₽");
+    expect(sections[4]?.items[0]).not.toHaveProperty("unit");
+    expect(document.orderType).toBe("Доставка");
+    expect(document.columns).toBe(2);
+  });
+
+  it("should split pages and continue sections", () => {
+    const many = Array.from({ length: 9 }, (_, index) =>
+      product(`Блюдо ${index + 1}`, "soups")
+    );
+    const document = buildMenuPrintDocument(
+      { categories, products: many },
+      { columns: 1, linesPerColumn: 6 }
+    );
+
+    expect(
+      document.pages.map((page) =>
+        page.sections.map(
+          (section) =>
+            `${section.title}${section.continued ? "+" : ""}:` +
+            section.items.length
+        )
+      )
+    ).toEqual([
+      ["Кухня:0", "Супы:2"],
+      ["Супы+:4"],
+      ["Супы+:3"],
+    ]);
+
+    // The page 1 header takes 3 lines of the 8
+    const titled = buildMenuPrintDocument(
+      { categories, products: many },
+      { columns: 1, linesPerColumn: 8, title: "Ресторан" }
+    );
+    expect(
+      titled.pages.map((page) =>
+        page.sections.reduce((sum, section) => sum + section.items.length, 0)
+      )
+    ).toEqual([1, 6, 2]);
+  });
+
+  it("should render themed HTML pages and price lists", () => {
+    const html = renderMenuPrintHtml(
+      { categories, products },
+      { title: "Ресторан", theme: "modern", columns: 3, pageSize: "A5" }
+    );
+
+    expect(html).toMatch(/^<!DOCTYPE html>/);
+    expect(html).toContain("@page { size: A5; margin: 12mm; }");
+    expect(html).toContain("column-count: 3;");
+    expect(html).toContain(
+      '<body class="menu-print menu-print--menu menu-print--modern">'
+    );
+    expect(html).toContain('<h1 class="menu-print__title">Ресторан</h1>');
+    expect(html).toContain("Со сметаной &amp; зеленью");
+    expect(html).toContain('<footer class="menu-print__footer">Стр. 1 / 1');
+
+    const priceList = renderMenuPrintHtml(
+      { categories, products },
+      { layout: "priceList", locale: "en" }
+    );
+    expect(priceList).toContain(
+      "<tr><td>Морс</td><td>300 мл</td><td>350 ₽</td></tr>"
+    );
+    expect(priceList).not.toContain('<p class="menu-print__description">');
+    expect(priceList).toContain("<h2>Other</h2>");
+    expect(priceList).toContain('<html lang="en">');
+    expect(
+      renderMenuPrintDocumentHtml(
+        buildMenuPrintDocument(
+          { categories, products },
+          { layout: "priceList", locale: "en" }
+        )
+      )
+    ).toBe(priceList);
+  });
+});
@@ -0,0 +1,114 @@
+import {
+  buildMenuDeepLink,
+  buildTableQrSheet,
+  createMenuQrCode,
+  parseMenuDeepLink,
+  renderTableQrSheetDocumentHtml,
+  renderTableQrSheetHtml,
+} from "../../src/utils/menuQr";
+import { OrderType } from "../../src/graphql-types";
+
+const baseUrl = "https://menu.example.com/r/";
+const point = "7f3c2a10-0000-4000-8000-000000000001";
+
+describe("Menu QR", () => {
+  it("should build and parse menu deep links", () => {
+    const url = buildMenuDeepLink(baseUrl, {
+      brandSlug: "burger-house",
+      pointId: point,
+      orderType: OrderType.OnTable,
+      table: 12,
+      params: { utm_source: "qr", table: "99" },
+    });
+
+    expect(url).toBe(
+      `https://menu.example.com/r/burger-house?point=${point}` +
+        "&type=ON_TABLE&table=12&utm_source=qr"
+    );
+    expect(parseMenuDeepLink(url, baseUrl)).toEqual({
+      brandSlug: "burger-house",
+      pointId: point,
+      orderType: OrderType.OnTable,
+      table: "12",
+      params: { utm_source: "qr" },
+    });
+    expect(parseMenuDeepLink(url, "https://other.example.com")).toBeNull();
+    expect(parseMenuDeepLink("not a url")).toBeNull();
+    expect(
+      parseMenuDeepLink(
+        `https://menu.example.com/r/burger-house?point=${point}&type=ON_TABLE`
+      )
+    ).toBeNull();
+
+    expect(() =>
+      buildMenuDeepLink(baseUrl, {
+        brandSlug: "burger-house",
+        pointId: point,
+        orderType: OrderType.OnTable,
+      })
+    ).toThrow("Table number is required for ON_TABLE menu links");
+    expect(() =>
+      buildMenuDeepLink(baseUrl, {
+        brandSlug: "burger house",
+        pointId: point,
+        orderType: OrderType.Pickup,
+      })
+    ).toThrow("Invalid brand slug: burger house");
+  });
+
+  it("should create SVG and PNG codes for a link", () => {
+    const code = createMenuQrCode(baseUrl, {
+      brandSlug: "burger-house",
+      pointId: point,
+      orderType: OrderType.Delivery,
+    });
+
+    expect(code.url).toBe(
+      `https://menu.example.com/r/burger-house?point=${point}&type=DELIVERY`
+    );
+    expect(code.svg).toContain(`<title>${code.url.replace(/&/g, "&amp;")}`);
+    expect(code.png).toMatch(/^data:image\/png;base64,/);
+  });
+
+  it("should lay out a printable sheet of table codes", () => {
+    const options = {
+      baseUrl,
+      brandSlug: "burger-house",
+      pointId: point,
+      tables: { from: 1, to: 7 },
+      title: "Burger House",
+      pointName: "Арбат",
+      pointAddress: "Москва, ул. Арбат, 10",
+      columns: 2,
+      rows: 2,
+    };
+    const sheet = buildTableQrSheet(options);
+
+    expect(sheet.pages.map((page) => page.map((item) => item.label))).toEqual([
+      ["Стол 1", "Стол 2", "Стол 3", "Стол 4"],
+      ["Стол 5", "Стол 6", "Стол 7"],
+    ]);
+    expect(sheet.pages[1]![2]!.url).toContain("&table=7");
+    // Sized by the sheet CSS
+    expect(sheet.pages[0]![0]!.svg).toMatch(
+      /^<svg xmlns="http:\/\/www\.w3\.org\/2000\/svg" viewBox=/
+    );
+
+    const html = renderTableQrSheetHtml({
+      ...options,
+      locale: "en",
+      tables: ["A1", "VIP"],
+    });
+    expect(html).toContain("grid-template-columns: repeat(2, 1fr)");
+    expect(html).toContain(
+      '<h1 class="table-qr__title">Burger House · Арбат</h1>'
+    );
+    expect(html).toContain('<div class="table-qr__label">Table VIP</div>');
+    expect(html.match(/Москва, ул\. Арбат, 10/g)).toHaveLength(2);
+    expect(html.match(/class="table-qr__page"/g)).toHaveLength(1);
+    expect(html).toContain('<html lang="en">');
+    expect(renderTableQrSheetDocumentHtml(sheet)).toContain(
+      '<section class="table-qr__page" data-page="2">'
+    );
+  });
+});
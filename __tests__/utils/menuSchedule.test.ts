@@ -0,0 +1,137 @@
+import {
+  applyMenuSchedule,
+  getNextScheduleChange,
+  getProductScheduleStatus,
+  type MenuScheduleConfig,
+} from "../../src/utils/menuSchedule";
+
+// Europe/Moscow is UTC+3 without DST, 2026-10-19 is a Monday
+const schedule: MenuScheduleConfig = {
+  version: 1,
+  timezone: "Europe/Moscow",
+  rules: [
+    {
+      id: "breakfast",
+      categoryIds: ["breakfast"],
+      windows: [{ from: "08:00", to: "11:00" }],
+    },
+    {
+      id: "lunch",
+      tagIds: ["lunch"],
+      windows: [{ from: "12:00", to: "16:00" }],
+    },
+    {
+      id: "happy-hour",
+      tagIds: ["happy"],
+      windows: [{ days: [4, 5], from: "22:00", to: "02:00" }],
+    },
+  ],
+};
+
+const categories = [
+  { id: "breakfast", name: "Завтраки" },
+  { id: "mains", name: "Основное" },
+];
+
+const products = [
+  { id: "omelette", categoryBinds: [{ categoryId: "breakfast" }], tags: [] },
+  {
+    id: "soup",
+    categoryBinds: [{ categoryId: "mains" }],
+    tags: [{ id: "lunch" }],
+  },
+  {
+    id: "cocktail",
+    categoryBinds: [{ categoryId: "mains" }],
+    tags: [{ id: "happy" }],
+  },
+  { id: "steak", categoryBinds: [{ categoryId: "mains" }], tags: [] },
+];
+
+const product = (id: string) => products.find((item) => item.id === id)!;
+
+describe("Menu schedule", () => {
+  it("should report availability with the next window label", () => {
+    const at = new Date("2026-10-19T07:00:00Z");
+
+    expect(
+      getProductScheduleStatus(product("omelette"), schedule, { at })
+    ).toEqual({
+      available: true,
+      ruleIds: ["breakfast"],
+      availableFrom: null,
+      availableUntil: new Date("2026-10-19T08:00:00Z"),
+      label: null,
+    });
+
+    const soup = getProductScheduleStatus(product("soup"), schedule, { at });
+    expect(soup.available).toBe(false);
+    expect(soup.availableFrom).toEqual(new Date("2026-10-19T09:00:00Z"));
+    expect(soup.label).toBe("Доступно с 12:00");
+
+    expect(
+      getProductScheduleStatus(product("cocktail"), schedule, {
+        at,
+        locale: "en",
+      }).label
+    ).toBe("Available from Fri 22:00");
+    expect(
+      getProductScheduleStatus(product("steak"), schedule, { at }).ruleIds
+    ).toEqual([]);
+  });
+
+  it("should keep overnight windows open past midnight", () => {
+    // Saturday 01:00 in Moscow, inside the Friday window
+    const status = getProductScheduleStatus(product("cocktail"), schedule, {
+      at: new Date("2026-10-23T22:00:00Z"),
+    });
+
+    expect(status.available).toBe(true);
+    expect(status.availableUntil).toEqual(new Date("2026-10-23T23:00:00Z"));
+  });
+
+  it("should hide or mark products outside their windows", () => {
+    const at = new Date("2026-10-19T10:00:00Z");
+    const hidden = applyMenuSchedule({ categories, products }, schedule, {
+      at,
+    });
+
+    expect(hidden.products.map((item) => item.id)).toEqual(["soup", "steak"]);
+    expect(hidden.categories.map((item) => item.id)).toEqual(["mains"]);
+
+    const marked = applyMenuSchedule({ categories, products }, schedule, {
+      at,
+      mode: "mark",
+    });
+    expect(marked.categories).toHaveLength(2);
+    expect(
+      marked.products.map((item: any) => item.scheduleStatus.label)
+    ).toEqual(["Доступно с вт 08:00", null, "Доступно с пт 22:00", null]);
+  });
+
+  it("should give the next change time", () => {
+    expect(
+      getNextScheduleChange({ products }, schedule, {
+        at: new Date("2026-10-19T07:00:00Z"),
+      })
+    ).toEqual(new Date("2026-10-19T08:00:00Z"));
+    expect(
+      getNextScheduleChange({ products: [product("steak")] }, schedule)
+    ).toBeNull();
+  });
+
+  it("should reject malformed times", () => {
+    expect(() =>
+      getProductScheduleStatus(product("omelette"), {
+        ...schedule,
+        rules: [
+          {
+            id: "bad",
+            categoryIds: ["breakfast"],
+            windows: [{ from: "8", to: "11:00" }],
+          },
+        ],
+      })
+    ).toThrow("Invalid schedule time: 8");
+  });
+});
@@ -0,0 +1,185 @@
+import {
+  ApolloClient,
+  InMemoryCache,
+  ApolloLink,
+  Observable,
+} from "@apollo/client";
+import {
+  MenuSearchIndex,
+  normalizeSearchText,
+  stemRussian,
+  transliterateToCyrillic,
+  transliterateToLatin,
+} from "../../src/utils/menuSearch";
+import { MenuManager } from "../../src/managers/MenuManager";
+
+const categories = [
+  { id: "soups", name: "Супы" },
+  { id: "drinks", name: "Напитки" },
+];
+
+const products = [
+  {
+    id: "borsch",
+    name: "Борщ с говядиной",
+    description: "Наваристый, со сметаной",
+    tags: [{ id: "hit", name: "Хит" }],
+    categoryBinds: [{ categoryId: "soups", priority: 0 }],
+  },
+  {
+    id: "cappuccino",
+    name: "Капучино",
+    slug: "cappuccino-classic",
+    description: "Кофе с молоком",
+    tags: [],
+    categoryBinds: [{ categoryId: "drinks", priority: 0 }],
+  },
+  {
+    id: "hedgehogs",
+    name: "Ёжики",
+    description: "Тефтели в томатном соусе",
+    tags: [{ id: "spicy", name: "Острое" }],
+    categoryBinds: [],
+  },
+];
+
+describe("Search text processing", () => {
+  it("should fold ё, transliterate and stem", () => {
+    expect(normalizeSearchText("Ёжики, 2 шт.")).toBe("ежики 2 шт");
+    expect(transliterateToLatin("борщ")).toBe("borshch");
+    expect(transliterateToCyrillic("borsch")).toBe("борщ");
+    expect(stemRussian("борща")).toBe("борщ");
+    expect(stemRussian("острый")).toBe(stemRussian("острое"));
+    expect(stemRussian("прочитав")).toBe("прочита");
+    expect(stemRussian("читающий")).toBe("чита");
+  });
+});
+
+describe("MenuSearchIndex", () => {
+  const index = new MenuSearchIndex();
+  index.sync({ products, categories });
+
+  const ids = (query: string) => index.search(query).map((hit) => hit.id);
+
+  it("should match word forms, transliteration, typos and prefixes", () => {
+    expect(ids("борща")).toEqual(["borsch"]);
+    expect(ids("borsch")).toEqual(["borsch"]);
+    expect(ids("борш")).toEqual(["borsch"]);
+    expect(ids("капучинно")).toEqual(["cappuccino"]);
+    expect(ids("kapuchino")).toEqual(["cappuccino"]);
+    expect(ids("ежики")).toEqual(["hedgehogs"]);
+    expect(ids("тефт")).toEqual(["hedgehogs"]);
+    expect(ids("острый")).toEqual(["hedgehogs"]);
+    expect(ids("кофе молоко")).toEqual(["cappuccino"]);
+    expect(ids("кофе борщ")).toEqual([]);
+  });
+
+  it("should rank fields by weight", () => {
+    const hits = index.search("напитки");
+
+    expect(hits.map((hit) => [hit.type, hit.id])).toEqual([
+      ["category", "drinks"],
+      ["product", "cappuccino"],
+    ]);
+    expect(hits[1]?.matches).toEqual([
+      { query: "напитки", field: "category", kind: "exact" },
+    ]);
+    expect(index.search("хит")[0]?.matches[0]?.field).toBe("tags");
+    expect(index.search("classic")[0]?.matches[0]?.field).toBe("slug");
+  });
+
+  it("should re-index only changed documents", () => {
+    const incremental = new MenuSearchIndex();
+    expect(incremental.sync({ products, categories })).toEqual({
+      added: 5,
+      updated: 0,
+      removed: 0,
+    });
+
+    const changed = [
+      { ...products[0], name: "Солянка" },
+      { ...products[1], price: 25000 },
+    ];
+    expect(incremental.sync({ products: changed, categories })).toEqual({
+      added: 0,
+      updated: 1,
+      removed: 1,
+    });
+    expect(incremental.search("борщ")).toEqual([]);
+    expect(incremental.search("солянка")[0]?.id).toBe("borsch");
+    expect(incremental.search("капучино")[0]?.item.price).toBe(25000);
+  });
+});
+
+describe("MenuManager.searchMenu", () => {
+  it("should find products by transliterated terms", async () => {
+    const mockLink = new ApolloLink(() => {
+      return new Observable((observer) => {
+        observer.next({
+          data: {
+            categories: categories.map((category) => ({
+              __typename: "Category",
+              ...category,
+              slug: category.id,
+              imageUrl: null,
+              priority: 0,
+              isActive: true,
+              brandId: "brand-1",
+              parentId: null,
+              pointBinds: [],
+              productsCount: 1,
+            })),
+            products: products.map((product) => ({
+              __typename: "Product",
+              ...product,
+              slug: product.id,
+              isActive: true,
+              unit: null,
+              unitValue: null,
+              calories: null,
+              protein: null,
+              fats: null,
+              carbohydrates: null,
+              images: [],
+              pointBinds: [],
+              tags: product.tags.map((tag) => ({
+                __typename: "ProductTag",
+                ...tag,
+              })),
+              categoryBinds: product.categoryBinds.map((bind) => ({
+                __typename: "ProductCategoryBind",
+                ...bind,
+              })),
+              pricePoint: 30000,
+            })),
+          },
+        });
+        observer.complete();
+      });
+    });
+
+    const manager = new MenuManager({
+      client: new ApolloClient({ link: mockLink, cache: new InMemoryCache() }),
+      defaultBrandId: "brand-1",
+      defaultPointId: "point-1",
+      defaultOrderType: "DELIVERY",
+    });
+
+    const result = await manager.searchMenu({ searchTerm: "borshch" });
+    expect(result.results.map((item: any) => item.id)).toEqual(["borsch"]);
+    expect(result.results[0].type).toBe("product");
+
+    const filtered = await manager.searchMenu({
+      searchTerm: "капучино",
+      categoryFilter: "soups",
+    });
+    expect(filtered.totalResults).toBe(0);
+
+    const menu = await manager.getFullMenuData({
+      filters: { searchTerm: "ежик" },
+    });
+    expect(menu.data?.products.map((product: any) => product.id)).toEqual([
+      "hedgehogs",
+    ]);
+  });
+});
@@ -0,0 +1,125 @@
+import {
+  MenuSectionModel,
+  UNCATEGORIZED_SECTION_ID,
+} from "../../src/utils/menuSections";
+
+const categories = [
+  { id: "drinks", name: "Напитки", priority: 2, parentId: null },
+  { id: "kitchen", name: "Кухня", priority: 1, parentId: null },
+  { id: "soups", name: "Супы", priority: 2, parentId: "kitchen" },
+  { id: "salads", name: "Салаты", priority: 1, parentId: "kitchen" },
+  { id: "empty", name: "Пусто", priority: 0, parentId: null },
+];
+
+const product = (id: string, ...binds: Array<[string, number]>) => ({
+  id,
+  name: id,
+  categoryBinds: binds.map(([categoryId, priority]) => ({
+    categoryId,
+    priority,
+  })),
+});
+
+const products = [
+  product("borscht", ["soups", 1]),
+  product("okroshka", ["soups", 0]),
+  product("caesar", ["salads", 0], ["drinks", 5]),
+  product("morse", ["drinks", 0]),
+  product("bread"),
+  product("lost", ["archived", 0]),
+];
+
+describe("Menu sections", () => {
+  it("should flatten the tree into indexed header and product rows", () => {
+    const model = new MenuSectionModel({ categories, products });
+
+    expect(model.rows.map((row) => row.key)).toEqual([
+      "header:kitchen",
+      "header:salads",
+      "product:salads:caesar",
+      "header:soups",
+      "product:soups:okroshka",
+      "product:soups:borscht",
+      "header:drinks",
+      "product:drinks:morse",
+      "product:drinks:caesar",
+      `header:${UNCATEGORIZED_SECTION_ID}`,
+      `product:${UNCATEGORIZED_SECTION_ID}:bread`,
+      `product:${UNCATEGORIZED_SECTION_ID}:lost`,
+    ]);
+    expect(model.rows.every((row, index) => row.index === index)).toBe(true);
+    expect(model.categoryRowIndex).toEqual({
+      kitchen: 0,
+      salads: 1,
+      soups: 3,
+      drinks: 6,
+      [UNCATEGORIZED_SECTION_ID]: 9,
+    });
+    expect(model.stickyHeaderIndices).toEqual([0, 1, 3, 6, 9]);
+    expect(
+      model.sections.map((section) => [
+        section.title,
+        section.depth,
+        section.productCount,
+        section.endIndex,
+      ])
+    ).toEqual([
+      ["Кухня", 0, 0, 1],
+      ["Салаты", 1, 1, 3],
+      ["Супы", 1, 2, 6],
+      ["Напитки", 0, 2, 9],
+      ["Другое", 0, 2, 12],
+    ]);
+    expect(model.getRowIndexForCategory("empty")).toBe(-1);
+  });
+
+  it("should support options for duplicates, empty and uncategorized", () => {
+    const model = new MenuSectionModel(
+      { categories, products },
+      {
+        duplicates: "first",
+        keepEmpty: true,
+        uncategorizedPosition: "start",
+        uncategorizedTitle: "Other",
+      }
+    );
+
+    expect(
+      model.sections.map((section) => [section.title, section.productCount])
+    ).toEqual([
+      ["Other", 2],
+      ["Пусто", 0],
+      ["Кухня", 0],
+      ["Салаты", 1],
+      ["Супы", 2],
+      ["Напитки", 1],
+    ]);
+  });
+
+  it("should track the active section from the visible range", () => {
+    const model = new MenuSectionModel({ categories, products });
+    const listener = jest.fn();
+    const unsubscribe = model.subscribe(listener);
+
+    expect(model.setVisibleRange(4, 7)).toMatchObject({
+      activeSectionIndex: 2,
+      activeRootCategoryId: "kitchen",
+    });
+    expect(model.setVisibleRange(5, 8).activeSection?.categoryId).toBe(
+      "soups"
+    );
+    expect(listener).toHaveBeenCalledTimes(1);
+
+    // At the bottom the last section with a visible header wins
+    expect(model.setVisibleRange(7, 11).activeSection?.categoryId).toBe(
+      UNCATEGORIZED_SECTION_ID
+    );
+    expect(model.setVisibleRange(6, 8).activeRootCategoryId).toBe("drinks");
+    expect(listener).toHaveBeenCalledTimes(3);
+
+    unsubscribe();
+    model.setVisibleRange(0, 3);
+    expect(listener).toHaveBeenCalledTimes(3);
+    expect(model.getState().activeSection?.categoryId).toBe("kitchen");
+  });
+});
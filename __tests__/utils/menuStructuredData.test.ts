@@ -0,0 +1,139 @@
+import {
+  buildProductOpenGraph,
+  buildRestaurantJsonLd,
+  renderJsonLdScript,
+  renderOpenGraphTags,
+} from "../../src/utils/menuStructuredData";
+import { ProductUnit } from "../../src/graphql-types";
+
+const brand = { name: "Пицца & Co", url: "https://pizza.example" };
+const point = {
+  name: "Центр",
+  address: "ул. Ленина, 1",
+  city: { name: "Казань" },
+  phone: "+79000000000",
+};
+
+const borsch = {
+  id: "borsch",
+  name: "Борщ",
+  slug: "borsch",
+  description: "Со сметаной",
+  unit: ProductUnit.Gram,
+  unitValue: "300",
+  calories: 320,
+  protein: 14,
+  fats: 12,
+  carbohydrates: null,
+  pricePoint: 35050,
+  images: [
+    { fileId: "f2", priority: 2, url: "https://cdn.example/2.jpg" },
+    { fileId: "f1", priority: 1, url: "https://cdn.example/1.jpg" },
+  ],
+  categoryBinds: [{ categoryId: "soups", priority: 0 }],
+};
+
+const menu = {
+  categories: [
+    { id: "kitchen", name: "Кухня", priority: 0, parentId: null },
+    { id: "soups", name: "Супы", priority: 0, parentId: "kitchen" },
+    { id: "empty", name: "Пусто", priority: 1, parentId: null },
+  ],
+  products: [
+    borsch,
+    {
+      id: "bread",
+      name: "Хлеб",
+      slug: "bread",
+      description: null,
+      images: [],
+      categoryBinds: [],
+    },
+  ],
+};
+
+describe("Menu structured data", () => {
+  it("should build a Restaurant with nested menu sections", () => {
+    const data = buildRestaurantJsonLd(menu, {
+      brand,
+      point,
+      productUrl: (product) => `https://pizza.example/menu/${product.slug}`,
+    });
+
+    expect(data).toMatchObject({
+      "@context": "https://schema.org",
+      "@type": "Restaurant",
+      name: "Пицца & Co, Центр",
+      url: "https://pizza.example",
+      telephone: "+79000000000",
+      address: {
+        "@type": "PostalAddress",
+        streetAddress: "ул. Ленина, 1",
+        addressLocality: "Казань",
+        addressCountry: "RU",
+      },
+    });
+
+    const kitchen = data.hasMenu.hasMenuSection;
+    expect(kitchen).toHaveLength(1);
+    expect(kitchen[0].name).toBe("Кухня");
+    expect(kitchen[0].hasMenuSection[0].hasMenuItem[0]).toEqual({
+      "@type": "MenuItem",
+      name: "Борщ",
+      description: "Со сметаной",
+      image: ["https://cdn.example/1.jpg", "https://cdn.example/2.jpg"],
+      url: "https://pizza.example/menu/borsch",
+      offers: {
+        "@type": "Offer",
+        price: "350.50",
+        priceCurrency: "RUB",
+        availability: "https://schema.org/InStock",
+        url: "https://pizza.example/menu/borsch",
+      },
+      nutrition: {
+        "@type": "NutritionInformation",
+        calories: "320 calories",
+        proteinContent: "14 g",
+        fatContent: "12 g",
+        servingSize: "300 g",
+      },
+    });
+    expect(data.hasMenu.hasMenuItem).toEqual([
+      {
+        "@type": "MenuItem",
+        name: "Хлеб",
+        url: "https://pizza.example/menu/bread",
+      },
+    ]);
+
+    const script = renderJsonLdScript({ name: "</script><b>" });
+    expect(script).toBe(
+      '<script type="application/ld+json">' +
+        '{"name":"\\u003c/script\\u003e\\u003cb\\u003e"}</script>'
+    );
+  });
+
+  it("should build OpenGraph tags for a product", () => {
+    const tags = buildProductOpenGraph(borsch, {
+      brand,
+      url: "https://pizza.example/menu/borsch",
+    });
+
+    expect(tags).toContainEqual({
+      property: "og:title",
+      content: "Борщ — Пицца & Co",
+    });
+    expect(
+      tags
+        .filter((tag) => tag.property === "og:image")
+        .map((tag) => tag.content)
+    ).toEqual(["https://cdn.example/1.jpg", "https://cdn.example/2.jpg"]);
+    expect(tags).toContainEqual({
+      property: "product:price:amount",
+      content: "350.50",
+    });
+    expect(renderOpenGraphTags(tags.slice(1, 2))).toBe(
+      '<meta property="og:title" content="Борщ — Пицца &amp; Co">'
+    );
+  });
+});
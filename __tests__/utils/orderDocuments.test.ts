@@ -0,0 +1,113 @@
+import {
+  buildOrderDocument,
+  encodeCp866,
+  renderOrderEscPos,
+  renderOrderHtml,
+  renderOrderText,
+} from "../../src/utils/orderDocuments";
+
+const order = {
+  number: 42,
+  type: "PICKUP",
+  dueTime: "2024-01-01T12:00:00Z",
+  comment: "Без лука",
+  personsNumber: 2,
+  priceTotal: 170000,
+  items: [
+    {
+      name: "Пицца Маргарита",
+      quantity: 2,
+      price: 60000,
+      productVariantProperties: [
+        {
+          productVariantPropertyId: "size",
+          productVariantPropertyName: "Размер",
+          productVariantPropertyValueId: "size-30",
+          productVariantPropertyValueName: "30 см",
+        },
+      ],
+      categories: [{ categoryId: "pizza", categoryName: "Пицца" }],
+    },
+    {
+      name: "Морс",
+      quantity: 1,
+      price: 25000,
+      productVariantProperties: [],
+      categories: [{ categoryId: "drinks", categoryName: "Напитки" }],
+    },
+    {
+      name: "Пицца Пепперони",
+      quantity: 1,
+      price: 25000,
+      productVariantProperties: [],
+      categories: [{ categoryId: "pizza", categoryName: "Пицца" }],
+    },
+  ],
+};
+
+const formatDate = () => "01.01.2024 15:00";
+
+describe("Order documents", () => {
+  it("should render a fixed-width receipt", () => {
+    const text = renderOrderText(order, { formatDate, width: 32 });
+    const lines = text.split("\n");
+
+    expect(lines.every((line) => line.length <= 32)).toBe(true);
+    expect(text).toContain("Заказ №42");
+    expect(text).toContain("Самовывоз");
+    expect(text).toContain("Время: 01.01.2024 15:00");
+    expect(text).toContain("Персон: 2");
+    expect(text).toContain("  Размер: 30 см");
+    expect(lines).toContain(`  2 x 600 ₽${" ".repeat(15)}1200 ₽`);
+    expect(text).toContain("ИТОГО");
+    expect(text).toContain("1700 ₽");
+    expect(text).toContain("Комментарий: Без лука");
+  });
+
+  it("should group kitchen lines by category without prices", () => {
+    const document = buildOrderDocument(order, {
+      layout: "kitchen",
+      formatDate,
+    });
+
+    expect(document.total).toBeUndefined();
+    expect(
+      document.sections.map((section) => [
+        section.title,
+        section.lines.map((line) => line.name),
+      ])
+    ).toEqual([
+      ["Пицца", ["Пицца Маргарита", "Пицца Пепперони"]],
+      ["Напитки", ["Морс"]],
+    ]);
+
+    const text = renderOrderText(order, { layout: "kitchen", formatDate });
+    expect(text).toContain("2 x Пицца Маргарита");
+    expect(text).not.toContain("₽");
+  });
+
+  it("should encode ESC/POS output in CP866", () => {
+    const bytes = renderOrderEscPos(order, { formatDate });
+
+    expect(Array.from(bytes.slice(0, 5))).toEqual([
+      0x1b, 0x40, 0x1b, 0x74, 17,
+    ]);
+    expect(Array.from(bytes.slice(-7))).toEqual([
+      0x1b, 0x64, 3, 0x1d, 0x56, 0x42, 0,
+    ]);
+    expect(encodeCp866("Ёж №1 ₽")).toEqual([
+      0xf0, 0xa6, 0x20, 0xfc, 0x31, 0x20, 0xe0, 0x2e,
+    ]);
+  });
+
+  it("should escape HTML ticket content", () => {
+    const html = renderOrderHtml(
+      { ...order, comment: "<b>fast</b>" },
+      { formatDate }
+    );
+
+    expect(html).toContain("&lt;b&gt;fast&lt;/b&gt;");
+    expect(html).toContain("<li>Размер: 30 см</li>");
+    expect(html).toContain("order-ticket--receipt");
+  });
+});
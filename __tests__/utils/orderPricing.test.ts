@@ -0,0 +1,157 @@
+import { ApolloClient, ApolloLink, InMemoryCache } from "@apollo/client";
+import {
+  OrderPricingPipeline,
+  calculateOrderPricing,
+  validateOrderPricingRules,
+  type OrderPricingRule,
+} from "../../src/utils/orderPricing";
+import { CartManager } from "../../src/managers/CartManager";
+import { OrderManager } from "../../src/managers/OrderManager";
+
+const items = [
+  { quantity: 2, price: 45050 },
+  { quantity: 1, price: 19900 },
+];
+
+describe("Order pricing", () => {
+  it("should keep the subtotal without rules", () => {
+    expect(calculateOrderPricing(items)).toMatchObject({
+      subtotal: 110000,
+      total: 110000,
+      itemsCount: 3,
+      lines: [],
+      meetsMinimumOrder: true,
+    });
+  });
+
+  it("should apply rules in order with integer amounts", () => {
+    const rules: OrderPricingRule[] = [
+      { type: "PERCENT_DISCOUNT", percent: 15, id: "happy-hour" },
+      { type: "SERVICE_CHARGE", percent: 10, orderTypes: ["ON_TABLE"] },
+      { type: "VAT", rate: 20, mode: "INCLUDED" },
+      { type: "ROUNDING", step: 100, mode: "UP" },
+    ];
+
+    const result = calculateOrderPricing(items, rules, {
+      orderType: "ON_TABLE",
+    });
+
+    expect(result.lines).toEqual([
+      {
+        type: "PERCENT_DISCOUNT",
+        ruleId: "happy-hour",
+        label: "Скидка",
+        amount: -16500,
+      },
+      { type: "SERVICE_CHARGE", label: "Обслуживание", amount: 9350 },
+      { type: "VAT", label: "НДС", amount: 17142, included: true },
+      { type: "ROUNDING", label: "Округление", amount: 50 },
+    ]);
+    expect(result.total).toBe(102900);
+    expect(result.vat).toBe(17142);
+    expect(Number.isInteger(result.total)).toBe(true);
+  });
+
+  it("should add delivery fee, VAT on top and check minimum order", () => {
+    const rules: OrderPricingRule[] = [
+      { type: "MINIMUM_ORDER", amount: 150000, orderTypes: ["DELIVERY"] },
+      { type: "FIXED_DISCOUNT", amount: 10000 },
+      { type: "DELIVERY_FEE", fees: { DELIVERY: 25000 }, freeFrom: 200000 },
+      { type: "VAT", rate: 10, mode: "ADDED" },
+    ];
+
+    const delivery = calculateOrderPricing(items, rules, {
+      orderType: "DELIVERY",
+    });
+    expect(delivery).toMatchObject({
+      discount: 10000,
+      deliveryFee: 25000,
+      vat: 12500,
+      total: 137500,
+      minimumOrder: { amount: 150000, shortfall: 40000 },
+      meetsMinimumOrder: false,
+    });
+
+    const pickup = calculateOrderPricing(items, rules, { orderType: "PICKUP" });
+    expect(pickup.deliveryFee).toBe(0);
+    expect(pickup.minimumOrder).toBeNull();
+  });
+
+  it("should reject invalid rules", () => {
+    expect(
+      validateOrderPricingRules([
+        { type: "PERCENT_DISCOUNT", percent: 120 },
+        { type: "ROUNDING", step: 0.5 },
+      ])
+    ).toEqual([
+      "Rule 1 (PERCENT_DISCOUNT): percent must be between 0 and 100",
+      "Rule 2 (ROUNDING): step must be a positive integer",
+    ]);
+    expect(
+      () =>
+        new OrderPricingPipeline({
+          rules: [{ type: "VAT", rate: -1, mode: "ADDED" }],
+        })
+    ).toThrow("Invalid pricing rules");
+  });
+
+  it("should prefer point rules over brand and default rules", () => {
+    const pipeline = new OrderPricingPipeline({
+      rules: [{ type: "FIXED_DISCOUNT", amount: 100 }],
+      brands: { "brand-1": [{ type: "FIXED_DISCOUNT", amount: 200 }] },
+      points: { "point-1": [{ type: "FIXED_DISCOUNT", amount: 300 }] },
+    });
+
+    expect(pipeline.calculate(items, { brandId: "brand-1" }).discount).toBe(
+      200
+    );
+    expect(
+      pipeline.calculate(items, { brandId: "brand-1", pointId: "point-1" })
+        .discount
+    ).toBe(300);
+    expect(pipeline.calculate(items).discount).toBe(100);
+  });
+
+  it("should give cart and order manager identical totals", () => {
+    const pricing = new OrderPricingPipeline({
+      brands: {
+        "brand-1": [
+          { type: "PERCENT_DISCOUNT", percent: 7 },
+          { type: "SERVICE_CHARGE", percent: 5 },
+          { type: "ROUNDING", step: 100 },
+        ],
+      },
+    });
+
+    const cart = new CartManager({
+      brandId: "brand-1",
+      pointId: "point-1",
+      orderType: "ON_TABLE",
+      pricing,
+    });
+    items.forEach((item, index) =>
+      cart.addItem({
+        productId: `product-${index}`,
+        name: `Product ${index}`,
+        quantity: item.quantity,
+        pricePoint: item.price,
+      })
+    );
+
+    const manager = new OrderManager({
+      client: new ApolloClient({
+        link: ApolloLink.empty(),
+        cache: new InMemoryCache(),
+      }),
+      defaultBrandId: "brand-1",
+      pricing,
+    });
+
+    const orderTotals = manager.calculateOrderTotals(items, {
+      orderType: "ON_TABLE",
+      pointId: "point-1",
+    });
+    expect(cart.getPricing().total).toBe(orderTotals.total);
+    expect(cart.getTotals().total).toBe(107400);
+  });
+});
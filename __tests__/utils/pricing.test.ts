@@ -0,0 +1,140 @@
+import { gql } from "@apollo/client";
+import { PriceResolver, createCachePriceResolver } from "../../src/utils/pricing";
+import { createOptimizedCache } from "../../src/managers";
+
+const priceSettings = {
+  price: 50000,
+  priceOrderTypes: [
+    {
+      orderType: "PICKUP",
+      priceCommon: 45000,
+      priceCities: [{ cityId: "city-1", price: 47000 }],
+      pricePoints: [{ pointId: "point-1", price: 49000 }],
+    },
+  ],
+};
+
+describe("PriceResolver", () => {
+  const resolver = new PriceResolver({
+    getPointCityId: (pointId) =>
+      pointId === "point-2" ? "city-1" : undefined,
+  });
+
+  it("should prefer point price", () => {
+    expect(
+      resolver.resolve(priceSettings, { pointId: "point-1", orderType: "PICKUP" })
+    ).toMatchObject({ price: 49000, rule: "POINT" });
+  });
+
+  it("should use city price for point city", () => {
+    const resolution = resolver.resolve(priceSettings, {
+      pointId: "point-2",
+      orderType: "PICKUP",
+    });
+
+    expect(resolution).toMatchObject({
+      price: 47000,
+      rule: "CITY",
+      cityId: "city-1",
+    });
+    expect(resolution.explanation).toContain("city-1");
+  });
+
+  it("should fall back to order type common price", () => {
+    expect(
+      resolver.resolve(priceSettings, { pointId: "point-3", orderType: "PICKUP" })
+    ).toMatchObject({ price: 45000, rule: "ORDER_TYPE" });
+  });
+
+  it("should fall back to base price for other order types", () => {
+    expect(
+      resolver.resolve(priceSettings, { pointId: "point-1", orderType: "DELIVERY" })
+    ).toMatchObject({ price: 50000, rule: "BASE" });
+  });
+
+  it("should return null when nothing is configured", () => {
+    expect(resolver.resolve(null, { orderType: "PICKUP" })).toMatchObject({
+      price: null,
+      rule: null,
+    });
+  });
+});
+
+describe("cache price resolution", () => {
+  const createCache = () => {
+    const cache = createOptimizedCache();
+
+    cache.writeFragment({
+      id: cache.identify({ __typename: "Point", id: "point-2" }),
+      fragment: gql`
+        fragment TestPoint on Point {
+          id
+          cityId
+        }
+      `,
+      data: { __typename: "Point", id: "point-2", cityId: "city-1" },
+    });
+
+    cache.writeFragment({
+      id: cache.identify({ __typename: "Product", id: "product-1" }),
+      fragment: gql`
+        fragment TestProductPrice on Product {
+          id
+          priceSettings {
+            price
+            priceOrderTypes {
+              orderType
+              priceCommon
+              priceCities {
+                cityId
+                price
+              }
+              pricePoints {
+                pointId
+                price
+              }
+            }
+          }
+        }
+      `,
+      data: {
+        __typename: "Product",
+        id: "product-1",
+        priceSettings: {
+          __typename: "ProductPriceSettings",
+          ...priceSettings,
+        },
+      },
+    });
+
+    return cache;
+  };
+
+  it("should look up point city from the cache", () => {
+    const resolver = createCachePriceResolver(createCache());
+
+    expect(
+      resolver.resolvePrice(priceSettings, {
+        pointId: "point-2",
+        orderType: "PICKUP",
+      })
+    ).toBe(47000);
+  });
+
+  it("should resolve Product.pricePoint with city overrides", () => {
+    const cache = createCache();
+
+    const product = cache.readFragment<{ id: string; pricePoint: number }>({
+      id: cache.identify({ __typename: "Product", id: "product-1" }),
+      fragment: gql`
+        fragment TestProductPricePoint on Product {
+          id
+          pricePoint(input: { pointId: "point-2", orderType: PICKUP })
+        }
+      `,
+      returnPartialData: true,
+    });
+
+    expect(product?.pricePoint).toBe(47000);
+  });
+});
@@ -0,0 +1,94 @@
+import {
+  encodeQrCode,
+  renderQrPng,
+  renderQrSvg,
+  toPngDataUrl,
+} from "../../src/utils/qrCode";
+
+// Version 2-M, mask 0, checked against an independent encoder
+const EXPECTED = [
+  "#######...##.####.#######",
+  "#.....#.#..#..###.#.....#",
+  "#.###.#..##...#...#.###.#",
+  "#.###.#...###.##..#.###.#",
+  "#.###.#.#.#.#.##..#.###.#",
+  "#.....#....#...#..#.....#",
+  "#######.#.#.#.#.#.#######",
+  ".........#.#.####........",
+  "#.#.#.#..##..#.##...#..#.",
+  "#####..####.....####....#",
+  "####.###.....#..##.##.###",
+  "..#.#...###.####.##.#..#.",
+  "##.##.#.##..##...##..#.##",
+  ".#.#...###.##...###..#..#",
+  "#.#...#.#..##....###..###",
+  ".####..#.##.#####...#..#.",
+  "#.#####..###.#########...",
+  "........#..#...##...##.##",
+  "#######..#...#.##.#.##.##",
+  "#.....#....#.##.#...##..#",
+  "#.###.#.###.##..######.##",
+  "#.###.#..#.##.#....####..",
+  "#.###.#.##.##.#.##..#...#",
+  "#.....#.....##.####.##.#.",
+  "#######.#####.###.##...##",
+];
+
+describe("QR code", () => {
+  it("should encode byte data into the smallest matching version", () => {
+    const qr = encodeQrCode("https://m.example.com/x");
+
+    expect(qr).toMatchObject({
+      version: 2,
+      size: 25,
+      errorCorrection: "M",
+      mask: 0,
+    });
+    expect(
+      qr.modules.map((row) => row.map((dark) => (dark ? "#" : ".")).join(""))
+    ).toEqual(EXPECTED);
+
+    const long = encodeQrCode("x".repeat(200), { errorCorrection: "H" });
+    expect(long.version).toBe(15);
+    expect(encodeQrCode("Стол 12", { minVersion: 3 }).version).toBe(3);
+    expect(() => encodeQrCode("x".repeat(3000))).toThrow(
+      "Text is too long for a QR code: 3000 bytes at error correction M"
+    );
+  });
+
+  it("should render SVG with merged runs and a quiet zone", () => {
+    const qr = encodeQrCode("https://m.example.com/x");
+    const svg = renderQrSvg(qr, { title: "Table <1>", color: "#123456" });
+
+    expect(svg).toMatch(/^<svg xmlns="http:\/\/www\.w3\.org\/2000\/svg" /);
+    expect(svg).toContain('width="264" height="264" viewBox="0 0 33 33"');
+    expect(svg).toContain("<title>Table &lt;1&gt;</title>");
+    // First row: 7 dark, 3 light, 2 dark, 1 light, 4 dark, 1 light, 7 dark
+    expect(svg).toContain(
+      'd="M4 4h7v1h-7zM14 4h2v1h-2zM17 4h4v1h-4zM22 4h7v1h-7z'
+    );
+    expect(svg).toContain('fill="#123456"');
+    expect(renderQrSvg(qr, { size: "auto", margin: 0 })).toContain(
+      '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 25 25"'
+    );
+  });
+
+  it("should render an indexed PNG", () => {
+    const qr = encodeQrCode("https://m.example.com/x");
+    const png = renderQrPng(qr, { scale: 2, color: "#f00" });
+
+    expect([...png.slice(0, 8)]).toEqual([
+      0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a,
+    ]);
+    // IHDR: 66×66 pixels, 1 bit, palette
+    expect([...png.slice(16, 29)]).toEqual([
+      0, 0, 0, 66, 0, 0, 0, 66, 1, 3, 0, 0, 0,
+    ]);
+    // PLTE: background then dark color
+    expect([...png.slice(41, 47)]).toEqual([255, 255, 255, 255, 0, 0]);
+    expect(toPngDataUrl(png)).toMatch(/^data:image\/png;base64,iVBORw0KGgo/);
+    expect(() => renderQrPng(qr, { color: "red" })).toThrow(
+      "Unsupported PNG color red, use #rgb or #rrggbb"
+    );
+  });
+});
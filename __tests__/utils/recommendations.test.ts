@@ -0,0 +1,128 @@
+import {
+  RecommendationEngine,
+  buildRecommendationModel,
+  parseRecommendationModel,
+  serializeRecommendationModel,
+} from "../../src/utils/recommendations";
+
+const order = (pointId: string, ...productIds: string[]) => ({
+  pointId,
+  items: productIds.map((productId) => ({ productId, quantity: 1 })),
+});
+
+// 10 orders: burgers go with fries and cola, pizza with cola
+const orders = [
+  order("p1", "burger", "fries", "cola"),
+  order("p1", "burger", "fries"),
+  order("p1", "burger", "fries", "burger"),
+  order("p1", "burger", "cola"),
+  order("p1", "pizza", "cola"),
+  order("p1", "pizza", "cola"),
+  order("p1", "pizza"),
+  order("p1", "salad"),
+  order("p1", "salad", "water"),
+  order("p2", "burger", "water"),
+];
+
+describe("Recommendations", () => {
+  const model = buildRecommendationModel(orders, {
+    brandId: "brand-1",
+    pointId: "p1",
+    generatedAt: new Date("2026-10-01T00:00:00Z"),
+  });
+
+  it("should mine association rules with support, confidence and lift", () => {
+    expect(model.orderCount).toBe(9);
+    expect(model.productCounts).toEqual({
+      burger: 4,
+      fries: 3,
+      cola: 4,
+      pizza: 3,
+      salad: 2,
+      water: 1,
+    });
+    const rule = (
+      antecedent: string,
+      consequent: string,
+      count: number,
+      confidence: number,
+      lift: number
+    ) => ({
+      antecedent,
+      consequent,
+      count,
+      support: Math.round((count / 9) * 10000) / 10000,
+      confidence,
+      lift,
+    });
+    expect(model.rules).toEqual([
+      rule("burger", "fries", 3, 0.75, 2.25),
+      rule("burger", "cola", 2, 0.5, 1.125),
+      rule("cola", "pizza", 2, 0.5, 1.5),
+      rule("cola", "burger", 2, 0.5, 1.125),
+      rule("fries", "burger", 3, 1, 2.25),
+      rule("pizza", "cola", 2, 0.6667, 1.5),
+    ]);
+  });
+
+  it("should recommend available products for a product and a cart", () => {
+    const engine = new RecommendationEngine(model, {
+      products: [
+        { id: "burger", isActive: true },
+        { id: "fries", isActive: true },
+        { id: "cola", isActive: true },
+        { id: "pizza", isActive: false },
+      ],
+    });
+
+    expect(engine.getRecommendationsForProduct("burger")).toEqual([
+      {
+        productId: "fries",
+        product: { id: "fries", isActive: true },
+        confidence: 0.75,
+        lift: 2.25,
+        support: 0.3333,
+        basedOn: ["burger"],
+      },
+      {
+        productId: "cola",
+        product: { id: "cola", isActive: true },
+        confidence: 0.5,
+        lift: 1.125,
+        support: 0.2222,
+        basedOn: ["burger"],
+      },
+    ]);
+    // Pizza is not on the menu right now
+    expect(
+      engine.getRecommendationsForProduct("cola").map((item) => item.productId)
+    ).toEqual(["burger"]);
+    expect(
+      engine
+        .getRecommendationsForCart([{ productId: "fries" }, "burger"])
+        .map((item) => item.productId)
+    ).toEqual(["cola"]);
+
+    engine.setAvailableProducts(null);
+    expect(
+      engine
+        .getRecommendationsForCart(["cola", "fries"], { limit: 1 })
+        .map((item) => [item.productId, item.confidence, item.basedOn])
+    ).toEqual([["burger", 1, ["cola", "fries"]]]);
+    expect(engine.getPopularProductIds(2)).toEqual(["burger", "cola"]);
+  });
+
+  it("should round-trip the serialized model", () => {
+    const parsed = parseRecommendationModel(
+      serializeRecommendationModel(model)
+    );
+
+    expect(parsed).toEqual(model);
+    expect(() => parseRecommendationModel({ rules: [] })).toThrow(
+      "Not a recommendation model"
+    );
+    expect(() => parseRecommendationModel({ ...model, version: 2 })).toThrow(
+      "Unsupported recommendation model version 2"
+    );
+  });
+});
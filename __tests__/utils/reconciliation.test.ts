@@ -0,0 +1,96 @@
+import {
+  reconcileOrderItems,
+  buildPreOrderUpdateInput,
+  hasPreOrderChanges,
+} from "../../src/utils/reconciliation";
+
+const currentItems = [
+  { id: "item-1", productId: "pizza", quantity: 2 },
+  { id: "item-2", productId: "tea", quantity: 1 },
+  { id: "item-3", productId: "cake", quantity: 1 },
+  { id: "item-4", productId: "cake", quantity: 2 },
+];
+
+describe("Order reconciliation", () => {
+  describe("reconcileOrderItems", () => {
+    it("should add, update and remove items", () => {
+      expect(
+        reconcileOrderItems(currentItems, [
+          { productId: "pizza", quantity: 3 },
+          { productId: "cake", quantity: 3 },
+          { productId: "soup", quantity: 1 },
+        ])
+      ).toEqual({
+        itemsAdd: [{ productId: "soup", quantity: 1 }],
+        itemsUpdate: [{ id: "item-1", quantity: 3 }],
+        itemsRemove: ["item-2"],
+      });
+    });
+
+    it("should shrink duplicate lines starting from the last one", () => {
+      expect(
+        reconcileOrderItems(currentItems, [
+          { productId: "pizza", quantity: 2 },
+          { productId: "tea", quantity: 1 },
+          { productId: "cake", quantity: 1 },
+        ])
+      ).toEqual({
+        itemsAdd: [],
+        itemsUpdate: [],
+        itemsRemove: ["item-4"],
+      });
+    });
+
+    it("should send quantity offsets when asked", () => {
+      const changes = reconcileOrderItems(
+        currentItems.slice(0, 1),
+        [{ productId: "pizza", quantity: 1 }],
+        { quantityMode: "offset" }
+      );
+
+      expect(changes.itemsUpdate).toEqual([
+        { id: "item-1", quantityOffset: -1 },
+      ]);
+    });
+
+    it("should reject invalid quantities", () => {
+      expect(() =>
+        reconcileOrderItems([], [{ productId: "pizza", quantity: -1 }])
+      ).toThrow("Invalid quantity -1 for product pizza");
+    });
+  });
+
+  describe("buildPreOrderUpdateInput", () => {
+    const order = {
+      id: "order-1",
+      brandId: "brand-1",
+      items: currentItems.slice(0, 2),
+      comment: "No onions",
+      personsNumber: 2,
+    };
+
+    it("should clear comment and persons number", () => {
+      expect(
+        buildPreOrderUpdateInput(order, { comment: "", personsNumber: null })
+      ).toEqual({
+        id: "order-1",
+        brandId: "brand-1",
+        isCommentClear: true,
+        isPersonsNumberClear: true,
+      });
+    });
+
+    it("should produce an empty update for an unchanged order", () => {
+      const input = buildPreOrderUpdateInput(order, {
+        items: [
+          { productId: "pizza", quantity: 2 },
+          { productId: "tea", quantity: 1 },
+        ],
+        comment: "No onions",
+        personsNumber: 2,
+      });
+
+      expect(hasPreOrderChanges(input)).toBe(false);
+    });
+  });
+});
@@ -44,6 +44,13 @@ export const POINT_DETAIL_FRAGMENT = gql`
   }
 `;
 
+export const POINT_CITY_FRAGMENT = gql`
+  fragment PointCity on Point {
+    id
+    cityId
+  }
+`;
+
 // ================== CITY FRAGMENTS ==================
 export const CITY_BASE_FRAGMENT = gql`
   fragment CityBase on City {
@@ -328,6 +335,12 @@ export const PRODUCT_FOR_MENU_FRAGMENT = gql`
     slug
     description
     isActive
+    unit
+    unitValue
+    calories
+    protein
+    fats
+    carbohydrates
     images {
       fileId
       priority
@@ -477,6 +490,7 @@ export const FRAGMENTS = {
   // Point
   POINT_BASE: POINT_BASE_FRAGMENT,
   POINT_DETAIL: POINT_DETAIL_FRAGMENT,
+  POINT_CITY: POINT_CITY_FRAGMENT,
 
   // Category
   CATEGORY_BASE: CATEGORY_BASE_FRAGMENT,
@@ -73,6 +73,50 @@ export const GET_ORDERS_WITH_ITEMS = gql`
   ${ORDER_WITH_ITEMS_FRAGMENT}
 `;
 
+// ================== CONNECTION QUERIES ==================
+
+// Get a page of orders with cursors and total count
+export const GET_ORDER_CONNECTION = gql`
+  query GetOrderConnection($input: OrderConnectionInput!) {
+    orderConnection(input: $input) {
+      edges {
+        cursor
+        order {
+          ...OrderDetail
+        }
+      }
+      pageInfo {
+        cursorStart
+        cursorEnd
+        hasNextPage
+      }
+      totalCount
+    }
+  }
+  ${ORDER_DETAIL_FRAGMENT}
+`;
+
+// Get a page of orders including items
+export const GET_ORDER_CONNECTION_WITH_ITEMS = gql`
+  query GetOrderConnectionWithItems($input: OrderConnectionInput!) {
+    orderConnection(input: $input) {
+      edges {
+        cursor
+        order {
+          ...OrderWithItems
+        }
+      }
+      pageInfo {
+        cursorStart
+        cursorEnd
+        hasNextPage
+      }
+      totalCount
+    }
+  }
+  ${ORDER_WITH_ITEMS_FRAGMENT}
+`;
+
 // ================== SPECIALIZED QUERIES ==================
 
 // Get order status only (for polling)
@@ -185,6 +229,10 @@ export const ORDER_QUERIES = {
   GET_ORDERS_WITH_ITEMS,
   GET_ORDERS_LIST,
 
+  // Connection queries
+  GET_ORDER_CONNECTION,
+  GET_ORDER_CONNECTION_WITH_ITEMS,
+
   // Specialized queries
   GET_USER_ORDER_HISTORY,
   GET_ORDERS_BY_POINT_AND_DATE,
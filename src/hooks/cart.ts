@@ -0,0 +1,120 @@
+import { useMemo, useCallback, useEffect, useRef, useState } from "react";
+import {
+  CartManagerFactory,
+  type CartManager,
+  type CartStorageAdapter,
+  type CartSnapshot,
+  type AddCartItemInput,
+} from "../managers/CartManager";
+import type {
+  OrderPricingPipeline,
+  OrderPricingSettings,
+} from "../utils/orderPricing";
+
+// ====================================================================
+// CART HOOKS - React hooks for the client-side order cart
+// ====================================================================
+
+// Hook for a cart bound to brand, point and order type
+export const useCart = ({
+  brandId,
+  pointId,
+  orderType,
+  storage,
+  storageKey,
+  pricing,
+}: {
+  brandId: string;
+  pointId: string;
+  orderType: string;
+  /**
+   * Read when the cart is created, a new adapter object alone does not
+   * recreate it. Change storageKey to switch carts.
+   */
+  storage?: CartStorageAdapter;
+  storageKey?: string;
+  /** Keep the value stable (memoized), a new object recreates the cart */
+  pricing?: OrderPricingSettings | OrderPricingPipeline;
+}) => {
+  const storageRef = useRef(storage);
+  storageRef.current = storage;
+  const hasStorage = Boolean(storage);
+
+  const cart = useMemo(() => {
+    const cartStorage = storageRef.current;
+    return CartManagerFactory.create({
+      brandId,
+      pointId,
+      orderType,
+      ...(cartStorage && { storage: cartStorage }),
+      ...(storageKey && { storageKey }),
+      ...(pricing && { pricing }),
+    });
+  }, [brandId, pointId, orderType, hasStorage, storageKey, pricing]);
+
+  const [snapshot, setSnapshot] = useState<CartSnapshot>(() =>
+    cart.getSnapshot()
+  );
+  // The cart that finished hydrating, so a new cart starts unhydrated
+  const [hydratedCart, setHydratedCart] = useState<CartManager | null>(null);
+  const hydrated = !hasStorage || hydratedCart === cart;
+
+  useEffect(() => {
+    let cancelled = false;
+    setSnapshot(cart.getSnapshot());
+
+    const unsubscribe = cart.subscribe(setSnapshot);
+    cart.hydrate().finally(() => {
+      if (!cancelled) setHydratedCart(cart);
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [cart]);
+
+  const totals = useMemo(() => cart.getTotals(), [cart, snapshot]);
+  const pricingBreakdown = useMemo(() => cart.getPricing(), [cart, snapshot]);
+
+  // Cart actions
+  const cartActions = useMemo(
+    () => ({
+      addItem: (input: AddCartItemInput) => cart.addItem(input),
+      addProduct: (
+        product: any,
+        options?: { variantId?: string; quantity?: number }
+      ) => cart.addProduct(product, options),
+      setQuantity: (productId: string, quantity: number) =>
+        cart.setQuantity(productId, quantity),
+      removeItem: (productId: string) => cart.removeItem(productId),
+      setPersonsNumber: (personsNumber: number | undefined) =>
+        cart.setPersonsNumber(personsNumber),
+      setComment: (comment: string | undefined) => cart.setComment(comment),
+      clear: () => cart.clear(),
+    }),
+    [cart]
+  );
+
+  const toPreOrderInput = useCallback(() => cart.toPreOrderInput(), [cart]);
+  const validate = useCallback(() => cart.validate(), [cart]);
+
+  return {
+    cart,
+    lines: snapshot.lines,
+    personsNumber: snapshot.personsNumber,
+    comment: snapshot.comment,
+    totals,
+    pricing: pricingBreakdown,
+    isEmpty: snapshot.lines.length === 0,
+    hydrated,
+    cartActions,
+    toPreOrderInput,
+    validate,
+  };
+};
+
+// ================== EXPORTED HOOK COLLECTIONS ==================
+export const CART_HOOKS = {
+  useCart,
+} as const;
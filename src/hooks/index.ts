@@ -7,6 +7,7 @@ export * from "./user";
 export * from "./point";
 export * from "./city";
 export * from "./menu";
+export * from "./cart";
 
 // Re-export hook collections for easy import
 export { PRODUCT_HOOKS } from "./product";
@@ -17,6 +18,7 @@ export { CITY_HOOKS } from "./city";
 export { ORDER_HOOKS } from "./order";
 export { POINT_HOOKS } from "./point";
 export { USER_HOOKS } from "./user";
+export { CART_HOOKS } from "./cart";
 
 // Export commonly used hooks directly
 
@@ -47,7 +49,15 @@ export {
 } from "./category";
 
 // Menu hooks
-export { useMenuData, useOrganizedMenuData, useMenuFilter } from "./menu";
+export {
+  useMenuData,
+  useOrganizedMenuData,
+  useMenuFilter,
+  useAvailabilityMatrix,
+  useRecommendations,
+  useMenuSections,
+  useMenuFilterUrlState,
+} from "./menu";
 
 // Brand hooks
 export {
@@ -85,6 +95,9 @@ export {
   useOrdersForPoint,
   useActiveOrders,
   useOrderHistory,
+  useOrderConnection,
+  useOrderFeed,
+  useOrderAnalytics,
   useCreatePreOrderByEmployee,
   useUpdatePreOrderByEmployee,
   useUpdateOrderStatus,
@@ -115,3 +128,6 @@ export {
   useAuthenticationFlow,
   useEmployeeManagement,
 } from "./user";
+
+// Cart hooks
+export { useCart } from "./cart";
@@ -1,5 +1,5 @@
 import { useQuery, useMutation, useApolloClient } from "@apollo/client";
-import { useMemo, useCallback } from "react";
+import { useMemo, useCallback, useEffect, useState } from "react";
 import { GET_MENU_DATA } from "../graphql/utils";
 import {
   GET_CATEGORIES_WITH_PRODUCTS_COUNT,
@@ -32,6 +32,58 @@ import type {
   CategoryCreateInput,
   CategoryUpdateInput,
 } from "../graphql-types";
+import type {
+  OrderType as GraphQLOrderType,
+  ProductUnit,
+} from "../graphql-types";
+import { MenuManager } from "../managers/MenuManager";
+import {
+  applyAvailabilityEdits,
+  getAvailabilityUpdates,
+  type AvailabilityEdit,
+  type AvailabilityMatrix,
+} from "../utils/availabilityMatrix";
+import { MenuSearchIndex } from "../utils/menuSearch";
+import {
+  computeMenuFacets,
+  matchesMenuFilter,
+  type MenuFacetOptions,
+} from "../utils/menuFacets";
+import {
+  DIETARY_PROFILES,
+  type DietaryProfile,
+  type NutritionFilter,
+} from "../utils/menuNutrition";
+import {
+  applyMenuSchedule,
+  getNextScheduleChange,
+  type MenuScheduleConfig,
+  type MenuScheduleMode,
+} from "../utils/menuSchedule";
+import {
+  RecommendationEngine,
+  type RecommendationCartItem,
+  type RecommendationModel,
+  type RecommendationQueryOptions,
+} from "../utils/recommendations";
+import {
+  MenuSectionModel,
+  type MenuSectionOptions,
+  type MenuSectionState,
+} from "../utils/menuSections";
+import {
+  decodeMenuFilter,
+  encodeMenuFilter,
+  mergeMenuFilterSearch,
+  type MenuFilterRouterAdapter,
+  type MenuFilterUrlState,
+} from "../utils/menuFilterUrl";
+import {
+  collectProductTags,
+  resolveAllergenFilter,
+  type AllergenCode,
+  type ProductTaxonomyOptions,
+} from "../utils/menuAllergens";
 
 // OrderType from existing graphql-types (simplified for compatibility)
 type OrderType = "DELIVERY" | "PICKUP" | "DINE_IN";
@@ -52,11 +104,19 @@ export interface MenuFilterInput {
   searchTerm?: string;
   categoryId?: string;
   categoriesId?: string[];
+  /** Legacy alias of tagsIdAny */
+  tagIds?: string[];
   tagsIdAll?: string[];
   tagsIdAny?: string[];
   tagsIdNotAll?: string[];
   tagsIdNotAny?: string[];
+  /** Resolved to tagsIdNotAny through the taxonomy */
+  excludeAllergens?: AllergenCode[];
   priceRange?: { min?: number; max?: number };
+  caloriesRange?: { min?: number; max?: number };
+  units?: ProductUnit[];
+  nutrition?: NutritionFilter;
+  dietaryProfile?: string | DietaryProfile;
   sortBy?:
     | "name"
     | "price"
@@ -65,6 +125,14 @@ export interface MenuFilterInput {
     | "categoryPriority"
     | "relevance";
   sortOrder?: "asc" | "desc";
+  sortByCategoryId?: string;
+  variantsGroupStrategy?: "MAIN" | "PRIORITY_MIN" | "PRIORITY_MAX";
+  variantsGroupByPrice?: {
+    type: "MIN" | "MAX";
+    pointId: string;
+    orderType: string;
+  };
+  isVariantsGroup?: boolean;
 }
 
 // Legacy interface for backward compatibility
@@ -78,11 +146,19 @@ export const useMenuData = ({
   level = "detail",
   skip = false,
   pollInterval,
+  schedule,
+  scheduleMode = "hide",
+  at,
 }: {
   input: MenuInput;
   level?: "basic" | "detail" | "full";
   skip?: boolean;
   pollInterval?: number;
+  /** Hides or marks products outside their time windows */
+  schedule?: MenuScheduleConfig;
+  scheduleMode?: MenuScheduleMode;
+  /** Fixed instant to evaluate the schedule at, now by default */
+  at?: Date;
 }) => {
   const getQuery = () => {
     // For now using the composite query, can be expanded with specialized queries
@@ -104,7 +180,43 @@ export const useMenuData = ({
     queryOptions.notifyOnNetworkStatusChange = true;
   }
 
-  return useQuery(getQuery(), queryOptions);
+  const query = useQuery(getQuery(), queryOptions);
+
+  // Bumped by the timer below when the schedule changes
+  const [now, setNow] = useState(() => new Date());
+
+  const scheduled = useMemo(() => {
+    if (!schedule || !query.data) return null;
+
+    const options = { at: at || now, pointId: input.pointId };
+    return {
+      data: applyMenuSchedule(query.data, schedule, {
+        ...options,
+        mode: scheduleMode,
+      }),
+      nextChange: getNextScheduleChange(query.data, schedule, options),
+    };
+  }, [query.data, schedule, scheduleMode, at, now, input.pointId]);
+
+  const nextChangeTime = scheduled?.nextChange?.getTime();
+  useEffect(() => {
+    if (at || nextChangeTime === undefined) return;
+
+    // A second past the boundary so the window has surely switched
+    const timer = setTimeout(
+      () => setNow(new Date()),
+      Math.max(0, nextChangeTime - Date.now()) + 1000
+    );
+    return () => clearTimeout(timer);
+  }, [at, nextChangeTime]);
+
+  if (!schedule) return query;
+
+  return {
+    ...query,
+    data: scheduled ? scheduled.data : query.data,
+    nextScheduleChange: scheduled?.nextChange ?? null,
+  };
 };
 
 // Hook for getting menu categories with hierarchy
@@ -502,19 +614,70 @@ export const useMenuFilter = ({
   orderType,
   filters,
   autoUpdate = true,
+  facets = false,
+  categories,
+  dietaryProfiles,
+  taxonomy,
 }: {
   brandId: string;
   pointId: string;
   orderType: OrderType;
   filters: MenuFilterInput;
   autoUpdate?: boolean;
+  /** Count facets, the query then loads the whole point menu */
+  facets?:
+    | boolean
+    | Omit<MenuFacetOptions, "searchMatches" | "dietaryProfiles">;
+  /** Menu categories, labels and orders the category facet */
+  categories?: any[];
+  /** Dietary profiles added to or overriding DIETARY_PROFILES by id */
+  dietaryProfiles?: Record<string, DietaryProfile>;
+  /** Brand tags to allergen and diet codes, for excludeAllergens */
+  taxonomy?: ProductTaxonomyOptions;
 }) => {
+  const profiles = useMemo(
+    () => ({ ...DIETARY_PROFILES, ...dietaryProfiles }),
+    [dietaryProfiles]
+  );
+
   // Build GraphQL filter input
   const input: ProductsInput = useMemo(() => {
     const filter: any = {
       isActive: true,
       pointBinds: { pointId, orderType },
     };
+    const result: any = { brandId, filter };
+
+    // Variants grouping and category order, as in MenuManager
+    if (filters.variantsGroupStrategy) {
+      result.variantsGroupSimpleStrategy = filters.variantsGroupStrategy;
+    }
+    if (filters.variantsGroupByPrice) {
+      result.variantsGroupByPrice = {
+        type: filters.variantsGroupByPrice.type,
+        pointBind: {
+          pointId: filters.variantsGroupByPrice.pointId,
+          orderType: filters.variantsGroupByPrice.orderType,
+        },
+      };
+    }
+    if (filters.isVariantsGroup !== undefined) {
+      result.isVariantsGroup = filters.isVariantsGroup;
+    }
+    if (filters.sortBy === "categoryPriority" && filters.sortByCategoryId) {
+      result.sortByCategoryPriority = {
+        sort: filters.sortOrder?.toUpperCase() || "ASC",
+        categoryId: filters.sortByCategoryId,
+      };
+    }
+    if (filters.sortByCategoryId) {
+      result.sortByCategoryId = filters.sortByCategoryId;
+    }
+
+    // Facets exclude their own dimension, so narrowing happens client-side
+    if (facets) {
+      return result;
+    }
 
     if (filters.categoryId) {
       filter.categoriesId = [filters.categoryId];
@@ -526,12 +689,16 @@ export const useMenuFilter = ({
       filter.tagsIdAll = filters.tagsIdAll;
     }
 
+    if (filters.tagIds && filters.tagIds.length > 0) {
+      filter.tagsIdAny = filters.tagIds;
+    }
+
     if (filters.tagsIdAny && filters.tagsIdAny.length > 0) {
       filter.tagsIdAny = filters.tagsIdAny;
     }
 
-    return { brandId, filter };
-  }, [brandId, pointId, orderType, filters]);
+    return result;
+  }, [brandId, pointId, orderType, filters, !!facets]);
 
   // Build query options
   const queryOptions: any = {
@@ -548,34 +715,72 @@ export const useMenuFilter = ({
 
   const query = useQuery(GET_FILTERED_PRODUCTS, queryOptions);
 
-  // Apply client-side filtering for search term and other complex filters
-  const filteredProducts = useMemo(() => {
-    let products = query.data?.products || [];
-
-    // Search term filtering
-    if (filters.searchTerm) {
-      const searchTerm = filters.searchTerm.toLowerCase();
-      products = products.filter(
-        (product: any) =>
-          product.name.toLowerCase().includes(searchTerm) ||
-          product.description?.toLowerCase().includes(searchTerm) ||
-          product.tags?.some((tag: any) =>
-            tag.name.toLowerCase().includes(searchTerm)
+  // Allergens resolve against the tags of the loaded products
+  const resolvedFilters = useMemo(
+    () =>
+      filters.excludeAllergens
+        ? resolveAllergenFilter(
+            filters,
+            collectProductTags(query.data?.products || []),
+            taxonomy
           )
-      );
-    }
+        : filters,
+    [filters, query.data, taxonomy]
+  );
 
-    // Price range filtering
-    if (filters.priceRange) {
-      products = products.filter((product: any) => {
-        const price = product.pricePoint || 0;
-        const { min, max } = filters.priceRange!;
-        return (
-          (min === undefined || price >= min) &&
-          (max === undefined || price <= max)
-        );
-      });
-    }
+  // Same matching as MenuManager: word forms, transliteration and typos.
+  // Built only while a term is set, rebuilt when the products change.
+  const hasSearchTerm = Boolean(filters.searchTerm);
+  const searchIndex = useMemo(() => {
+    if (!hasSearchTerm) return null;
+
+    const index = new MenuSearchIndex();
+    index.sync({
+      products: query.data?.products || [],
+      categories: categories || [],
+    });
+    return index;
+  }, [hasSearchTerm, query.data, categories]);
+
+  const searchMatches = useMemo(() => {
+    if (!searchIndex || !filters.searchTerm) return null;
+
+    return new Set<string>(
+      searchIndex
+        .search(filters.searchTerm, { types: ["product"] })
+        .map((hit) => hit.id)
+    );
+  }, [searchIndex, filters.searchTerm]);
+
+  const facetCounts = useMemo(() => {
+    if (!facets || !query.data?.products) return null;
+
+    return computeMenuFacets(
+      { products: query.data.products, categories: categories || [] },
+      resolvedFilters,
+      {
+        ...(facets === true ? {} : facets),
+        searchMatches,
+        dietaryProfiles: profiles,
+      }
+    );
+  }, [
+    query.data,
+    resolvedFilters,
+    facets,
+    categories,
+    searchMatches,
+    profiles,
+  ]);
+
+  // Apply client-side filtering for search term and other complex filters
+  const filteredProducts = useMemo(() => {
+    let products = (query.data?.products || []).filter((product: any) =>
+      matchesMenuFilter(product, resolvedFilters, {
+        searchMatches,
+        dietaryProfiles: profiles,
+      })
+    );
 
     // Sorting
     if (filters.sortBy) {
@@ -601,7 +806,7 @@ export const useMenuFilter = ({
     }
 
     return products;
-  }, [query.data, filters]);
+  }, [query.data, filters, resolvedFilters, searchMatches, profiles]);
 
   return {
     products: filteredProducts,
@@ -610,6 +815,224 @@ export const useMenuFilter = ({
     refetch: query.refetch,
     appliedFilters: filters,
     totalProducts: filteredProducts.length,
+    facets: facetCounts,
+  };
+};
+
+// Hook for menu filters kept in the URL, for shared links and back button
+export const useMenuFilterUrlState = ({
+  brandId,
+  pointId,
+  orderType,
+  router,
+  prefix,
+  history = "auto",
+  autoUpdate,
+  facets,
+  categories,
+  dietaryProfiles,
+  taxonomy,
+}: {
+  brandId: string;
+  pointId: string;
+  orderType: OrderType;
+  /** Keep the adapter stable, e.g. create it outside the component */
+  router: MenuFilterRouterAdapter;
+  prefix?: string;
+  /** "auto" replaces the entry while typing a search, pushes otherwise */
+  history?: "auto" | "push" | "replace";
+  autoUpdate?: boolean;
+  facets?: Parameters<typeof useMenuFilter>[0]["facets"];
+  categories?: any[];
+  dietaryProfiles?: Record<string, DietaryProfile>;
+  taxonomy?: ProductTaxonomyOptions;
+}) => {
+  const [search, setSearch] = useState(() => router.getSearch());
+
+  // Back / forward navigation restores filters
+  useEffect(() => {
+    setSearch(router.getSearch());
+    return router.subscribe?.(() => setSearch(router.getSearch()));
+  }, [router]);
+
+  const decoded = useMemo(
+    () => decodeMenuFilter(search, prefix ? { prefix } : {}),
+    [search, prefix]
+  );
+
+  const setFilters = useCallback(
+    (
+      next:
+        | MenuFilterUrlState
+        | ((previous: MenuFilterUrlState) => MenuFilterUrlState),
+      options: { replace?: boolean } = {}
+    ) => {
+      const codec = prefix ? { prefix } : {};
+      const current = router.getSearch();
+      const previous = decodeMenuFilter(current, codec).filters;
+      const filters = typeof next === "function" ? next(previous) : next;
+
+      const nextSearch = mergeMenuFilterSearch(current, filters, codec);
+      if (nextSearch === mergeMenuFilterSearch(current, previous, codec)) {
+        return;
+      }
+
+      // Keystrokes in the search box should not flood the history
+      const withoutSearch = (state: MenuFilterUrlState) =>
+        JSON.stringify(encodeMenuFilter({ ...state, searchTerm: "" }));
+      const replace =
+        options.replace ??
+        (history === "replace" ||
+          (history === "auto" &&
+            withoutSearch(filters) === withoutSearch(previous)));
+
+      router.setSearch(nextSearch, { replace });
+      setSearch(nextSearch);
+    },
+    [router, prefix, history]
+  );
+
+  const resetFilters = useCallback(() => setFilters({}), [setFilters]);
+
+  // Profiles come back from the URL by id
+  const filters = useMemo(() => {
+    const { dietaryProfile, ...rest } = decoded.filters;
+    const input: MenuFilterInput = rest;
+    if (dietaryProfile) {
+      input.dietaryProfile =
+        typeof dietaryProfile === "object" ? dietaryProfile.id : dietaryProfile;
+    }
+    return input;
+  }, [decoded]);
+
+  const result = useMenuFilter({
+    brandId,
+    pointId,
+    orderType,
+    filters,
+    ...(autoUpdate !== undefined && { autoUpdate }),
+    ...(facets !== undefined && { facets }),
+    ...(categories && { categories }),
+    ...(dietaryProfiles && { dietaryProfiles }),
+    ...(taxonomy && { taxonomy }),
+  });
+
+  return {
+    ...result,
+    filters: decoded.filters,
+    setFilters,
+    resetFilters,
+    /** Dropped URL parameters, e.g. from an edited link */
+    issues: decoded.issues,
+  };
+};
+
+// Hook for "frequently ordered together" upsell widgets
+export const useRecommendations = ({
+  input,
+  model,
+  productId,
+  cartItems,
+  options,
+  skip = false,
+}: {
+  input: MenuInput;
+  /** Serialized model shipped with the app, see buildRecommendationModel */
+  model: RecommendationModel | null;
+  productId?: string;
+  cartItems?: RecommendationCartItem[];
+  options?: RecommendationQueryOptions;
+  skip?: boolean;
+}) => {
+  // Only products the point sells for the order type are recommended
+  const { data, loading, error } = useMenuData({
+    input,
+    skip: skip || !model,
+  });
+  const products: any[] | undefined = data?.products;
+
+  const engine = useMemo(
+    () =>
+      model && products ? new RecommendationEngine(model, { products }) : null,
+    [model, products]
+  );
+
+  const recommendations = useMemo(() => {
+    if (!engine) return [];
+
+    const items = [...(productId ? [productId] : []), ...(cartItems || [])];
+    return engine.getRecommendationsForCart(items, options);
+  }, [engine, productId, cartItems, options]);
+
+  return {
+    recommendations,
+    loading,
+    error,
+  };
+};
+
+// Hook for sectioned menu lists with sticky category headers
+export const useMenuSections = ({
+  input,
+  data,
+  options,
+  skip = false,
+}: {
+  input: MenuInput;
+  /** Already loaded or filtered menu, the query is skipped */
+  data?: { categories: any[]; products: any[] };
+  options?: MenuSectionOptions;
+  skip?: boolean;
+}) => {
+  const menuData = useMenuData({ input, skip: skip || !!data });
+  const source = data || menuData.data;
+
+  // Options are plain values, compare them by content
+  const optionsKey = JSON.stringify(options || {});
+  const model = useMemo(
+    () =>
+      new MenuSectionModel(
+        {
+          categories: source?.categories || [],
+          products: source?.products || [],
+        },
+        JSON.parse(optionsKey)
+      ),
+    [source, optionsKey]
+  );
+
+  const [state, setState] = useState<MenuSectionState>(() =>
+    model.getState()
+  );
+  useEffect(() => {
+    setState(model.getState());
+    return model.subscribe(setState);
+  }, [model]);
+
+  // Feed from onViewableItemsChanged or a virtualizer range
+  const onVisibleRangeChange = useCallback(
+    (firstIndex: number, lastIndex: number) => {
+      model.setVisibleRange(firstIndex, lastIndex);
+    },
+    [model]
+  );
+
+  const getRowIndexForCategory = useCallback(
+    (categoryId: string) => model.getRowIndexForCategory(categoryId),
+    [model]
+  );
+
+  return {
+    model,
+    rows: model.rows,
+    sections: model.sections,
+    categoryRowIndex: model.categoryRowIndex,
+    stickyHeaderIndices: model.stickyHeaderIndices,
+    ...state,
+    onVisibleRangeChange,
+    getRowIndexForCategory,
+    loading: data ? false : menuData.loading,
+    error: data ? undefined : menuData.error,
   };
 };
 
@@ -621,6 +1044,7 @@ export const useMenuSearch = ({
   searchTerm,
   filters,
   sortBy = "relevance",
+  categories,
 }: {
   brandId: string;
   pointId: string;
@@ -628,16 +1052,18 @@ export const useMenuSearch = ({
   searchTerm: string;
   filters?: MenuFilterInput;
   sortBy?: "relevance" | "name" | "price" | "category";
+  /** Menu categories, lets the search match category names */
+  categories?: any[];
 }) => {
-  // Build search filter
+  // The search index matches the term, the query only applies the filters
   const searchFilter = useMemo(() => {
+    const { searchTerm: _searchTerm, ...otherFilters } = filters || {};
     const filter: MenuFilterInput = {
-      searchTerm,
-      ...filters,
+      ...otherFilters,
       sortBy,
     };
     return filter;
-  }, [searchTerm, filters, sortBy]);
+  }, [filters, sortBy]);
 
   const searchResults = useMenuFilter({
     brandId,
@@ -647,47 +1073,36 @@ export const useMenuSearch = ({
     autoUpdate: false,
   });
 
-  // Calculate relevance scores for search results
+  // Rebuilt when the products change, not on every typed character
+  const index = useMemo(() => {
+    const searchIndex = new MenuSearchIndex();
+    searchIndex.sync({
+      products: searchResults.products,
+      categories: categories || [],
+    });
+    return searchIndex;
+  }, [searchResults.products, categories]);
+
   const enhancedResults = useMemo(() => {
-    if (!searchTerm || !searchResults.products) {
+    if (!searchTerm) {
       return searchResults.products;
     }
 
-    const searchTermLower = searchTerm.toLowerCase();
+    const hits = index.search(searchTerm, { types: ["product"] });
 
-    return searchResults.products
-      .map((product: any) => {
-        let relevanceScore = 0;
-        const name = product.name?.toLowerCase() || "";
-        const description = product.description?.toLowerCase() || "";
-
-        // Name matching (highest priority)
-        if (name === searchTermLower) relevanceScore += 100;
-        else if (name.startsWith(searchTermLower)) relevanceScore += 80;
-        else if (name.includes(searchTermLower)) relevanceScore += 60;
-
-        // Description matching
-        if (description.includes(searchTermLower)) relevanceScore += 30;
-
-        // Tag matching
-        product.tags?.forEach((tag: any) => {
-          if (tag.name.toLowerCase().includes(searchTermLower)) {
-            relevanceScore += 20;
-          }
-        });
+    if (sortBy === "relevance") {
+      return hits.map((hit) => ({ ...hit.item, relevanceScore: hit.score }));
+    }
 
-        return {
-          ...product,
-          relevanceScore,
-        };
-      })
-      .sort((a: any, b: any) => {
-        if (sortBy === "relevance") {
-          return b.relevanceScore - a.relevanceScore;
-        }
-        return 0; // Other sorting handled by useMenuFilter
-      });
-  }, [searchResults.products, searchTerm, sortBy]);
+    // Other sorting handled by useMenuFilter
+    const scores = new Map(hits.map((hit) => [hit.id, hit.score]));
+    return searchResults.products
+      .filter((product: any) => scores.has(product.id))
+      .map((product: any) => ({
+        ...product,
+        relevanceScore: scores.get(product.id),
+      }));
+  }, [index, searchResults.products, searchTerm, sortBy]);
 
   return {
     searchResults: enhancedResults,
@@ -698,6 +1113,105 @@ export const useMenuSearch = ({
   };
 };
 
+// ================== AVAILABILITY HOOKS ==================
+
+// Hook for editing product availability across points and order types
+export const useAvailabilityMatrix = ({
+  brandId,
+  pointIds,
+  orderTypes,
+  skip = false,
+}: {
+  brandId: string;
+  pointIds?: string[];
+  orderTypes?: GraphQLOrderType[];
+  skip?: boolean;
+}) => {
+  const client = useApolloClient();
+  const [matrix, setMatrix] = useState<AvailabilityMatrix | null>(null);
+  const [draft, setDraft] = useState<AvailabilityMatrix | null>(null);
+  const [loading, setLoading] = useState(!skip);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  // Reload only when option values change
+  const optionsKey = JSON.stringify({
+    pointIds: pointIds ?? null,
+    orderTypes: orderTypes ?? null,
+  });
+
+  useEffect(() => {
+    if (skip || !brandId) {
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    const parsed = JSON.parse(optionsKey);
+    const manager = new MenuManager({ client, defaultBrandId: brandId });
+
+    setLoading(true);
+    manager
+      .getAvailabilityMatrix({
+        ...(parsed.pointIds && { pointIds: parsed.pointIds }),
+        ...(parsed.orderTypes && { orderTypes: parsed.orderTypes }),
+      })
+      .then((result) => {
+        if (cancelled) return;
+        setMatrix(result.matrix);
+        setDraft(result.matrix);
+        setError(result.error);
+        setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [client, brandId, optionsKey, skip, reloadKey]);
+
+  const pendingUpdates = useMemo(
+    () => (matrix && draft ? getAvailabilityUpdates(matrix, draft) : []),
+    [matrix, draft]
+  );
+
+  const edit = useCallback((...edits: AvailabilityEdit[]) => {
+    setDraft((current) =>
+      current ? applyAvailabilityEdits(current, edits) : current
+    );
+  }, []);
+
+  const reset = useCallback(() => setDraft(matrix), [matrix]);
+
+  const save = useCallback(async () => {
+    if (!matrix || !draft) return null;
+
+    setSaving(true);
+    const manager = new MenuManager({ client, defaultBrandId: brandId });
+    const result = await manager.saveAvailabilityMatrix(matrix, draft);
+    setSaving(false);
+    setError(result.error);
+    setReloadKey((key) => key + 1);
+    return result;
+  }, [client, brandId, matrix, draft]);
+
+  const refetch = useCallback(() => setReloadKey((key) => key + 1), []);
+
+  return {
+    matrix: draft,
+    originalMatrix: matrix,
+    pendingUpdates,
+    hasChanges: pendingUpdates.length > 0,
+    edit,
+    reset,
+    save,
+    loading,
+    saving,
+    error,
+    refetch,
+  };
+};
+
 // ================== DOMAIN-SPECIFIC UTILITIES ==================
 
 // Menu item validation utility
@@ -878,8 +1392,18 @@ export const MENU_HOOKS = {
   useMenuManagement,
   useMenuOrganization,
   useMenuFilter,
+  useMenuFilterUrlState,
   useMenuSearch,
 
+  // Availability hooks
+  useAvailabilityMatrix,
+
+  // Recommendation hooks
+  useRecommendations,
+
+  // Menu screen hooks
+  useMenuSections,
+
   // Legacy compatibility (deprecated)
   useMenuData_DEPRECATED,
   useOrganizedMenuData_DEPRECATED,
@@ -1,5 +1,10 @@
-import { useQuery, useMutation, useApolloClient } from "@apollo/client";
-import { useMemo, useCallback } from "react";
+import {
+  useQuery,
+  useMutation,
+  useApolloClient,
+  NetworkStatus,
+} from "@apollo/client";
+import { useMemo, useCallback, useEffect, useRef, useState } from "react";
 import {
   GET_ORDER_DETAIL,
   GET_ORDER_WITH_ITEMS,
@@ -8,6 +13,8 @@ import {
   GET_ORDERS_LIST,
   GET_USER_ORDER_HISTORY,
   GET_ACTIVE_ORDERS,
+  GET_ORDER_CONNECTION,
+  GET_ORDER_CONNECTION_WITH_ITEMS,
 } from "../graphql/queries/order";
 import {
   CREATE_ORDER_PREORDER_BY_EMPLOYEE,
@@ -33,8 +40,38 @@ import type {
   OrderItemAddInput,
   OrderItemUpdateInput,
   OrdersFilterInput,
+  OrderConnectionInput,
+  OrderSortStrategy,
+  Sort,
 } from "../graphql-types";
 import { OrderStatus } from "../graphql-types";
+import {
+  DEFAULT_ORDER_PAGE_SIZE,
+  type OrderFilter,
+} from "../managers/OrderManager";
+import {
+  buildPreOrderUpdateInput,
+  hasPreOrderChanges,
+  type CurrentOrderState,
+  type DesiredOrderItem,
+  type ReconcileOptions,
+} from "../utils/reconciliation";
+import {
+  OrderWatcher,
+  type OrderWatcherConfig,
+  type OrderFeedEvent,
+  type OrderFeedTransport,
+} from "../managers/OrderWatcher";
+import {
+  OrderAnalytics,
+  type OrderAnalyticsOptions,
+  type OrderAnalyticsResult,
+} from "../managers/OrderAnalytics";
+import {
+  orderStatusMachine,
+  type OrderStatusMachine,
+  type OrderStatusSubject,
+} from "../managers/OrderStatusMachine";
 
 // ====================================================================
 // ORDER HOOKS - React hooks for order operations
@@ -175,6 +212,293 @@ export const useOrderHistory = ({
   });
 };
 
+// Hook for cursor-paginated orders via orderConnection.
+// Pages are merged by orderConnectionFieldPolicy (see createOptimizedCache).
+export const useOrderConnection = ({
+  brandId,
+  filter,
+  pageSize = DEFAULT_ORDER_PAGE_SIZE,
+  direction = "forward",
+  sort,
+  sortStrategy,
+  level = "detail",
+  skip = false,
+}: {
+  brandId: string;
+  filter?: OrdersFilterInput;
+  pageSize?: number;
+  direction?: "forward" | "backward";
+  sort?: Sort;
+  sortStrategy?: OrderSortStrategy;
+  level?: "detail" | "withItems";
+  skip?: boolean;
+}) => {
+  const baseInput = useMemo(() => {
+    const input: OrderConnectionInput = { brandId };
+    if (filter) input.filter = filter;
+    if (sort) input.sort = sort;
+    if (sortStrategy) input.sortStrategy = sortStrategy;
+    return input;
+  }, [brandId, filter, sort, sortStrategy]);
+
+  const query = useQuery(
+    level === "withItems"
+      ? GET_ORDER_CONNECTION_WITH_ITEMS
+      : GET_ORDER_CONNECTION,
+    {
+      variables: {
+        input: {
+          ...baseInput,
+          pagination:
+            direction === "backward"
+              ? { backward: { last: pageSize } }
+              : { forward: { first: pageSize } },
+        },
+      },
+      skip: skip || !brandId,
+      errorPolicy: "all",
+      notifyOnNetworkStatusChange: true,
+    }
+  );
+
+  const connection = query.data?.orderConnection;
+  const edges = connection?.edges || [];
+  const pageInfo = connection?.pageInfo || null;
+  const orders = useMemo(
+    () => edges.map((edge: any) => edge.order),
+    [edges]
+  );
+
+  // Load the next page in the hook direction
+  const fetchMore = useCallback(() => {
+    if (!pageInfo?.hasNextPage) return Promise.resolve(null);
+
+    const pagination =
+      direction === "backward"
+        ? {
+            backward: {
+              last: pageSize,
+              ...(pageInfo.cursorStart && { before: pageInfo.cursorStart }),
+            },
+          }
+        : {
+            forward: {
+              first: pageSize,
+              ...(pageInfo.cursorEnd && { after: pageInfo.cursorEnd }),
+            },
+          };
+
+    return query.fetchMore({
+      variables: { input: { ...baseInput, pagination } },
+    });
+  }, [query.fetchMore, baseInput, pageInfo, direction, pageSize]);
+
+  return {
+    orders,
+    edges,
+    pageInfo,
+    totalCount: connection?.totalCount ?? 0,
+    hasMore: pageInfo?.hasNextPage ?? false,
+    loading: query.loading,
+    loadingMore: query.networkStatus === NetworkStatus.fetchMore,
+    error: query.error,
+    fetchMore,
+    refetch: query.refetch,
+  };
+};
+
+// ================== REAL-TIME HOOKS ==================
+
+// Hook for a live order feed of a point with change events
+export const useOrderFeed = ({
+  brandId,
+  pointId,
+  filter,
+  interval,
+  hiddenInterval,
+  transport,
+  onEvent,
+  maxEvents = 50,
+  skip = false,
+}: {
+  brandId: string;
+  pointId: string;
+  filter?: OrderFilter;
+  interval?: number;
+  hiddenInterval?: number;
+  transport?: OrderFeedTransport;
+  onEvent?: (event: OrderFeedEvent) => void;
+  maxEvents?: number;
+  skip?: boolean;
+}) => {
+  const client = useApolloClient();
+  const [orders, setOrders] = useState<any[]>([]);
+  const [events, setEvents] = useState<OrderFeedEvent[]>([]);
+  const [loading, setLoading] = useState(!skip);
+  const [error, setError] = useState<Error | null>(null);
+
+  const onEventRef = useRef(onEvent);
+  onEventRef.current = onEvent;
+
+  // Restart the watcher only when the filter value changes
+  const filterKey = JSON.stringify(filter ?? null);
+
+  useEffect(() => {
+    if (skip || !brandId || !pointId) {
+      setLoading(false);
+      return;
+    }
+
+    const config: OrderWatcherConfig = { client, brandId, pointId };
+    const parsedFilter = JSON.parse(filterKey);
+    if (parsedFilter) config.filter = parsedFilter;
+    if (interval !== undefined) config.interval = interval;
+    if (hiddenInterval !== undefined) config.hiddenInterval = hiddenInterval;
+    if (transport) config.transport = transport;
+
+    const watcher = new OrderWatcher(config);
+    const unsubscribers = [
+      watcher.onSnapshot((nextOrders) => {
+        setOrders(nextOrders);
+        setLoading(false);
+        setError(null);
+      }),
+      watcher.onEvent((event) => {
+        setEvents((previous) => [event, ...previous].slice(0, maxEvents));
+        onEventRef.current?.(event);
+      }),
+      watcher.onError((watchError) => {
+        setError(watchError);
+        setLoading(false);
+      }),
+    ];
+
+    setLoading(true);
+    watcher.start();
+
+    return () => {
+      unsubscribers.forEach((unsubscribe) => unsubscribe());
+      watcher.stop();
+    };
+  }, [
+    client,
+    brandId,
+    pointId,
+    filterKey,
+    interval,
+    hiddenInterval,
+    transport,
+    maxEvents,
+    skip,
+  ]);
+
+  const clearEvents = useCallback(() => setEvents([]), []);
+
+  return {
+    orders,
+    events,
+    lastEvent: events[0] ?? null,
+    loading,
+    error,
+    clearEvents,
+  };
+};
+
+// Hook for sales analytics over a dueTime range
+export const useOrderAnalytics = ({
+  brandId,
+  from,
+  to,
+  filter,
+  statuses,
+  topLimit,
+  utcOffset,
+  pageSize,
+  skip = false,
+}: OrderAnalyticsOptions & {
+  brandId: string;
+  pageSize?: number;
+  skip?: boolean;
+}) => {
+  const client = useApolloClient();
+  const [analytics, setAnalytics] = useState<OrderAnalyticsResult | null>(
+    null
+  );
+  const [loading, setLoading] = useState(!skip);
+  const [error, setError] = useState<Error | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  // Invalid dates are reported through error, not thrown during render
+  const fromDate = new Date(from);
+  const toDate = new Date(to);
+  const rangeError =
+    isNaN(fromDate.getTime()) || isNaN(toDate.getTime())
+      ? `Invalid analytics range: ${String(from)} - ${String(to)}`
+      : null;
+
+  // Reload only when option values change
+  const optionsKey = JSON.stringify({
+    from: rangeError ? null : fromDate.toISOString(),
+    to: rangeError ? null : toDate.toISOString(),
+    filter: filter ?? null,
+    statuses: statuses ?? null,
+    topLimit: topLimit ?? null,
+    utcOffset: utcOffset ?? null,
+  });
+
+  useEffect(() => {
+    if (skip || !brandId) {
+      setLoading(false);
+      return;
+    }
+    if (rangeError) {
+      setAnalytics(null);
+      setError(new Error(rangeError));
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    const parsed = JSON.parse(optionsKey);
+    const options: OrderAnalyticsOptions = {
+      brandId,
+      from: parsed.from,
+      to: parsed.to,
+    };
+    if (parsed.filter) options.filter = parsed.filter;
+    if (parsed.statuses) options.statuses = parsed.statuses;
+    if (parsed.topLimit !== null) options.topLimit = parsed.topLimit;
+    if (parsed.utcOffset !== null) options.utcOffset = parsed.utcOffset;
+
+    const service = new OrderAnalytics({
+      client,
+      ...(pageSize !== undefined && { pageSize }),
+    });
+
+    setLoading(true);
+    service.getAnalytics(options).then((result) => {
+      if (cancelled) return;
+      setAnalytics(result.analytics);
+      setError(result.error);
+      setLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [client, brandId, optionsKey, rangeError, pageSize, skip, reloadKey]);
+
+  const refetch = useCallback(() => setReloadKey((key) => key + 1), []);
+
+  return {
+    analytics,
+    totals: analytics?.totals ?? null,
+    loading,
+    error,
+    refetch,
+  };
+};
+
 // ================== MUTATION HOOKS ==================
 
 // Hook for creating a preorder by employee
@@ -231,11 +555,18 @@ export const useUpdatePreOrderByEmployee = () => {
 // ================== STATUS MANAGEMENT HOOKS ==================
 
 // Hook for updating order status with optimistic updates
-export const useUpdateOrderStatus = () => {
+export const useUpdateOrderStatus = ({
+  statusMachine = orderStatusMachine,
+}: {
+  statusMachine?: OrderStatusMachine;
+} = {}) => {
   const client = useApolloClient();
 
   const updateStatus = useCallback(
-    (status: OrderStatus) => {
+    (
+      status: OrderStatus,
+      order: OrderStatusSubject & { id: string; brandId: string }
+    ) => {
       const statusMutations = {
         [OrderStatus.New]: SET_ORDER_STATUS_NEW,
         [OrderStatus.Accepted]: SET_ORDER_STATUS_ACCEPTED,
@@ -250,8 +581,12 @@ export const useUpdateOrderStatus = () => {
         throw new Error(`Unsupported order status: ${status}`);
       }
 
+      // Reject illegal moves before calling the server
+      statusMachine.assertTransition(order, status);
+
       return client.mutate({
         mutation,
+        variables: { brandId: order.brandId, id: order.id },
         errorPolicy: "all",
         optimisticResponse: (variables: any) => ({
           orderPreOrderByEmployeeUpdate: {
@@ -275,7 +610,7 @@ export const useUpdateOrderStatus = () => {
         },
       });
     },
-    [client]
+    [client, statusMachine]
   );
 
   return { updateStatus };
@@ -341,10 +676,46 @@ export const useOrderItemManagement = () => {
     errorPolicy: "all",
   });
 
+  const reconcileItems = useMutation(UPDATE_ORDER_PREORDER_BY_EMPLOYEE, {
+    update: (cache, { data }) => {
+      if (data?.orderPreOrderByEmployeeUpdate) {
+        const orderRef = cache.identify(data.orderPreOrderByEmployeeUpdate);
+        if (orderRef) {
+          cache.modify({
+            id: orderRef,
+            fields: {
+              items: () => data.orderPreOrderByEmployeeUpdate.items,
+              priceTotal: () => data.orderPreOrderByEmployeeUpdate.priceTotal,
+            },
+          });
+        }
+      }
+    },
+    errorPolicy: "all",
+  });
+
+  // Send only the item changes needed to reach the desired list
+  const [reconcile] = reconcileItems;
+  const syncItems = useCallback(
+    (
+      order: CurrentOrderState,
+      items: DesiredOrderItem[],
+      options?: ReconcileOptions
+    ) => {
+      const input = buildPreOrderUpdateInput(order, { items }, options);
+      if (!hasPreOrderChanges(input)) {
+        return Promise.resolve(null);
+      }
+      return reconcile({ variables: { input } });
+    },
+    [reconcile]
+  );
+
   return {
     addItems,
     updateItems,
     removeItems,
+    syncItems,
   };
 };
 
@@ -452,9 +823,22 @@ export const useOrderWorkflow = ({
     const canCancel = ![OrderStatus.Complete].includes(
       order.status as OrderStatus
     );
-    const canPrepare = order.status === OrderStatus.Accepted;
-    const canMarkReady = order.status === OrderStatus.Prepared;
-    const canComplete = order.status === OrderStatus.Ready;
+    const canPrepare = orderStatusMachine.canTransition(
+      order,
+      OrderStatus.Prepared
+    ).allowed;
+    const canMarkReady = orderStatusMachine.canTransition(
+      order,
+      OrderStatus.Ready
+    ).allowed;
+    const canSubmit = orderStatusMachine.canTransition(
+      order,
+      OrderStatus.Submitted
+    ).allowed;
+    const canComplete = orderStatusMachine.canTransition(
+      order,
+      OrderStatus.Complete
+    ).allowed;
     const isActive = [
       OrderStatus.New,
       OrderStatus.Accepted,
@@ -467,6 +851,7 @@ export const useOrderWorkflow = ({
       canCancel,
       canPrepare,
       canMarkReady,
+      canSubmit,
       canComplete,
       isActive,
       hasItems: order.items && order.items.length > 0,
@@ -476,12 +861,21 @@ export const useOrderWorkflow = ({
   }, [orderQuery.data]);
 
   // Workflow actions
-  const workflowActions = useMemo(
-    () => ({
-      acceptOrder: () => updateStatus(OrderStatus.Accepted),
-      startPreparation: () => updateStatus(OrderStatus.Prepared),
-      markReady: () => updateStatus(OrderStatus.Ready),
-      completeOrder: () => updateStatus(OrderStatus.Complete),
+  const workflowActions = useMemo(() => {
+    const setStatus = (status: OrderStatus) => {
+      const order = orderQuery.data?.order;
+      if (!order) {
+        throw new Error("Order is not loaded");
+      }
+      return updateStatus(status, order);
+    };
+
+    return {
+      acceptOrder: () => setStatus(OrderStatus.Accepted),
+      startPreparation: () => setStatus(OrderStatus.Prepared),
+      markReady: () => setStatus(OrderStatus.Ready),
+      submitOrder: () => setStatus(OrderStatus.Submitted),
+      completeOrder: () => setStatus(OrderStatus.Complete),
       addItems: (items: OrderItemAddInput[]) =>
         addItems[0]({
           variables: {
@@ -505,9 +899,16 @@ export const useOrderWorkflow = ({
             id: orderId,
           },
         }),
-    }),
-    [updateStatus, addItems, updateComment, clearComment, orderId, brandId]
-  );
+    };
+  }, [
+    orderQuery.data,
+    updateStatus,
+    addItems,
+    updateComment,
+    clearComment,
+    orderId,
+    brandId,
+  ]);
 
   return {
     order: orderQuery.data?.order || null,
@@ -747,6 +1148,13 @@ export const ORDER_HOOKS = {
   useOrdersForPoint,
   useActiveOrders,
   useOrderHistory,
+  useOrderConnection,
+
+  // Real-time hooks
+  useOrderFeed,
+
+  // Analytics hooks
+  useOrderAnalytics,
 
   // Basic mutation hooks
   useCreatePreOrderByEmployee,
@@ -777,19 +1185,10 @@ export const ORDER_HOOKS = {
 // Order status validation utility
 export const isValidOrderStatusTransition = (
   currentStatus: OrderStatus,
-  newStatus: OrderStatus
-): boolean => {
-  const validTransitions: Record<OrderStatus, OrderStatus[]> = {
-    [OrderStatus.New]: [OrderStatus.Accepted],
-    [OrderStatus.Accepted]: [OrderStatus.Prepared],
-    [OrderStatus.Prepared]: [OrderStatus.Ready],
-    [OrderStatus.Ready]: [OrderStatus.Complete],
-    [OrderStatus.Submitted]: [OrderStatus.Complete],
-    [OrderStatus.Complete]: [], // Terminal state
-  };
-
-  return validTransitions[currentStatus]?.includes(newStatus) || false;
-};
+  newStatus: OrderStatus,
+  orderType?: string
+): boolean =>
+  orderStatusMachine.isAllowedTransition(currentStatus, newStatus, orderType);
 
 // Order priority calculation utility
 export const calculateOrderPriority = (order: any): number => {
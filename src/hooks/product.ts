@@ -32,6 +32,7 @@ import type {
   ProductDeleteInput,
   ProductsFilterInput,
 } from "../graphql-types";
+import { createCachePriceResolver } from "../utils/pricing";
 
 // ====================================================================
 // PRODUCT HOOKS - React hooks for product operations
@@ -634,8 +635,15 @@ export const useProductPricing = () => {
     []
   );
 
-  // Calculate effective price based on context
-  const calculateEffectivePrice = useCallback(
+  // Shared resolver, point cities come from the Apollo cache
+  const client = useApolloClient();
+  const priceResolver = useMemo(
+    () => createCachePriceResolver(client.cache),
+    [client]
+  );
+
+  // Explain which price rule applies in the given context
+  const explainEffectivePrice = useCallback(
     (context: {
       basePrice: number;
       orderType: string;
@@ -645,42 +653,28 @@ export const useProductPricing = () => {
     }) => {
       const { basePrice, orderType, cityId, pointId, priceSettings } = context;
 
-      if (!priceSettings?.priceOrderTypes) {
-        return basePrice;
-      }
-
-      const orderTypeSettings = priceSettings.priceOrderTypes.find(
-        (setting: any) => setting.orderType === orderType
-      );
-
-      if (!orderTypeSettings) {
-        return basePrice;
-      }
-
-      // Check point-specific price first
-      if (pointId) {
-        const pointPrice = orderTypeSettings.pricePoints?.find(
-          (pp: any) => pp.pointId === pointId
-        );
-        if (pointPrice) {
-          return pointPrice.price;
-        }
-      }
-
-      // Check city-specific price
-      if (cityId) {
-        const cityPrice = orderTypeSettings.priceCities?.find(
-          (cp: any) => cp.cityId === cityId
-        );
-        if (cityPrice) {
-          return cityPrice.price;
+      return priceResolver.resolve(
+        { ...priceSettings, price: basePrice },
+        {
+          orderType,
+          ...(cityId && { cityId }),
+          ...(pointId && { pointId }),
         }
-      }
-
-      // Use order type common price
-      return orderTypeSettings.priceCommon || basePrice;
+      );
     },
-    []
+    [priceResolver]
+  );
+
+  // Calculate effective price based on context
+  const calculateEffectivePrice = useCallback(
+    (context: {
+      basePrice: number;
+      orderType: string;
+      cityId?: string;
+      pointId?: string;
+      priceSettings?: any;
+    }) => explainEffectivePrice(context).price ?? context.basePrice,
+    [explainEffectivePrice]
   );
 
   // Get all order type prices
@@ -790,6 +784,7 @@ export const useProductPricing = () => {
 
     // Price calculation
     calculateEffectivePrice,
+    explainEffectivePrice,
     getOrderTypePrices,
 
     // Validation
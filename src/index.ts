@@ -47,6 +47,7 @@ export {
   ORDER_HOOKS,
   POINT_HOOKS,
   USER_HOOKS,
+  CART_HOOKS,
 } from "./hooks";
 
 // Export commonly used hooks directly
@@ -68,6 +69,10 @@ export {
   useMenuData,
   useOrganizedMenuData,
   useMenuFilter,
+  useAvailabilityMatrix,
+  useRecommendations,
+  useMenuSections,
+  useMenuFilterUrlState,
   useBrand,
   useBrandBySlug,
   useBrands,
@@ -90,6 +95,9 @@ export {
   useOrdersForEmployee,
   useOrdersForPoint,
   useOrderHistory,
+  useOrderConnection,
+  useOrderFeed,
+  useOrderAnalytics,
   useCreatePreOrderByEmployee,
   useUpdatePreOrderByEmployee,
   useOrderManagement,
@@ -105,6 +113,7 @@ export {
   useRestoplaceAddressIntegration,
   useAuthenticationFlow,
   useEmployeeManagement,
+  useCart,
 } from "./hooks";
 
 // ================== BUSINESS MANAGERS ==================
@@ -129,10 +138,28 @@ export {
   OrderManagerFactory,
   UserManager,
   UserManagerFactory,
+  CartManager,
+  CartManagerFactory,
+  createMemoryCartStorage,
+  createLocalStorageCartStorage,
+  OrderWatcher,
+  createPollingOrderTransport,
+  OrderAnalytics,
+  computeOrderAnalytics,
+  MenuSnapshotManager,
+  MenuSnapshotManagerFactory,
+  createMenuSnapshot,
+  parseMenuSnapshot,
+  serializeMenuSnapshot,
+  OrderStatusMachine,
+  orderStatusMachine,
+  ORDER_STATUS_LABELS,
+  ORDER_STATUS_COLORS,
   RestomenuManagers,
   CacheManager,
   PerformanceMonitor,
   createOptimizedCache,
+  orderConnectionFieldPolicy,
 } from "./managers";
 
 // Export manager types
@@ -146,6 +173,7 @@ export type {
   MenuManagerConfig,
   MenuFilter,
   MenuData,
+  MenuDiffTarget,
   BrandManagerConfig,
   BrandFilter,
   CreateElectronicMenuInput,
@@ -159,10 +187,33 @@ export type {
   OrderFilter,
   CreatePreOrderInput,
   UpdatePreOrderInput,
+  OrderPageOptions,
+  OrderPage,
+  DesiredPreOrderUpdate,
   UserManagerConfig,
   EmployeeFilter,
   AuthenticationCredentials,
   RestoplaceCredentials,
+  CartManagerConfig,
+  CartLine,
+  CartSnapshot,
+  CartTotals,
+  CartStorageAdapter,
+  AddCartItemInput,
+  OrderWatcherConfig,
+  OrderFeedEvent,
+  OrderFeedTransport,
+  OrderAnalyticsConfig,
+  OrderAnalyticsOptions,
+  OrderAnalyticsResult,
+  MenuSnapshot,
+  MenuSnapshotManagerConfig,
+  MenuImportOptions,
+  MenuImportReport,
+  OrderStatusEvent,
+  OrderStatusGuard,
+  OrderTransitionResult,
+  OrderStatusMachineConfig,
 } from "./managers";
 
 // ================== UTILITIES ==================
@@ -6,7 +6,18 @@ import {
   GET_ACTIVE_BRANDS,
   GET_BRANDS_BY_ACCOUNT,
 } from "../graphql/queries/brand";
+import { GET_POINT_DETAIL } from "../graphql/queries/point";
 import { CREATE_ELECTRONIC_MENU } from "../graphql/mutations/brand";
+import type { OrderType } from "../graphql-types";
+import {
+  buildTableQrSheet,
+  createMenuQrCode,
+  renderTableQrSheetDocumentHtml,
+  type MenuQrCode,
+  type MenuQrCodeOptions,
+  type TableQrSheet,
+  type TableQrSheetOptions,
+} from "../utils/menuQr";
 
 // ====================================================================
 // BRAND MANAGER - High-level business logic for brand operations
@@ -15,6 +26,8 @@ import { CREATE_ELECTRONIC_MENU } from "../graphql/mutations/brand";
 export interface BrandManagerConfig {
   client: ApolloClient<any>;
   defaultAccountId?: string;
+  /** Web menu address QR codes link to, e.g. "https://menu.example.com" */
+  menuBaseUrl?: string;
 }
 
 export interface BrandFilter {
@@ -231,6 +244,133 @@ export class BrandManager {
     }
   }
 
+  // ================== QR CODES ==================
+
+  /**
+   * QR code of a brand menu for a point and order type, ON_TABLE needs
+   * a table number
+   */
+  async getMenuQrCode(options: {
+    brandId: string;
+    pointId: string;
+    orderType: OrderType;
+    table?: string | number;
+    baseUrl?: string;
+    params?: Record<string, string>;
+    qr?: MenuQrCodeOptions;
+  }): Promise<{
+    qrCode: MenuQrCode | null;
+    loading: boolean;
+    error: Error | null;
+  }> {
+    try {
+      const baseUrl = this.getMenuBaseUrl(options.baseUrl);
+      const { brand } = await this.loadQrContext(options.brandId);
+
+      return {
+        qrCode: createMenuQrCode(
+          baseUrl,
+          {
+            brandSlug: brand.slug,
+            pointId: options.pointId,
+            orderType: options.orderType,
+            ...(options.table !== undefined && { table: options.table }),
+            ...(options.params && { params: options.params }),
+          },
+          options.qr
+        ),
+        loading: false,
+        error: null,
+      };
+    } catch (error) {
+      return {
+        qrCode: null,
+        loading: false,
+        error: error as Error,
+      };
+    }
+  }
+
+  /**
+   * Printable sheet of ON_TABLE codes for a point, labeled with the
+   * table and point address
+   */
+  async getTableQrSheet(
+    options: {
+      brandId: string;
+      pointId: string;
+      baseUrl?: string;
+    } & Omit<
+      TableQrSheetOptions,
+      "baseUrl" | "brandSlug" | "pointId" | "pointAddress"
+    >
+  ): Promise<{
+    html: string | null;
+    sheet: TableQrSheet | null;
+    loading: boolean;
+    error: Error | null;
+  }> {
+    try {
+      const { brandId, baseUrl, ...sheetOptions } = options;
+      const { brand, point } = await this.loadQrContext(
+        brandId,
+        options.pointId
+      );
+
+      const input: TableQrSheetOptions = {
+        title: brand.name,
+        ...(point?.name && { pointName: point.name }),
+        ...(point?.address && { pointAddress: point.address }),
+        ...sheetOptions,
+        baseUrl: this.getMenuBaseUrl(baseUrl),
+        brandSlug: brand.slug,
+      };
+
+      const sheet = buildTableQrSheet(input);
+      return {
+        html: renderTableQrSheetDocumentHtml(sheet),
+        sheet,
+        loading: false,
+        error: null,
+      };
+    } catch (error) {
+      return {
+        html: null,
+        sheet: null,
+        loading: false,
+        error: error as Error,
+      };
+    }
+  }
+
+  private getMenuBaseUrl(baseUrl?: string): string {
+    const result = baseUrl || this.config.menuBaseUrl;
+    if (!result) {
+      throw new Error("menuBaseUrl is required for menu QR codes");
+    }
+    return result;
+  }
+
+  private async loadQrContext(brandId: string, pointId?: string) {
+    const brandResult = await this.getById(brandId);
+    if (brandResult.error) throw brandResult.error;
+    if (!brandResult.brand?.slug) {
+      throw new Error(`Brand ${brandId} has no slug for menu links`);
+    }
+
+    let point: any = null;
+    if (pointId) {
+      const pointResult = await this.client.query({
+        query: GET_POINT_DETAIL,
+        variables: { input: { id: pointId, brandId } },
+        fetchPolicy: "cache-first",
+      });
+      point = pointResult.data?.point || null;
+    }
+
+    return { brand: brandResult.brand, point };
+  }
+
   // ================== UTILITY METHODS ==================
 
   /**
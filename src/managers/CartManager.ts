@@ -0,0 +1,520 @@
+import type {
+  OrderItemAddInput,
+  OrderPreOrderByEmployeeCreateInput,
+} from "../graphql-types";
+import {
+  OrderPricingPipeline,
+  type OrderPricingResult,
+  type OrderPricingSettings,
+} from "../utils/orderPricing";
+
+// ====================================================================
+// CART MANAGER - Client-side cart producing pre-order inputs
+// ====================================================================
+
+export interface CartLine {
+  /** Product id that goes to the order (the chosen variant, if any) */
+  productId: string;
+  /** Product the chosen variant belongs to */
+  parentProductId?: string;
+  name: string;
+  quantity: number;
+  /** Price in kopecks resolved for the cart point and order type */
+  pricePoint: number;
+  imageUrl?: string;
+}
+
+export interface CartSnapshot {
+  version: number;
+  brandId: string;
+  pointId: string;
+  orderType: string;
+  lines: CartLine[];
+  personsNumber?: number;
+  comment?: string;
+  updatedAt: string;
+}
+
+export interface CartTotals {
+  subtotal: number;
+  total: number;
+  itemsCount: number;
+  linesCount: number;
+}
+
+/**
+ * Storage used to persist a cart between reloads.
+ * Mirrors the Web Storage API, so `window.localStorage` and
+ * React Native's AsyncStorage can be passed as is.
+ */
+export interface CartStorageAdapter {
+  getItem(key: string): string | null | Promise<string | null>;
+  setItem(key: string, value: string): void | Promise<void>;
+  removeItem(key: string): void | Promise<void>;
+}
+
+export interface CartManagerConfig {
+  brandId: string;
+  pointId: string;
+  orderType: string;
+  storage?: CartStorageAdapter;
+  storageKey?: string;
+  /** Pricing rules shared with OrderManager.calculateOrderTotals */
+  pricing?: OrderPricingSettings | OrderPricingPipeline;
+}
+
+export interface AddCartItemInput {
+  productId: string;
+  parentProductId?: string;
+  name: string;
+  quantity?: number;
+  pricePoint: number;
+  imageUrl?: string;
+}
+
+export type CartListener = (snapshot: CartSnapshot) => void;
+
+export const CART_SNAPSHOT_VERSION = 1;
+
+interface HydrationEdits {
+  changed: boolean;
+  cleared: boolean;
+  removed: Set<string>;
+  personsNumber: boolean;
+  comment: boolean;
+}
+
+export class CartManager {
+  private config: CartManagerConfig;
+  private lines: CartLine[] = [];
+  private personsNumber: number | undefined;
+  private comment: string | undefined;
+  private updatedAt: string = new Date().toISOString();
+  private listeners: Set<CartListener> = new Set();
+  private pricing: OrderPricingPipeline;
+  /** Edits made while hydrate is reading storage */
+  private hydrationEdits: HydrationEdits | null = null;
+
+  constructor(config: CartManagerConfig) {
+    this.config = config;
+    this.pricing =
+      config.pricing instanceof OrderPricingPipeline
+        ? config.pricing
+        : new OrderPricingPipeline(config.pricing);
+  }
+
+  // ================== CART CONTENT ==================
+
+  /**
+   * Add a line to the cart, merging it with an existing line for the same product
+   */
+  addItem(input: AddCartItemInput) {
+    const quantity = input.quantity ?? 1;
+
+    if (!input.productId) {
+      throw new Error("productId is required");
+    }
+    if (!Number.isInteger(quantity) || quantity <= 0) {
+      throw new Error("Quantity must be a positive integer");
+    }
+
+    const existing = this.lines.find(
+      (line) => line.productId === input.productId
+    );
+
+    if (existing) {
+      this.lines = this.lines.map((line) =>
+        line === existing
+          ? {
+              ...line,
+              quantity: line.quantity + quantity,
+              pricePoint: input.pricePoint,
+            }
+          : line
+      );
+    } else {
+      const line: CartLine = {
+        productId: input.productId,
+        name: input.name,
+        quantity,
+        pricePoint: input.pricePoint,
+      };
+      if (input.parentProductId !== undefined)
+        line.parentProductId = input.parentProductId;
+      if (input.imageUrl !== undefined) line.imageUrl = input.imageUrl;
+      this.lines = [...this.lines, line];
+    }
+
+    this.commit();
+  }
+
+  /**
+   * Add a menu product (or one of its variants) using its resolved pricePoint
+   */
+  addProduct(
+    product: any,
+    options: { variantId?: string; quantity?: number } = {}
+  ) {
+    const variant = options.variantId
+      ? product.variants?.find((item: any) => item.id === options.variantId)
+      : product;
+
+    if (!variant) {
+      throw new Error(
+        `Variant ${options.variantId} not found for product ${product.id}`
+      );
+    }
+
+    const pricePoint = variant.pricePoint ?? product.pricePoint;
+    if (typeof pricePoint !== "number") {
+      throw new Error(`Price is not resolved for product ${variant.id}`);
+    }
+
+    const input: AddCartItemInput = {
+      productId: variant.id,
+      name: variant.name || product.name,
+      pricePoint,
+    };
+    if (options.quantity !== undefined) input.quantity = options.quantity;
+    if (variant.id !== product.id) input.parentProductId = product.id;
+
+    const imageUrl = (variant.images?.[0] || product.images?.[0])?.url;
+    if (imageUrl) input.imageUrl = imageUrl;
+
+    this.addItem(input);
+  }
+
+  /**
+   * Set quantity for a line. Zero or less removes the line.
+   */
+  setQuantity(productId: string, quantity: number) {
+    if (quantity <= 0) {
+      this.removeItem(productId);
+      return;
+    }
+
+    this.lines = this.lines.map((line) =>
+      line.productId === productId ? { ...line, quantity } : line
+    );
+    this.commit();
+  }
+
+  /**
+   * Remove a line from the cart
+   */
+  removeItem(productId: string) {
+    this.hydrationEdits?.removed.add(productId);
+    this.lines = this.lines.filter((line) => line.productId !== productId);
+    this.commit();
+  }
+
+  /**
+   * Set persons number, pass undefined to reset it
+   */
+  setPersonsNumber(personsNumber: number | undefined) {
+    if (this.hydrationEdits) this.hydrationEdits.personsNumber = true;
+    this.personsNumber = personsNumber;
+    this.commit();
+  }
+
+  /**
+   * Set order comment, pass undefined or empty string to reset it
+   */
+  setComment(comment: string | undefined) {
+    if (this.hydrationEdits) this.hydrationEdits.comment = true;
+    this.comment = comment || undefined;
+    this.commit();
+  }
+
+  /**
+   * Remove all lines, persons number and comment
+   */
+  clear() {
+    if (this.hydrationEdits) this.hydrationEdits.cleared = true;
+    this.lines = [];
+    this.personsNumber = undefined;
+    this.comment = undefined;
+    this.commit();
+  }
+
+  // ================== READ METHODS ==================
+
+  getLines(): CartLine[] {
+    return this.lines;
+  }
+
+  isEmpty(): boolean {
+    return this.lines.length === 0;
+  }
+
+  /**
+   * Recalculate cart totals (integer kopecks)
+   */
+  getTotals(): CartTotals {
+    const pricing = this.getPricing();
+
+    return {
+      subtotal: pricing.subtotal,
+      total: pricing.total,
+      itemsCount: pricing.itemsCount,
+      linesCount: this.lines.length,
+    };
+  }
+
+  /**
+   * Itemized pricing breakdown for the cart brand, point and order type
+   */
+  getPricing(): OrderPricingResult {
+    return this.pricing.calculate(
+      this.lines.map((line) => ({
+        quantity: line.quantity,
+        price: line.pricePoint,
+      })),
+      {
+        brandId: this.config.brandId,
+        pointId: this.config.pointId,
+        orderType: this.config.orderType,
+      }
+    );
+  }
+
+  getSnapshot(): CartSnapshot {
+    const snapshot: CartSnapshot = {
+      version: CART_SNAPSHOT_VERSION,
+      brandId: this.config.brandId,
+      pointId: this.config.pointId,
+      orderType: this.config.orderType,
+      lines: this.lines,
+      updatedAt: this.updatedAt,
+    };
+    if (this.personsNumber !== undefined)
+      snapshot.personsNumber = this.personsNumber;
+    if (this.comment !== undefined) snapshot.comment = this.comment;
+    return snapshot;
+  }
+
+  /**
+   * Build a ready-to-send input for orderPreOrderByEmployeeCreate
+   */
+  toPreOrderInput(): OrderPreOrderByEmployeeCreateInput {
+    const itemsAdd: OrderItemAddInput[] = this.lines.map((line) => ({
+      productId: line.productId,
+      quantity: line.quantity,
+    }));
+
+    const input: OrderPreOrderByEmployeeCreateInput = {
+      brandId: this.config.brandId,
+      pointId: this.config.pointId,
+      itemsAdd,
+    };
+    if (this.personsNumber !== undefined)
+      input.personsNumber = this.personsNumber;
+    if (this.comment !== undefined) input.comment = this.comment;
+
+    return input;
+  }
+
+  /**
+   * Validate cart before sending it to the server
+   */
+  validate() {
+    const errors: string[] = [];
+
+    if (!this.config.brandId) {
+      errors.push("Brand ID is required");
+    }
+    if (!this.config.pointId) {
+      errors.push("Point ID is required");
+    }
+    if (this.lines.length === 0) {
+      errors.push("At least one item is required");
+    }
+
+    this.lines.forEach((line, index) => {
+      if (line.quantity <= 0) {
+        errors.push(`Item ${index + 1}: Quantity must be greater than 0`);
+      }
+      if (line.pricePoint <= 0) {
+        errors.push(`Item ${index + 1}: Price must be greater than 0`);
+      }
+    });
+
+    if (this.personsNumber !== undefined && this.personsNumber <= 0) {
+      errors.push("Persons number must be greater than 0");
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors,
+    };
+  }
+
+  // ================== SUBSCRIPTIONS ==================
+
+  /**
+   * Subscribe to cart changes, returns unsubscribe function
+   */
+  subscribe(listener: CartListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // ================== PERSISTENCE ==================
+
+  getStorageKey(): string {
+    return (
+      this.config.storageKey ||
+      `restomenu:cart:${this.config.brandId}:${this.config.pointId}:${this.config.orderType}`
+    );
+  }
+
+  /**
+   * Restore cart from storage. Returns true if a saved cart was applied.
+   * Edits made while storage is being read win: saved lines are merged in
+   * except removed ones, and a cart cleared meanwhile ignores the save.
+   */
+  async hydrate(): Promise<boolean> {
+    if (!this.config.storage) return false;
+
+    const edits: HydrationEdits = {
+      changed: false,
+      cleared: false,
+      removed: new Set(),
+      personsNumber: false,
+      comment: false,
+    };
+    this.hydrationEdits = edits;
+
+    try {
+      const raw = await this.config.storage.getItem(this.getStorageKey());
+      if (!raw) return false;
+
+      const snapshot = JSON.parse(raw) as CartSnapshot;
+      if (
+        snapshot.version !== CART_SNAPSHOT_VERSION ||
+        snapshot.brandId !== this.config.brandId ||
+        snapshot.pointId !== this.config.pointId ||
+        snapshot.orderType !== this.config.orderType ||
+        !Array.isArray(snapshot.lines)
+      ) {
+        return false;
+      }
+
+      if (edits.cleared) return false;
+
+      if (edits.changed) {
+        const current = new Set(this.lines.map((line) => line.productId));
+        this.lines = [
+          ...snapshot.lines.filter(
+            (line) =>
+              !current.has(line.productId) && !edits.removed.has(line.productId)
+          ),
+          ...this.lines,
+        ];
+        if (!edits.personsNumber) this.personsNumber = snapshot.personsNumber;
+        if (!edits.comment) this.comment = snapshot.comment;
+        this.commit();
+        return true;
+      }
+
+      this.lines = snapshot.lines;
+      this.personsNumber = snapshot.personsNumber;
+      this.comment = snapshot.comment;
+      this.updatedAt = snapshot.updatedAt;
+      this.notify();
+      return true;
+    } catch (error) {
+      console.warn("CartManager: failed to restore cart", error);
+      return false;
+    } finally {
+      if (this.hydrationEdits === edits) this.hydrationEdits = null;
+    }
+  }
+
+  private commit() {
+    if (this.hydrationEdits) this.hydrationEdits.changed = true;
+    this.updatedAt = new Date().toISOString();
+    this.persist();
+    this.notify();
+  }
+
+  private persist() {
+    const storage = this.config.storage;
+    if (!storage) return;
+
+    const key = this.getStorageKey();
+    const write = () =>
+      this.lines.length === 0 &&
+      this.personsNumber === undefined &&
+      this.comment === undefined
+        ? storage.removeItem(key)
+        : storage.setItem(key, JSON.stringify(this.getSnapshot()));
+
+    Promise.resolve()
+      .then(write)
+      .catch((error) => {
+        console.warn("CartManager: failed to persist cart", error);
+      });
+  }
+
+  private notify() {
+    const snapshot = this.getSnapshot();
+    this.listeners.forEach((listener) => listener(snapshot));
+  }
+}
+
+// ================== STORAGE ADAPTERS ==================
+
+/**
+ * In-memory storage, cart lives as long as the adapter instance
+ */
+export const createMemoryCartStorage = (): CartStorageAdapter => {
+  const items = new Map<string, string>();
+
+  return {
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => {
+      items.set(key, value);
+    },
+    removeItem: (key) => {
+      items.delete(key);
+    },
+  };
+};
+
+/**
+ * localStorage-backed storage, falls back to memory outside the browser
+ */
+export const createLocalStorageCartStorage = (): CartStorageAdapter => {
+  if (typeof window === "undefined" || !window.localStorage) {
+    return createMemoryCartStorage();
+  }
+
+  const storage = window.localStorage;
+  return {
+    getItem: (key) => storage.getItem(key),
+    setItem: (key, value) => storage.setItem(key, value),
+    removeItem: (key) => storage.removeItem(key),
+  };
+};
+
+// ================== STATIC FACTORY METHODS ==================
+
+export const CartManagerFactory = {
+  /**
+   * Create a new CartManager instance
+   */
+  create: (config: CartManagerConfig): CartManager => new CartManager(config),
+
+  /**
+   * Create a cart persisted in localStorage
+   */
+  createPersistent: (
+    config: Omit<CartManagerConfig, "storage">
+  ): CartManager =>
+    new CartManager({ ...config, storage: createLocalStorageCartStorage() }),
+};
+
+export default CartManager;
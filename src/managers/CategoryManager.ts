@@ -29,6 +29,7 @@ import type {
   NearType,
   EndOfList,
 } from "../graphql-types";
+import { lintMenu, type MenuLintOptions } from "../utils/menuLint";
 
 // ====================================================================
 // CATEGORY MANAGER - High-level business logic for category operations
@@ -695,7 +696,10 @@ export class CategoryManager {
   /**
    * Validate category structure
    */
-  async validateCategoryStructure(brandId?: string) {
+  async validateCategoryStructure(
+    brandId?: string,
+    lint: Pick<MenuLintOptions, "ruleSet" | "rules" | "customRules"> = {}
+  ) {
     const finalBrandId = brandId || this.config.defaultBrandId;
 
     if (!finalBrandId) {
@@ -716,90 +720,29 @@ export class CategoryManager {
       };
     }
 
-    const issues: string[] = [];
     const { hierarchy, flatList } = hierarchyResult;
-
-    // Check for circular references (simplified check)
-    const circularReferences = this.findCircularReferences(flatList);
-    if (circularReferences.length > 0) {
-      issues.push(
-        `Found ${circularReferences.length} circular references in category hierarchy`
-      );
-    }
-
-    // Check for orphaned categories
-    const orphanedCategories = flatList.filter((cat: any) => {
-      if (!cat.parentId) return false; // Root categories are not orphaned
-      return !flatList.some((parent: any) => parent.id === cat.parentId);
-    });
-
-    if (orphanedCategories.length > 0) {
-      issues.push(`Found ${orphanedCategories.length} orphaned categories`);
-    }
-
-    // Check for excessive nesting
-    if (hierarchyResult.totalLevels > 5) {
-      issues.push(
-        `Category hierarchy is too deep (${hierarchyResult.totalLevels} levels)`
-      );
-    }
+    const report = lintMenu(
+      { brandId: finalBrandId, categories: flatList, products: [] },
+      { ruleSet: "structure", ...lint }
+    );
 
     return {
-      isValid: issues.length === 0,
-      issues,
-      recommendations: this.generateCategoryRecommendations(issues),
+      isValid: report.issues.length === 0,
+      issues: report.issues.map((issue) => issue.message),
+      recommendations: report.recommendations,
+      report,
       stats: {
         totalCategories: flatList.length,
         rootCategories: hierarchy.length,
         maxDepth: hierarchyResult.totalLevels,
-        orphanedCount: orphanedCategories.length,
+        orphanedCount: report.issues.filter(
+          (issue) => issue.ruleId === "category-orphaned"
+        ).length,
       },
       error: null,
     };
   }
 
-  /**
-   * Find circular references in category hierarchy (simplified)
-   */
-  private findCircularReferences(categories: any[]): string[] {
-    const circular: string[] = [];
-
-    categories.forEach((category: any) => {
-      if (category.parentId === category.id) {
-        circular.push(category.id);
-      }
-    });
-
-    return circular;
-  }
-
-  /**
-   * Generate recommendations for category structure issues
-   */
-  private generateCategoryRecommendations(issues: string[]): string[] {
-    const recommendations: string[] = [];
-
-    issues.forEach((issue) => {
-      if (issue.includes("circular references")) {
-        recommendations.push(
-          "Fix circular references by updating parent category assignments"
-        );
-      }
-      if (issue.includes("orphaned categories")) {
-        recommendations.push(
-          "Assign orphaned categories to valid parent categories or make them root categories"
-        );
-      }
-      if (issue.includes("too deep")) {
-        recommendations.push(
-          "Consider flattening the category structure to improve navigation"
-        );
-      }
-    });
-
-    return recommendations;
-  }
-
   // ================== CACHE MANAGEMENT ==================
 
   /**
@@ -3,11 +3,80 @@ import { GET_MENU_DATA } from "../graphql/utils";
 import {
   GET_CATEGORIES_WITH_PRODUCTS_COUNT,
   GET_AVAILABLE_CATEGORIES,
+  GET_ALL_BRAND_CATEGORIES,
 } from "../graphql/queries/category";
 import {
   GET_AVAILABLE_PRODUCTS,
   GET_PRODUCTS_BY_CATEGORY,
+  GET_PRODUCTS_FULL,
+  GET_PRODUCT_TAGS,
 } from "../graphql/queries/product";
+import { GET_POINTS_BY_BRAND } from "../graphql/queries/point";
+import {
+  UPDATE_PRODUCT,
+  UPDATE_PRODUCT_POINT_BINDINGS,
+} from "../graphql/mutations/product";
+import { UPDATE_CATEGORY } from "../graphql/mutations/category";
+import type { OrderType, ProductUnit } from "../graphql-types";
+import { createCachePriceResolver, type PriceResolver } from "../utils/pricing";
+import {
+  diffMenus,
+  type MenuDiff,
+  type MenuDiffOptions,
+  type MenuDiffSide,
+} from "../utils/menuDiff";
+import {
+  buildAvailabilityMatrix,
+  getAvailabilityUpdates,
+  type AvailabilityMatrix,
+} from "../utils/availabilityMatrix";
+import {
+  MenuSearchIndex,
+  type MenuSearchField,
+} from "../utils/menuSearch";
+import {
+  computeMenuFacets,
+  matchesMenuFilter,
+  type MenuFacetOptions,
+  type MenuFacets,
+} from "../utils/menuFacets";
+import {
+  DIETARY_PROFILES,
+  type DietaryProfile,
+  type NutritionFilter,
+} from "../utils/menuNutrition";
+import {
+  buildMenuPrintDocument,
+  renderMenuPrintDocumentHtml,
+  type MenuPrintDocument,
+  type MenuPrintOptions,
+} from "../utils/menuPrint";
+import {
+  applyMenuSchedule,
+  getNextScheduleChange,
+  type MenuScheduleConfig,
+  type MenuScheduleOptions,
+} from "../utils/menuSchedule";
+import {
+  getMenuLintFixes,
+  lintMenu,
+  type MenuLintFixes,
+  type MenuLintOptions,
+  type MenuLintReport,
+} from "../utils/menuLint";
+import {
+  RecommendationEngine,
+  type Recommendation,
+  type RecommendationCartItem,
+  type RecommendationModel,
+  type RecommendationQueryOptions,
+} from "../utils/recommendations";
+import {
+  collectProductTags,
+  resolveAllergenFilter,
+  type AllergenCode,
+  type ProductTaxonomyOptions,
+} from "../utils/menuAllergens";
 
 // ====================================================================
 // MENU MANAGER - High-level business logic for menu operations
@@ -18,6 +87,19 @@ export interface MenuManagerConfig {
   defaultBrandId?: string;
   defaultPointId?: string;
   defaultOrderType?: "DELIVERY" | "PICKUP";
+  /**
+   * Search field weights, name > slug > tags > description > category by
+   * default
+   */
+  searchWeights?: Partial<Record<MenuSearchField, number>>;
+  /** Dietary profiles added to or overriding DIETARY_PROFILES by id */
+  dietaryProfiles?: Record<string, DietaryProfile>;
+  /** Time windows applied by getFullMenuData */
+  schedule?: MenuScheduleConfig;
+  /** Order history model for recommendations and featured products */
+  recommendationModel?: RecommendationModel;
+  /** Brand tags to allergen and diet codes, for excludeAllergens */
+  taxonomy?: ProductTaxonomyOptions;
 }
 
 export interface MenuFilter {
@@ -29,10 +111,20 @@ export interface MenuFilter {
   tagsIdNotAll?: string[]; // Does not contain all tags
   tagsIdAny?: string[]; // Contains at least one tag
   tagsIdNotAny?: string[]; // Does not contain at least one tag
+  /** Resolved to tagsIdNotAny through the taxonomy */
+  excludeAllergens?: AllergenCode[];
   priceRange?: {
     min?: number;
     max?: number;
   };
+  caloriesRange?: {
+    min?: number;
+    max?: number;
+  };
+  units?: ProductUnit[];
+  nutrition?: NutritionFilter;
+  /** Profile id from DIETARY_PROFILES or the config, or a custom profile */
+  dietaryProfile?: string | DietaryProfile;
   sortBy?: "name" | "price" | "popularity" | "category" | "categoryPriority";
   sortOrder?: "asc" | "desc";
   sortByCategoryId?: string;
@@ -57,13 +149,29 @@ export interface MenuData {
   totalCategories: number;
 }
 
+/**
+ * Menu to compare: loaded data (MenuData, MenuSnapshot) or a point and
+ * order type to load with getFullMenuData
+ */
+export type MenuDiffTarget =
+  | MenuDiffSide
+  | { pointId?: string; orderType?: string; label?: string };
+
 export class MenuManager {
   private client: ApolloClient<any>;
   private config: MenuManagerConfig;
+  private priceResolver: PriceResolver;
+  private searchIndex: MenuSearchIndex;
+  private dietaryProfiles: Record<string, DietaryProfile>;
 
   constructor(config: MenuManagerConfig) {
     this.client = config.client;
     this.config = config;
+    this.priceResolver = createCachePriceResolver(config.client.cache);
+    this.searchIndex = new MenuSearchIndex(
+      config.searchWeights ? { weights: config.searchWeights } : {}
+    );
+    this.dietaryProfiles = { ...DIETARY_PROFILES, ...config.dietaryProfiles };
   }
 
   // ================== MAIN MENU OPERATIONS ==================
@@ -77,9 +185,14 @@ export class MenuManager {
       pointId?: string;
       orderType?: string;
       filters?: MenuFilter;
+      /** Overrides config.schedule, null turns it off */
+      schedule?: MenuScheduleConfig | null;
+      scheduleOptions?: Omit<MenuScheduleOptions, "pointId">;
     } = {}
   ): Promise<{
     data: MenuData | null;
+    /** When scheduled products change availability, refresh then */
+    nextScheduleChange: Date | null;
     loading: boolean;
     error: Error | null;
   }> {
@@ -90,6 +203,7 @@ export class MenuManager {
     if (!brandId || !pointId || !orderType) {
       return {
         data: null,
+        nextScheduleChange: null,
         loading: false,
         error: new Error("brandId, pointId, and orderType are required"),
       };
@@ -122,8 +236,28 @@ export class MenuManager {
         fetchPolicy: "cache-first",
       });
 
-      const categories = result.data?.categories || [];
-      const products = result.data?.products || [];
+      let categories = result.data?.categories || [];
+      let products = result.data?.products || [];
+
+      // Hide or mark products outside their time windows
+      const schedule =
+        options.schedule === undefined
+          ? this.config.schedule
+          : options.schedule;
+      let nextScheduleChange: Date | null = null;
+      if (schedule) {
+        const scheduleOptions = { ...options.scheduleOptions, pointId };
+        nextScheduleChange = getNextScheduleChange(
+          { products },
+          schedule,
+          scheduleOptions
+        );
+        ({ categories, products } = applyMenuSchedule(
+          { categories, products },
+          schedule,
+          scheduleOptions
+        ));
+      }
 
       // Organize products by categories
       const organizedCategories = categories.map((category: any) => ({
@@ -157,12 +291,14 @@ export class MenuManager {
 
       return {
         data: menuData,
+        nextScheduleChange,
         loading: false,
         error: null,
       };
     } catch (error) {
       return {
         data: null,
+        nextScheduleChange: null,
         loading: false,
         error: error as Error,
       };
@@ -170,31 +306,29 @@ export class MenuManager {
   }
 
   /**
-   * Get menu with advanced filtering and search
+   * Get menu with advanced filtering and search, with facet counts for the
+   * filter panel
    */
   async getFilteredMenu(options: {
     brandId?: string;
     pointId?: string;
     orderType?: string;
     filters: MenuFilter;
+    facetOptions?: Omit<
+      MenuFacetOptions,
+      "searchMatches" | "dietaryProfiles"
+    >;
   }): Promise<{
     categories: any[];
     products: any[];
     totalResults: number;
     appliedFilters: MenuFilter;
+    facets: MenuFacets | null;
     loading: boolean;
     error: Error | null;
   }> {
-    // Ensure we have valid values before passing to getFullMenuData
-    const validatedOptions = {
-      brandId: options.brandId,
-      pointId: options.pointId,
-      orderType: options.orderType,
-      filters: options.filters,
-    };
-
     // Only pass defined values
-    const menuDataOptions: any = { filters: options.filters };
+    const menuDataOptions: any = {};
     if (options.brandId !== undefined)
       menuDataOptions.brandId = options.brandId;
     if (options.pointId !== undefined)
@@ -202,6 +336,7 @@ export class MenuManager {
     if (options.orderType !== undefined)
       menuDataOptions.orderType = options.orderType;
 
+    // Facets need the unfiltered menu, filters are applied below
     const menuResult = await this.getFullMenuData(menuDataOptions);
 
     if (menuResult.error || !menuResult.data) {
@@ -210,12 +345,26 @@ export class MenuManager {
         products: [],
         totalResults: 0,
         appliedFilters: options.filters,
+        facets: null,
         loading: false,
         error: menuResult.error,
       };
     }
 
-    const { organizedCategories, uncategorizedProducts } = menuResult.data;
+    const filters = this.resolveAllergenFilter(
+      options.filters,
+      collectProductTags(menuResult.data.products)
+    );
+    const facets = computeMenuFacets(menuResult.data, filters, {
+      ...options.facetOptions,
+      dietaryProfiles: this.dietaryProfiles,
+      searchMatches: filters.searchTerm
+        ? this.getSearchMatches(menuResult.data, filters.searchTerm)
+        : null,
+    });
+
+    const { organizedCategories, uncategorizedProducts } =
+      this.applyMenuFilters(menuResult.data, filters);
 
     // Flatten products from organized categories
     const allFilteredProducts = [
@@ -228,6 +377,7 @@ export class MenuManager {
       products: allFilteredProducts,
       totalResults: allFilteredProducts.length,
       appliedFilters: options.filters,
+      facets,
       loading: false,
       error: null,
     };
@@ -267,13 +417,13 @@ export class MenuManager {
       brandId?: string;
       pointId?: string;
       orderType?: string;
-      filters: MenuFilter;
-    } = { filters };
+    } = {};
 
     if (options.brandId) menuDataOptions.brandId = options.brandId;
     if (options.pointId) menuDataOptions.pointId = options.pointId;
     if (options.orderType) menuDataOptions.orderType = options.orderType;
 
+    // Index the whole menu so that narrowing filters do not force a reindex
     const menuResult = await this.getFullMenuData(menuDataOptions);
 
     if (menuResult.error || !menuResult.data) {
@@ -285,32 +435,39 @@ export class MenuManager {
       };
     }
 
-    const searchTerm = options.searchTerm.toLowerCase();
-    const { products, categories } = menuResult.data;
+    this.searchIndex.sync(menuResult.data);
+
+    const { searchTerm, ...otherFilters } = filters;
+    const hasOtherFilters = Object.values(otherFilters).some(
+      (value) => value !== undefined
+    );
+    const { products, categories } = hasOtherFilters
+      ? this.applyMenuFilters(menuResult.data, otherFilters)
+      : menuResult.data;
+    const productIds = new Set(products.map((product: any) => product.id));
+    const categoryIds = new Set(
+      categories.map((category: any) => category.id)
+    );
+
+    const hits = this.searchIndex.search(searchTerm || "");
 
     // Search in products with enhanced ranking
-    const productResults = products
-      .map((product: any) => ({
-        ...product,
+    const productResults = hits
+      .filter((hit) => hit.type === "product" && productIds.has(hit.id))
+      .map((hit) => ({
+        ...hit.item,
         type: "product",
-        relevanceScore: this.calculateAdvancedRelevanceScore(
-          product,
-          searchTerm
-        ),
-      }))
-      .filter((item: any) => item.relevanceScore > 0);
+        relevanceScore: hit.score,
+      }));
 
     // Search in categories
-    const categoryResults = categories
-      .map((category: any) => ({
-        ...category,
+    const categoryResults = hits
+      .filter((hit) => hit.type === "category" && categoryIds.has(hit.id))
+      .map((hit) => ({
+        ...hit.item,
         type: "category",
-        relevanceScore: this.calculateCategoryRelevanceScore(
-          category,
-          searchTerm
-        ),
-      }))
-      .filter((item: any) => item.relevanceScore > 0);
+        relevanceScore: hit.score,
+      }));
 
     // Combine and sort by relevance or specified criteria
     let allResults = [...productResults, ...categoryResults];
@@ -356,6 +513,8 @@ export class MenuManager {
       pointId?: string;
       orderType?: string;
       limit?: number;
+      /** Overrides config.recommendationModel */
+      model?: RecommendationModel;
     } = {}
   ) {
     const menuResult = await this.getFullMenuData(options);
@@ -367,8 +526,24 @@ export class MenuManager {
       };
     }
 
-    // For now, return products with highest priority or most popular
-    // This could be enhanced with analytics data
+    // Most ordered products first when order history is known
+    const model = options.model || this.config.recommendationModel;
+    if (model) {
+      const engine = new RecommendationEngine(model, {
+        products: menuResult.data.products,
+      });
+      const byId = new Map(
+        menuResult.data.products.map((product: any) => [product.id, product])
+      );
+      return {
+        products: engine
+          .getPopularProductIds(options.limit || 6)
+          .map((productId) => byId.get(productId)),
+        error: null,
+      };
+    }
+
+    // Without a model, return products with highest priority
     const featuredProducts = menuResult.data.products
       .filter((product: any) => product.featured || product.isActive)
       .sort((a: any, b: any) => (b.priority || 0) - (a.priority || 0))
@@ -380,6 +555,58 @@ export class MenuManager {
     };
   }
 
+  /**
+   * "Frequently ordered together" products for a product page or a cart,
+   * limited to what the point currently sells for the order type
+   */
+  async getRecommendations(
+    options: {
+      brandId?: string;
+      pointId?: string;
+      orderType?: string;
+      productId?: string;
+      cartItems?: RecommendationCartItem[];
+      /** Overrides config.recommendationModel */
+      model?: RecommendationModel;
+    } & RecommendationQueryOptions
+  ): Promise<{
+    recommendations: Recommendation[];
+    loading: boolean;
+    error: Error | null;
+  }> {
+    const model = options.model || this.config.recommendationModel;
+    if (!model) {
+      return {
+        recommendations: [],
+        loading: false,
+        error: new Error("Recommendation model is required"),
+      };
+    }
+
+    const menuResult = await this.getFullMenuData(options);
+    if (menuResult.error || !menuResult.data) {
+      return {
+        recommendations: [],
+        loading: false,
+        error: menuResult.error,
+      };
+    }
+
+    const engine = new RecommendationEngine(model, {
+      products: menuResult.data.products,
+    });
+    const items = [
+      ...(options.productId ? [options.productId] : []),
+      ...(options.cartItems || []),
+    ];
+
+    return {
+      recommendations: engine.getRecommendationsForCart(items, options),
+      loading: false,
+      error: null,
+    };
+  }
+
   /**
    * Get menu statistics for analytics with enhanced insights
    */
@@ -558,13 +785,15 @@ export class MenuManager {
   // ================== MENU MANAGEMENT ==================
 
   /**
-   * Validate menu structure and data integrity
+   * Validate menu structure and data integrity of a point menu with the
+   * "storefront" lint rules
    */
   async validateMenu(
     options: {
       brandId?: string;
       pointId?: string;
       orderType?: string;
+      lint?: Omit<MenuLintOptions, "pointId" | "orderType" | "priceResolver">;
     } = {}
   ) {
     const menuResult = await this.getFullMenuData(options);
@@ -577,52 +806,392 @@ export class MenuManager {
       };
     }
 
-    const issues: string[] = [];
-    const { categories, products, uncategorizedProducts } = menuResult.data;
+    const pointId = options.pointId || this.config.defaultPointId;
+    const orderType = options.orderType || this.config.defaultOrderType;
+    const report = lintMenu(menuResult.data, {
+      ruleSet: "storefront",
+      ...options.lint,
+      ...(pointId && { pointId }),
+      ...(orderType && { orderType }),
+      priceResolver: this.priceResolver,
+    });
 
-    // Check for empty categories
-    const emptyCategoriesCount = categories.filter((cat: any) => {
-      const categoryProducts = products.filter((p: any) =>
-        p.categoryBinds?.some((bind: any) => bind.categoryId === cat.id)
-      );
-      return categoryProducts.length === 0;
-    }).length;
+    return {
+      isValid: report.issues.length === 0,
+      issues: report.issues.map((issue) => issue.message),
+      recommendations: report.recommendations,
+      report,
+      error: null,
+    };
+  }
+
+  // ================== MENU LINT ==================
+
+  /**
+   * Lint the whole brand catalog, inactive entities included. With
+   * `autoFix` the fixes are saved right away.
+   */
+  async lintMenu(
+    options: {
+      brandId?: string;
+      /** Limit bind checks to a point and order type */
+      pointId?: string;
+      orderType?: string;
+      lint?: Omit<MenuLintOptions, "pointId" | "orderType" | "priceResolver">;
+      autoFix?: boolean;
+    } = {}
+  ): Promise<{
+    report: MenuLintReport | null;
+    fixes: MenuLintFixes | null;
+    /** Ids of entities updated by autoFix */
+    applied: string[];
+    failed: Array<{ id: string; error: Error }>;
+    loading: boolean;
+    error: Error | null;
+  }> {
+    const brandId = options.brandId || this.config.defaultBrandId;
 
-    if (emptyCategoriesCount > 0) {
-      issues.push(`${emptyCategoriesCount} categories have no products`);
+    if (!brandId) {
+      return {
+        report: null,
+        fixes: null,
+        applied: [],
+        failed: [],
+        loading: false,
+        error: new Error("brandId is required"),
+      };
     }
 
-    // Check for uncategorized products
-    if (uncategorizedProducts.length > 0) {
-      issues.push(
-        `${uncategorizedProducts.length} products are not categorized`
+    try {
+      const [products, categories] = await Promise.all([
+        this.client.query({
+          query: GET_PRODUCTS_FULL,
+          variables: { input: { brandId } },
+          fetchPolicy: "network-only",
+        }),
+        this.client.query({
+          query: GET_ALL_BRAND_CATEGORIES,
+          variables: { brandId },
+          fetchPolicy: "network-only",
+        }),
+      ]);
+
+      const report = lintMenu(
+        {
+          brandId,
+          products: products.data?.products || [],
+          categories: categories.data?.categories || [],
+        },
+        {
+          ...options.lint,
+          ...(options.pointId && { pointId: options.pointId }),
+          ...(options.orderType && { orderType: options.orderType }),
+          priceResolver: this.priceResolver,
+        }
       );
+      const fixes = getMenuLintFixes(report.issues);
+
+      if (!options.autoFix) {
+        return {
+          report,
+          fixes,
+          applied: [],
+          failed: [],
+          loading: false,
+          error: null,
+        };
+      }
+
+      const result = await this.applyMenuLintFixes(fixes);
+      return { report, fixes, ...result };
+    } catch (error) {
+      return {
+        report: null,
+        fixes: null,
+        applied: [],
+        failed: [],
+        loading: false,
+        error: error as Error,
+      };
+    }
+  }
+
+  /**
+   * Save lint fixes: categories first, so products bound to them show up
+   */
+  async applyMenuLintFixes(fixes: MenuLintFixes): Promise<{
+    applied: string[];
+    failed: Array<{ id: string; error: Error }>;
+    loading: boolean;
+    error: Error | null;
+  }> {
+    const applied: string[] = [];
+    const failed: Array<{ id: string; error: Error }> = [];
+
+    const updates = [
+      ...fixes.categories.map((input) => ({
+        mutation: UPDATE_CATEGORY,
+        input,
+      })),
+      ...fixes.products.map((input) => ({ mutation: UPDATE_PRODUCT, input })),
+    ];
+    for (const { mutation, input } of updates) {
+      try {
+        await this.client.mutate({ mutation, variables: { input } });
+        applied.push(input.id);
+      } catch (error) {
+        failed.push({ id: input.id, error: error as Error });
+      }
     }
 
-    // Check for products without prices
-    const productsWithoutPrices = products.filter(
-      (p: any) => !p.pricePoint && !p.priceSettings?.price
-    ).length;
+    if (applied.length > 0) this.invalidateCache();
 
-    if (productsWithoutPrices > 0) {
-      issues.push(
-        `${productsWithoutPrices} products are missing price information`
-      );
+    return {
+      applied,
+      failed,
+      loading: false,
+      error:
+        failed.length > 0
+          ? new Error(`Failed to apply ${failed.length} lint fixes`)
+          : null,
+    };
+  }
+
+  // ================== MENU COMPARISON ==================
+
+  /**
+   * Compare two menus: two points, two order types or a snapshot against
+   * live data
+   */
+  async compareMenus(options: {
+    before: MenuDiffTarget;
+    after: MenuDiffTarget;
+    brandId?: string;
+    diffOptions?: MenuDiffOptions;
+  }): Promise<{
+    diff: MenuDiff | null;
+    loading: boolean;
+    error: Error | null;
+  }> {
+    try {
+      const [before, after] = await Promise.all([
+        this.loadDiffSide(options.before, options.brandId),
+        this.loadDiffSide(options.after, options.brandId),
+      ]);
+
+      return {
+        diff: diffMenus(before, after, {
+          priceResolver: this.priceResolver,
+          ...options.diffOptions,
+        }),
+        loading: false,
+        error: null,
+      };
+    } catch (error) {
+      return {
+        diff: null,
+        loading: false,
+        error: error as Error,
+      };
+    }
+  }
+
+  /**
+   * Load live menu data for a comparison target
+   */
+  private async loadDiffSide(
+    target: MenuDiffTarget,
+    brandId?: string
+  ): Promise<MenuDiffSide> {
+    if ("products" in target) {
+      return target;
+    }
+
+    const pointId = target.pointId || this.config.defaultPointId;
+    const orderType = target.orderType || this.config.defaultOrderType;
+    const result = await this.getFullMenuData({
+      ...(brandId && { brandId }),
+      ...(pointId && { pointId }),
+      ...(orderType && { orderType }),
+    });
+
+    if (result.error || !result.data) {
+      throw result.error || new Error("Failed to load menu data");
+    }
+
+    const side: MenuDiffSide = {
+      categories: result.data.categories,
+      products: result.data.products,
+    };
+    if (pointId) side.pointId = pointId;
+    if (orderType) side.orderType = orderType;
+    if (target.label !== undefined) side.label = target.label;
+    return side;
+  }
+
+  // ================== AVAILABILITY MATRIX ==================
+
+  /**
+   * Build the product × point × order type availability grid of a brand
+   */
+  async getAvailabilityMatrix(
+    options: {
+      brandId?: string;
+      /** Limit columns to these points, all active brand points by default */
+      pointIds?: string[];
+      orderTypes?: OrderType[];
+    } = {}
+  ): Promise<{
+    matrix: AvailabilityMatrix | null;
+    loading: boolean;
+    error: Error | null;
+  }> {
+    const brandId = options.brandId || this.config.defaultBrandId;
+
+    if (!brandId) {
+      return {
+        matrix: null,
+        loading: false,
+        error: new Error("brandId is required"),
+      };
+    }
+
+    try {
+      const [products, categories, points] = await Promise.all([
+        this.client.query({
+          query: GET_PRODUCTS_FULL,
+          variables: { input: { brandId } },
+          fetchPolicy: "network-only",
+        }),
+        this.client.query({
+          query: GET_ALL_BRAND_CATEGORIES,
+          variables: { brandId },
+          fetchPolicy: "network-only",
+        }),
+        this.client.query({
+          query: GET_POINTS_BY_BRAND,
+          variables: { brandId },
+        }),
+      ]);
+
+      const brandPoints: any[] = points.data?.points || [];
+
+      return {
+        matrix: buildAvailabilityMatrix({
+          brandId,
+          products: products.data?.products || [],
+          categories: categories.data?.categories || [],
+          points: options.pointIds
+            ? brandPoints.filter((point) =>
+                options.pointIds!.includes(point.id)
+              )
+            : brandPoints,
+          ...(options.orderTypes && { orderTypes: options.orderTypes }),
+          priceResolver: this.priceResolver,
+        }),
+        loading: false,
+        error: null,
+      };
+    } catch (error) {
+      return {
+        matrix: null,
+        loading: false,
+        error: error as Error,
+      };
+    }
+  }
+
+  /**
+   * Save an edited matrix: one pointBinds update per changed product
+   */
+  async saveAvailabilityMatrix(
+    original: AvailabilityMatrix,
+    edited: AvailabilityMatrix
+  ): Promise<{
+    updated: string[];
+    failed: Array<{ productId: string; error: Error }>;
+    loading: boolean;
+    error: Error | null;
+  }> {
+    const updated: string[] = [];
+    const failed: Array<{ productId: string; error: Error }> = [];
+
+    for (const input of getAvailabilityUpdates(original, edited)) {
+      try {
+        await this.client.mutate({
+          mutation: UPDATE_PRODUCT_POINT_BINDINGS,
+          variables: { input },
+        });
+        updated.push(input.id);
+      } catch (error) {
+        failed.push({ productId: input.id, error: error as Error });
+      }
     }
 
-    // Check for products without images
-    const productsWithoutImages = products.filter(
-      (p: any) => !p.images || p.images.length === 0
-    ).length;
+    return {
+      updated,
+      failed,
+      loading: false,
+      error:
+        failed.length > 0
+          ? new Error(`Failed to update ${failed.length} products`)
+          : null,
+    };
+  }
+
+  // ================== MENU PRINTING ==================
+
+  /**
+   * Print-ready HTML menu of a point and order type, or a counter price
+   * list with `print.layout: "priceList"`
+   */
+  async getPrintableMenu(
+    options: {
+      brandId?: string;
+      pointId?: string;
+      orderType?: string;
+      filters?: MenuFilter;
+      print?: MenuPrintOptions;
+    } = {}
+  ): Promise<{
+    html: string | null;
+    document: MenuPrintDocument | null;
+    loading: boolean;
+    error: Error | null;
+  }> {
+    const menuDataOptions: {
+      brandId?: string;
+      pointId?: string;
+      orderType?: string;
+      filters?: MenuFilter;
+    } = {};
+    if (options.brandId) menuDataOptions.brandId = options.brandId;
+    if (options.pointId) menuDataOptions.pointId = options.pointId;
+    if (options.orderType) menuDataOptions.orderType = options.orderType;
+    if (options.filters) menuDataOptions.filters = options.filters;
+
+    const menuResult = await this.getFullMenuData(menuDataOptions);
 
-    if (productsWithoutImages > 0) {
-      issues.push(`${productsWithoutImages} products are missing images`);
+    if (menuResult.error || !menuResult.data) {
+      return {
+        html: null,
+        document: null,
+        loading: false,
+        error: menuResult.error,
+      };
     }
 
+    const orderType = options.orderType || this.config.defaultOrderType;
+    const printOptions: MenuPrintOptions = {
+      ...(orderType && { orderType }),
+      ...options.print,
+    };
+
+    const document = buildMenuPrintDocument(menuResult.data, printOptions);
     return {
-      isValid: issues.length === 0,
-      issues,
-      recommendations: this.generateMenuRecommendations(issues),
+      html: renderMenuPrintDocumentHtml(document),
+      document,
+      loading: false,
       error: null,
     };
   }
@@ -787,11 +1356,25 @@ export class MenuManager {
         "../graphql/queries/product"
       );
 
+      // Allergens resolve against all brand tags before the query
+      let filters: MenuFilter = { ...options.filters, categoryId };
+      if (filters.excludeAllergens) {
+        const tags = await this.client.query({
+          query: GET_PRODUCT_TAGS,
+          variables: { brandId },
+          fetchPolicy: "cache-first",
+        });
+        filters = this.resolveAllergenFilter(
+          filters,
+          tags.data?.productTags || []
+        );
+      }
+
       const variables = this.buildProductQueryVariables({
         brandId,
         pointId,
         orderType,
-        filters: { ...options.filters, categoryId },
+        filters,
       });
 
       const result = await this.client.query({
@@ -882,29 +1465,26 @@ export class MenuManager {
     };
   }
 
+  /**
+   * Turn excludeAllergens into tagsIdNotAny with the configured taxonomy
+   */
+  private resolveAllergenFilter(
+    filters: MenuFilter,
+    tags: Array<{ id: string; name?: string }>
+  ): MenuFilter {
+    if (!filters.excludeAllergens) return filters;
+    return resolveAllergenFilter(filters, tags, this.config.taxonomy);
+  }
+
   /**
    * Apply filters to menu data with enhanced GraphQL schema support
    */
-  private applyMenuFilters(menuData: MenuData, filters: MenuFilter): MenuData {
+  private applyMenuFilters(menuData: MenuData, input: MenuFilter): MenuData {
     let { organizedCategories, uncategorizedProducts } = menuData;
-
-    // Apply search filter
-    if (filters.searchTerm) {
-      const searchTerm = filters.searchTerm.toLowerCase();
-
-      organizedCategories = organizedCategories
-        .map((cat) => ({
-          ...cat,
-          products: cat.products.filter((product: any) =>
-            this.matchesSearchTerm(product, searchTerm)
-          ),
-        }))
-        .filter((cat) => cat.products.length > 0);
-
-      uncategorizedProducts = uncategorizedProducts.filter((product: any) =>
-        this.matchesSearchTerm(product, searchTerm)
-      );
-    }
+    const filters = this.resolveAllergenFilter(
+      input,
+      collectProductTags(menuData.products)
+    );
 
     // Apply category filter
     if (filters.categoryId) {
@@ -919,91 +1499,32 @@ export class MenuManager {
       organizedCategories = organizedCategories.filter((cat) =>
         filters.categoriesId!.includes(cat.category.id)
       );
+      uncategorizedProducts = [];
     }
 
-    // Apply tag filters with GraphQL schema support
-    if (
-      filters.tagIds ||
-      filters.tagsIdAll ||
-      filters.tagsIdAny ||
-      filters.tagsIdNotAll ||
-      filters.tagsIdNotAny
-    ) {
-      const filterByTags = (product: any) => {
-        const productTagIds = product.tags?.map((tag: any) => tag.id) || [];
-
-        // Legacy tagIds support (treated as tagsIdAny)
-        if (filters.tagIds && filters.tagIds.length > 0) {
-          if (!filters.tagIds.some((tagId) => productTagIds.includes(tagId))) {
-            return false;
-          }
-        }
-
-        // Contains all tags
-        if (filters.tagsIdAll && filters.tagsIdAll.length > 0) {
-          if (
-            !filters.tagsIdAll.every((tagId) => productTagIds.includes(tagId))
-          ) {
-            return false;
-          }
-        }
-
-        // Contains at least one tag
-        if (filters.tagsIdAny && filters.tagsIdAny.length > 0) {
-          if (
-            !filters.tagsIdAny.some((tagId) => productTagIds.includes(tagId))
-          ) {
-            return false;
-          }
-        }
-
-        // Does not contain all tags
-        if (filters.tagsIdNotAll && filters.tagsIdNotAll.length > 0) {
-          if (
-            filters.tagsIdNotAll.every((tagId) => productTagIds.includes(tagId))
-          ) {
-            return false;
-          }
-        }
-
-        // Does not contain any of these tags
-        if (filters.tagsIdNotAny && filters.tagsIdNotAny.length > 0) {
-          if (
-            filters.tagsIdNotAny.some((tagId) => productTagIds.includes(tagId))
-          ) {
-            return false;
-          }
-        }
-
-        return true;
-      };
-
-      organizedCategories = organizedCategories.map((cat) => ({
-        ...cat,
-        products: cat.products.filter(filterByTags),
-      }));
-
-      uncategorizedProducts = uncategorizedProducts.filter(filterByTags);
-    }
-
-    // Apply price range filter
-    if (filters.priceRange) {
-      const filterByPrice = (product: any) => {
-        const price = product.pricePoint;
-        if (typeof price !== "number") return true;
-
-        const { min, max } = filters.priceRange!;
-        if (min !== undefined && price < min) return false;
-        if (max !== undefined && price > max) return false;
-        return true;
-      };
+    // Apply search, tag, price, nutrition and unit filters, the same
+    // predicates count the facets
+    const searchMatches = filters.searchTerm
+      ? this.getSearchMatches(menuData, filters.searchTerm)
+      : null;
+    const matchesFilters = (product: any) =>
+      matchesMenuFilter(product, filters, {
+        searchMatches,
+        dietaryProfiles: this.dietaryProfiles,
+        exclude: "category",
+      });
 
-      organizedCategories = organizedCategories.map((cat) => ({
-        ...cat,
-        products: cat.products.filter(filterByPrice),
-      }));
+    organizedCategories = organizedCategories.map((cat) => ({
+      ...cat,
+      products: cat.products.filter(matchesFilters),
+    }));
+    uncategorizedProducts = uncategorizedProducts.filter(matchesFilters);
 
-      uncategorizedProducts = uncategorizedProducts.filter(filterByPrice);
+    // Search hides categories without matches
+    if (filters.searchTerm) {
+      organizedCategories = organizedCategories.filter(
+        (cat) => cat.products.length > 0
+      );
     }
 
     // Apply sorting (client-side for complex cases)
@@ -1057,106 +1578,25 @@ export class MenuManager {
   }
 
   /**
-   * Check if product matches search term
+   * Configured dietary profiles, built-in ones included
    */
-  private matchesSearchTerm(product: any, searchTerm: string): boolean {
-    const name = product.name?.toLowerCase() || "";
-    const description = product.description?.toLowerCase() || "";
-    const tags = product.tags?.map((tag: any) => tag.name.toLowerCase()) || [];
-    const slug = product.slug?.toLowerCase() || "";
-
-    return (
-      name.includes(searchTerm) ||
-      description.includes(searchTerm) ||
-      slug.includes(searchTerm) ||
-      tags.some((tag: string) => tag.includes(searchTerm))
-    );
+  getDietaryProfiles(): DietaryProfile[] {
+    return Object.values(this.dietaryProfiles);
   }
 
   /**
-   * Calculate enhanced relevance score for product search including tags
+   * Ids of products matching the search term, indexes the menu first
    */
-  private calculateAdvancedRelevanceScore(
-    product: any,
+  private getSearchMatches(
+    menuData: { products: any[]; categories: any[] },
     searchTerm: string
-  ): number {
-    const name = product.name?.toLowerCase() || "";
-    const description = product.description?.toLowerCase() || "";
-    const tags =
-      product.tags?.map((tag: any) => tag.name.toLowerCase()).join(" ") || "";
-    const slug = product.slug?.toLowerCase() || "";
-
-    let score = 0;
-
-    // Exact name match gets highest score
-    if (name === searchTerm) score += 100;
-    // Name starts with search term
-    else if (name.startsWith(searchTerm)) score += 80;
-    // Name contains search term
-    else if (name.includes(searchTerm)) score += 60;
-
-    // Slug matching (important for SEO)
-    if (slug === searchTerm) score += 90;
-    else if (slug.includes(searchTerm)) score += 50;
-
-    // Description contains search term
-    if (description.includes(searchTerm)) score += 30;
-
-    // Tag matching with higher priority
-    const tagNames =
-      product.tags?.map((tag: any) => tag.name.toLowerCase()) || [];
-    const exactTagMatch = tagNames.some(
-      (tagName: string) => tagName === searchTerm
-    );
-    const partialTagMatch = tagNames.some((tagName: string) =>
-      tagName.includes(searchTerm)
+  ): Set<string> {
+    this.searchIndex.sync(menuData);
+    return new Set(
+      this.searchIndex
+        .search(searchTerm, { types: ["product"] })
+        .map((hit) => hit.id)
     );
-
-    if (exactTagMatch) score += 70;
-    else if (partialTagMatch) score += 40;
-    else if (tags.includes(searchTerm)) score += 35;
-
-    // Boost score for active products
-    if (product.isActive) score += 10;
-
-    // Nutritional information matching (for health-conscious searches)
-    if (searchTerm.includes("калори") || searchTerm.includes("calories")) {
-      if (product.calories) score += 20;
-    }
-    if (searchTerm.includes("белок") || searchTerm.includes("protein")) {
-      if (product.protein) score += 20;
-    }
-    if (searchTerm.includes("жир") || searchTerm.includes("fat")) {
-      if (product.fats) score += 20;
-    }
-    if (searchTerm.includes("углевод") || searchTerm.includes("carb")) {
-      if (product.carbohydrates) score += 20;
-    }
-
-    return score;
-  }
-
-  /**
-   * Calculate relevance score for product search (legacy method)
-   */
-  private calculateRelevanceScore(product: any, searchTerm: string): number {
-    return this.calculateAdvancedRelevanceScore(product, searchTerm);
-  }
-
-  /**
-   * Calculate relevance score for category search
-   */
-  private calculateCategoryRelevanceScore(
-    category: any,
-    searchTerm: string
-  ): number {
-    const name = category.name?.toLowerCase() || "";
-
-    if (name === searchTerm) return 90;
-    if (name.startsWith(searchTerm)) return 70;
-    if (name.includes(searchTerm)) return 50;
-
-    return 0;
   }
 
   /**
@@ -1177,36 +1617,6 @@ export class MenuManager {
     };
   }
 
-  /**
-   * Generate recommendations based on menu issues
-   */
-  private generateMenuRecommendations(issues: string[]): string[] {
-    const recommendations: string[] = [];
-
-    issues.forEach((issue) => {
-      if (issue.includes("categories have no products")) {
-        recommendations.push(
-          "Consider removing empty categories or adding products to them"
-        );
-      }
-      if (issue.includes("products are not categorized")) {
-        recommendations.push(
-          "Assign uncategorized products to appropriate categories"
-        );
-      }
-      if (issue.includes("missing price information")) {
-        recommendations.push("Add pricing information to all products");
-      }
-      if (issue.includes("missing images")) {
-        recommendations.push(
-          "Add high-quality images to improve product presentation"
-        );
-      }
-    });
-
-    return recommendations;
-  }
-
   // ================== CACHE MANAGEMENT ==================
 
   /**
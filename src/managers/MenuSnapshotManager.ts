@@ -0,0 +1,966 @@
+import { ApolloClient } from "@apollo/client";
+import { GET_ALL_BRAND_CATEGORIES } from "../graphql/queries/category";
+import {
+  GET_PRODUCTS_DETAIL,
+  GET_PRODUCTS_FULL,
+  GET_PRODUCT_TAGS,
+  GET_PRODUCT_VARIANT_PROPERTIES,
+} from "../graphql/queries/product";
+import {
+  CREATE_CATEGORY,
+  UPDATE_CATEGORY,
+} from "../graphql/mutations/category";
+import {
+  CREATE_PRODUCT_FULL,
+  UPDATE_PRODUCT,
+  CREATE_PRODUCT_VARIANT_PROPERTY,
+} from "../graphql/mutations/product";
+import {
+  EndOfList,
+  type CategoryCreateInput,
+  type CategoryUpdateInput,
+  type OrderType,
+  type ProductCreateInput,
+  type ProductPriceSettingsCreateInput,
+  type ProductUnit,
+  type ProductUpdateInput,
+  type ProductVariantCreateInput,
+  type ProductVariantPropertyCreateInput,
+  type ProductVariantPropertyDisplayType,
+  type ProductVariantSettingsInput,
+} from "../graphql-types";
+
+// ====================================================================
+// MENU SNAPSHOT - Versioned menu export and replay into a brand
+// ====================================================================
+
+export const MENU_SNAPSHOT_FORMAT = "restomenu.menu-snapshot";
+export const MENU_SNAPSHOT_VERSION = 1;
+
+export interface SnapshotPointBind {
+  pointId: string;
+  orderType: OrderType;
+}
+
+export interface SnapshotPriceSettings {
+  price: number;
+  priceOrderTypes: Array<{
+    orderType: OrderType;
+    priceCommon: number | null;
+    priceCities: Array<{ cityId: string; price: number }>;
+    pricePoints: Array<{ pointId: string; price: number }>;
+  }>;
+}
+
+export interface SnapshotVariantSettings {
+  isMain: boolean;
+  priority: number;
+  variantPropertyBinds: Array<{
+    variantPropertyId: string;
+    variantPropertyValueId: string;
+  }>;
+}
+
+export interface SnapshotCategory {
+  id: string;
+  name: string;
+  slug: string;
+  isActive: boolean;
+  priority: number;
+  parentId: string | null;
+  imageUrl: string | null;
+  pointBinds: SnapshotPointBind[];
+}
+
+export interface SnapshotTag {
+  id: string;
+  name: string;
+}
+
+export interface SnapshotVariantProperty {
+  id: string;
+  name: string;
+  innerName: string | null;
+  isShowName: boolean;
+  displayType: ProductVariantPropertyDisplayType;
+  values: Array<{ id: string; name: string; priority: number }>;
+}
+
+export interface SnapshotVariant {
+  id: string;
+  name: string;
+  slug: string;
+  isActive: boolean;
+  unitValue: string | null;
+  priceSettings: SnapshotPriceSettings;
+  variantSettings: SnapshotVariantSettings | null;
+}
+
+export interface SnapshotProduct {
+  id: string;
+  name: string;
+  slug: string;
+  description: string | null;
+  isActive: boolean;
+  unit: ProductUnit | null;
+  unitValue: string | null;
+  calories: number | null;
+  carbohydrates: number | null;
+  fats: number | null;
+  protein: number | null;
+  priceSettings: SnapshotPriceSettings;
+  pointBinds: SnapshotPointBind[];
+  categoryBinds: Array<{ categoryId: string; priority: number }>;
+  tagBinds: Array<{ tagId: string; priority: number }>;
+  images: Array<{ fileId: string; priority: number; url: string }>;
+  variantGroup: {
+    variantPropertyBinds: Array<{
+      variantPropertyId: string;
+      priority: number;
+    }>;
+  } | null;
+  variantSettings: SnapshotVariantSettings | null;
+  variants: SnapshotVariant[];
+}
+
+export interface MenuSnapshot {
+  format: typeof MENU_SNAPSHOT_FORMAT;
+  version: number;
+  exportedAt: string;
+  source: { brandId: string };
+  categories: SnapshotCategory[];
+  tags: SnapshotTag[];
+  variantProperties: SnapshotVariantProperty[];
+  products: SnapshotProduct[];
+}
+
+export interface MenuSnapshotManagerConfig {
+  client: ApolloClient<any>;
+  defaultBrandId?: string;
+}
+
+export interface MenuImportOptions {
+  brandId?: string;
+  /** Report planned operations without calling mutations */
+  dryRun?: boolean;
+  /** Update categories and products with the same slug instead of creating */
+  matchBySlug?: boolean;
+  /** Source point id to target point id. Unmapped binds are dropped. */
+  pointIdMap?: Record<string, string>;
+  /** Source city id to target city id. Unmapped prices are dropped. */
+  cityIdMap?: Record<string, string>;
+  /** Bind uploaded images by fileId, only valid within one file storage */
+  includeImages?: boolean;
+}
+
+export type MenuImportOperationKind =
+  | "variantPropertyCreate"
+  | "variantPropertyReuse"
+  | "categoryCreate"
+  | "categoryUpdate"
+  | "productCreate"
+  | "productUpdate";
+
+export interface MenuImportOperation {
+  kind: MenuImportOperationKind;
+  sourceId: string;
+  /** Target id, a `dry-run:` placeholder for created entities in dry runs */
+  targetId: string | null;
+  name: string;
+  input?: unknown;
+  error?: string;
+}
+
+export interface MenuSnapshotIdMap {
+  categories: Record<string, string>;
+  products: Record<string, string>;
+  variantProperties: Record<string, string>;
+  variantPropertyValues: Record<string, string>;
+}
+
+export interface MenuImportReport {
+  dryRun: boolean;
+  brandId: string;
+  operations: MenuImportOperation[];
+  idMap: MenuSnapshotIdMap;
+  warnings: string[];
+  errors: string[];
+  summary: {
+    created: number;
+    updated: number;
+    reused: number;
+    failed: number;
+  };
+}
+
+// ================== SNAPSHOT FORMAT ==================
+
+const toPriceSettings = (priceSettings: any): SnapshotPriceSettings => ({
+  price: priceSettings?.price ?? 0,
+  priceOrderTypes: (priceSettings?.priceOrderTypes || []).map(
+    (priceOrderType: any) => ({
+      orderType: priceOrderType.orderType,
+      priceCommon: priceOrderType.priceCommon ?? null,
+      priceCities: (priceOrderType.priceCities || []).map((city: any) => ({
+        cityId: city.cityId,
+        price: city.price,
+      })),
+      pricePoints: (priceOrderType.pricePoints || []).map((point: any) => ({
+        pointId: point.pointId,
+        price: point.price,
+      })),
+    })
+  ),
+});
+
+const toVariantSettings = (
+  variantSettings: any
+): SnapshotVariantSettings | null =>
+  variantSettings
+    ? {
+        isMain: Boolean(variantSettings.isMain),
+        priority: variantSettings.priority ?? 0,
+        variantPropertyBinds: (
+          variantSettings.variantPropertyBinds || []
+        ).map((bind: any) => ({
+          variantPropertyId: bind.variantPropertyId,
+          variantPropertyValueId: bind.variantPropertyValueId,
+        })),
+      }
+    : null;
+
+const toPointBinds = (pointBinds: any[] | null | undefined) =>
+  (pointBinds || []).map((bind: any) => ({
+    pointId: bind.pointId,
+    orderType: bind.orderType,
+  }));
+
+/**
+ * Build a snapshot from loaded brand data. Products are expected
+ * ungrouped: products listed in another product's `variants` are stored
+ * as variants of that product.
+ */
+export const createMenuSnapshot = (data: {
+  brandId: string;
+  categories: any[];
+  products: any[];
+  tags?: any[];
+  variantProperties?: any[];
+}): MenuSnapshot => {
+  const productsById = new Map(
+    data.products.map((product) => [product.id, product])
+  );
+  const variantIds = new Set<string>();
+  data.products.forEach((product) =>
+    product.variants?.forEach((variant: any) => {
+      if (variant.id !== product.id) variantIds.add(variant.id);
+    })
+  );
+
+  return {
+    format: MENU_SNAPSHOT_FORMAT,
+    version: MENU_SNAPSHOT_VERSION,
+    exportedAt: new Date().toISOString(),
+    source: { brandId: data.brandId },
+    categories: data.categories.map((category) => ({
+      id: category.id,
+      name: category.name,
+      slug: category.slug,
+      isActive: category.isActive ?? true,
+      priority: category.priority ?? 0,
+      parentId: category.parentId ?? null,
+      imageUrl: category.imageUrl ?? null,
+      pointBinds: toPointBinds(category.pointBinds),
+    })),
+    tags: (data.tags || []).map((tag) => ({ id: tag.id, name: tag.name })),
+    variantProperties: (data.variantProperties || []).map((property) => ({
+      id: property.id,
+      name: property.name,
+      innerName: property.innerName ?? null,
+      isShowName: Boolean(property.isShowName),
+      displayType: property.displayType,
+      values: (property.values || []).map((value: any) => ({
+        id: value.id,
+        name: value.name,
+        priority: value.priority,
+      })),
+    })),
+    products: data.products
+      .filter((product) => !variantIds.has(product.id))
+      .map((product) => ({
+        id: product.id,
+        name: product.name,
+        slug: product.slug,
+        description: product.description ?? null,
+        isActive: product.isActive ?? true,
+        unit: product.unit ?? null,
+        unitValue: product.unitValue ?? null,
+        calories: product.calories ?? null,
+        carbohydrates: product.carbohydrates ?? null,
+        fats: product.fats ?? null,
+        protein: product.protein ?? null,
+        priceSettings: toPriceSettings(product.priceSettings),
+        pointBinds: toPointBinds(product.pointBinds),
+        categoryBinds: (product.categoryBinds || []).map((bind: any) => ({
+          categoryId: bind.categoryId,
+          priority: bind.priority ?? 0,
+        })),
+        tagBinds: (
+          product.tagBinds ||
+          (product.tags || []).map((tag: any, index: number) => ({
+            tagId: tag.id,
+            priority: index,
+          }))
+        ).map((bind: any) => ({ tagId: bind.tagId, priority: bind.priority })),
+        images: (product.images || []).map((image: any) => ({
+          fileId: image.fileId,
+          priority: image.priority,
+          url: image.url,
+        })),
+        variantGroup: product.variantGroup
+          ? {
+              variantPropertyBinds: (
+                product.variantGroup.variantPropertyBinds || []
+              ).map((bind: any) => ({
+                variantPropertyId: bind.variantPropertyId,
+                priority: bind.priority,
+              })),
+            }
+          : null,
+        variantSettings: toVariantSettings(product.variantSettings),
+        variants: (product.variants || [])
+          .filter((variant: any) => variant.id !== product.id)
+          .map((variant: any) => {
+            const full = productsById.get(variant.id) || variant;
+            return {
+              id: variant.id,
+              name: full.name ?? variant.name,
+              slug: full.slug ?? variant.slug,
+              isActive: full.isActive ?? true,
+              unitValue: full.unitValue ?? null,
+              priceSettings: toPriceSettings(full.priceSettings),
+              variantSettings: toVariantSettings(full.variantSettings),
+            };
+          }),
+      })),
+  };
+};
+
+/**
+ * Parse and check a snapshot, accepting JSON text or a parsed object
+ */
+export const parseMenuSnapshot = (input: string | unknown): MenuSnapshot => {
+  const data: any = typeof input === "string" ? JSON.parse(input) : input;
+
+  if (!data || data.format !== MENU_SNAPSHOT_FORMAT) {
+    throw new Error("Not a menu snapshot");
+  }
+  if (
+    typeof data.version !== "number" ||
+    data.version > MENU_SNAPSHOT_VERSION
+  ) {
+    throw new Error(`Unsupported menu snapshot version ${data.version}`);
+  }
+  for (const key of ["categories", "tags", "variantProperties", "products"]) {
+    if (!Array.isArray(data[key])) {
+      throw new Error(`Menu snapshot is missing ${key}`);
+    }
+  }
+
+  return data as MenuSnapshot;
+};
+
+/**
+ * Serialize a snapshot to JSON
+ */
+export const serializeMenuSnapshot = (snapshot: MenuSnapshot): string =>
+  JSON.stringify(snapshot, null, 2);
+
+// Parents before children, siblings by priority
+const sortCategoriesForImport = (categories: SnapshotCategory[]) => {
+  const byId = new Map(categories.map((category) => [category.id, category]));
+  const depth = (category: SnapshotCategory, seen = new Set<string>()) => {
+    let level = 0;
+    let parentId = category.parentId;
+    while (parentId && byId.has(parentId) && !seen.has(parentId)) {
+      seen.add(parentId);
+      level++;
+      parentId = byId.get(parentId)!.parentId;
+    }
+    return level;
+  };
+
+  return [...categories].sort(
+    (a, b) => depth(a) - depth(b) || a.priority - b.priority
+  );
+};
+
+// ================== MANAGER ==================
+
+export class MenuSnapshotManager {
+  private client: ApolloClient<any>;
+  private config: MenuSnapshotManagerConfig;
+
+  constructor(config: MenuSnapshotManagerConfig) {
+    this.client = config.client;
+    this.config = config;
+  }
+
+  /**
+   * Export categories, products, tags and variant properties of a brand
+   */
+  async exportSnapshot(brandId?: string) {
+    const targetBrandId = brandId || this.config.defaultBrandId;
+
+    if (!targetBrandId) {
+      throw new Error("brandId is required");
+    }
+
+    try {
+      const [categories, products, tags, variantProperties] =
+        await Promise.all([
+          this.client.query({
+            query: GET_ALL_BRAND_CATEGORIES,
+            variables: { brandId: targetBrandId },
+            fetchPolicy: "network-only",
+          }),
+          this.client.query({
+            query: GET_PRODUCTS_FULL,
+            variables: { input: { brandId: targetBrandId } },
+            fetchPolicy: "network-only",
+          }),
+          this.client.query({
+            query: GET_PRODUCT_TAGS,
+            variables: { brandId: targetBrandId },
+            fetchPolicy: "network-only",
+          }),
+          this.client.query({
+            query: GET_PRODUCT_VARIANT_PROPERTIES,
+            variables: { brandId: targetBrandId },
+            fetchPolicy: "network-only",
+          }),
+        ]);
+
+      return {
+        snapshot: createMenuSnapshot({
+          brandId: targetBrandId,
+          categories: categories.data?.categories || [],
+          products: products.data?.products || [],
+          tags: tags.data?.productTags || [],
+          variantProperties:
+            variantProperties.data?.productVariantProperties || [],
+        }),
+        loading: false,
+        error: null,
+      };
+    } catch (error) {
+      return {
+        snapshot: null,
+        loading: false,
+        error: error as Error,
+      };
+    }
+  }
+
+  /**
+   * Replay a snapshot into a brand through create/update mutations.
+   * Failed entities are reported and skipped, the rest is still imported.
+   */
+  async importSnapshot(
+    input: MenuSnapshot | string,
+    options: MenuImportOptions = {}
+  ): Promise<MenuImportReport> {
+    const snapshot = parseMenuSnapshot(input);
+    const brandId = options.brandId || this.config.defaultBrandId;
+
+    if (!brandId) {
+      throw new Error("brandId is required");
+    }
+
+    const dryRun = options.dryRun ?? false;
+    const matchBySlug = options.matchBySlug ?? true;
+    const includeImages = options.includeImages ?? true;
+    const report: MenuImportReport = {
+      dryRun,
+      brandId,
+      operations: [],
+      idMap: {
+        categories: {},
+        products: {},
+        variantProperties: {},
+        variantPropertyValues: {},
+      },
+      warnings: [],
+      errors: [],
+      summary: { created: 0, updated: 0, reused: 0, failed: 0 },
+    };
+    const { idMap } = report;
+
+    const existing = await this.loadExisting(brandId);
+
+    // Run a mutation, or record a placeholder id in dry runs
+    const run = async (
+      operation: Omit<MenuImportOperation, "targetId">,
+      mutate: () => Promise<string | null>
+    ): Promise<string | null> => {
+      const isCreate = operation.kind.endsWith("Create");
+      let targetId: string | null = null;
+
+      try {
+        targetId = dryRun
+          ? isCreate
+            ? `dry-run:${operation.sourceId}`
+            : ((operation.input as any)?.id ?? null)
+          : await mutate();
+        if (!targetId) throw new Error("Mutation returned no id");
+        report.summary[isCreate ? "created" : "updated"] += 1;
+      } catch (error) {
+        const message = (error as Error).message;
+        report.errors.push(
+          `${operation.kind} "${operation.name}": ${message}`
+        );
+        report.summary.failed += 1;
+        report.operations.push({
+          ...operation,
+          targetId: null,
+          error: message,
+        });
+        return null;
+      }
+
+      report.operations.push({ ...operation, targetId });
+      return targetId;
+    };
+
+    const mapPoint = (pointId: string, context: string) => {
+      if (!options.pointIdMap) return pointId;
+      const mapped = options.pointIdMap[pointId];
+      if (!mapped) {
+        report.warnings.push(`${context}: point ${pointId} is not mapped`);
+      }
+      return mapped;
+    };
+
+    const mapCity = (cityId: string, context: string) => {
+      if (!options.cityIdMap) return cityId;
+      const mapped = options.cityIdMap[cityId];
+      if (!mapped) {
+        report.warnings.push(`${context}: city ${cityId} is not mapped`);
+      }
+      return mapped;
+    };
+
+    const mapPointBinds = (binds: SnapshotPointBind[], context: string) =>
+      binds.flatMap((bind) => {
+        const pointId = mapPoint(bind.pointId, context);
+        return pointId ? [{ pointId, orderType: bind.orderType }] : [];
+      });
+
+    const mapPriceSettings = (
+      priceSettings: SnapshotPriceSettings,
+      context: string
+    ): ProductPriceSettingsCreateInput => ({
+      price: priceSettings.price,
+      priceOrderTypes: priceSettings.priceOrderTypes.map((priceOrderType) => ({
+        orderType: priceOrderType.orderType,
+        ...(priceOrderType.priceCommon !== null && {
+          priceCommon: priceOrderType.priceCommon,
+        }),
+        priceCities: priceOrderType.priceCities.flatMap((city) => {
+          const cityId = mapCity(city.cityId, context);
+          return cityId ? [{ cityId, price: city.price }] : [];
+        }),
+        pricePoints: priceOrderType.pricePoints.flatMap((point) => {
+          const pointId = mapPoint(point.pointId, context);
+          return pointId ? [{ pointId, price: point.price }] : [];
+        }),
+      })),
+    });
+
+    const mapVariantSettings = (
+      settings: SnapshotVariantSettings,
+      context: string
+    ): ProductVariantSettingsInput => ({
+      isMain: settings.isMain,
+      priority: settings.priority,
+      variantPropertyBinds: settings.variantPropertyBinds.flatMap((bind) => {
+        const variantPropertyId =
+          idMap.variantProperties[bind.variantPropertyId];
+        const variantPropertyValueId =
+          idMap.variantPropertyValues[bind.variantPropertyValueId];
+        if (!variantPropertyId || !variantPropertyValueId) {
+          report.warnings.push(
+            `${context}: variant property ${bind.variantPropertyId} ` +
+              "is not imported"
+          );
+          return [];
+        }
+        return [{ variantPropertyId, variantPropertyValueId }];
+      }),
+    });
+
+    // Variant properties: reuse by name when every value exists
+    for (const property of snapshot.variantProperties) {
+      const match = existing.variantProperties.find(
+        (candidate: any) =>
+          candidate.name === property.name &&
+          (candidate.innerName ?? null) === property.innerName &&
+          property.values.every((value) =>
+            candidate.values?.some((item: any) => item.name === value.name)
+          )
+      );
+
+      if (match) {
+        idMap.variantProperties[property.id] = match.id;
+        property.values.forEach((value) => {
+          idMap.variantPropertyValues[value.id] = match.values.find(
+            (item: any) => item.name === value.name
+          ).id;
+        });
+        report.summary.reused += 1;
+        report.operations.push({
+          kind: "variantPropertyReuse",
+          sourceId: property.id,
+          targetId: match.id,
+          name: property.name,
+        });
+        continue;
+      }
+
+      const propertyInput: ProductVariantPropertyCreateInput = {
+        brandId,
+        name: property.name,
+        isShowName: property.isShowName,
+        displayType: property.displayType,
+        valuesCreate: property.values.map((value) => ({
+          name: value.name,
+          priority: value.priority,
+        })),
+      };
+      if (property.innerName) propertyInput.innerName = property.innerName;
+
+      let createdValues: any[] = [];
+      const targetId = await run(
+        {
+          kind: "variantPropertyCreate",
+          sourceId: property.id,
+          name: property.name,
+          input: propertyInput,
+        },
+        async () => {
+          const result = await this.client.mutate({
+            mutation: CREATE_PRODUCT_VARIANT_PROPERTY,
+            variables: { input: propertyInput },
+          });
+          const created = result.data?.productVariantPropertyCreate;
+          createdValues = created?.values || [];
+          return created?.id ?? null;
+        }
+      );
+
+      if (targetId) {
+        idMap.variantProperties[property.id] = targetId;
+        property.values.forEach((value) => {
+          const valueId = dryRun
+            ? `dry-run:${value.id}`
+            : createdValues.find((item) => item.name === value.name)?.id;
+          if (valueId) {
+            idMap.variantPropertyValues[value.id] = valueId;
+          } else {
+            report.warnings.push(
+              `Variant property "${property.name}": created value ` +
+                `"${value.name}" is not found`
+            );
+          }
+        });
+      }
+    }
+
+    // Categories: parents first, in priority order
+    for (const category of sortCategoriesForImport(snapshot.categories)) {
+      const context = `Category "${category.name}"`;
+      if (category.parentId && !idMap.categories[category.parentId]) {
+        const parentInSnapshot = snapshot.categories.some(
+          (item) => item.id === category.parentId
+        );
+        if (parentInSnapshot) {
+          report.errors.push(`${context}: parent category was not imported`);
+          report.summary.failed += 1;
+          continue;
+        }
+      }
+      const parentId = category.parentId
+        ? idMap.categories[category.parentId]
+        : undefined;
+      const pointBinds = mapPointBinds(category.pointBinds, context);
+      const match = matchBySlug
+        ? existing.categories.find((item: any) => item.slug === category.slug)
+        : undefined;
+
+      if (match) {
+        const updateInput: CategoryUpdateInput = {
+          id: match.id,
+          brandId,
+          name: category.name,
+          isActive: category.isActive,
+          pointBinds,
+        };
+        if (parentId) updateInput.parentId = parentId;
+        else if (match.parentId) updateInput.isParentIdRemove = true;
+
+        const targetId = await run(
+          {
+            kind: "categoryUpdate",
+            sourceId: category.id,
+            name: category.name,
+            input: updateInput,
+          },
+          async () => {
+            const result = await this.client.mutate({
+              mutation: UPDATE_CATEGORY,
+              variables: { input: updateInput },
+            });
+            return result.data?.categoryUpdate?.id ?? null;
+          }
+        );
+        if (targetId) idMap.categories[category.id] = targetId;
+        continue;
+      }
+
+      const createInput: CategoryCreateInput = {
+        brandId,
+        name: category.name,
+        slug: category.slug,
+        isActive: category.isActive,
+        pointBinds,
+        positionEndOfList: EndOfList.End,
+      };
+      if (parentId) createInput.parentId = parentId;
+      if (category.imageUrl) {
+        report.warnings.push(`${context}: image is not copied`);
+      }
+
+      const targetId = await run(
+        {
+          kind: "categoryCreate",
+          sourceId: category.id,
+          name: category.name,
+          input: createInput,
+        },
+        async () => {
+          const result = await this.client.mutate({
+            mutation: CREATE_CATEGORY,
+            variables: { input: createInput },
+          });
+          return result.data?.categoryCreate?.id ?? null;
+        }
+      );
+      if (targetId) idMap.categories[category.id] = targetId;
+    }
+
+    // Products with their variants
+    const tagNames = new Map(snapshot.tags.map((tag) => [tag.id, tag.name]));
+
+    for (const product of snapshot.products) {
+      const context = `Product "${product.name}"`;
+      const categoryBinds = product.categoryBinds.flatMap((bind) => {
+        const categoryId = idMap.categories[bind.categoryId];
+        if (!categoryId) {
+          report.warnings.push(
+            `${context}: category ${bind.categoryId} is not imported`
+          );
+          return [];
+        }
+        return [{ categoryId, priority: bind.priority }];
+      });
+      const tagBindsByName = product.tagBinds.flatMap((bind) => {
+        const name = tagNames.get(bind.tagId);
+        return name ? [{ name, priority: bind.priority }] : [];
+      });
+      const images = includeImages
+        ? product.images.map((image) => ({
+            fileId: image.fileId,
+            priority: image.priority,
+          }))
+        : [];
+
+      const fields = {
+        brandId,
+        name: product.name,
+        isActive: product.isActive,
+        priceSettings: mapPriceSettings(product.priceSettings, context),
+        pointBinds: mapPointBinds(product.pointBinds, context),
+        tagBindsByName,
+        ...(product.description && { description: product.description }),
+        ...(product.unit && { unit: product.unit }),
+        ...(product.unitValue && { unitValue: product.unitValue }),
+        ...(product.calories !== null && { calories: product.calories }),
+        ...(product.carbohydrates !== null && {
+          carbohydrates: product.carbohydrates,
+        }),
+        ...(product.fats !== null && { fats: product.fats }),
+        ...(product.protein !== null && { protein: product.protein }),
+        ...(product.variantGroup && {
+          variantGroup: {
+            variantPropertyBinds:
+              product.variantGroup.variantPropertyBinds.flatMap((bind) => {
+                const variantPropertyId =
+                  idMap.variantProperties[bind.variantPropertyId];
+                return variantPropertyId
+                  ? [{ variantPropertyId, priority: bind.priority }]
+                  : [];
+              }),
+          },
+        }),
+        ...(product.variantSettings && {
+          variantSettings: mapVariantSettings(
+            product.variantSettings,
+            context
+          ),
+        }),
+      };
+
+      const match = matchBySlug
+        ? existing.products.find((item: any) => item.slug === product.slug)
+        : undefined;
+
+      if (match) {
+        const updateInput: ProductUpdateInput = {
+          ...fields,
+          id: match.id,
+          categoryBindsSet: categoryBinds,
+          ...(images.length > 0 && { images }),
+        };
+        if (product.variants.length > 0) {
+          report.warnings.push(
+            `${context}: variants of an existing product are not synced`
+          );
+        }
+
+        const targetId = await run(
+          {
+            kind: "productUpdate",
+            sourceId: product.id,
+            name: product.name,
+            input: updateInput,
+          },
+          async () => {
+            const result = await this.client.mutate({
+              mutation: UPDATE_PRODUCT,
+              variables: { input: updateInput },
+            });
+            return result.data?.productUpdate?.id ?? null;
+          }
+        );
+        if (targetId) idMap.products[product.id] = targetId;
+        continue;
+      }
+
+      const variantsCreate: ProductVariantCreateInput[] = product.variants.map(
+        (variant) => ({
+          slug: variant.slug,
+          priceSettings: mapPriceSettings(variant.priceSettings, context),
+          variantSettings: variant.variantSettings
+            ? mapVariantSettings(variant.variantSettings, context)
+            : { isMain: false, priority: 0 },
+          ...(variant.unitValue && { unitValue: variant.unitValue }),
+        })
+      );
+      const createInput: ProductCreateInput = {
+        ...fields,
+        slug: product.slug,
+        categoryBinds,
+        ...(variantsCreate.length > 0 && { variantsCreate }),
+      };
+
+      let createdVariants: any[] = [];
+      const targetId = await run(
+        {
+          kind: "productCreate",
+          sourceId: product.id,
+          name: product.name,
+          input: createInput,
+        },
+        async () => {
+          const result = await this.client.mutate({
+            mutation: CREATE_PRODUCT_FULL,
+            variables: { input: createInput },
+          });
+          const created = result.data?.productCreate;
+          createdVariants = (created?.variants || []).filter(
+            (variant: any) => variant.id !== created.id
+          );
+
+          // Images can only be bound by fileId on update
+          if (created?.id && images.length > 0) {
+            try {
+              await this.client.mutate({
+                mutation: UPDATE_PRODUCT,
+                variables: { input: { id: created.id, brandId, images } },
+              });
+            } catch (error) {
+              report.warnings.push(
+                `${context}: images are not bound (${(error as Error).message})`
+              );
+            }
+          }
+
+          return created?.id ?? null;
+        }
+      );
+
+      if (targetId) {
+        idMap.products[product.id] = targetId;
+        product.variants.forEach((variant) => {
+          const variantId = dryRun
+            ? `dry-run:${variant.id}`
+            : createdVariants.find((item) => item.slug === variant.slug)?.id;
+          if (variantId) {
+            idMap.products[variant.id] = variantId;
+          } else {
+            report.warnings.push(
+              `${context}: created variant ${variant.slug} is not found`
+            );
+          }
+        });
+      }
+    }
+
+    return report;
+  }
+
+  // Entities of the target brand used for slug and name matching
+  private async loadExisting(brandId: string) {
+    const [categories, products, variantProperties] = await Promise.all([
+      this.client.query({
+        query: GET_ALL_BRAND_CATEGORIES,
+        variables: { brandId },
+        fetchPolicy: "network-only",
+      }),
+      this.client.query({
+        query: GET_PRODUCTS_DETAIL,
+        variables: { input: { brandId } },
+        fetchPolicy: "network-only",
+      }),
+      this.client.query({
+        query: GET_PRODUCT_VARIANT_PROPERTIES,
+        variables: { brandId },
+        fetchPolicy: "network-only",
+      }),
+    ]);
+
+    return {
+      categories: (categories.data?.categories || []) as any[],
+      products: (products.data?.products || []) as any[],
+      variantProperties: (variantProperties.data?.productVariantProperties ||
+        []) as any[],
+    };
+  }
+}
+
+export const MenuSnapshotManagerFactory = {
+  create: (config: MenuSnapshotManagerConfig): MenuSnapshotManager =>
+    new MenuSnapshotManager(config),
+};
+
+export default MenuSnapshotManager;
@@ -0,0 +1,377 @@
+import { ApolloClient } from "@apollo/client";
+import type { OrderStatus, OrdersFilterInput } from "../graphql-types";
+import { OrderManager } from "./OrderManager";
+import {
+  buildRecommendationModel,
+  type RecommendationModelOptions,
+} from "../utils/recommendations";
+
+// ====================================================================
+// ORDER ANALYTICS - Sales figures for a dueTime range
+// ====================================================================
+
+export interface OrderAnalyticsConfig {
+  client: ApolloClient<any>;
+  defaultBrandId?: string;
+  /** Orders requested per page while collecting the range */
+  pageSize?: number;
+}
+
+export interface OrderAnalyticsOptions {
+  /** Start of the dueTime range, inclusive */
+  from: string | Date;
+  /** End of the dueTime range, inclusive */
+  to: string | Date;
+  brandId?: string;
+  /** Extra order filter, dueTime is always taken from `from` and `to` */
+  filter?: Omit<OrdersFilterInput, "dueTime">;
+  statuses?: OrderStatus[];
+  /** Number of top products to return */
+  topLimit?: number;
+  /**
+   * Offset from UTC in minutes used for hour, day and week buckets.
+   * Defaults to the local time zone.
+   */
+  utcOffset?: number;
+}
+
+export interface AnalyticsTotals {
+  orderCount: number;
+  /** Revenue in kopecks */
+  revenue: number;
+  /** Average check in kopecks, rounded */
+  averageCheck: number;
+  itemCount: number;
+  itemsPerOrder: number;
+}
+
+export interface AnalyticsBucket extends AnalyticsTotals {
+  /** Hour of day (0-23), date (YYYY-MM-DD) or week start date */
+  key: string;
+}
+
+export interface AnalyticsSplit extends AnalyticsTotals {
+  key: string;
+  /** Share of total revenue, 0..1 */
+  revenueShare: number;
+}
+
+export interface ProductSales {
+  productId: string;
+  name: string;
+  quantity: number;
+  revenue: number;
+  orderCount: number;
+}
+
+export interface CategorySales {
+  /** null for items without category */
+  categoryId: string | null;
+  categoryName: string | null;
+  quantity: number;
+  revenue: number;
+  revenueShare: number;
+}
+
+export interface OrderAnalyticsResult {
+  range: { from: string; to: string };
+  totals: AnalyticsTotals;
+  hourly: AnalyticsBucket[];
+  daily: AnalyticsBucket[];
+  weekly: AnalyticsBucket[];
+  topProductsByQuantity: ProductSales[];
+  topProductsByRevenue: ProductSales[];
+  categoryMix: CategorySales[];
+  byOrderType: AnalyticsSplit[];
+  byPoint: AnalyticsSplit[];
+  /** Orders created by employees, keyed by creator id */
+  byEmployee: AnalyticsSplit[];
+}
+
+export const DEFAULT_ANALYTICS_TOP_LIMIT = 10;
+export const DEFAULT_ANALYTICS_PAGE_SIZE = 200;
+
+// ================== CALCULATION ==================
+
+interface Accumulator {
+  orderCount: number;
+  revenue: number;
+  itemCount: number;
+}
+
+const createAccumulator = (): Accumulator => ({
+  orderCount: 0,
+  revenue: 0,
+  itemCount: 0,
+});
+
+const toTotals = (acc: Accumulator): AnalyticsTotals => ({
+  orderCount: acc.orderCount,
+  revenue: acc.revenue,
+  averageCheck:
+    acc.orderCount > 0 ? Math.round(acc.revenue / acc.orderCount) : 0,
+  itemCount: acc.itemCount,
+  itemsPerOrder:
+    acc.orderCount > 0
+      ? Math.round((acc.itemCount / acc.orderCount) * 100) / 100
+      : 0,
+});
+
+const toIsoDate = (date: Date) => date.toISOString().slice(0, 10);
+
+/**
+ * Aggregate already loaded orders. Orders need items for product,
+ * category and item count figures.
+ */
+export const computeOrderAnalytics = (
+  orders: any[],
+  options: Pick<OrderAnalyticsOptions, "topLimit" | "utcOffset"> & {
+    from?: string | Date;
+    to?: string | Date;
+  } = {}
+): OrderAnalyticsResult => {
+  const topLimit = options.topLimit ?? DEFAULT_ANALYTICS_TOP_LIMIT;
+  const total = createAccumulator();
+  const hourly = new Map<string, Accumulator>();
+  const daily = new Map<string, Accumulator>();
+  const weekly = new Map<string, Accumulator>();
+  const byOrderType = new Map<string, Accumulator>();
+  const byPoint = new Map<string, Accumulator>();
+  const byEmployee = new Map<string, Accumulator>();
+  const products = new Map<string, ProductSales>();
+  const categories = new Map<string, CategorySales>();
+
+  for (let hour = 0; hour < 24; hour++) {
+    hourly.set(String(hour), createAccumulator());
+  }
+
+  const add = (
+    groups: Map<string, Accumulator>,
+    key: string,
+    revenue: number,
+    itemCount: number
+  ) => {
+    const acc = groups.get(key) || createAccumulator();
+    acc.orderCount += 1;
+    acc.revenue += revenue;
+    acc.itemCount += itemCount;
+    groups.set(key, acc);
+  };
+
+  orders.forEach((order) => {
+    const items: any[] = order.items || [];
+    const revenue =
+      order.priceTotal ??
+      items.reduce((sum, item) => sum + item.price * item.quantity, 0);
+    const itemCount = items.reduce((sum, item) => sum + item.quantity, 0);
+
+    total.orderCount += 1;
+    total.revenue += revenue;
+    total.itemCount += itemCount;
+
+    // Shift to the requested zone and read UTC fields
+    const dueTime = new Date(order.dueTime);
+    const offset = options.utcOffset ?? -dueTime.getTimezoneOffset();
+    const local = new Date(dueTime.getTime() + offset * 60000);
+    const weekStart = new Date(local);
+    weekStart.setUTCDate(local.getUTCDate() - ((local.getUTCDay() + 6) % 7));
+
+    add(hourly, String(local.getUTCHours()), revenue, itemCount);
+    add(daily, toIsoDate(local), revenue, itemCount);
+    add(weekly, toIsoDate(weekStart), revenue, itemCount);
+    if (order.type) add(byOrderType, order.type, revenue, itemCount);
+    if (order.pointId) add(byPoint, order.pointId, revenue, itemCount);
+    if (order.creatorType === "EMPLOYEE" && order.creatorId) {
+      add(byEmployee, order.creatorId, revenue, itemCount);
+    }
+
+    const seenProducts = new Set<string>();
+    items.forEach((item) => {
+      const lineRevenue = item.price * item.quantity;
+
+      const product = products.get(item.productId) || {
+        productId: item.productId,
+        name: item.name,
+        quantity: 0,
+        revenue: 0,
+        orderCount: 0,
+      };
+      product.quantity += item.quantity;
+      product.revenue += lineRevenue;
+      if (!seenProducts.has(item.productId)) {
+        product.orderCount += 1;
+        seenProducts.add(item.productId);
+      }
+      products.set(item.productId, product);
+
+      // Items count toward their first category only
+      const category = item.categories?.[0];
+      const categoryKey = category?.categoryId ?? "";
+      const categorySales = categories.get(categoryKey) || {
+        categoryId: category?.categoryId ?? null,
+        categoryName: category?.categoryName ?? null,
+        quantity: 0,
+        revenue: 0,
+        revenueShare: 0,
+      };
+      categorySales.quantity += item.quantity;
+      categorySales.revenue += lineRevenue;
+      categories.set(categoryKey, categorySales);
+    });
+  });
+
+  const share = (revenue: number, of: number) =>
+    of > 0 ? Math.round((revenue / of) * 10000) / 10000 : 0;
+
+  const toBuckets = (groups: Map<string, Accumulator>, sort: boolean) => {
+    const keys = Array.from(groups.keys());
+    if (sort) keys.sort();
+    return keys.map((key) => ({ key, ...toTotals(groups.get(key)!) }));
+  };
+
+  const toSplits = (groups: Map<string, Accumulator>) =>
+    Array.from(groups.entries())
+      .map(([key, acc]) => ({
+        key,
+        ...toTotals(acc),
+        revenueShare: share(acc.revenue, total.revenue),
+      }))
+      .sort((a, b) => b.revenue - a.revenue);
+
+  const productList = Array.from(products.values());
+  const lineRevenue = Array.from(categories.values()).reduce(
+    (sum, category) => sum + category.revenue,
+    0
+  );
+
+  return {
+    range: {
+      from: options.from ? new Date(options.from).toISOString() : "",
+      to: options.to ? new Date(options.to).toISOString() : "",
+    },
+    totals: toTotals(total),
+    hourly: toBuckets(hourly, false),
+    daily: toBuckets(daily, true),
+    weekly: toBuckets(weekly, true),
+    topProductsByQuantity: [...productList]
+      .sort((a, b) => b.quantity - a.quantity || b.revenue - a.revenue)
+      .slice(0, topLimit),
+    topProductsByRevenue: [...productList]
+      .sort((a, b) => b.revenue - a.revenue || b.quantity - a.quantity)
+      .slice(0, topLimit),
+    categoryMix: Array.from(categories.values())
+      .map((category) => ({
+        ...category,
+        revenueShare: share(category.revenue, lineRevenue),
+      }))
+      .sort((a, b) => b.revenue - a.revenue),
+    byOrderType: toSplits(byOrderType),
+    byPoint: toSplits(byPoint),
+    byEmployee: toSplits(byEmployee),
+  };
+};
+
+// ================== SERVICE ==================
+
+export class OrderAnalytics {
+  private client: ApolloClient<any>;
+  private config: OrderAnalyticsConfig;
+  private orderManager: OrderManager;
+
+  constructor(config: OrderAnalyticsConfig) {
+    this.client = config.client;
+    this.config = config;
+    this.orderManager = new OrderManager({
+      client: this.client,
+      ...(config.defaultBrandId && { defaultBrandId: config.defaultBrandId }),
+    });
+  }
+
+  /**
+   * Load every order of the range page by page, with items
+   */
+  async loadOrders(options: OrderAnalyticsOptions): Promise<any[]> {
+    const filter: OrdersFilterInput = {
+      ...options.filter,
+      dueTime: {
+        from: new Date(options.from).toISOString(),
+        to: new Date(options.to).toISOString(),
+      },
+    };
+    if (options.statuses) filter.statuses = options.statuses;
+
+    const orders: any[] = [];
+    for await (const order of this.orderManager.iterateOrders({
+      ...(options.brandId && { brandId: options.brandId }),
+      filter,
+      first: this.config.pageSize || DEFAULT_ANALYTICS_PAGE_SIZE,
+      level: "withItems",
+    })) {
+      orders.push(order);
+    }
+
+    return orders;
+  }
+
+  /**
+   * Revenue, average check, time breakdowns, product and category mix
+   * and splits by order type, point and employee for a dueTime range
+   */
+  async getAnalytics(options: OrderAnalyticsOptions) {
+    try {
+      const orders = await this.loadOrders(options);
+
+      return {
+        analytics: computeOrderAnalytics(orders, options),
+        loading: false,
+        error: null,
+      };
+    } catch (error) {
+      return {
+        analytics: null,
+        loading: false,
+        error: error as Error,
+      };
+    }
+  }
+
+  /**
+   * Mine "frequently ordered together" rules from the orders of a dueTime
+   * range. Serialize the model to ship it with the app.
+   */
+  async getRecommendationModel(
+    options: OrderAnalyticsOptions & {
+      pointId?: string;
+      model?: Omit<RecommendationModelOptions, "brandId" | "pointId">;
+    }
+  ) {
+    try {
+      const brandId = options.brandId || this.config.defaultBrandId;
+      const orders = await this.loadOrders({
+        ...options,
+        filter: {
+          ...options.filter,
+          ...(options.pointId && { pointsId: [options.pointId] }),
+        },
+      });
+
+      return {
+        model: buildRecommendationModel(orders, {
+          ...options.model,
+          ...(brandId && { brandId }),
+          ...(options.pointId && { pointId: options.pointId }),
+        }),
+        loading: false,
+        error: null,
+      };
+    } catch (error) {
+      return {
+        model: null,
+        loading: false,
+        error: error as Error,
+      };
+    }
+  }
+}
+
+export default OrderAnalytics;
@@ -1,9 +1,42 @@
 import { ApolloClient } from "@apollo/client";
 import {
   GET_ORDER_DETAIL,
+  GET_ORDER_WITH_ITEMS,
+  GET_ORDERS_DETAIL,
   GET_USER_ORDER_HISTORY,
+  GET_ORDER_CONNECTION,
+  GET_ORDER_CONNECTION_WITH_ITEMS,
 } from "../graphql/queries/order";
 import { CREATE_ORDER, UPDATE_ORDER } from "../graphql/mutations/order";
+import type {
+  OrderStatus,
+  OrderType,
+  OrderConnectionInput,
+  OrdersFilterInput,
+  OrdersInput,
+  OrderSortStrategy,
+  PageInfo,
+  PaginationOneOfInput,
+  Sort,
+} from "../graphql-types";
+import {
+  buildPreOrderUpdateInput,
+  hasPreOrderChanges,
+  type DesiredOrderState,
+  type ReconcileOptions,
+} from "../utils/reconciliation";
+import {
+  OrderPricingPipeline,
+  type OrderPricingContext,
+  type OrderPricingResult,
+  type OrderPricingSettings,
+  type PricingItem,
+} from "../utils/orderPricing";
+import {
+  OrderStatusMachine,
+  orderStatusMachine,
+  type OrderStatusLocale,
+} from "./OrderStatusMachine";
 
 // ====================================================================
 // ORDER MANAGER - High-level business logic for order operations
@@ -14,19 +47,56 @@ export interface OrderManagerConfig {
   defaultEmployeeId?: string;
   defaultPointId?: string;
   defaultBrandId?: string;
+  statusMachine?: OrderStatusMachine;
+  /** Pricing rules for calculateOrderTotals, no adjustments when omitted */
+  pricing?: OrderPricingSettings | OrderPricingPipeline;
 }
 
-export interface OrderFilter {
-  pointsId?: string[];
+/**
+ * Order filter: the full OrdersFilterInput plus sorting and legacy aliases
+ */
+export interface OrderFilter extends OrdersFilterInput {
+  /**
+   * @deprecated Orders are queried for one brand, ids other than the
+   * query's brandId are rejected
+   */
   brandsId?: string[];
+  /** Alias for creatorEmployeesId with a single employee */
   employeeId?: string;
+  /** Alias for statuses */
   status?: string[];
+  /** Alias for dueTime */
   dateRange?: {
     from?: string;
     to?: string;
   };
+  sortStrategy?: OrderSortStrategy;
+  sort?: Sort;
+}
+
+export interface OrderPageOptions {
+  brandId?: string;
+  filter?: OrdersFilterInput;
+  /** Page size when paginating forward */
+  first?: number;
+  after?: string;
+  /** Page size when paginating backward, takes precedence over first */
+  last?: number;
+  before?: string;
+  sort?: Sort;
+  sortStrategy?: OrderSortStrategy;
+  level?: "detail" | "withItems";
+}
+
+export interface OrderPage {
+  orders: any[];
+  edges: Array<{ cursor: string; order: any }>;
+  pageInfo: PageInfo;
+  totalCount: number;
 }
 
+export const DEFAULT_ORDER_PAGE_SIZE = 50;
+
 export interface CreatePreOrderInput {
   pointId: string;
   brandId: string;
@@ -63,13 +133,29 @@ export interface UpdatePreOrderInput {
   status?: string;
 }
 
+/**
+ * Pre-order update described by the state the order should end up in
+ */
+export interface DesiredPreOrderUpdate extends ReconcileOptions {
+  id: string;
+  brandId?: string;
+  desired: DesiredOrderState;
+}
+
 export class OrderManager {
   private client: ApolloClient<any>;
   private config: OrderManagerConfig;
+  private statusMachine: OrderStatusMachine;
+  private pricing: OrderPricingPipeline;
 
   constructor(config: OrderManagerConfig) {
     this.client = config.client;
     this.config = config;
+    this.statusMachine = config.statusMachine || orderStatusMachine;
+    this.pricing =
+      config.pricing instanceof OrderPricingPipeline
+        ? config.pricing
+        : new OrderPricingPipeline(config.pricing);
   }
 
   // ================== HIGH-LEVEL QUERY METHODS ==================
@@ -149,45 +235,77 @@ export class OrderManager {
   /**
    * Get orders for a point
    */
-  async getOrdersForPoint(pointId?: string, filters: OrderFilter = {}) {
+  async getOrdersForPoint(
+    pointId?: string,
+    filters: OrderFilter = {},
+    brandId?: string
+  ) {
     const targetPointId = pointId || this.config.defaultPointId;
+    const targetBrandId = brandId || this.config.defaultBrandId;
 
     if (!targetPointId) {
       throw new Error("pointId is required");
     }
+    if (!targetBrandId) {
+      throw new Error("brandId is required");
+    }
 
-    // For now, return empty results as we don't have a specific point query
-    // This would need to be implemented with the actual GraphQL schema
-    return {
-      orders: [],
-      total: 0,
-      loading: false,
-      error: null,
-    };
+    try {
+      const input = this.buildOrdersInput(targetBrandId, {
+        ...filters,
+        pointsId: [targetPointId],
+      });
+
+      const result = await this.client.query({
+        query: GET_ORDERS_DETAIL,
+        variables: { input },
+        // Point order screens must not show stale statuses
+        fetchPolicy: "network-only",
+      });
+
+      const orders = result.data?.orders || [];
+
+      return {
+        orders,
+        total: orders.length,
+        loading: false,
+        error: null,
+      };
+    } catch (error) {
+      return {
+        orders: [],
+        total: 0,
+        loading: false,
+        error: error as Error,
+      };
+    }
   }
 
   /**
-   * Get order history with pagination
+   * Get order history with cursor pagination
    */
   async getOrderHistory(
-    filters: OrderFilter & { limit?: number; offset?: number } = {}
+    filters: OrderFilter & { limit?: number; after?: string } = {}
   ) {
+    const employeeId = filters.employeeId || this.config.defaultEmployeeId;
+
     try {
-      // Use the available user order history query
-      const result = await this.client.query({
-        query: GET_USER_ORDER_HISTORY,
-        variables: {
-          userId: this.config.defaultEmployeeId || "placeholder",
-          limit: filters.limit || 50,
-          offset: filters.offset || 0,
-        },
-        fetchPolicy: "cache-first",
-      });
+      const pageOptions: OrderPageOptions = {
+        first: filters.limit || DEFAULT_ORDER_PAGE_SIZE,
+        level: "withItems",
+      };
+      if (employeeId) {
+        pageOptions.filter = { creatorEmployeesId: [employeeId] };
+      }
+      if (filters.after) pageOptions.after = filters.after;
+
+      const page = await this.getOrdersPage(pageOptions);
 
       return {
-        orders: result.data.orders || [],
-        total: result.data.orders?.length || 0,
-        hasMore: result.data.orders?.length === (filters.limit || 50),
+        orders: page.orders,
+        total: page.totalCount,
+        hasMore: page.pageInfo.hasNextPage,
+        cursor: page.pageInfo.cursorEnd ?? null,
         loading: false,
         error: null,
       };
@@ -196,12 +314,102 @@ export class OrderManager {
         orders: [],
         total: 0,
         hasMore: false,
+        cursor: null,
         loading: false,
         error: error as Error,
       };
     }
   }
 
+  // ================== CURSOR PAGINATION ==================
+
+  /**
+   * Get a single page of orders from orderConnection
+   */
+  async getOrdersPage(options: OrderPageOptions = {}): Promise<OrderPage> {
+    const brandId = options.brandId || this.config.defaultBrandId;
+
+    if (!brandId) {
+      throw new Error("brandId is required");
+    }
+
+    const pagination: PaginationOneOfInput = options.last
+      ? {
+          backward: {
+            last: options.last,
+            ...(options.before && { before: options.before }),
+          },
+        }
+      : {
+          forward: {
+            first: options.first || DEFAULT_ORDER_PAGE_SIZE,
+            ...(options.after && { after: options.after }),
+          },
+        };
+
+    const input: OrderConnectionInput = { brandId, pagination };
+    if (options.filter) input.filter = options.filter;
+    if (options.sort) input.sort = options.sort;
+    if (options.sortStrategy) input.sortStrategy = options.sortStrategy;
+
+    const result = await this.client.query({
+      query:
+        options.level === "withItems"
+          ? GET_ORDER_CONNECTION_WITH_ITEMS
+          : GET_ORDER_CONNECTION,
+      variables: { input },
+      // Pages are read one by one, merging them into the cached list would
+      // return every page loaded so far
+      fetchPolicy: "no-cache",
+    });
+
+    const connection = result.data?.orderConnection;
+    const edges = connection?.edges || [];
+
+    return {
+      orders: edges.map((edge: any) => edge.order),
+      edges,
+      pageInfo: connection?.pageInfo || { hasNextPage: false },
+      totalCount: connection?.totalCount || 0,
+    };
+  }
+
+  /**
+   * Walk every page of orders, following cursors in the requested direction
+   */
+  async *iterateOrderPages(
+    options: OrderPageOptions = {}
+  ): AsyncGenerator<OrderPage, void, undefined> {
+    let pageOptions = { ...options };
+
+    while (true) {
+      const page = await this.getOrdersPage(pageOptions);
+      yield page;
+
+      const cursor = pageOptions.last
+        ? page.pageInfo.cursorStart
+        : page.pageInfo.cursorEnd;
+      if (!page.pageInfo.hasNextPage || !cursor || page.edges.length === 0) {
+        return;
+      }
+
+      pageOptions = pageOptions.last
+        ? { ...pageOptions, before: cursor }
+        : { ...pageOptions, after: cursor };
+    }
+  }
+
+  /**
+   * Walk every order across all pages
+   */
+  async *iterateOrders(
+    options: OrderPageOptions = {}
+  ): AsyncGenerator<any, void, undefined> {
+    for await (const page of this.iterateOrderPages(options)) {
+      yield* page.orders;
+    }
+  }
+
   // ================== HIGH-LEVEL MUTATION METHODS ==================
 
   /**
@@ -229,9 +437,14 @@ export class OrderManager {
   }
 
   /**
-   * Update a preorder by employee
+   * Update a preorder by employee. Pass `desired` to send only the changes
+   * needed to reach that state.
    */
-  async updatePreOrder(input: UpdatePreOrderInput) {
+  async updatePreOrder(input: UpdatePreOrderInput | DesiredPreOrderUpdate) {
+    if ("desired" in input) {
+      return this.updatePreOrderToState(input);
+    }
+
     try {
       const result = await this.client.mutate({
         mutation: UPDATE_ORDER,
@@ -253,26 +466,98 @@ export class OrderManager {
   }
 
   /**
-   * Update order status
+   * Reconcile an order with its desired state
    */
-  async updateOrderStatus(orderId: string, status: string) {
+  private async updatePreOrderToState(update: DesiredPreOrderUpdate) {
+    const brandId = update.brandId || this.config.defaultBrandId;
+
     try {
-      const orderResult = await this.getById(orderId);
+      if (!brandId) {
+        throw new Error("brandId is required");
+      }
+
+      const orderResult = await this.client.query({
+        query: GET_ORDER_WITH_ITEMS,
+        variables: { input: { id: update.id, brandId } },
+        fetchPolicy: "network-only",
+      });
 
-      if (orderResult.error || !orderResult.order) {
+      const order = orderResult.data?.order;
+      if (!order) {
         throw new Error("Order not found");
       }
 
-      const order = orderResult.order;
+      const options: ReconcileOptions = {};
+      if (update.quantityMode) options.quantityMode = update.quantityMode;
+
+      const input = buildPreOrderUpdateInput(
+        { ...order, brandId },
+        update.desired,
+        options
+      );
+
+      // Nothing to change, skip the round trip
+      if (!hasPreOrderChanges(input)) {
+        return { order, success: true, error: null };
+      }
+
+      const result = await this.client.mutate({
+        mutation: UPDATE_ORDER,
+        variables: { input },
+      });
+
+      return {
+        order: result.data?.orderPreOrderByEmployeeUpdate,
+        success: true,
+        error: null,
+      };
+    } catch (error) {
+      return {
+        order: null,
+        success: false,
+        error: error as Error,
+      };
+    }
+  }
+
+  /**
+   * Update order status, rejecting moves the status machine does not allow
+   */
+  async updateOrderStatus(
+    orderId: string,
+    status: OrderStatus | string,
+    brandId?: string
+  ) {
+    const targetBrandId = brandId || this.config.defaultBrandId;
 
-      const result = await this.updatePreOrder({
-        id: orderId,
-        pointId: order.pointId,
-        brandId: order.brandId,
-        status,
+    try {
+      if (!targetBrandId) {
+        throw new Error("brandId is required");
+      }
+
+      const orderResult = await this.client.query({
+        query: GET_ORDER_WITH_ITEMS,
+        variables: { input: { id: orderId, brandId: targetBrandId } },
+        fetchPolicy: "network-only",
       });
 
-      return result;
+      const order = orderResult.data?.order;
+      if (!order) {
+        throw new Error("Order not found");
+      }
+
+      this.statusMachine.assertTransition(order, status);
+
+      const result = await this.client.mutate({
+        mutation: UPDATE_ORDER,
+        variables: { input: { id: orderId, brandId: targetBrandId, status } },
+      });
+
+      return {
+        order: result.data?.orderPreOrderByEmployeeUpdate,
+        success: true,
+        error: null,
+      };
     } catch (error) {
       return {
         order: null,
@@ -321,20 +606,66 @@ export class OrderManager {
   }
 
   /**
-   * Calculate order totals
+   * Build OrdersInput from an OrderFilter, resolving legacy aliases.
+   * Throws when brandsId names brands other than brandId.
    */
-  calculateOrderTotals(items: Array<{ quantity: number; price: number }>) {
-    const subtotal = items.reduce(
-      (sum, item) => sum + item.quantity * item.price,
-      0
-    );
+  buildOrdersInput(brandId: string, filters: OrderFilter = {}): OrdersInput {
+    const {
+      brandsId,
+      employeeId,
+      status,
+      dateRange,
+      sortStrategy,
+      sort,
+      ...filterInput
+    } = filters;
+
+    const otherBrands = (brandsId || []).filter((id) => id !== brandId);
+    if (otherBrands.length > 0) {
+      throw new Error(
+        "Orders are queried for one brand, got brandsId " +
+          `${otherBrands.join(", ")} besides ${brandId}`
+      );
+    }
 
-    return {
-      subtotal,
-      tax: subtotal * 0.1, // 10% tax (adjust as needed)
-      total: subtotal * 1.1,
-      itemsCount: items.reduce((sum, item) => sum + item.quantity, 0),
-    };
+    const filter: OrdersFilterInput = { ...filterInput };
+    if (!filter.statuses && status?.length) {
+      filter.statuses = status as OrderStatus[];
+    }
+    if (!filter.creatorEmployeesId && employeeId) {
+      filter.creatorEmployeesId = [employeeId];
+    }
+    if (!filter.dueTime && dateRange) {
+      filter.dueTime = dateRange;
+    }
+
+    const input: OrdersInput = { brandId };
+    if (Object.keys(filter).length > 0) input.filter = filter;
+    if (sortStrategy) input.sortStrategy = sortStrategy;
+    if (sort) input.sort = sort;
+
+    return input;
+  }
+
+  /**
+   * Calculate order totals with the configured pricing rules (kopecks)
+   */
+  calculateOrderTotals(
+    items: PricingItem[],
+    context: OrderPricingContext = {}
+  ): OrderPricingResult & { tax: number } {
+    const result = this.pricing.calculate(items, {
+      ...(this.config.defaultBrandId && {
+        brandId: this.config.defaultBrandId,
+      }),
+      ...(this.config.defaultPointId && {
+        pointId: this.config.defaultPointId,
+      }),
+      ...context,
+    });
+
+    // tax is kept for existing callers and equals the VAT amount
+    return { ...result, tax: result.vat };
   }
 
   /**
@@ -384,27 +715,10 @@ export class OrderManager {
   }
 
   /**
-   * Get order status flow
+   * Get order status flow for an order type
    */
-  getOrderStatusFlow() {
-    return {
-      statuses: [
-        { value: "PENDING", label: "Pending", color: "orange" },
-        { value: "CONFIRMED", label: "Confirmed", color: "blue" },
-        { value: "PREPARING", label: "Preparing", color: "yellow" },
-        { value: "READY", label: "Ready", color: "green" },
-        { value: "DELIVERED", label: "Delivered", color: "green" },
-        { value: "CANCELLED", label: "Cancelled", color: "red" },
-      ],
-      transitions: {
-        PENDING: ["CONFIRMED", "CANCELLED"],
-        CONFIRMED: ["PREPARING", "CANCELLED"],
-        PREPARING: ["READY", "CANCELLED"],
-        READY: ["DELIVERED"],
-        DELIVERED: [],
-        CANCELLED: [],
-      },
-    };
+  getOrderStatusFlow(orderType?: OrderType, locale?: OrderStatusLocale) {
+    return this.statusMachine.getStatusFlow(orderType, locale);
   }
 }
 
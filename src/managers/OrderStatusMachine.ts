@@ -0,0 +1,324 @@
+import { OrderStatus, OrderType } from "../graphql-types";
+
+// ====================================================================
+// ORDER STATUS MACHINE - Allowed order status moves per order type
+// ====================================================================
+
+export type OrderStatusGraph = Record<OrderStatus, OrderStatus[]>;
+
+export type OrderStatusEvent =
+  | "ACCEPT"
+  | "PREPARE"
+  | "MARK_READY"
+  | "SUBMIT"
+  | "COMPLETE";
+
+export type OrderStatusLocale = "ru" | "en";
+
+/**
+ * Order fields the machine looks at. Items are checked only when loaded.
+ */
+export interface OrderStatusSubject {
+  status: OrderStatus | string;
+  type?: OrderType | string | null;
+  items?: ReadonlyArray<unknown> | null;
+}
+
+/**
+ * Guard for a transition. Return a reason string to block the move.
+ */
+export type OrderStatusGuard = (
+  order: OrderStatusSubject,
+  transition: { from: OrderStatus; to: OrderStatus }
+) => string | null | undefined;
+
+export interface OrderTransitionResult {
+  allowed: boolean;
+  from: OrderStatus;
+  to: OrderStatus | null;
+  reason?: string;
+}
+
+export interface OrderStatusInfo {
+  value: OrderStatus;
+  label: string;
+  color: string;
+}
+
+export interface OrderStatusMachineConfig {
+  /** Graph overrides per order type, others use the default graph */
+  graphs?: Partial<Record<OrderType, OrderStatusGraph>>;
+  /** Guards replacing the default ones */
+  guards?: OrderStatusGuard[];
+  locale?: OrderStatusLocale;
+}
+
+// ================== DEFAULT CONFIGURATION ==================
+
+export const ORDER_STATUS_EVENTS: Record<OrderStatusEvent, OrderStatus> = {
+  ACCEPT: OrderStatus.Accepted,
+  PREPARE: OrderStatus.Prepared,
+  MARK_READY: OrderStatus.Ready,
+  SUBMIT: OrderStatus.Submitted,
+  COMPLETE: OrderStatus.Complete,
+};
+
+export const ORDER_STATUS_ORDER: OrderStatus[] = [
+  OrderStatus.New,
+  OrderStatus.Accepted,
+  OrderStatus.Prepared,
+  OrderStatus.Ready,
+  OrderStatus.Submitted,
+  OrderStatus.Complete,
+];
+
+export const ORDER_STATUS_LABELS: Record<
+  OrderStatusLocale,
+  Record<OrderStatus, string>
+> = {
+  ru: {
+    [OrderStatus.New]: "Новый",
+    [OrderStatus.Accepted]: "Принят",
+    [OrderStatus.Prepared]: "Готовится",
+    [OrderStatus.Ready]: "Готов",
+    [OrderStatus.Submitted]: "Выдан",
+    [OrderStatus.Complete]: "Завершён",
+  },
+  en: {
+    [OrderStatus.New]: "New",
+    [OrderStatus.Accepted]: "Accepted",
+    [OrderStatus.Prepared]: "Preparing",
+    [OrderStatus.Ready]: "Ready",
+    [OrderStatus.Submitted]: "Submitted",
+    [OrderStatus.Complete]: "Complete",
+  },
+};
+
+export const ORDER_STATUS_COLORS: Record<OrderStatus, string> = {
+  [OrderStatus.New]: "blue",
+  [OrderStatus.Accepted]: "orange",
+  [OrderStatus.Prepared]: "yellow",
+  [OrderStatus.Ready]: "green",
+  [OrderStatus.Submitted]: "purple",
+  [OrderStatus.Complete]: "gray",
+};
+
+// Ready orders are handed to the guest directly
+const PICKUP_ORDER_STATUS_GRAPH: OrderStatusGraph = {
+  [OrderStatus.New]: [OrderStatus.Accepted],
+  [OrderStatus.Accepted]: [OrderStatus.Prepared],
+  [OrderStatus.Prepared]: [OrderStatus.Ready],
+  [OrderStatus.Ready]: [OrderStatus.Complete],
+  [OrderStatus.Submitted]: [OrderStatus.Complete],
+  [OrderStatus.Complete]: [],
+};
+
+// Ready orders are submitted to a courier or served to the table first
+const SERVED_ORDER_STATUS_GRAPH: OrderStatusGraph = {
+  [OrderStatus.New]: [OrderStatus.Accepted],
+  [OrderStatus.Accepted]: [OrderStatus.Prepared],
+  [OrderStatus.Prepared]: [OrderStatus.Ready],
+  [OrderStatus.Ready]: [OrderStatus.Submitted],
+  [OrderStatus.Submitted]: [OrderStatus.Complete],
+  [OrderStatus.Complete]: [],
+};
+
+export const DEFAULT_ORDER_STATUS_GRAPHS: Record<OrderType, OrderStatusGraph> =
+  {
+    [OrderType.PreOrder]: PICKUP_ORDER_STATUS_GRAPH,
+    [OrderType.Pickup]: PICKUP_ORDER_STATUS_GRAPH,
+    [OrderType.Delivery]: SERVED_ORDER_STATUS_GRAPH,
+    [OrderType.OnTable]: SERVED_ORDER_STATUS_GRAPH,
+  };
+
+/**
+ * An order without items cannot be prepared or handed over
+ */
+export const requireItemsGuard: OrderStatusGuard = (order, { to }) => {
+  if (
+    (to === OrderStatus.Prepared || to === OrderStatus.Ready) &&
+    Array.isArray(order.items) &&
+    order.items.length === 0
+  ) {
+    return `Cannot move order to ${to} without items`;
+  }
+  return null;
+};
+
+export const DEFAULT_ORDER_STATUS_GUARDS: OrderStatusGuard[] = [
+  requireItemsGuard,
+];
+
+// ================== STATE MACHINE ==================
+
+export class OrderStatusMachine {
+  private graphs: Record<OrderType, OrderStatusGraph>;
+  private guards: OrderStatusGuard[];
+  private locale: OrderStatusLocale;
+
+  constructor(config: OrderStatusMachineConfig = {}) {
+    this.graphs = { ...DEFAULT_ORDER_STATUS_GRAPHS, ...config.graphs };
+    this.guards = config.guards ?? [...DEFAULT_ORDER_STATUS_GUARDS];
+    this.locale = config.locale ?? "ru";
+  }
+
+  /**
+   * Get transition graph for an order type
+   */
+  getGraph(orderType?: OrderType | string | null): OrderStatusGraph {
+    return (
+      this.graphs[orderType as OrderType] || this.graphs[OrderType.PreOrder]
+    );
+  }
+
+  /**
+   * Check a move against the graph only, without guards
+   */
+  isAllowedTransition(
+    from: OrderStatus | string,
+    to: OrderStatus | string,
+    orderType?: OrderType | string | null
+  ): boolean {
+    return (
+      this.getGraph(orderType)[from as OrderStatus]?.includes(
+        to as OrderStatus
+      ) || false
+    );
+  }
+
+  /**
+   * Get statuses the order can move to right now (graph and guards)
+   */
+  getAvailableStatuses(order: OrderStatusSubject): OrderStatus[] {
+    const next = this.getGraph(order.type)[order.status as OrderStatus] || [];
+    return next.filter((status) => this.canTransition(order, status).allowed);
+  }
+
+  /**
+   * Check whether an order can move to a status
+   */
+  canTransition(
+    order: OrderStatusSubject,
+    to: OrderStatus | string
+  ): OrderTransitionResult {
+    const from = order.status as OrderStatus;
+
+    if (!ORDER_STATUS_ORDER.includes(to as OrderStatus)) {
+      return {
+        allowed: false,
+        from,
+        to: null,
+        reason: `Unknown order status: ${to}`,
+      };
+    }
+
+    const target = to as OrderStatus;
+    if (!this.isAllowedTransition(from, target, order.type)) {
+      return {
+        allowed: false,
+        from,
+        to: target,
+        reason: `Cannot move order from ${from} to ${target}`,
+      };
+    }
+
+    for (const guard of this.guards) {
+      const reason = guard(order, { from, to: target });
+      if (reason) {
+        return { allowed: false, from, to: target, reason };
+      }
+    }
+
+    return { allowed: true, from, to: target };
+  }
+
+  /**
+   * Apply an event to an order
+   */
+  transition(
+    order: OrderStatusSubject,
+    event: OrderStatusEvent
+  ): OrderTransitionResult {
+    const to = ORDER_STATUS_EVENTS[event];
+    if (!to) {
+      return {
+        allowed: false,
+        from: order.status as OrderStatus,
+        to: null,
+        reason: `Unknown order status event: ${event}`,
+      };
+    }
+    return this.canTransition(order, to);
+  }
+
+  /**
+   * Throw if an order cannot move to a status
+   */
+  assertTransition(order: OrderStatusSubject, to: OrderStatus | string) {
+    const result = this.canTransition(order, to);
+    if (!result.allowed) {
+      throw new Error(result.reason);
+    }
+    return result;
+  }
+
+  /**
+   * Add a guard checked after the graph
+   */
+  addGuard(guard: OrderStatusGuard): () => void {
+    this.guards = [...this.guards, guard];
+    return () => {
+      this.guards = this.guards.filter((item) => item !== guard);
+    };
+  }
+
+  isTerminal(
+    status: OrderStatus | string,
+    orderType?: OrderType | string | null
+  ): boolean {
+    return (this.getGraph(orderType)[status as OrderStatus] || []).length === 0;
+  }
+
+  // ================== PRESENTATION ==================
+
+  getStatusInfo(
+    status: OrderStatus,
+    locale: OrderStatusLocale = this.locale
+  ): OrderStatusInfo {
+    return {
+      value: status,
+      label: ORDER_STATUS_LABELS[locale][status] ?? status,
+      color: ORDER_STATUS_COLORS[status] ?? "gray",
+    };
+  }
+
+  /**
+   * Get statuses with labels and transitions for an order type
+   */
+  getStatusFlow(
+    orderType?: OrderType | string | null,
+    locale: OrderStatusLocale = this.locale
+  ) {
+    const graph = this.getGraph(orderType);
+    const reachable = new Set<OrderStatus>([OrderStatus.New]);
+    ORDER_STATUS_ORDER.forEach((status) => {
+      if (reachable.has(status)) {
+        graph[status].forEach((next) => reachable.add(next));
+      }
+    });
+
+    return {
+      statuses: ORDER_STATUS_ORDER.filter((status) =>
+        reachable.has(status)
+      ).map((status) => this.getStatusInfo(status, locale)),
+      transitions: graph,
+    };
+  }
+}
+
+/**
+ * Shared machine with the default graphs and guards
+ */
+export const orderStatusMachine = new OrderStatusMachine();
+
+export default OrderStatusMachine;
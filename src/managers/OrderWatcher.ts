@@ -0,0 +1,335 @@
+import { ApolloClient } from "@apollo/client";
+import { GET_ORDERS_WITH_ITEMS } from "../graphql/queries/order";
+import { OrderManager, type OrderFilter } from "./OrderManager";
+
+// ====================================================================
+// ORDER WATCHER - Live order feed for a point with change detection
+// ====================================================================
+
+export type OrderFeedEvent =
+  | { type: "orderCreated"; order: any }
+  | {
+      type: "orderStatusChanged";
+      order: any;
+      previousStatus: string;
+      status: string;
+    }
+  | { type: "orderItemsChanged"; order: any; previousItems: any[] }
+  | { type: "orderRemoved"; order: any };
+
+export type OrderFeedEventType = OrderFeedEvent["type"];
+
+export type OrderFeedListener<
+  T extends OrderFeedEventType = OrderFeedEventType,
+> = (event: Extract<OrderFeedEvent, { type: T }>) => void;
+
+/**
+ * Source of order lists. Polling is the default; a subscription-based
+ * transport only has to call `next` with the current orders.
+ */
+export interface OrderFeedTransport {
+  subscribe(handlers: {
+    next: (orders: any[]) => void;
+    error: (error: Error) => void;
+  }): () => void;
+}
+
+/**
+ * Page visibility, used to slow polling down in background tabs
+ */
+export interface VisibilitySource {
+  isHidden(): boolean;
+  subscribe(listener: () => void): () => void;
+}
+
+export interface PollingTransportOptions {
+  fetchOrders: () => Promise<any[]>;
+  /** Poll interval while the page is visible, ms */
+  interval?: number;
+  /** Poll interval while the page is hidden, ms */
+  hiddenInterval?: number;
+  visibility?: VisibilitySource;
+}
+
+export interface OrderWatcherConfig {
+  client: ApolloClient<any>;
+  brandId: string;
+  pointId: string;
+  filter?: OrderFilter;
+  interval?: number;
+  hiddenInterval?: number;
+  transport?: OrderFeedTransport;
+}
+
+export const DEFAULT_ORDER_FEED_INTERVAL = 15000;
+export const DEFAULT_ORDER_FEED_HIDDEN_INTERVAL = 120000;
+
+// ================== SNAPSHOT DIFF ==================
+
+const getItemsSignature = (items: any[] | null | undefined) =>
+  (items || [])
+    .map((item) => `${item.id}:${item.productId}:${item.quantity}`)
+    .sort()
+    .join("|");
+
+/**
+ * Compare two order lists and describe what changed
+ */
+export const diffOrderSnapshots = (
+  previous: any[],
+  next: any[]
+): OrderFeedEvent[] => {
+  const events: OrderFeedEvent[] = [];
+  const previousById = new Map(previous.map((order) => [order.id, order]));
+  const nextIds = new Set(next.map((order) => order.id));
+
+  next.forEach((order) => {
+    const before = previousById.get(order.id);
+
+    if (!before) {
+      events.push({ type: "orderCreated", order });
+      return;
+    }
+
+    if (before.status !== order.status) {
+      events.push({
+        type: "orderStatusChanged",
+        order,
+        previousStatus: before.status,
+        status: order.status,
+      });
+    }
+
+    if (
+      order.items !== undefined &&
+      getItemsSignature(before.items) !== getItemsSignature(order.items)
+    ) {
+      events.push({
+        type: "orderItemsChanged",
+        order,
+        previousItems: before.items || [],
+      });
+    }
+  });
+
+  previous.forEach((order) => {
+    if (!nextIds.has(order.id)) {
+      events.push({ type: "orderRemoved", order });
+    }
+  });
+
+  return events;
+};
+
+// ================== TRANSPORTS ==================
+
+/**
+ * Visibility of the current document, always visible outside the browser
+ */
+export const createDocumentVisibility = (): VisibilitySource => {
+  if (typeof document === "undefined") {
+    return {
+      isHidden: () => false,
+      subscribe: () => () => {},
+    };
+  }
+
+  return {
+    isHidden: () => document.visibilityState === "hidden",
+    subscribe: (listener) => {
+      document.addEventListener("visibilitychange", listener);
+      return () => document.removeEventListener("visibilitychange", listener);
+    },
+  };
+};
+
+/**
+ * Poll for orders, slowing down while the page is hidden and polling
+ * right away once it becomes visible again
+ */
+export const createPollingOrderTransport = ({
+  fetchOrders,
+  interval = DEFAULT_ORDER_FEED_INTERVAL,
+  hiddenInterval = DEFAULT_ORDER_FEED_HIDDEN_INTERVAL,
+  visibility = createDocumentVisibility(),
+}: PollingTransportOptions): OrderFeedTransport => ({
+  subscribe: ({ next, error }) => {
+    let stopped = false;
+    let inFlight = false;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const schedule = () => {
+      if (stopped) return;
+      if (timer) clearTimeout(timer);
+      const delay = visibility.isHidden() ? hiddenInterval : interval;
+      timer = setTimeout(poll, delay);
+    };
+
+    const poll = async () => {
+      if (stopped || inFlight) return;
+      inFlight = true;
+
+      try {
+        const orders = await fetchOrders();
+        if (!stopped) next(orders);
+      } catch (fetchError) {
+        if (!stopped) error(fetchError as Error);
+      } finally {
+        inFlight = false;
+        schedule();
+      }
+    };
+
+    const unsubscribeVisibility = visibility.subscribe(() => {
+      if (!visibility.isHidden()) {
+        poll();
+      } else {
+        schedule();
+      }
+    });
+
+    poll();
+
+    return () => {
+      stopped = true;
+      if (timer) clearTimeout(timer);
+      unsubscribeVisibility();
+    };
+  },
+});
+
+// ================== WATCHER ==================
+
+export class OrderWatcher {
+  private client: ApolloClient<any>;
+  private config: OrderWatcherConfig;
+  private orders: any[] = [];
+  private initialized = false;
+  private stopTransport: (() => void) | null = null;
+  private listeners: Map<
+    OrderFeedEventType | "*",
+    Set<OrderFeedListener<any>>
+  > = new Map();
+  private snapshotListeners: Set<(orders: any[]) => void> = new Set();
+  private errorListeners: Set<(error: Error) => void> = new Set();
+
+  constructor(config: OrderWatcherConfig) {
+    this.client = config.client;
+    this.config = config;
+  }
+
+  /**
+   * Start watching. The first result becomes the baseline without events.
+   */
+  start() {
+    if (this.stopTransport) return;
+
+    const transport = this.config.transport || this.createDefaultTransport();
+    this.stopTransport = transport.subscribe({
+      next: (orders) => this.handleOrders(orders),
+      error: (error) =>
+        this.errorListeners.forEach((listener) => listener(error)),
+    });
+  }
+
+  stop() {
+    this.stopTransport?.();
+    this.stopTransport = null;
+  }
+
+  isRunning(): boolean {
+    return this.stopTransport !== null;
+  }
+
+  getOrders(): any[] {
+    return this.orders;
+  }
+
+  /**
+   * Listen to one event type, returns unsubscribe function
+   */
+  on<T extends OrderFeedEventType>(
+    type: T,
+    listener: OrderFeedListener<T>
+  ): () => void {
+    return this.addListener(type, listener);
+  }
+
+  /**
+   * Listen to every event, returns unsubscribe function
+   */
+  onEvent(listener: OrderFeedListener): () => void {
+    return this.addListener("*", listener);
+  }
+
+  /**
+   * Listen to order list updates, returns unsubscribe function
+   */
+  onSnapshot(listener: (orders: any[]) => void): () => void {
+    this.snapshotListeners.add(listener);
+    return () => {
+      this.snapshotListeners.delete(listener);
+    };
+  }
+
+  onError(listener: (error: Error) => void): () => void {
+    this.errorListeners.add(listener);
+    return () => {
+      this.errorListeners.delete(listener);
+    };
+  }
+
+  private addListener(
+    type: OrderFeedEventType | "*",
+    listener: OrderFeedListener<any>
+  ) {
+    const listeners = this.listeners.get(type) || new Set();
+    listeners.add(listener);
+    this.listeners.set(type, listeners);
+
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+
+  private handleOrders(orders: any[]) {
+    const events = this.initialized
+      ? diffOrderSnapshots(this.orders, orders)
+      : [];
+
+    this.orders = orders;
+    this.initialized = true;
+
+    this.snapshotListeners.forEach((listener) => listener(orders));
+    events.forEach((event) => {
+      this.listeners.get(event.type)?.forEach((listener) => listener(event));
+      this.listeners.get("*")?.forEach((listener) => listener(event));
+    });
+  }
+
+  private createDefaultTransport(): OrderFeedTransport {
+    const input = new OrderManager({ client: this.client }).buildOrdersInput(
+      this.config.brandId,
+      { ...this.config.filter, pointsId: [this.config.pointId] }
+    );
+
+    const options: PollingTransportOptions = {
+      fetchOrders: async () => {
+        const result = await this.client.query({
+          query: GET_ORDERS_WITH_ITEMS,
+          variables: { input },
+          fetchPolicy: "network-only",
+        });
+        return result.data?.orders || [];
+      },
+    };
+    if (this.config.interval !== undefined)
+      options.interval = this.config.interval;
+    if (this.config.hiddenInterval !== undefined)
+      options.hiddenInterval = this.config.hiddenInterval;
+
+    return createPollingOrderTransport(options);
+  }
+}
+
+export default OrderWatcher;
@@ -15,6 +15,11 @@ import {
   PRODUCT_MUTATIONS,
 } from "../graphql/mutations/product";
 import { QUERY_UTILS } from "../graphql/utils";
+import {
+  createCachePriceResolver,
+  type PriceResolver,
+  type PriceResolution,
+} from "../utils/pricing";
 
 // ====================================================================
 // PRODUCT MANAGER - High-level business logic for product operations
@@ -91,10 +96,12 @@ export interface CreateProductInput {
 export class ProductManager {
   private client: ApolloClient<any>;
   private config: ProductManagerConfig;
+  private priceResolver: PriceResolver;
 
   constructor(config: ProductManagerConfig) {
     this.client = config.client;
     this.config = config;
+    this.priceResolver = createCachePriceResolver(config.client.cache);
   }
 
   // ================== HIGH-LEVEL QUERY METHODS ==================
@@ -479,6 +486,32 @@ export class ProductManager {
     }
   }
 
+  /**
+   * Explain which price settings rule applies to a product
+   */
+  explainPrice(
+    product: any,
+    context: { pointId?: string; orderType?: string } = {}
+  ): PriceResolution {
+    const pointId = context.pointId || this.config.defaultPointId;
+    const orderType = context.orderType || this.config.defaultOrderType || "";
+
+    return this.priceResolver.resolve(product.priceSettings, {
+      orderType,
+      ...(pointId && { pointId }),
+    });
+  }
+
+  /**
+   * Get product price, preferring the server-resolved pricePoint
+   */
+  private getEffectivePrice(product: any): number | null {
+    if (typeof product.pricePoint === "number") {
+      return product.pricePoint;
+    }
+    return this.explainPrice(product).price;
+  }
+
   /**
    * Apply client-side filters to products
    */
@@ -491,7 +524,7 @@ export class ProductManager {
     // Filter by price range
     if (filters.priceRange) {
       filtered = filtered.filter((product: any) => {
-        const price = product.pricePoint;
+        const price = this.getEffectivePrice(product);
         if (typeof price !== "number") return true;
 
         const { min, max } = filters.priceRange!;
@@ -11,6 +11,11 @@ import { CityManager, CityManagerFactory } from "./CityManager";
 import { PointManager, PointManagerFactory } from "./PointManager";
 import { OrderManager, OrderManagerFactory } from "./OrderManager";
 import { UserManager, UserManagerFactory } from "./UserManager";
+import {
+  CartManager,
+  CartManagerFactory,
+  type CartStorageAdapter,
+} from "./CartManager";
 
 // Export individual managers
 export { ProductManager, ProductManagerFactory } from "./ProductManager";
@@ -19,8 +24,48 @@ export { MenuManager, MenuManagerFactory } from "./MenuManager";
 export { BrandManager, BrandManagerFactory } from "./BrandManager";
 export { CityManager, CityManagerFactory } from "./CityManager";
 export { PointManager, PointManagerFactory } from "./PointManager";
-export { OrderManager, OrderManagerFactory } from "./OrderManager";
+export {
+  OrderManager,
+  OrderManagerFactory,
+  DEFAULT_ORDER_PAGE_SIZE,
+} from "./OrderManager";
 export { UserManager, UserManagerFactory } from "./UserManager";
+export {
+  OrderWatcher,
+  diffOrderSnapshots,
+  createPollingOrderTransport,
+  createDocumentVisibility,
+} from "./OrderWatcher";
+export {
+  OrderAnalytics,
+  computeOrderAnalytics,
+  DEFAULT_ANALYTICS_TOP_LIMIT,
+  DEFAULT_ANALYTICS_PAGE_SIZE,
+} from "./OrderAnalytics";
+export {
+  MenuSnapshotManager,
+  MenuSnapshotManagerFactory,
+  createMenuSnapshot,
+  parseMenuSnapshot,
+  serializeMenuSnapshot,
+  MENU_SNAPSHOT_FORMAT,
+  MENU_SNAPSHOT_VERSION,
+} from "./MenuSnapshotManager";
+export {
+  OrderStatusMachine,
+  orderStatusMachine,
+  requireItemsGuard,
+  ORDER_STATUS_EVENTS,
+  ORDER_STATUS_LABELS,
+  ORDER_STATUS_COLORS,
+  DEFAULT_ORDER_STATUS_GRAPHS,
+} from "./OrderStatusMachine";
+export {
+  CartManager,
+  CartManagerFactory,
+  createMemoryCartStorage,
+  createLocalStorageCartStorage,
+} from "./CartManager";
 
 // Export manager types
 export type {
@@ -35,7 +80,12 @@ export type {
   CategoryHierarchy,
 } from "./CategoryManager";
 
-export type { MenuManagerConfig, MenuFilter, MenuData } from "./MenuManager";
+export type {
+  MenuManagerConfig,
+  MenuFilter,
+  MenuData,
+  MenuDiffTarget,
+} from "./MenuManager";
 
 export type {
   BrandManagerConfig,
@@ -57,8 +107,58 @@ export type {
   OrderFilter,
   CreatePreOrderInput,
   UpdatePreOrderInput,
+  OrderPageOptions,
+  OrderPage,
+  DesiredPreOrderUpdate,
 } from "./OrderManager";
 
+export type {
+  OrderWatcherConfig,
+  OrderFeedEvent,
+  OrderFeedEventType,
+  OrderFeedListener,
+  OrderFeedTransport,
+  VisibilitySource,
+  PollingTransportOptions,
+} from "./OrderWatcher";
+
+export type {
+  OrderAnalyticsConfig,
+  OrderAnalyticsOptions,
+  OrderAnalyticsResult,
+  AnalyticsTotals,
+  AnalyticsBucket,
+  AnalyticsSplit,
+  ProductSales,
+  CategorySales,
+} from "./OrderAnalytics";
+
+export type {
+  MenuSnapshot,
+  MenuSnapshotManagerConfig,
+  MenuImportOptions,
+  MenuImportOperation,
+  MenuImportOperationKind,
+  MenuImportReport,
+  MenuSnapshotIdMap,
+  SnapshotCategory,
+  SnapshotProduct,
+  SnapshotVariant,
+  SnapshotVariantProperty,
+  SnapshotTag,
+} from "./MenuSnapshotManager";
+
+export type {
+  OrderStatusGraph,
+  OrderStatusEvent,
+  OrderStatusLocale,
+  OrderStatusSubject,
+  OrderStatusGuard,
+  OrderTransitionResult,
+  OrderStatusInfo,
+  OrderStatusMachineConfig,
+} from "./OrderStatusMachine";
+
 export type {
   UserManagerConfig,
   EmployeeFilter,
@@ -66,11 +166,65 @@ export type {
   RestoplaceCredentials,
 } from "./UserManager";
 
+export type {
+  CartManagerConfig,
+  CartLine,
+  CartSnapshot,
+  CartTotals,
+  CartStorageAdapter,
+  AddCartItemInput,
+} from "./CartManager";
+
 // ====================================================================
 // APOLLO CLIENT CACHE OPTIMIZATION
 // ====================================================================
 
-import { InMemoryCache, TypePolicies } from "@apollo/client";
+import { InMemoryCache, TypePolicies, FieldPolicy } from "@apollo/client";
+import { PriceResolver } from "../utils/pricing";
+
+/**
+ * Field policy for Query.orderConnection. Pages are stored per brand, filter
+ * and sort; forward pages are appended, backward pages are prepended.
+ */
+export const orderConnectionFieldPolicy: FieldPolicy<any> = {
+  keyArgs: ["input", ["brandId", "filter", "sort", "sortStrategy"]],
+  merge(existing, incoming, { args }) {
+    const pagination = args?.input?.pagination;
+    const after = pagination?.forward?.after;
+    const before = pagination?.backward?.before;
+
+    // First page (no cursor) replaces whatever was loaded before
+    if (!existing || (!after && !before)) {
+      return incoming;
+    }
+
+    const cursors = new Set(existing.edges.map((edge: any) => edge.cursor));
+    const newEdges = incoming.edges.filter(
+      (edge: any) => !cursors.has(edge.cursor)
+    );
+
+    if (before) {
+      return {
+        ...incoming,
+        edges: [...newEdges, ...existing.edges],
+        pageInfo: {
+          ...existing.pageInfo,
+          cursorStart: incoming.pageInfo.cursorStart,
+          hasNextPage: incoming.pageInfo.hasNextPage,
+        },
+      };
+    }
+
+    return {
+      ...incoming,
+      edges: [...existing.edges, ...newEdges],
+      pageInfo: {
+        ...incoming.pageInfo,
+        cursorStart: existing.pageInfo.cursorStart,
+      },
+    };
+  },
+};
 
 /**
  * Optimized cache configuration for Restomenu GraphQL operations
@@ -104,6 +258,9 @@ export const createOptimizedCache = (customTypePolicies: TypePolicies = {}) => {
           },
         },
 
+        // Cursor-paginated orders
+        orderConnection: orderConnectionFieldPolicy,
+
         // Menu data caching
         menuData: {
           keyArgs: ["brandId", "pointId", "orderType"],
@@ -122,8 +279,7 @@ export const createOptimizedCache = (customTypePolicies: TypePolicies = {}) => {
         // Price point caching with point-specific keys
         pricePoint: {
           keyArgs: ["input", ["pointId", "orderType"]],
-          read(existing, { args, readField }) {
-            // Custom price reading logic
+          read(existing, { args, readField, toReference }) {
             const pointId = args?.input?.pointId;
             const orderType = args?.input?.orderType;
 
@@ -131,15 +287,21 @@ export const createOptimizedCache = (customTypePolicies: TypePolicies = {}) => {
               return existing;
             }
 
-            // Try to read from price settings if direct price not available
-            const priceSettings = readField("priceSettings");
-            if (!existing && priceSettings) {
-              // Calculate price from settings
-              return calculatePriceFromSettings(
-                priceSettings,
+            // Resolve from price settings if direct price not available
+            const priceSettings = readField<any>("priceSettings");
+            if (existing == null && priceSettings) {
+              // Point city comes from the Point already loaded into the cache
+              const resolver = new PriceResolver({
+                getPointCityId: (id) =>
+                  readField<string>(
+                    "cityId",
+                    toReference({ __typename: "Point", id })
+                  ),
+              });
+              return resolver.resolvePrice(priceSettings, {
                 pointId,
-                orderType
-              );
+                orderType,
+              });
             }
 
             return existing;
@@ -215,41 +377,6 @@ export const createOptimizedCache = (customTypePolicies: TypePolicies = {}) => {
   });
 };
 
-/**
- * Helper function to calculate price from price settings
- */
-function calculatePriceFromSettings(
-  priceSettings: any,
-  pointId: string,
-  orderType: string
-): number | null {
-  if (!priceSettings || !priceSettings.priceOrderTypes) {
-    return priceSettings?.price || null;
-  }
-
-  // Find price for specific order type
-  const orderTypePrice = priceSettings.priceOrderTypes.find(
-    (pot: any) => pot.orderType === orderType
-  );
-
-  if (!orderTypePrice) {
-    return priceSettings.price || null;
-  }
-
-  // Check for point-specific price
-  const pointPrice = orderTypePrice.pricePoints?.find(
-    (pp: any) => pp.pointId === pointId
-  );
-
-  if (pointPrice && pointPrice.price) {
-    return pointPrice.price;
-  }
-
-  // Check for city-specific price (would need city info)
-  // For now, fall back to common price
-  return orderTypePrice.priceCommon || priceSettings.price || null;
-}
-
 // ====================================================================
 // CACHE UTILITIES
 // ====================================================================
@@ -451,6 +578,11 @@ export class RestomenuManagers {
   public user: UserManager;
   public cache: RestomenuCacheManager;
   public performance: RestomenuPerformanceMonitor;
+  private defaults: {
+    brandId?: string;
+    pointId?: string;
+    orderType?: "DELIVERY" | "PICKUP";
+  };
 
   constructor(
     apolloClient: any,
@@ -463,6 +595,8 @@ export class RestomenuManagers {
       employeeId?: string;
     } = {}
   ) {
+    this.defaults = defaults;
+
     // Initialize managers with shared config
     const productConfig: any = {};
     if (defaults.brandId !== undefined)
@@ -541,6 +675,33 @@ export class RestomenuManagers {
     );
   }
 
+  /**
+   * Create a cart for the given context, falling back to manager defaults
+   */
+  createCart(
+    options: {
+      brandId?: string;
+      pointId?: string;
+      orderType?: string;
+      storage?: CartStorageAdapter;
+    } = {}
+  ): CartManager {
+    const brandId = options.brandId || this.defaults.brandId;
+    const pointId = options.pointId || this.defaults.pointId;
+    const orderType = options.orderType || this.defaults.orderType;
+
+    if (!brandId || !pointId || !orderType) {
+      throw new Error("brandId, pointId, and orderType are required");
+    }
+
+    return CartManagerFactory.create({
+      brandId,
+      pointId,
+      orderType,
+      ...(options.storage && { storage: options.storage }),
+    });
+  }
+
   /**
    * Get all managers for debugging/inspection
    */
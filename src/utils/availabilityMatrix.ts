@@ -0,0 +1,259 @@
+import { OrderType } from "../graphql-types";
+import type { ProductPointBindInput } from "../graphql-types";
+import { PriceResolver, type PriceRule } from "./pricing";
+
+// ====================================================================
+// AVAILABILITY MATRIX - Product × point × order type grid
+// ====================================================================
+
+export const AVAILABILITY_ORDER_TYPES: OrderType[] = [
+  OrderType.Delivery,
+  OrderType.Pickup,
+  OrderType.OnTable,
+  OrderType.PreOrder,
+];
+
+export interface AvailabilityMatrixColumn {
+  /** `${pointId}:${orderType}` */
+  key: string;
+  pointId: string;
+  pointName: string;
+  orderType: OrderType;
+}
+
+export interface AvailabilityCell {
+  key: string;
+  pointId: string;
+  orderType: OrderType;
+  /** Product is bound to the point and order type */
+  available: boolean;
+  /** At least one category of the product is bound there too */
+  categoryAvailable: boolean;
+  /** Resolved price in kopecks, null when nothing is configured */
+  price: number | null;
+  priceRule: PriceRule | null;
+}
+
+export interface AvailabilityMatrixRow {
+  productId: string;
+  name: string;
+  slug: string;
+  isActive: boolean;
+  categoryIds: string[];
+  /** Binds outside the matrix columns, kept on save */
+  otherPointBinds: ProductPointBindInput[];
+  /** One cell per column, in column order */
+  cells: AvailabilityCell[];
+}
+
+export interface AvailabilityMatrix {
+  brandId: string;
+  columns: AvailabilityMatrixColumn[];
+  rows: AvailabilityMatrixRow[];
+}
+
+export interface AvailabilityMatrixSource {
+  brandId: string;
+  products: any[];
+  categories: any[];
+  points: Array<{ id: string; name: string; cityId?: string | null }>;
+  /** Columns per point, all order types by default */
+  orderTypes?: OrderType[];
+  priceResolver?: PriceResolver;
+}
+
+/**
+ * Bulk edit: omitted lists mean every product, point or order type
+ */
+export interface AvailabilityEdit {
+  productIds?: string[];
+  pointIds?: string[];
+  orderTypes?: OrderType[];
+  available: boolean;
+}
+
+export interface AvailabilityUpdate {
+  id: string;
+  brandId: string;
+  pointBinds: ProductPointBindInput[];
+}
+
+export const availabilityKey = (pointId: string, orderType: string) =>
+  `${pointId}:${orderType}`;
+
+// ================== BUILD ==================
+
+/**
+ * Build the grid from products with pointBinds, categoryBinds and
+ * priceSettings, categories with pointBinds and the brand points
+ */
+export const buildAvailabilityMatrix = (
+  source: AvailabilityMatrixSource
+): AvailabilityMatrix => {
+  const resolver = source.priceResolver || new PriceResolver();
+  const orderTypes = source.orderTypes || AVAILABILITY_ORDER_TYPES;
+
+  const columns: AvailabilityMatrixColumn[] = source.points.flatMap((point) =>
+    orderTypes.map((orderType) => ({
+      key: availabilityKey(point.id, orderType),
+      pointId: point.id,
+      pointName: point.name,
+      orderType,
+    }))
+  );
+  const columnKeys = new Set(columns.map((column) => column.key));
+  const pointCities = new Map(
+    source.points.map((point) => [point.id, point.cityId ?? undefined])
+  );
+
+  const categoryBinds = new Map<string, Set<string>>(
+    source.categories.map((category) => [
+      category.id,
+      new Set(
+        (category.pointBinds || []).map((bind: any) =>
+          availabilityKey(bind.pointId, bind.orderType)
+        )
+      ),
+    ])
+  );
+
+  const rows = source.products.map((product): AvailabilityMatrixRow => {
+    const binds: Array<{ pointId: string; orderType: OrderType }> =
+      product.pointBinds || [];
+    const bindKeys = new Set(
+      binds.map((bind) => availabilityKey(bind.pointId, bind.orderType))
+    );
+    const categoryIds: string[] = (product.categoryBinds || []).map(
+      (bind: any) => bind.categoryId
+    );
+
+    return {
+      productId: product.id,
+      name: product.name,
+      slug: product.slug,
+      isActive: product.isActive !== false,
+      categoryIds,
+      otherPointBinds: binds
+        .filter(
+          (bind) =>
+            !columnKeys.has(availabilityKey(bind.pointId, bind.orderType))
+        )
+        .map((bind) => ({ pointId: bind.pointId, orderType: bind.orderType })),
+      cells: columns.map((column) => {
+        const cityId = pointCities.get(column.pointId);
+        const resolution = resolver.resolve(product.priceSettings, {
+          orderType: column.orderType,
+          pointId: column.pointId,
+          ...(cityId && { cityId }),
+        });
+
+        return {
+          key: column.key,
+          pointId: column.pointId,
+          orderType: column.orderType,
+          available: bindKeys.has(column.key),
+          categoryAvailable: categoryIds.some((categoryId) =>
+            categoryBinds.get(categoryId)?.has(column.key)
+          ),
+          price: resolution.price,
+          priceRule: resolution.rule,
+        };
+      }),
+    };
+  });
+
+  return { brandId: source.brandId, columns, rows };
+};
+
+/**
+ * Cell of a product at a point and order type
+ */
+export const getAvailabilityCell = (
+  matrix: AvailabilityMatrix,
+  productId: string,
+  pointId: string,
+  orderType: OrderType
+): AvailabilityCell | undefined => {
+  const key = availabilityKey(pointId, orderType);
+  return matrix.rows
+    .find((row) => row.productId === productId)
+    ?.cells.find((cell) => cell.key === key);
+};
+
+// ================== EDITS ==================
+
+/**
+ * Apply bulk edits in order, returning a new matrix
+ */
+export const applyAvailabilityEdits = (
+  matrix: AvailabilityMatrix,
+  edits: AvailabilityEdit[]
+): AvailabilityMatrix => {
+  const matches = (list: string[] | undefined, value: string) =>
+    !list || list.includes(value);
+
+  return {
+    ...matrix,
+    rows: matrix.rows.map((row) => {
+      let cells = row.cells;
+
+      edits.forEach((edit) => {
+        if (!matches(edit.productIds, row.productId)) return;
+
+        cells = cells.map((cell) =>
+          matches(edit.pointIds, cell.pointId) &&
+          matches(edit.orderTypes, cell.orderType) &&
+          cell.available !== edit.available
+            ? { ...cell, available: edit.available }
+            : cell
+        );
+      });
+
+      return cells === row.cells ? row : { ...row, cells };
+    }),
+  };
+};
+
+/**
+ * ProductUpdateInput.pointBinds for products whose binds differ between the
+ * loaded and the edited matrix. pointBinds replaces the product binds, so
+ * each update carries the full list including binds outside the matrix.
+ */
+export const getAvailabilityUpdates = (
+  original: AvailabilityMatrix,
+  edited: AvailabilityMatrix
+): AvailabilityUpdate[] => {
+  const originalRows = new Map(
+    original.rows.map((row) => [row.productId, row])
+  );
+  const updates: AvailabilityUpdate[] = [];
+
+  edited.rows.forEach((row) => {
+    const previous = originalRows.get(row.productId);
+    if (!previous) return;
+
+    const previousCells = new Map(
+      previous.cells.map((cell) => [cell.key, cell.available])
+    );
+    const changed = row.cells.some(
+      (cell) => previousCells.get(cell.key) !== cell.available
+    );
+    if (!changed) return;
+
+    updates.push({
+      id: row.productId,
+      brandId: edited.brandId,
+      pointBinds: [
+        ...row.otherPointBinds,
+        ...row.cells
+          .filter((cell) => cell.available)
+          .map((cell) => ({
+            pointId: cell.pointId,
+            orderType: cell.orderType,
+          })),
+      ],
+    });
+  });
+
+  return updates;
+};
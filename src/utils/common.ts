@@ -2,3 +2,59 @@
 
 // Placeholder export to make this a valid module
 export const COMMON_UTILS = {} as const;
+
+export interface CategoryTreeNode<T = any> {
+  category: T;
+  /** 0 for root categories */
+  depth: number;
+  /** Ancestor ids from the root down */
+  path: string[];
+}
+
+/**
+ * Categories in hierarchy order: each parent followed by its children,
+ * siblings by priority. Categories whose parent is missing become roots.
+ */
+export const flattenCategoryTree = <
+  T extends { id: string; parentId?: string | null; priority?: number | null }
+>(
+  categories: T[]
+): CategoryTreeNode<T>[] => {
+  const ids = new Set(categories.map((category) => category.id));
+  const children = new Map<string | null, T[]>();
+
+  categories.forEach((category) => {
+    const parentId =
+      category.parentId && ids.has(category.parentId)
+        ? category.parentId
+        : null;
+    children.set(parentId, [...(children.get(parentId) || []), category]);
+  });
+
+  const nodes: CategoryTreeNode<T>[] = [];
+  const visited = new Set<string>();
+  const visit = (parentId: string | null, path: string[]) => {
+    [...(children.get(parentId) || [])]
+      .sort((a, b) => (a.priority || 0) - (b.priority || 0))
+      .forEach((category) => {
+        if (visited.has(category.id)) return;
+        visited.add(category.id);
+
+        nodes.push({ category, depth: path.length, path });
+        visit(category.id, [...path, category.id]);
+      });
+  };
+  visit(null, []);
+
+  // Categories in a parent cycle are never reached from a root
+  categories
+    .filter((category) => !visited.has(category.id))
+    .forEach((category) => {
+      if (visited.has(category.id)) return;
+      visited.add(category.id);
+      nodes.push({ category, depth: 0, path: [] });
+      visit(category.id, [category.id]);
+    });
+
+  return nodes;
+};
@@ -205,3 +205,15 @@ export function formatPhoneNumber(phone: string): string {
 
   return phone; // Return original if format not recognized
 }
+
+/**
+ * Escapes text for use in HTML content and attribute values
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
@@ -9,3 +9,60 @@ export * from './mapping';
 
 // Re-export common utilities
 export * from './common';
+
+// Re-export pricing utilities
+export * from './pricing';
+
+// Re-export order reconciliation utilities
+export * from './reconciliation';
+
+// Re-export order document renderers
+export * from './orderDocuments';
+
+// Re-export order pricing pipeline
+export * from './orderPricing';
+
+// Re-export menu diff engine
+export * from './menuDiff';
+
+// Re-export availability matrix utilities
+export * from './availabilityMatrix';
+
+// Re-export menu search index
+export * from './menuSearch';
+
+// Re-export menu facet engine
+export * from './menuFacets';
+
+// Re-export nutrition filters and dietary profiles
+export * from './menuNutrition';
+
+// Re-export menu print renderer
+export * from './menuPrint';
+
+// Re-export schema.org and OpenGraph generators
+export * from './menuStructuredData';
+
+// Re-export menu schedules
+export * from './menuSchedule';
+
+// Re-export menu lint engine
+export * from './menuLint';
+
+// Re-export order history recommendations
+export * from './recommendations';
+
+// Re-export menu section list model
+export * from './menuSections';
+
+// Re-export menu filter URL codec
+export * from './menuFilterUrl';
+
+// Re-export allergen and diet taxonomy
+export * from './menuAllergens';
+
+// Re-export QR code encoder
+export * from './qrCode';
+
+// Re-export menu deep links and table QR sheets
+export * from './menuQr';
@@ -0,0 +1,314 @@
+// ====================================================================
+// MENU ALLERGENS - Allergen and diet taxonomy over product tags
+// ====================================================================
+
+/** The 14 allergens of EU Regulation 1169/2011, Annex II */
+export type AllergenCode =
+  | "gluten"
+  | "crustaceans"
+  | "eggs"
+  | "fish"
+  | "peanuts"
+  | "soy"
+  | "milk"
+  | "nuts"
+  | "celery"
+  | "mustard"
+  | "sesame"
+  | "sulphites"
+  | "lupin"
+  | "molluscs";
+
+export type DietCode = "vegan" | "vegetarian" | "halal";
+
+export type SpicyCode = "spicy-1" | "spicy-2" | "spicy-3";
+
+export type TaxonomyCode = AllergenCode | DietCode | SpicyCode;
+
+export type TaxonomyKind = "allergen" | "diet" | "spicy";
+
+export type TaxonomyLocale = "ru" | "en";
+
+export interface TaxonomyEntry {
+  code: TaxonomyCode;
+  kind: TaxonomyKind;
+  labels: Record<TaxonomyLocale, string>;
+  /** Icon name for the app's icon set */
+  icon: string;
+  /** Spicy level, 1 to 3 */
+  level?: number;
+  /** Tag names recognized without a mapping, lower case */
+  aliases: string[];
+}
+
+/**
+ * Brand tags by id or name (case-insensitive) to taxonomy codes
+ */
+export type TaxonomyMapping = Record<string, TaxonomyCode | TaxonomyCode[]>;
+
+export interface ProductTaxonomyOptions {
+  mapping?: TaxonomyMapping;
+  /** Recognize tags by PRODUCT_TAXONOMY aliases, true by default */
+  aliases?: boolean;
+}
+
+export interface TaxonomyBadge {
+  code: TaxonomyCode;
+  label: string;
+  icon: string;
+}
+
+export interface ProductAllergenInfo {
+  allergens: TaxonomyBadge[];
+  diets: TaxonomyBadge[];
+  /** Highest spicy tag, null for mild products */
+  spicy: (TaxonomyBadge & { level: number }) | null;
+  /** Allergens from options.avoid the product contains */
+  conflicts: AllergenCode[];
+  /** Lines for the product card, conflicts first */
+  warnings: string[];
+}
+
+const entry = (
+  code: TaxonomyCode,
+  kind: TaxonomyKind,
+  ru: string,
+  en: string,
+  aliases: string[],
+  level?: number
+): TaxonomyEntry => ({
+  code,
+  kind,
+  labels: { ru, en },
+  icon: kind === "spicy" ? code : `${kind}-${code}`,
+  aliases: [...new Set([ru.toLowerCase(), en.toLowerCase(), ...aliases])],
+  ...(level !== undefined && { level }),
+});
+
+/** In display order: allergens, diets, spicy levels */
+export const PRODUCT_TAXONOMY: Record<TaxonomyCode, TaxonomyEntry> = {
+  gluten: entry("gluten", "allergen", "Глютен", "Gluten", [
+    "wheat",
+    "пшеница",
+  ]),
+  crustaceans: entry("crustaceans", "allergen", "Ракообразные", "Crustaceans", [
+    "shrimp",
+    "креветки",
+  ]),
+  eggs: entry("eggs", "allergen", "Яйца", "Eggs", ["egg", "яйцо"]),
+  fish: entry("fish", "allergen", "Рыба", "Fish", []),
+  peanuts: entry("peanuts", "allergen", "Арахис", "Peanuts", ["peanut"]),
+  soy: entry("soy", "allergen", "Соя", "Soy", ["soya"]),
+  milk: entry("milk", "allergen", "Молоко", "Milk", [
+    "dairy",
+    "lactose",
+    "лактоза",
+    "молочные продукты",
+  ]),
+  nuts: entry("nuts", "allergen", "Орехи", "Tree nuts", ["nuts"]),
+  celery: entry("celery", "allergen", "Сельдерей", "Celery", []),
+  mustard: entry("mustard", "allergen", "Горчица", "Mustard", []),
+  sesame: entry("sesame", "allergen", "Кунжут", "Sesame", []),
+  sulphites: entry("sulphites", "allergen", "Сульфиты", "Sulphites", [
+    "sulfites",
+  ]),
+  lupin: entry("lupin", "allergen", "Люпин", "Lupin", []),
+  molluscs: entry("molluscs", "allergen", "Моллюски", "Molluscs", [
+    "mollusks",
+  ]),
+  vegan: entry("vegan", "diet", "Веганское", "Vegan", ["веганский"]),
+  vegetarian: entry("vegetarian", "diet", "Вегетарианское", "Vegetarian", [
+    "вегетарианский",
+  ]),
+  halal: entry("halal", "diet", "Халяль", "Halal", []),
+  "spicy-1": entry("spicy-1", "spicy", "Острое", "Spicy", ["острый"], 1),
+  "spicy-2": entry(
+    "spicy-2",
+    "spicy",
+    "Очень острое",
+    "Very spicy",
+    ["очень острый"],
+    2
+  ),
+  "spicy-3": entry(
+    "spicy-3",
+    "spicy",
+    "Экстремально острое",
+    "Extra hot",
+    ["extra spicy"],
+    3
+  ),
+};
+
+export const TAXONOMY_WARNING_LABELS: Record<
+  TaxonomyLocale,
+  { contains: string; conflicts: string }
+> = {
+  ru: { contains: "Содержит", conflicts: "Не подходит, содержит" },
+  en: { contains: "Contains", conflicts: "Not suitable, contains" },
+};
+
+const TAXONOMY_ORDER = Object.keys(PRODUCT_TAXONOMY) as TaxonomyCode[];
+
+const ALIASES = new Map<string, TaxonomyCode>(
+  TAXONOMY_ORDER.flatMap((code) =>
+    PRODUCT_TAXONOMY[code].aliases.map((alias) => [alias, code] as const)
+  )
+);
+
+// ================== RESOLUTION ==================
+
+/**
+ * Taxonomy codes of one tag: the mapping by id, then by name, then the
+ * built-in aliases
+ */
+export const getTagTaxonomyCodes = (
+  tag: { id?: string; name?: string },
+  options: ProductTaxonomyOptions = {}
+): TaxonomyCode[] => {
+  const name = tag.name?.trim().toLowerCase();
+  const mapping = options.mapping || {};
+  const mapped =
+    (tag.id && mapping[tag.id]) ||
+    (name &&
+      Object.entries(mapping).find(
+        ([key]) => key.toLowerCase() === name
+      )?.[1]);
+
+  if (mapped) return Array.isArray(mapped) ? mapped : [mapped];
+  if (options.aliases === false || !name) return [];
+
+  const code = ALIASES.get(name);
+  return code ? [code] : [];
+};
+
+/**
+ * Taxonomy codes of a product's tags in PRODUCT_TAXONOMY order
+ */
+export const getProductTaxonomyCodes = (
+  product: any,
+  options: ProductTaxonomyOptions = {}
+): TaxonomyCode[] => {
+  const codes = new Set<TaxonomyCode>(
+    (product.tags || []).flatMap((tag: any) =>
+      getTagTaxonomyCodes(tag, options)
+    )
+  );
+  return TAXONOMY_ORDER.filter((code) => codes.has(code));
+};
+
+/**
+ * Ids of the tags that carry any of the codes
+ */
+export const getTaxonomyTagIds = (
+  codes: TaxonomyCode[],
+  tags: Array<{ id: string; name?: string }>,
+  options: ProductTaxonomyOptions = {}
+): string[] => {
+  const wanted = new Set(codes);
+  return [
+    ...new Set(
+      tags
+        .filter((tag) =>
+          getTagTaxonomyCodes(tag, options).some((code) => wanted.has(code))
+        )
+        .map((tag) => tag.id)
+    ),
+  ];
+};
+
+/**
+ * Distinct tags of the products, e.g. the tags of a loaded menu
+ */
+export const collectProductTags = (
+  products: any[]
+): Array<{ id: string; name: string }> => {
+  const tags = new Map<string, { id: string; name: string }>();
+  products.forEach((product) =>
+    (product.tags || []).forEach((tag: any) => tags.set(tag.id, tag))
+  );
+  return [...tags.values()];
+};
+
+/**
+ * Replace excludeAllergens with the matching tag ids in tagsIdNotAny.
+ * Allergens no tag carries exclude nothing.
+ */
+export const resolveAllergenFilter = <
+  T extends { excludeAllergens?: AllergenCode[]; tagsIdNotAny?: string[] },
+>(
+  filters: T,
+  tags: Array<{ id: string; name?: string }>,
+  options: ProductTaxonomyOptions = {}
+): Omit<T, "excludeAllergens"> => {
+  const { excludeAllergens, ...rest } = filters;
+  if (!excludeAllergens || excludeAllergens.length === 0) return rest;
+
+  const tagIds = getTaxonomyTagIds(excludeAllergens, tags, options);
+  if (tagIds.length === 0) return rest;
+
+  return {
+    ...rest,
+    tagsIdNotAny: [...new Set([...(filters.tagsIdNotAny || []), ...tagIds])],
+  };
+};
+
+// ================== PRODUCT CARD ==================
+
+export const getTaxonomyBadge = (
+  code: TaxonomyCode,
+  locale: TaxonomyLocale = "ru"
+): TaxonomyBadge => {
+  const { labels, icon } = PRODUCT_TAXONOMY[code];
+  return { code, label: labels[locale], icon };
+};
+
+/**
+ * Allergen, diet and spicy badges with warning lines for a product card
+ */
+export const getProductAllergenInfo = (
+  product: any,
+  options: ProductTaxonomyOptions & {
+    locale?: TaxonomyLocale;
+    /** The guest's allergens, reported as conflicts */
+    avoid?: AllergenCode[];
+  } = {}
+): ProductAllergenInfo => {
+  const locale = options.locale || "ru";
+  const codes = getProductTaxonomyCodes(product, options);
+  const ofKind = (kind: TaxonomyKind) =>
+    codes.filter((code) => PRODUCT_TAXONOMY[code].kind === kind);
+
+  const allergens = ofKind("allergen") as AllergenCode[];
+  const spicyCode = ofKind("spicy").pop();
+  const conflicts = allergens.filter((code) => options.avoid?.includes(code));
+
+  const list = (items: TaxonomyCode[]) =>
+    items
+      .map((code) =>
+        PRODUCT_TAXONOMY[code].labels[locale].toLocaleLowerCase(locale)
+      )
+      .join(", ");
+  const labels = TAXONOMY_WARNING_LABELS[locale];
+  const warnings: string[] = [];
+  if (conflicts.length > 0) {
+    warnings.push(`${labels.conflicts}: ${list(conflicts)}`);
+  }
+  if (allergens.length > 0) {
+    warnings.push(`${labels.contains}: ${list(allergens)}`);
+  }
+  if (spicyCode) warnings.push(PRODUCT_TAXONOMY[spicyCode].labels[locale]);
+
+  return {
+    allergens: allergens.map((code) => getTaxonomyBadge(code, locale)),
+    diets: ofKind("diet").map((code) => getTaxonomyBadge(code, locale)),
+    spicy: spicyCode
+      ? {
+          ...getTaxonomyBadge(spicyCode, locale),
+          level: PRODUCT_TAXONOMY[spicyCode].level!,
+        }
+      : null,
+    conflicts,
+    warnings,
+  };
+};
@@ -0,0 +1,710 @@
+import { escapeHtml, formatPrice } from "./formatting";
+import { PriceResolver } from "./pricing";
+
+// ====================================================================
+// MENU DIFF - Compare two menus: points, order types or snapshots
+// ====================================================================
+
+export type MenuDiffLocale = "ru" | "en";
+
+/**
+ * One side of a comparison. MenuData from getFullMenuData and MenuSnapshot
+ * fit as is. Live menus are loaded for a point and order type: pass them so
+ * `pricePoint` and products without pointBinds are attributed to it.
+ */
+export interface MenuDiffSide {
+  categories: any[];
+  products: any[];
+  /** Brand tags, used to name snapshot tagBinds */
+  tags?: Array<{ id: string; name: string }>;
+  pointId?: string;
+  orderType?: string;
+  label?: string;
+}
+
+export interface MenuDiffOptions {
+  /** Match entities with a different id by slug, true by default */
+  matchBySlug?: boolean;
+  /** Resolver for prices taken from priceSettings */
+  priceResolver?: PriceResolver;
+}
+
+export interface MenuDiffContext {
+  label?: string;
+  pointId?: string;
+  orderType?: string;
+}
+
+export interface MenuDiffEntity {
+  /** Id on the after side, on the before side for removed entities */
+  id: string;
+  /** Id on the before side when the entity was matched by slug */
+  beforeId?: string;
+  name: string;
+  slug?: string;
+}
+
+export interface MenuRename extends MenuDiffEntity {
+  previousName: string;
+}
+
+export interface MenuReorder extends MenuDiffEntity {
+  /** Category the product priority belongs to, unset for categories */
+  categoryId?: string;
+  before: number;
+  after: number;
+}
+
+export interface MenuProductMove extends MenuDiffEntity {
+  addedCategories: string[];
+  removedCategories: string[];
+}
+
+export interface MenuPriceChange extends MenuDiffEntity {
+  /** Unset when the sides are different points or order types */
+  pointId?: string;
+  orderType?: string;
+  before: number;
+  after: number;
+  /** after - before, kopecks */
+  difference: number;
+}
+
+export interface MenuAvailabilityChange extends MenuDiffEntity {
+  pointId: string;
+  orderType: string;
+  available: boolean;
+}
+
+export interface MenuTagChange extends MenuDiffEntity {
+  addedTags: string[];
+  removedTags: string[];
+}
+
+export interface MenuDiff {
+  before: MenuDiffContext;
+  after: MenuDiffContext;
+  categories: {
+    added: MenuDiffEntity[];
+    removed: MenuDiffEntity[];
+    renamed: MenuRename[];
+    reordered: MenuReorder[];
+  };
+  products: {
+    added: MenuDiffEntity[];
+    removed: MenuDiffEntity[];
+    renamed: MenuRename[];
+    reordered: MenuReorder[];
+    moved: MenuProductMove[];
+  };
+  prices: MenuPriceChange[];
+  availability: MenuAvailabilityChange[];
+  tags: MenuTagChange[];
+  summary: {
+    categoriesAdded: number;
+    categoriesRemoved: number;
+    categoriesChanged: number;
+    productsAdded: number;
+    productsRemoved: number;
+    productsChanged: number;
+    priceChanges: number;
+    availabilityChanges: number;
+  };
+  hasChanges: boolean;
+}
+
+export interface MenuDiffReportOptions {
+  locale?: MenuDiffLocale;
+  currency?: string;
+}
+
+export const MENU_DIFF_LABELS: Record<
+  MenuDiffLocale,
+  {
+    title: string;
+    noChanges: string;
+    categories: string;
+    products: string;
+    prices: string;
+    availability: string;
+    tags: string;
+    renamed: string;
+    reordered: string;
+    moved: string;
+    available: string;
+    unavailable: string;
+  }
+> = {
+  ru: {
+    title: "Изменения меню",
+    noChanges: "Изменений нет",
+    categories: "Категории",
+    products: "Товары",
+    prices: "Цены",
+    availability: "Доступность",
+    tags: "Теги",
+    renamed: "переименовано",
+    reordered: "порядок",
+    moved: "категории",
+    available: "доступен",
+    unavailable: "недоступен",
+  },
+  en: {
+    title: "Menu changes",
+    noChanges: "No changes",
+    categories: "Categories",
+    products: "Products",
+    prices: "Prices",
+    availability: "Availability",
+    tags: "Tags",
+    renamed: "renamed",
+    reordered: "order",
+    moved: "categories",
+    available: "available",
+    unavailable: "unavailable",
+  },
+};
+
+// ================== HELPERS ==================
+
+interface MatchedPair {
+  before: any;
+  after: any;
+}
+
+interface MatchResult {
+  pairs: MatchedPair[];
+  added: any[];
+  removed: any[];
+  /** Before id to after id */
+  idMap: Map<string, string>;
+}
+
+const bindKey = (pointId: string, orderType: string) =>
+  `${pointId}:${orderType}`;
+
+const contextOf = (side: MenuDiffSide): MenuDiffContext => {
+  const context: MenuDiffContext = {};
+  if (side.label !== undefined) context.label = side.label;
+  if (side.pointId !== undefined) context.pointId = side.pointId;
+  if (side.orderType !== undefined) context.orderType = side.orderType;
+  return context;
+};
+
+const hasContext = (side: MenuDiffSide) =>
+  Boolean(side.pointId && side.orderType);
+
+const entityOf = (pair: MatchedPair): MenuDiffEntity => {
+  const entity: MenuDiffEntity = { id: pair.after.id, name: pair.after.name };
+  if (pair.before.id !== pair.after.id) entity.beforeId = pair.before.id;
+  if (pair.after.slug) entity.slug = pair.after.slug;
+  return entity;
+};
+
+const singleEntityOf = (item: any): MenuDiffEntity => {
+  const entity: MenuDiffEntity = { id: item.id, name: item.name };
+  if (item.slug) entity.slug = item.slug;
+  return entity;
+};
+
+/**
+ * Pair entities by id, then the leftovers by slug
+ */
+const matchEntities = (
+  before: any[],
+  after: any[],
+  matchBySlug: boolean
+): MatchResult => {
+  const beforeById = new Map(before.map((item) => [item.id, item]));
+  const matchedBefore = new Set<string>();
+  const pairs: MatchedPair[] = [];
+  const unmatchedAfter: any[] = [];
+
+  after.forEach((item) => {
+    const previous = beforeById.get(item.id);
+    if (previous) {
+      matchedBefore.add(previous.id);
+      pairs.push({ before: previous, after: item });
+    } else {
+      unmatchedAfter.push(item);
+    }
+  });
+
+  const added: any[] = [];
+  unmatchedAfter.forEach((item) => {
+    const previous = matchBySlug
+      ? before.find(
+          (candidate) =>
+            item.slug &&
+            candidate.slug === item.slug &&
+            !matchedBefore.has(candidate.id)
+        )
+      : undefined;
+
+    if (previous) {
+      matchedBefore.add(previous.id);
+      pairs.push({ before: previous, after: item });
+    } else {
+      added.push(item);
+    }
+  });
+
+  return {
+    pairs,
+    added,
+    removed: before.filter((item) => !matchedBefore.has(item.id)),
+    idMap: new Map(pairs.map((pair) => [pair.before.id, pair.after.id])),
+  };
+};
+
+/**
+ * Tag names of a product: live products select tags, snapshots keep tagBinds
+ */
+const productTagNames = (product: any, side: MenuDiffSide): string[] => {
+  if (Array.isArray(product.tags)) {
+    return product.tags.map((tag: any) => tag.name);
+  }
+  const tagNames = new Map((side.tags || []).map((tag) => [tag.id, tag.name]));
+  return (product.tagBinds || []).map(
+    (bind: any) => tagNames.get(bind.tagId) ?? bind.tagId
+  );
+};
+
+const productBinds = (product: any, side: MenuDiffSide): Set<string> | null => {
+  if (Array.isArray(product.pointBinds)) {
+    return new Set(
+      product.pointBinds.map((bind: any) =>
+        bindKey(bind.pointId, bind.orderType)
+      )
+    );
+  }
+  if (hasContext(side)) {
+    return new Set([bindKey(side.pointId!, side.orderType!)]);
+  }
+  return null;
+};
+
+// ================== DIFF ==================
+
+/**
+ * Compare two menus. Entities are matched by id, then by slug. Prices are
+ * compared per point and order type the product is bound to on both sides;
+ * when the sides are loaded for different points or order types the
+ * effective price of each side is compared instead.
+ */
+export const diffMenus = (
+  before: MenuDiffSide,
+  after: MenuDiffSide,
+  options: MenuDiffOptions = {}
+): MenuDiff => {
+  const matchBySlug = options.matchBySlug !== false;
+  const resolver = options.priceResolver || new PriceResolver();
+
+  // ---------- Categories ----------
+  const categoryMatch = matchEntities(
+    before.categories,
+    after.categories,
+    matchBySlug
+  );
+  const categoryNames = new Map<string, string>([
+    ...before.categories.map(
+      (category): [string, string] => [category.id, category.name]
+    ),
+    ...after.categories.map(
+      (category): [string, string] => [category.id, category.name]
+    ),
+  ]);
+
+  const categories: MenuDiff["categories"] = {
+    added: categoryMatch.added.map(singleEntityOf),
+    removed: categoryMatch.removed.map(singleEntityOf),
+    renamed: [],
+    reordered: [],
+  };
+
+  categoryMatch.pairs.forEach((pair) => {
+    if (pair.before.name !== pair.after.name) {
+      categories.renamed.push({
+        ...entityOf(pair),
+        previousName: pair.before.name,
+      });
+    }
+    if (
+      typeof pair.before.priority === "number" &&
+      typeof pair.after.priority === "number" &&
+      pair.before.priority !== pair.after.priority
+    ) {
+      categories.reordered.push({
+        ...entityOf(pair),
+        before: pair.before.priority,
+        after: pair.after.priority,
+      });
+    }
+  });
+
+  // ---------- Products ----------
+  const productMatch = matchEntities(
+    before.products,
+    after.products,
+    matchBySlug
+  );
+
+  const products: MenuDiff["products"] = {
+    added: productMatch.added.map(singleEntityOf),
+    removed: productMatch.removed.map(singleEntityOf),
+    renamed: [],
+    reordered: [],
+    moved: [],
+  };
+  const prices: MenuPriceChange[] = [];
+  const availability: MenuAvailabilityChange[] = [];
+  const tags: MenuTagChange[] = [];
+
+  const crossContext =
+    hasContext(before) &&
+    hasContext(after) &&
+    (before.pointId !== after.pointId || before.orderType !== after.orderType);
+  const sharedContext = hasContext(after)
+    ? after
+    : hasContext(before)
+      ? before
+      : null;
+
+  const priceOf = (
+    product: any,
+    side: MenuDiffSide,
+    pointId: string,
+    orderType: string
+  ): number | null => {
+    if (
+      side.pointId === pointId &&
+      side.orderType === orderType &&
+      typeof product.pricePoint === "number"
+    ) {
+      return product.pricePoint;
+    }
+    if (!product.priceSettings) return null;
+    return resolver.resolvePrice(product.priceSettings, {
+      pointId,
+      orderType,
+    });
+  };
+
+  productMatch.pairs.forEach((pair) => {
+    const entity = entityOf(pair);
+
+    if (pair.before.name !== pair.after.name) {
+      products.renamed.push({ ...entity, previousName: pair.before.name });
+    }
+
+    // Category binds, compared in after category ids
+    const beforeBinds = new Map<string, number>(
+      (pair.before.categoryBinds || []).map((bind: any) => [
+        categoryMatch.idMap.get(bind.categoryId) ?? bind.categoryId,
+        bind.priority,
+      ])
+    );
+    const afterBinds = new Map<string, number>(
+      (pair.after.categoryBinds || []).map((bind: any) => [
+        bind.categoryId,
+        bind.priority,
+      ])
+    );
+    const addedCategories = [...afterBinds.keys()].filter(
+      (categoryId) => !beforeBinds.has(categoryId)
+    );
+    const removedCategories = [...beforeBinds.keys()].filter(
+      (categoryId) => !afterBinds.has(categoryId)
+    );
+    if (addedCategories.length > 0 || removedCategories.length > 0) {
+      products.moved.push({
+        ...entity,
+        addedCategories: addedCategories.map(
+          (categoryId) => categoryNames.get(categoryId) ?? categoryId
+        ),
+        removedCategories: removedCategories.map(
+          (categoryId) => categoryNames.get(categoryId) ?? categoryId
+        ),
+      });
+    }
+    afterBinds.forEach((priority, categoryId) => {
+      const previous = beforeBinds.get(categoryId);
+      if (
+        typeof previous === "number" &&
+        typeof priority === "number" &&
+        previous !== priority
+      ) {
+        products.reordered.push({
+          ...entity,
+          categoryId,
+          before: previous,
+          after: priority,
+        });
+      }
+    });
+
+    // Availability
+    const beforePoints = productBinds(pair.before, before);
+    const afterPoints = productBinds(pair.after, after);
+    if (beforePoints && afterPoints && !crossContext) {
+      const changed = (key: string, available: boolean) => {
+        const [pointId = "", orderType = ""] = key.split(":");
+        availability.push({ ...entity, pointId, orderType, available });
+      };
+      afterPoints.forEach((key) => {
+        if (!beforePoints.has(key)) changed(key, true);
+      });
+      beforePoints.forEach((key) => {
+        if (!afterPoints.has(key)) changed(key, false);
+      });
+    }
+
+    // Prices
+    if (crossContext) {
+      const previous = priceOf(
+        pair.before,
+        before,
+        before.pointId!,
+        before.orderType!
+      );
+      const current = priceOf(
+        pair.after,
+        after,
+        after.pointId!,
+        after.orderType!
+      );
+      if (previous !== null && current !== null && previous !== current) {
+        prices.push({
+          ...entity,
+          before: previous,
+          after: current,
+          difference: current - previous,
+        });
+      }
+    } else {
+      const scopes = sharedContext
+        ? [bindKey(sharedContext.pointId!, sharedContext.orderType!)]
+        : [...(afterPoints || [])].filter((key) => beforePoints?.has(key));
+
+      scopes.forEach((key) => {
+        const [pointId = "", orderType = ""] = key.split(":");
+        const previous = priceOf(pair.before, before, pointId, orderType);
+        const current = priceOf(pair.after, after, pointId, orderType);
+        if (previous !== null && current !== null && previous !== current) {
+          prices.push({
+            ...entity,
+            pointId,
+            orderType,
+            before: previous,
+            after: current,
+            difference: current - previous,
+          });
+        }
+      });
+    }
+
+    // Tags
+    const beforeTags = productTagNames(pair.before, before);
+    const afterTags = productTagNames(pair.after, after);
+    const addedTags = afterTags.filter((name) => !beforeTags.includes(name));
+    const removedTags = beforeTags.filter((name) => !afterTags.includes(name));
+    if (addedTags.length > 0 || removedTags.length > 0) {
+      tags.push({ ...entity, addedTags, removedTags });
+    }
+  });
+
+  const changedIds = (...lists: MenuDiffEntity[][]) =>
+    new Set(lists.flatMap((list) => list.map((entity) => entity.id))).size;
+
+  const summary: MenuDiff["summary"] = {
+    categoriesAdded: categories.added.length,
+    categoriesRemoved: categories.removed.length,
+    categoriesChanged: changedIds(categories.renamed, categories.reordered),
+    productsAdded: products.added.length,
+    productsRemoved: products.removed.length,
+    productsChanged: changedIds(
+      products.renamed,
+      products.reordered,
+      products.moved,
+      prices,
+      availability,
+      tags
+    ),
+    priceChanges: prices.length,
+    availabilityChanges: availability.length,
+  };
+
+  return {
+    before: contextOf(before),
+    after: contextOf(after),
+    categories,
+    products,
+    prices,
+    availability,
+    tags,
+    summary,
+    hasChanges: Object.values(summary).some((count) => count > 0),
+  };
+};
+
+// ================== REPORTS ==================
+
+interface ReportSection {
+  title: string;
+  lines: string[];
+}
+
+const describeContext = (context: MenuDiffContext) =>
+  context.label ||
+  [context.pointId, context.orderType].filter(Boolean).join(" / ") ||
+  "—";
+
+const formatDifference = (difference: number, currency: string) =>
+  `${difference > 0 ? "+" : "-"}${formatPrice(Math.abs(difference), currency)}`;
+
+/**
+ * Report lines grouped by section, shared by the text and HTML reports
+ */
+const buildReportSections = (
+  diff: MenuDiff,
+  options: MenuDiffReportOptions
+): ReportSection[] => {
+  const labels = MENU_DIFF_LABELS[options.locale || "ru"];
+  const currency = options.currency || "₽";
+
+  const entityLines = (group: MenuDiff["categories"]) => [
+    ...group.added.map((entity) => `+ ${entity.name}`),
+    ...group.removed.map((entity) => `- ${entity.name}`),
+    ...group.renamed.map(
+      (entity) =>
+        `~ ${entity.previousName} → ${entity.name} (${labels.renamed})`
+    ),
+    ...group.reordered.map(
+      (entity) =>
+        `~ ${entity.name}: ${labels.reordered} ` +
+        `${entity.before} → ${entity.after}`
+    ),
+  ];
+
+  const sections: ReportSection[] = [
+    { title: labels.categories, lines: entityLines(diff.categories) },
+    {
+      title: labels.products,
+      lines: [
+        ...entityLines(diff.products),
+        ...diff.products.moved.map((entity) =>
+          [
+            `~ ${entity.name}: ${labels.moved}`,
+            ...entity.addedCategories.map((name) => `+${name}`),
+            ...entity.removedCategories.map((name) => `-${name}`),
+          ].join(" ")
+        ),
+      ],
+    },
+    {
+      title: labels.prices,
+      lines: diff.prices.map((change) => {
+        const scope =
+          change.pointId && change.orderType
+            ? ` (${change.pointId} / ${change.orderType})`
+            : "";
+        return (
+          `${change.name}${scope}: ${formatPrice(change.before, currency)}` +
+          ` → ${formatPrice(change.after, currency)}` +
+          ` (${formatDifference(change.difference, currency)})`
+        );
+      }),
+    },
+    {
+      title: labels.availability,
+      lines: diff.availability.map(
+        (change) =>
+          `${change.available ? "+" : "-"} ${change.name}: ` +
+          `${change.available ? labels.available : labels.unavailable} ` +
+          `(${change.pointId} / ${change.orderType})`
+      ),
+    },
+    {
+      title: labels.tags,
+      lines: diff.tags.map((change) =>
+        [
+          `${change.name}:`,
+          ...change.addedTags.map((name) => `+${name}`),
+          ...change.removedTags.map((name) => `-${name}`),
+        ].join(" ")
+      ),
+    },
+  ];
+
+  return sections.filter((section) => section.lines.length > 0);
+};
+
+/**
+ * Render a diff as plain text
+ */
+export const renderMenuDiffText = (
+  diff: MenuDiff,
+  options: MenuDiffReportOptions = {}
+): string => {
+  const labels = MENU_DIFF_LABELS[options.locale || "ru"];
+  const lines = [
+    `${labels.title}: ${describeContext(diff.before)} → ` +
+      describeContext(diff.after),
+  ];
+
+  if (!diff.hasChanges) {
+    lines.push(labels.noChanges);
+    return lines.join("\n");
+  }
+
+  buildReportSections(diff, options).forEach((section) => {
+    lines.push("", `${section.title}:`);
+    section.lines.forEach((line) => lines.push(`  ${line}`));
+  });
+
+  return lines.join("\n");
+};
+
+/**
+ * Render a diff as an HTML fragment with `menu-diff__*` classes
+ */
+export const renderMenuDiffHtml = (
+  diff: MenuDiff,
+  options: MenuDiffReportOptions = {}
+): string => {
+  const labels = MENU_DIFF_LABELS[options.locale || "ru"];
+  const html: string[] = [
+    '<div class="menu-diff">',
+    '<h1 class="menu-diff__title">' +
+      `${escapeHtml(labels.title)}: ` +
+      `${escapeHtml(describeContext(diff.before))} → ` +
+      `${escapeHtml(describeContext(diff.after))}</h1>`,
+  ];
+
+  if (!diff.hasChanges) {
+    html.push(
+      `<p class="menu-diff__empty">${escapeHtml(labels.noChanges)}</p>`
+    );
+  }
+
+  buildReportSections(diff, options).forEach((section) => {
+    html.push('<section class="menu-diff__section">');
+    html.push(`<h2>${escapeHtml(section.title)}</h2>`);
+    html.push('<ul class="menu-diff__changes">');
+    section.lines.forEach((line) => {
+      const kind = line.startsWith("+ ")
+        ? "added"
+        : line.startsWith("- ")
+          ? "removed"
+          : "changed";
+      html.push(
+        `<li class="menu-diff__change menu-diff__change--${kind}">` +
+          `${escapeHtml(line)}</li>`
+      );
+    });
+    html.push("</ul>", "</section>");
+  });
+
+  html.push("</div>");
+  return html.join("\n");
+};
@@ -0,0 +1,393 @@
+import type { ProductUnit } from "../graphql-types";
+import type { MenuFilter } from "../managers/MenuManager";
+import {
+  matchesDietaryProfile,
+  matchesNutritionFilter,
+  type DietaryProfile,
+} from "./menuNutrition";
+
+// ====================================================================
+// MENU FACETS - Filter predicates and per-dimension counts
+// ====================================================================
+
+/**
+ * Filter dimensions, a facet counts products matching every other one
+ */
+export type MenuFacetDimension =
+  | "search"
+  | "category"
+  | "tags"
+  | "price"
+  | "calories"
+  | "nutrition"
+  | "unit";
+
+/**
+ * MenuFilter fields that narrow the product set, sorting aside
+ */
+export type MenuFacetFilter = Pick<
+  MenuFilter,
+  | "searchTerm"
+  | "categoryId"
+  | "categoriesId"
+  | "tagIds"
+  | "tagsIdAll"
+  | "tagsIdNotAll"
+  | "tagsIdAny"
+  | "tagsIdNotAny"
+  | "priceRange"
+  | "caloriesRange"
+  | "nutrition"
+  | "dietaryProfile"
+  | "units"
+>;
+
+export interface MenuFacetValue {
+  /** Category id, tag id or ProductUnit */
+  value: string;
+  label: string;
+  count: number;
+  selected: boolean;
+}
+
+/**
+ * Inclusive range, open ends are omitted
+ */
+export interface MenuFacetBucket {
+  /** `${min}-${max}` with empty open ends, e.g. "-29999" or "100000-" */
+  key: string;
+  min?: number;
+  max?: number;
+  count: number;
+  selected: boolean;
+}
+
+export interface MenuFacets {
+  /** Products matching all filters */
+  total: number;
+  categories: MenuFacetValue[];
+  tags: MenuFacetValue[];
+  units: MenuFacetValue[];
+  price: MenuFacetBucket[];
+  calories: MenuFacetBucket[];
+}
+
+export interface MenuFacetOptions {
+  /** Price bucket boundaries in kopecks, ascending */
+  priceBuckets?: number[];
+  /** Calorie band boundaries in kcal, ascending */
+  calorieBands?: number[];
+  /**
+   * Product ids matching filters.searchTerm, from MenuSearchIndex.
+   * Without it the search dimension is not applied.
+   */
+  searchMatches?: ReadonlySet<string> | null;
+  /** Profiles for filters.dietaryProfile ids, DIETARY_PROFILES by default */
+  dietaryProfiles?: Record<string, DietaryProfile>;
+}
+
+export interface MenuFacetSource {
+  products: any[];
+  categories: any[];
+}
+
+export const DEFAULT_PRICE_BUCKETS = [30000, 60000, 100000];
+export const DEFAULT_CALORIE_BANDS = [200, 400, 600];
+
+export const PRODUCT_UNIT_LABELS: Record<string, string> = {
+  BOTTLES: "бут.",
+  GRAM: "г",
+  KILOGRAM: "кг",
+  LITERS: "л",
+  MILLILITERS: "мл",
+  PIECES: "шт",
+  PORTION: "порц.",
+};
+
+type NumberRange = { min?: number; max?: number };
+
+const inRange = (value: number, range: NumberRange) =>
+  (range.min === undefined || value >= range.min) &&
+  (range.max === undefined || value <= range.max);
+
+const getCategoryIds = (product: any): string[] =>
+  (product.categoryBinds || []).map((bind: any) => bind.categoryId);
+
+const getTagIds = (product: any): string[] =>
+  (product.tags || []).map((tag: any) => tag.id);
+
+// ================== PREDICATES ==================
+
+/**
+ * Product is bound to filters.categoryId or one of filters.categoriesId
+ */
+export const matchesCategoryFilter = (
+  product: any,
+  filters: MenuFacetFilter
+): boolean => {
+  const categoryIds = getCategoryIds(product);
+
+  if (filters.categoryId) {
+    return categoryIds.includes(filters.categoryId);
+  }
+  if (filters.categoriesId && filters.categoriesId.length > 0) {
+    return filters.categoriesId.some((id) => categoryIds.includes(id));
+  }
+  return true;
+};
+
+/**
+ * Tag filters as in the GraphQL ProductsFilter, tagIds is a legacy alias
+ * of tagsIdAny
+ */
+export const matchesTagFilters = (
+  product: any,
+  filters: MenuFacetFilter
+): boolean => {
+  const productTagIds = getTagIds(product);
+  const has = (tagId: string) => productTagIds.includes(tagId);
+
+  // Legacy tagIds support (treated as tagsIdAny)
+  if (filters.tagIds && filters.tagIds.length > 0) {
+    if (!filters.tagIds.some(has)) return false;
+  }
+
+  // Contains all tags
+  if (filters.tagsIdAll && filters.tagsIdAll.length > 0) {
+    if (!filters.tagsIdAll.every(has)) return false;
+  }
+
+  // Contains at least one tag
+  if (filters.tagsIdAny && filters.tagsIdAny.length > 0) {
+    if (!filters.tagsIdAny.some(has)) return false;
+  }
+
+  // Does not contain all tags
+  if (filters.tagsIdNotAll && filters.tagsIdNotAll.length > 0) {
+    if (filters.tagsIdNotAll.every(has)) return false;
+  }
+
+  // Does not contain any of these tags
+  if (filters.tagsIdNotAny && filters.tagsIdNotAny.length > 0) {
+    if (filters.tagsIdNotAny.some(has)) return false;
+  }
+
+  return true;
+};
+
+/**
+ * Products without pricePoint are kept
+ */
+export const matchesPriceRange = (
+  product: any,
+  range: MenuFilter["priceRange"]
+): boolean => {
+  const price = product.pricePoint;
+  if (!range || typeof price !== "number") return true;
+  return inRange(price, range);
+};
+
+/**
+ * Products without calories are dropped once a range is set
+ */
+export const matchesCaloriesRange = (
+  product: any,
+  range: MenuFilter["caloriesRange"]
+): boolean => {
+  if (!range) return true;
+  const calories = product.calories;
+  return typeof calories === "number" && inRange(calories, range);
+};
+
+export const matchesUnitFilter = (
+  product: any,
+  units: MenuFilter["units"]
+): boolean => !units || units.length === 0 || units.includes(product.unit);
+
+/**
+ * Nutrition constraints and the dietary profile form one dimension
+ */
+export const matchesNutritionFilters = (
+  product: any,
+  filters: MenuFacetFilter,
+  dietaryProfiles?: Record<string, DietaryProfile>
+): boolean =>
+  matchesNutritionFilter(product, filters.nutrition) &&
+  matchesDietaryProfile(product, filters.dietaryProfile, dietaryProfiles);
+
+/**
+ * Product matches every filter dimension except the excluded one
+ */
+export const matchesMenuFilter = (
+  product: any,
+  filters: MenuFacetFilter,
+  options: {
+    searchMatches?: ReadonlySet<string> | null;
+    dietaryProfiles?: Record<string, DietaryProfile>;
+    exclude?: MenuFacetDimension;
+  } = {}
+): boolean => {
+  const { searchMatches, dietaryProfiles, exclude } = options;
+
+  return (
+    (exclude === "search" ||
+      !filters.searchTerm ||
+      !searchMatches ||
+      searchMatches.has(product.id)) &&
+    (exclude === "category" || matchesCategoryFilter(product, filters)) &&
+    (exclude === "tags" || matchesTagFilters(product, filters)) &&
+    (exclude === "price" || matchesPriceRange(product, filters.priceRange)) &&
+    (exclude === "calories" ||
+      matchesCaloriesRange(product, filters.caloriesRange)) &&
+    (exclude === "nutrition" ||
+      matchesNutritionFilters(product, filters, dietaryProfiles)) &&
+    (exclude === "unit" || matchesUnitFilter(product, filters.units))
+  );
+};
+
+// ================== FACETS ==================
+
+/**
+ * Inclusive buckets between ascending boundaries: below the first one,
+ * one per gap and from the last one up
+ */
+export const buildFacetBuckets = (
+  boundaries: number[]
+): Array<Omit<MenuFacetBucket, "count" | "selected">> => {
+  const sorted = [...new Set(boundaries)].sort((a, b) => a - b);
+  const edges: Array<number | undefined> = [undefined, ...sorted, undefined];
+
+  return edges.slice(0, -1).map((min, index) => {
+    const next = edges[index + 1];
+    const max = next === undefined ? undefined : next - 1;
+    return {
+      key: `${min ?? ""}-${max ?? ""}`,
+      ...(min !== undefined && { min }),
+      ...(max !== undefined && { max }),
+    };
+  });
+};
+
+const countBuckets = (
+  boundaries: number[],
+  values: number[],
+  range: NumberRange | undefined
+): MenuFacetBucket[] =>
+  buildFacetBuckets(boundaries).map((bucket) => ({
+    ...bucket,
+    count: values.filter((value) => inRange(value, bucket)).length,
+    selected:
+      !!range && range.min === bucket.min && range.max === bucket.max,
+  }));
+
+const sortFacetValues = (values: MenuFacetValue[]) =>
+  values.sort(
+    (a, b) => b.count - a.count || a.label.localeCompare(b.label)
+  );
+
+/**
+ * Counts for every category, tag, unit, price bucket and calorie band
+ * under the current filters. Each facet ignores its own dimension, so
+ * selecting a value never hides its siblings.
+ */
+export const computeMenuFacets = (
+  source: MenuFacetSource,
+  filters: MenuFacetFilter = {},
+  options: MenuFacetOptions = {}
+): MenuFacets => {
+  const { products, categories } = source;
+  const searchMatches = options.searchMatches ?? null;
+  const matching = (exclude?: MenuFacetDimension) =>
+    products.filter((product) =>
+      matchesMenuFilter(product, filters, {
+        searchMatches,
+        ...(options.dietaryProfiles && {
+          dietaryProfiles: options.dietaryProfiles,
+        }),
+        ...(exclude && { exclude }),
+      })
+    );
+
+  // Categories keep the menu order
+  const categoryCounts = new Map<string, number>();
+  matching("category").forEach((product) => {
+    new Set(getCategoryIds(product)).forEach((id) =>
+      categoryCounts.set(id, (categoryCounts.get(id) || 0) + 1)
+    );
+  });
+  const selectedCategories = filters.categoryId
+    ? [filters.categoryId]
+    : filters.categoriesId || [];
+
+  // Tags are collected from every product, zero counts included
+  const tagLabels = new Map<string, string>();
+  products.forEach((product) =>
+    (product.tags || []).forEach((tag: any) =>
+      tagLabels.set(tag.id, tag.name)
+    )
+  );
+  const tagCounts = new Map<string, number>();
+  matching("tags").forEach((product) => {
+    new Set(getTagIds(product)).forEach((id) =>
+      tagCounts.set(id, (tagCounts.get(id) || 0) + 1)
+    );
+  });
+  const selectedTags = new Set([
+    ...(filters.tagIds || []),
+    ...(filters.tagsIdAll || []),
+    ...(filters.tagsIdAny || []),
+  ]);
+
+  const units = new Set<string>(
+    products.map((product) => product.unit).filter(Boolean)
+  );
+  const unitCounts = new Map<string, number>();
+  matching("unit").forEach((product) => {
+    if (product.unit) {
+      unitCounts.set(product.unit, (unitCounts.get(product.unit) || 0) + 1);
+    }
+  });
+
+  const prices = matching("price")
+    .map((product) => product.pricePoint)
+    .filter((price): price is number => typeof price === "number");
+  const calories = matching("calories")
+    .map((product) => product.calories)
+    .filter((value): value is number => typeof value === "number");
+
+  return {
+    total: matching().length,
+    categories: categories.map((category) => ({
+      value: category.id,
+      label: category.name,
+      count: categoryCounts.get(category.id) || 0,
+      selected: selectedCategories.includes(category.id),
+    })),
+    tags: sortFacetValues(
+      [...tagLabels].map(([id, name]) => ({
+        value: id,
+        label: name,
+        count: tagCounts.get(id) || 0,
+        selected: selectedTags.has(id),
+      }))
+    ),
+    units: sortFacetValues(
+      [...units].map((unit) => ({
+        value: unit,
+        label: PRODUCT_UNIT_LABELS[unit] || unit,
+        count: unitCounts.get(unit) || 0,
+        selected: !!filters.units?.includes(unit as ProductUnit),
+      }))
+    ),
+    price: countBuckets(
+      options.priceBuckets || DEFAULT_PRICE_BUCKETS,
+      prices,
+      filters.priceRange
+    ),
+    calories: countBuckets(
+      options.calorieBands || DEFAULT_CALORIE_BANDS,
+      calories,
+      filters.caloriesRange
+    ),
+  };
+};
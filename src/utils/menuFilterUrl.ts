@@ -0,0 +1,481 @@
+import { ProductUnit } from "../graphql-types";
+import type { MenuFilter } from "../managers/MenuManager";
+import { PRODUCT_TAXONOMY, type AllergenCode } from "./menuAllergens";
+import type {
+  NutritionBasis,
+  NutritionFilter,
+  NutritionRange,
+} from "./menuNutrition";
+
+// ====================================================================
+// MENU FILTER URL - Compact query-string codec for menu filter state
+// ====================================================================
+
+export const MENU_FILTER_URL_VERSION = 1;
+
+/**
+ * Filter state that survives a URL round trip. Custom dietary profile
+ * objects are written by id.
+ */
+export type MenuFilterUrlState = Omit<
+  MenuFilter,
+  "sortBy" | "dietaryProfile"
+> & {
+  sortBy?: NonNullable<MenuFilter["sortBy"]> | "relevance";
+  dietaryProfile?: string | { id: string };
+};
+
+export interface MenuFilterUrlOptions {
+  /** Prepended to every parameter, e.g. "mf_" next to other app params */
+  prefix?: string;
+}
+
+export interface MenuFilterDecodeOptions extends MenuFilterUrlOptions {
+  /** Throw on the first invalid parameter instead of dropping it */
+  strict?: boolean;
+}
+
+export interface MenuFilterDecodeResult {
+  filters: MenuFilterUrlState;
+  /** Parameters that were dropped and why */
+  issues: string[];
+  /** Version found in the URL, null for links without filters */
+  version: number | null;
+}
+
+/**
+ * Router integration: read and write the query string, listen to
+ * back / forward navigation
+ */
+export interface MenuFilterRouterAdapter {
+  /** Current query string, with or without the leading "?" */
+  getSearch: () => string;
+  setSearch: (search: string, options: { replace: boolean }) => void;
+  /** Returns an unsubscribe function */
+  subscribe?: (listener: () => void) => () => void;
+}
+
+/**
+ * Parameter names without the prefix:
+ * v version, q search, c category, cs categories, tg legacy tags (any),
+ * ta / tn tags all / any, xa / xn not all / not any, al excluded
+ * allergens, p price range, kc calories range, u units, n nutrition,
+ * d dietary profile, s sort, o order, sc sort category, vg variant
+ * grouping, vp variant price
+ */
+export const MENU_FILTER_URL_PARAMS = [
+  "v",
+  "q",
+  "c",
+  "cs",
+  "tg",
+  "ta",
+  "tn",
+  "xa",
+  "xn",
+  "al",
+  "p",
+  "kc",
+  "u",
+  "n",
+  "d",
+  "s",
+  "o",
+  "sc",
+  "vg",
+  "vp",
+] as const;
+
+const ID_LISTS = {
+  cs: "categoriesId",
+  tg: "tagIds",
+  ta: "tagsIdAll",
+  tn: "tagsIdAny",
+  xa: "tagsIdNotAll",
+  xn: "tagsIdNotAny",
+} as const;
+
+const SORT_KEYS = [
+  "name",
+  "price",
+  "popularity",
+  "category",
+  "categoryPriority",
+  "relevance",
+];
+const VARIANT_STRATEGIES = ["MAIN", "PRIORITY_MIN", "PRIORITY_MAX"];
+const PRODUCT_UNITS = Object.values(ProductUnit) as string[];
+const ALLERGEN_CODES = Object.values(PRODUCT_TAXONOMY)
+  .filter((entry) => entry.kind === "allergen")
+  .map((entry) => entry.code as string);
+const NUTRITION_BASES: NutritionBasis[] = ["portion", "per100g"];
+
+/** Nutrition keys inside the "n" parameter */
+const NUTRITION_KEYS = {
+  cal: "calories",
+  p: "protein",
+  f: "fats",
+  c: "carbohydrates",
+} as const;
+
+const MAX_SEARCH_LENGTH = 200;
+const ID_PATTERN = /^[\w-]+$/;
+const RANGE_PATTERN = /^(\d+(?:\.\d+)?)?-(\d+(?:\.\d+)?)?$/;
+
+// ================== ENCODE ==================
+
+const encodeRange = (range?: { min?: number; max?: number }) => {
+  if (!range || (range.min == null && range.max == null)) return null;
+  return `${range.min ?? ""}-${range.max ?? ""}`;
+};
+
+const encodeNutrition = (nutrition?: NutritionFilter) => {
+  if (!nutrition) return null;
+
+  const parts: string[] = [];
+  if (nutrition.basis) parts.push(`b:${nutrition.basis}`);
+  if (nutrition.sourceBasis) parts.push(`sb:${nutrition.sourceBasis}`);
+  Object.entries(NUTRITION_KEYS).forEach(([key, field]) => {
+    const range = encodeRange(nutrition[field]);
+    if (range) parts.push(`${key}:${range}`);
+  });
+  const flags = [
+    ["hp", nutrition.highProtein],
+    ["lc", nutrition.lowCarb],
+  ] as const;
+  flags.forEach(([key, value]) => {
+    if (value) parts.push(`${key}:${value === true ? 1 : value}`);
+  });
+  return parts.length > 0 ? parts.join(";") : null;
+};
+
+/**
+ * Filter state as query parameters. Empty values are left out, so an
+ * empty filter gives no parameters at all.
+ */
+export const encodeMenuFilter = (
+  filters: MenuFilterUrlState,
+  options: MenuFilterUrlOptions = {}
+): Record<string, string> => {
+  const prefix = options.prefix || "";
+  const params: Record<string, string> = {};
+  const set = (key: string, value: string | null | undefined) => {
+    if (value) params[prefix + key] = value;
+  };
+
+  set("q", filters.searchTerm?.trim().slice(0, MAX_SEARCH_LENGTH));
+  set("c", filters.categoryId);
+  Object.entries(ID_LISTS).forEach(([key, field]) =>
+    set(key, filters[field]?.join(","))
+  );
+  set("al", filters.excludeAllergens?.join(","));
+  set("p", encodeRange(filters.priceRange));
+  set("kc", encodeRange(filters.caloriesRange));
+  set("u", filters.units?.join(","));
+  set("n", encodeNutrition(filters.nutrition));
+  set(
+    "d",
+    typeof filters.dietaryProfile === "object"
+      ? filters.dietaryProfile.id
+      : filters.dietaryProfile
+  );
+  set("s", filters.sortBy);
+  set("o", filters.sortOrder === "desc" ? "d" : null);
+  set("sc", filters.sortByCategoryId);
+  set(
+    "vg",
+    filters.variantsGroupStrategy ||
+      (filters.isVariantsGroup ? "1" : null)
+  );
+  if (filters.variantsGroupByPrice) {
+    const { type, pointId, orderType } = filters.variantsGroupByPrice;
+    set("vp", `${type}:${pointId}:${orderType}`);
+  }
+
+  if (Object.keys(params).length === 0) return params;
+  return { [prefix + "v"]: String(MENU_FILTER_URL_VERSION), ...params };
+};
+
+// ================== DECODE ==================
+
+const decodeRange = (value: string, integer: boolean) => {
+  const match = RANGE_PATTERN.exec(value);
+  if (!match || (match[1] === undefined && match[2] === undefined)) {
+    return null;
+  }
+
+  const range: { min?: number; max?: number } = {};
+  if (match[1] !== undefined) range.min = Number(match[1]);
+  if (match[2] !== undefined) range.max = Number(match[2]);
+  if (
+    integer &&
+    [range.min, range.max].some((n) => n !== undefined && !Number.isInteger(n))
+  ) {
+    return null;
+  }
+  if (
+    range.min !== undefined &&
+    range.max !== undefined &&
+    range.min > range.max
+  ) {
+    return null;
+  }
+  return range;
+};
+
+const decodeNutrition = (value: string): NutritionFilter | null => {
+  const nutrition: NutritionFilter = {};
+
+  for (const part of value.split(";")) {
+    const [key, raw = ""] = part.split(":", 2) as [string, string?];
+    if (key === "b" || key === "sb") {
+      if (!NUTRITION_BASES.includes(raw as NutritionBasis)) return null;
+      nutrition[key === "b" ? "basis" : "sourceBasis"] = raw as NutritionBasis;
+    } else if (key in NUTRITION_KEYS) {
+      const range = decodeRange(raw, false);
+      if (!range) return null;
+      nutrition[NUTRITION_KEYS[key as keyof typeof NUTRITION_KEYS]] =
+        range as NutritionRange;
+    } else if (key === "hp" || key === "lc") {
+      const number = Number(raw);
+      if (!raw || !Number.isFinite(number) || number <= 0) return null;
+      nutrition[key === "hp" ? "highProtein" : "lowCarb"] =
+        number === 1 ? true : number;
+    } else {
+      return null;
+    }
+  }
+
+  return Object.keys(nutrition).length > 0 ? nutrition : null;
+};
+
+const toParams = (
+  input: string | URLSearchParams | Record<string, string>
+): URLSearchParams => {
+  if (typeof input === "string") {
+    return new URLSearchParams(input.startsWith("?") ? input.slice(1) : input);
+  }
+  return input instanceof URLSearchParams
+    ? input
+    : new URLSearchParams(input);
+};
+
+/**
+ * Read filter state from a query string or parameters. Invalid values are
+ * dropped and reported, unrelated parameters are ignored.
+ */
+export const decodeMenuFilter = (
+  input: string | URLSearchParams | Record<string, string>,
+  options: MenuFilterDecodeOptions = {}
+): MenuFilterDecodeResult => {
+  const params = toParams(input);
+  const prefix = options.prefix || "";
+  const result: MenuFilterDecodeResult = {
+    filters: {},
+    issues: [],
+    version: null,
+  };
+  const { filters } = result;
+
+  const get = (key: string) => params.get(prefix + key);
+  const invalid = (key: string, reason: string) => {
+    const issue = `Invalid menu filter parameter "${prefix + key}": ${reason}`;
+    if (options.strict) throw new Error(issue);
+    result.issues.push(issue);
+  };
+
+  const version = get("v");
+  if (version !== null) {
+    const number = Number(version);
+    if (!Number.isInteger(number) || number < 1) {
+      invalid("v", `unknown version ${version}`);
+      return result;
+    }
+    if (number > MENU_FILTER_URL_VERSION) {
+      invalid("v", `unsupported version ${version}`);
+      return result;
+    }
+    result.version = number;
+  }
+
+  const ids = (key: string) => {
+    const value = get(key);
+    if (value === null) return undefined;
+
+    const list = value.split(",").filter(Boolean);
+    if (list.length === 0 || !list.every((id) => ID_PATTERN.test(id))) {
+      invalid(key, "expected comma-separated ids");
+      return undefined;
+    }
+    return list;
+  };
+
+  const searchTerm = get("q")?.trim();
+  if (searchTerm) filters.searchTerm = searchTerm.slice(0, MAX_SEARCH_LENGTH);
+
+  const categoryId = get("c");
+  if (categoryId !== null) {
+    if (ID_PATTERN.test(categoryId)) filters.categoryId = categoryId;
+    else invalid("c", "expected an id");
+  }
+
+  Object.entries(ID_LISTS).forEach(([key, field]) => {
+    const list = ids(key);
+    if (list) filters[field] = list;
+  });
+
+  const allergens = get("al");
+  if (allergens !== null) {
+    const list = allergens.split(",");
+    if (list.every((code) => ALLERGEN_CODES.includes(code))) {
+      filters.excludeAllergens = list as AllergenCode[];
+    } else {
+      invalid("al", "unknown allergen");
+    }
+  }
+
+  const ranges = [
+    ["p", "priceRange"],
+    ["kc", "caloriesRange"],
+  ] as const;
+  ranges.forEach(([key, field]) => {
+    const value = get(key);
+    if (value === null) return;
+
+    const range = decodeRange(value, true);
+    if (range) filters[field] = range;
+    else invalid(key, "expected a range like 100-500");
+  });
+
+  const units = get("u");
+  if (units !== null) {
+    const list = units.split(",");
+    if (list.every((unit) => PRODUCT_UNITS.includes(unit))) {
+      filters.units = list as ProductUnit[];
+    } else {
+      invalid("u", "unknown unit");
+    }
+  }
+
+  const nutrition = get("n");
+  if (nutrition !== null) {
+    const decoded = decodeNutrition(nutrition);
+    if (decoded) filters.nutrition = decoded;
+    else invalid("n", "malformed nutrition filter");
+  }
+
+  const dietaryProfile = get("d");
+  if (dietaryProfile !== null) {
+    if (ID_PATTERN.test(dietaryProfile)) {
+      filters.dietaryProfile = dietaryProfile;
+    } else {
+      invalid("d", "expected a profile id");
+    }
+  }
+
+  const sortBy = get("s");
+  if (sortBy !== null) {
+    if (SORT_KEYS.includes(sortBy)) {
+      filters.sortBy = sortBy as NonNullable<MenuFilterUrlState["sortBy"]>;
+    } else {
+      invalid("s", `unknown sort ${sortBy}`);
+    }
+  }
+
+  const sortOrder = get("o");
+  if (sortOrder !== null) {
+    if (sortOrder === "d" || sortOrder === "a") {
+      filters.sortOrder = sortOrder === "d" ? "desc" : "asc";
+    } else {
+      invalid("o", "expected a or d");
+    }
+  }
+
+  const sortByCategoryId = get("sc");
+  if (sortByCategoryId !== null) {
+    if (ID_PATTERN.test(sortByCategoryId)) {
+      filters.sortByCategoryId = sortByCategoryId;
+    } else {
+      invalid("sc", "expected an id");
+    }
+  }
+
+  const variantsGroup = get("vg");
+  if (variantsGroup !== null) {
+    if (variantsGroup === "1") {
+      filters.isVariantsGroup = true;
+    } else if (VARIANT_STRATEGIES.includes(variantsGroup)) {
+      filters.isVariantsGroup = true;
+      filters.variantsGroupStrategy = variantsGroup as NonNullable<
+        MenuFilter["variantsGroupStrategy"]
+      >;
+    } else {
+      invalid("vg", `unknown strategy ${variantsGroup}`);
+    }
+  }
+
+  const variantsPrice = get("vp");
+  if (variantsPrice !== null) {
+    const [type, pointId, orderType] = variantsPrice.split(":");
+    if (
+      (type === "MIN" || type === "MAX") &&
+      pointId &&
+      ID_PATTERN.test(pointId) &&
+      orderType &&
+      /^[A-Z_]+$/.test(orderType)
+    ) {
+      filters.variantsGroupByPrice = { type, pointId, orderType };
+    } else {
+      invalid("vp", "expected MIN|MAX:pointId:orderType");
+    }
+  }
+
+  // Links written before versioning carry no "v", read them as version 1
+  if (result.version === null && Object.keys(filters).length > 0) {
+    result.version = MENU_FILTER_URL_VERSION;
+  }
+
+  return result;
+};
+
+// ================== QUERY STRING ==================
+
+/**
+ * Replace the filter parameters of a query string, keeping every other
+ * parameter. Returns the string without "?".
+ */
+export const mergeMenuFilterSearch = (
+  search: string,
+  filters: MenuFilterUrlState,
+  options: MenuFilterUrlOptions = {}
+): string => {
+  const params = toParams(search);
+  const prefix = options.prefix || "";
+
+  MENU_FILTER_URL_PARAMS.forEach((key) => params.delete(prefix + key));
+  Object.entries(encodeMenuFilter(filters, options)).forEach(([key, value]) =>
+    params.set(key, value)
+  );
+
+  // Commas stay readable in shared links
+  return params.toString().replace(/%2C/g, ",");
+};
+
+/**
+ * Adapter over window.history for apps without a router library
+ */
+export const createBrowserRouterAdapter = (
+  target: Window = window
+): MenuFilterRouterAdapter => ({
+  getSearch: () => target.location.search,
+  setSearch: (search, { replace }) => {
+    const { pathname, hash } = target.location;
+    const url = `${pathname}${search ? `?${search}` : ""}${hash}`;
+    if (replace) target.history.replaceState(target.history.state, "", url);
+    else target.history.pushState(target.history.state, "", url);
+  },
+  subscribe: (listener) => {
+    target.addEventListener("popstate", listener);
+    return () => target.removeEventListener("popstate", listener);
+  },
+});
@@ -0,0 +1,863 @@
+import type {
+  CategoryUpdateInput,
+  OrderType,
+  ProductUpdateInput,
+} from "../graphql-types";
+import { availabilityKey } from "./availabilityMatrix";
+import { flattenCategoryTree } from "./common";
+import { getProductWeight } from "./menuNutrition";
+import { PriceResolver } from "./pricing";
+
+// ====================================================================
+// MENU LINT - Rule-based checks of categories and products with fixes
+// ====================================================================
+
+export type MenuLintSeverity = "error" | "warning" | "info";
+
+export type MenuLintEntityType = "product" | "category";
+
+/**
+ * Update that resolves an issue, ready for productUpdate / categoryUpdate
+ */
+export type MenuLintFix =
+  | { entityType: "product"; description: string; input: ProductUpdateInput }
+  | {
+      entityType: "category";
+      description: string;
+      input: CategoryUpdateInput;
+    };
+
+export interface MenuLintIssue {
+  ruleId: string;
+  severity: MenuLintSeverity;
+  message: string;
+  entityType: MenuLintEntityType;
+  /** Affected entities, the first one is the entity to fix */
+  entityIds: string[];
+  /** Point and order type of bind-specific issues */
+  pointId?: string;
+  orderType?: OrderType;
+  fix?: MenuLintFix;
+}
+
+export type MenuLintFinding = Omit<MenuLintIssue, "ruleId" | "severity">;
+
+export interface MenuLintContext {
+  brandId?: string;
+  categories: any[];
+  products: any[];
+  categoriesById: Map<string, any>;
+  productsById: Map<string, any>;
+  pointId?: string;
+  orderType?: string;
+  priceResolver: PriceResolver;
+  /** Point binds of an entity inside the linted point and order type */
+  getScopedBinds: (
+    entity: any
+  ) => Array<{ pointId: string; orderType: OrderType }>;
+}
+
+export interface MenuLintRule {
+  id: string;
+  /** Severity when the rule set does not say otherwise */
+  severity: MenuLintSeverity;
+  description: string;
+  /** Shown once when the rule reports anything */
+  recommendation?: string;
+  check: (context: MenuLintContext) => MenuLintFinding[];
+}
+
+/**
+ * Enabled rules with their severities, unlisted built-in rules are off
+ */
+export type MenuLintRuleSet = Record<string, MenuLintSeverity | "off">;
+
+export interface MenuLintSource {
+  brandId?: string;
+  /** Categories with isActive, parentId and pointBinds */
+  categories: any[];
+  /** Products with binds, images and priceSettings or pricePoint */
+  products: any[];
+}
+
+export interface MenuLintOptions {
+  /** Built-in set name or a custom set, "recommended" by default */
+  ruleSet?: string | MenuLintRuleSet;
+  /** Overrides on top of the set */
+  rules?: MenuLintRuleSet;
+  /** Extra rules, enabled at their own severity unless turned off */
+  customRules?: MenuLintRule[];
+  /** Limit bind checks to a point and order type */
+  pointId?: string;
+  orderType?: string;
+  priceResolver?: PriceResolver;
+}
+
+export interface MenuLintReport {
+  issues: MenuLintIssue[];
+  counts: Record<MenuLintSeverity, number>;
+  /** No error-level issues */
+  passed: boolean;
+  /** Rules that ran with their severities */
+  rules: Record<string, MenuLintSeverity>;
+  recommendations: string[];
+}
+
+/**
+ * Fix inputs merged per entity
+ */
+export interface MenuLintFixes {
+  products: ProductUpdateInput[];
+  categories: CategoryUpdateInput[];
+}
+
+export const MENU_LINT_MAX_CATEGORY_DEPTH = 5;
+
+const MEASURED_UNITS = new Set<string>([
+  "GRAM",
+  "KILOGRAM",
+  "MILLILITERS",
+  "LITERS",
+]);
+
+// ================== HELPERS ==================
+
+const isActive = (entity: any) => entity.isActive !== false;
+
+const normalizeName = (name: string) =>
+  String(name || "")
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, " ");
+
+const getCategoryIds = (product: any): string[] =>
+  [...(product.categoryBinds || [])]
+    .sort((a: any, b: any) => (a.priority || 0) - (b.priority || 0))
+    .map((bind: any) => bind.categoryId);
+
+const productFix = (
+  context: MenuLintContext,
+  product: any,
+  description: string,
+  input: Omit<ProductUpdateInput, "id" | "brandId">
+): Pick<MenuLintFinding, "fix"> => {
+  const brandId = product.brandId || context.brandId;
+  if (!brandId) return {};
+  return {
+    fix: {
+      entityType: "product",
+      description,
+      input: { id: product.id, brandId, ...input },
+    },
+  };
+};
+
+const categoryFix = (
+  context: MenuLintContext,
+  category: any,
+  description: string,
+  input: Omit<CategoryUpdateInput, "id" | "brandId">
+): Pick<MenuLintFinding, "fix"> => {
+  const brandId = category.brandId || context.brandId;
+  if (!brandId) return {};
+  return {
+    fix: {
+      entityType: "category",
+      description,
+      input: { id: category.id, brandId, ...input },
+    },
+  };
+};
+
+/**
+ * Variant id → id of the product that lists it in `variants`
+ */
+const getVariantOwners = (products: any[]): Map<string, string> => {
+  const owners = new Map<string, string>();
+  products.forEach((product) =>
+    (product.variants || []).forEach((variant: any) => {
+      if (!owners.has(variant.id)) owners.set(variant.id, product.id);
+    })
+  );
+  return owners;
+};
+
+/**
+ * Parent chains that loop back, each cycle once
+ */
+const findCategoryCycles = (
+  categories: any[],
+  categoriesById: Map<string, any>
+): string[][] => {
+  const cycles: string[][] = [];
+  const seen = new Set<string>();
+
+  categories.forEach((category) => {
+    const chain: string[] = [];
+    let current = category;
+    while (current && !seen.has(current.id) && !chain.includes(current.id)) {
+      chain.push(current.id);
+      current = current.parentId
+        ? categoriesById.get(current.parentId)
+        : undefined;
+    }
+    if (current && chain.includes(current.id)) {
+      cycles.push(chain.slice(chain.indexOf(current.id)));
+    }
+    chain.forEach((id) => seen.add(id));
+  });
+
+  return cycles;
+};
+
+/**
+ * Groups of two or more entities sharing a key
+ */
+const findDuplicates = <T>(
+  items: T[],
+  getKey: (item: T) => string | null
+): T[][] => {
+  const groups = new Map<string, T[]>();
+  items.forEach((item) => {
+    const key = getKey(item);
+    if (key) groups.set(key, [...(groups.get(key) || []), item]);
+  });
+  return [...groups.values()].filter((group) => group.length > 1);
+};
+
+// ================== RULES ==================
+
+export const MENU_LINT_RULES: MenuLintRule[] = [
+  {
+    id: "product-missing-image",
+    severity: "warning",
+    description: "Active products should have at least one image",
+    recommendation: "Add high-quality images to improve product presentation",
+    check: ({ products }) =>
+      products
+        .filter((product) => isActive(product))
+        .filter((product) => !product.images || product.images.length === 0)
+        .map((product) => ({
+          message: `Product "${product.name}" has no images`,
+          entityType: "product",
+          entityIds: [product.id],
+        })),
+  },
+  {
+    id: "product-missing-description",
+    severity: "info",
+    description: "Active products should have a description",
+    recommendation: "Describe products so guests know what they order",
+    check: ({ products }) =>
+      products
+        .filter((product) => isActive(product))
+        .filter((product) => !String(product.description || "").trim())
+        .map((product) => ({
+          message: `Product "${product.name}" has no description`,
+          entityType: "product",
+          entityIds: [product.id],
+        })),
+  },
+  {
+    id: "product-missing-price",
+    severity: "error",
+    description: "Products need a non-zero price for every bound order type",
+    recommendation: "Add pricing information to all products",
+    check: (context) =>
+      context.products.filter(isActive).flatMap((product) =>
+        context.getScopedBinds(product).flatMap((bind) => {
+          const price = product.priceSettings
+            ? context.priceResolver.resolvePrice(product.priceSettings, bind)
+            : product.pricePoint;
+          if (price) return [];
+
+          return [
+            {
+              message:
+                `Product "${product.name}" has no price for ` +
+                `${bind.orderType} at point ${bind.pointId}`,
+              entityType: "product" as const,
+              entityIds: [product.id],
+              pointId: bind.pointId,
+              orderType: bind.orderType,
+            },
+          ];
+        })
+      ),
+  },
+  {
+    id: "product-uncategorized",
+    severity: "warning",
+    description: "Active products should belong to a category",
+    recommendation: "Assign uncategorized products to appropriate categories",
+    check: ({ products }) =>
+      products
+        .filter((product) => isActive(product))
+        .filter((product) => getCategoryIds(product).length === 0)
+        .map((product) => ({
+          message: `Product "${product.name}" is not categorized`,
+          entityType: "product",
+          entityIds: [product.id],
+        })),
+  },
+  {
+    id: "product-category-unbound",
+    severity: "error",
+    description:
+      "Products bound to a point need one of their categories bound there",
+    recommendation:
+      "Bind categories to every point and order type of their products",
+    check: (context) =>
+      context.products.filter(isActive).flatMap((product) => {
+        const categoryIds = getCategoryIds(product);
+        if (categoryIds.length === 0) return [];
+
+        return context.getScopedBinds(product).flatMap((bind) => {
+          const key = availabilityKey(bind.pointId, bind.orderType);
+          const bound = categoryIds.some((id) =>
+            (context.categoriesById.get(id)?.pointBinds || []).some(
+              (categoryBind: any) =>
+                availabilityKey(
+                  categoryBind.pointId,
+                  categoryBind.orderType
+                ) === key
+            )
+          );
+          if (bound) return [];
+
+          const category = categoryIds
+            .map((id) => context.categoriesById.get(id))
+            .find(Boolean);
+          return [
+            {
+              message:
+                `Product "${product.name}" is bound to ${bind.orderType} ` +
+                `at point ${bind.pointId} but none of its categories is`,
+              entityType: "product" as const,
+              entityIds: [product.id, ...categoryIds],
+              pointId: bind.pointId,
+              orderType: bind.orderType,
+              ...(category &&
+                categoryFix(
+                  context,
+                  category,
+                  `Bind category "${category.name}" to ${bind.orderType} ` +
+                    `at point ${bind.pointId}`,
+                  {
+                    pointBinds: [
+                      ...(category.pointBinds || []).map((item: any) => ({
+                        pointId: item.pointId,
+                        orderType: item.orderType,
+                      })),
+                      { pointId: bind.pointId, orderType: bind.orderType },
+                    ],
+                  }
+                )),
+            },
+          ];
+        });
+      }),
+  },
+  {
+    id: "category-empty",
+    severity: "warning",
+    description: "Active categories should have products in their subtree",
+    recommendation:
+      "Consider removing empty categories or adding products to them",
+    check: (context) => {
+      const withProducts = new Set<string>();
+      context.products
+        .filter(isActive)
+        .forEach((product) =>
+          getCategoryIds(product).forEach((id) => withProducts.add(id))
+        );
+
+      // Walk up from categories with products, guarding against cycles
+      const filled = new Set<string>();
+      withProducts.forEach((id) => {
+        let category = context.categoriesById.get(id);
+        while (category && isActive(category) && !filled.has(category.id)) {
+          filled.add(category.id);
+          category = category.parentId
+            ? context.categoriesById.get(category.parentId)
+            : undefined;
+        }
+      });
+
+      return context.categories
+        .filter((category) => isActive(category) && !filled.has(category.id))
+        .map((category) => ({
+          message: `Category "${category.name}" has no products`,
+          entityType: "category",
+          entityIds: [category.id],
+          ...categoryFix(
+            context,
+            category,
+            `Deactivate category "${category.name}"`,
+            { isActive: false }
+          ),
+        }));
+    },
+  },
+  {
+    id: "category-inactive-parent",
+    severity: "warning",
+    description: "Active categories under an inactive parent are hidden",
+    recommendation:
+      "Activate the parent category or deactivate its subcategories",
+    check: (context) =>
+      context.categories.filter(isActive).flatMap((category) => {
+        const parent = category.parentId
+          ? context.categoriesById.get(category.parentId)
+          : undefined;
+        if (!parent || isActive(parent)) return [];
+
+        return [
+          {
+            message:
+              `Category "${category.name}" is active but its parent ` +
+              `"${parent.name}" is not`,
+            entityType: "category" as const,
+            entityIds: [category.id, parent.id],
+            ...categoryFix(
+              context,
+              category,
+              `Deactivate category "${category.name}"`,
+              { isActive: false }
+            ),
+          },
+        ];
+      }),
+  },
+  {
+    id: "category-orphaned",
+    severity: "warning",
+    description: "Category parents should exist",
+    recommendation:
+      "Assign orphaned categories to valid parent categories or make them " +
+      "root categories",
+    check: (context) =>
+      context.categories
+        .filter(
+          (category) =>
+            category.parentId &&
+            !context.categoriesById.has(category.parentId)
+        )
+        .map((category) => ({
+          message: `Category "${category.name}" has a missing parent`,
+          entityType: "category",
+          entityIds: [category.id],
+          ...categoryFix(
+            context,
+            category,
+            `Make category "${category.name}" a root category`,
+            { isParentIdRemove: true }
+          ),
+        })),
+  },
+  {
+    id: "category-circular",
+    severity: "error",
+    description: "Category parents must not form a cycle",
+    recommendation:
+      "Fix circular references by updating parent category assignments",
+    check: (context) =>
+      findCategoryCycles(context.categories, context.categoriesById).map(
+        (cycle) => {
+          const category = context.categoriesById.get(cycle[0]!);
+          return {
+            message:
+              "Categories form a parent cycle: " +
+              cycle
+                .map((id) => `"${context.categoriesById.get(id)?.name}"`)
+                .join(" → "),
+            entityType: "category" as const,
+            entityIds: cycle,
+            ...categoryFix(
+              context,
+              category,
+              `Make category "${category.name}" a root category`,
+              { isParentIdRemove: true }
+            ),
+          };
+        }
+      ),
+  },
+  {
+    id: "category-too-deep",
+    severity: "warning",
+    description:
+      "Category hierarchy should not exceed " +
+      `${MENU_LINT_MAX_CATEGORY_DEPTH} levels`,
+    recommendation:
+      "Consider flattening the category structure to improve navigation",
+    check: ({ categories }) =>
+      flattenCategoryTree(categories)
+        .filter((node) => node.depth >= MENU_LINT_MAX_CATEGORY_DEPTH)
+        .map(({ category, depth }) => ({
+          message:
+            `Category "${category.name}" is nested ` +
+            `${depth + 1} levels deep`,
+          entityType: "category",
+          entityIds: [category.id],
+        })),
+  },
+  {
+    id: "duplicate-name",
+    severity: "warning",
+    description:
+      "Products and sibling categories should have distinct names",
+    recommendation: "Rename duplicates so guests can tell them apart",
+    check: ({ products, categories }) => {
+      // Variants of one product may share its name
+      const owners = getVariantOwners(products);
+      const productGroups = findDuplicates(
+        products.filter(isActive),
+        (product) => normalizeName(product.name) || null
+      ).filter(
+        (group) =>
+          new Set(group.map((product) => owners.get(product.id) || product.id))
+            .size > 1
+      );
+      const categoryGroups = findDuplicates(
+        categories.filter(isActive),
+        (category) =>
+          normalizeName(category.name)
+            ? `${category.parentId || ""}:${normalizeName(category.name)}`
+            : null
+      );
+
+      return [
+        ...productGroups.map((group) => ({
+          message:
+            `${group.length} products are named "${group[0].name}"`,
+          entityType: "product" as const,
+          entityIds: group.map((product) => product.id),
+        })),
+        ...categoryGroups.map((group) => ({
+          message:
+            `${group.length} sibling categories are named ` +
+            `"${group[0].name}"`,
+          entityType: "category" as const,
+          entityIds: group.map((category) => category.id),
+        })),
+      ];
+    },
+  },
+  {
+    id: "duplicate-slug",
+    severity: "error",
+    description: "Product and category slugs must be unique",
+    recommendation: "Give every product and category a unique slug",
+    check: (context) => {
+      const findings: MenuLintFinding[] = [];
+      const check = (entityType: MenuLintEntityType, items: any[]) => {
+        const used = new Set(items.map((item) => item.slug));
+        findDuplicates(items, (item) => item.slug || null).forEach(
+          ([first, ...rest]) =>
+            rest.forEach((item) => {
+              let index = 2;
+              while (used.has(`${item.slug}-${index}`)) index++;
+              const slug = `${item.slug}-${index}`;
+              used.add(slug);
+
+              const description = `Change slug of "${item.name}" to "${slug}"`;
+              findings.push({
+                message:
+                  `Slug "${item.slug}" of "${item.name}" ` +
+                  "is already used",
+                entityType,
+                entityIds: [item.id, first.id],
+                ...(entityType === "product"
+                  ? productFix(context, item, description, { slug })
+                  : categoryFix(context, item, description, { slug })),
+              });
+            })
+        );
+      };
+
+      check("product", context.products);
+      check("category", context.categories);
+      return findings;
+    },
+  },
+  {
+    id: "variant-missing-main",
+    severity: "error",
+    description: "Products with variants need a main variant",
+    recommendation: "Mark one variant of every product as the main one",
+    check: (context) => {
+      const families = new Set<string>();
+
+      return context.products.flatMap((owner) => {
+        if (!owner.variants || owner.variants.length === 0) return [];
+
+        const members = [
+          owner,
+          ...owner.variants.map(
+            (variant: any) => context.productsById.get(variant.id) || variant
+          ),
+        ];
+        const key = members
+          .map((member) => member.id)
+          .sort()
+          .join(",");
+        if (families.has(key)) return [];
+        families.add(key);
+
+        // Variant settings were not loaded, nothing to judge by
+        if (!members.some((member) => member.variantSettings)) return [];
+        if (members.some((member) => member.variantSettings?.isMain)) {
+          return [];
+        }
+
+        const main =
+          [...members]
+            .filter(isActive)
+            .sort(
+              (a, b) =>
+                (a.variantSettings?.priority || 0) -
+                (b.variantSettings?.priority || 0)
+            )[0] || owner;
+        const description = `Make "${main.name}" the main variant`;
+
+        return [
+          {
+            message: `Product "${owner.name}" has no main variant`,
+            entityType: "product" as const,
+            entityIds: members.map((member) => member.id),
+            ...(main.id === owner.id
+              ? productFix(context, owner, description, {
+                  variantSettings: { isMain: true },
+                })
+              : productFix(context, owner, description, {
+                  variants: [
+                    { id: main.id, variantSettings: { isMain: true } },
+                  ],
+                })),
+          },
+        ];
+      });
+    },
+  },
+  {
+    id: "unit-inconsistent",
+    severity: "warning",
+    description:
+      "Unit and unit value should be set together and match across variants",
+    recommendation: "Set unit and unit value consistently",
+    check: (context) => {
+      const findings: MenuLintFinding[] = [];
+
+      context.products.forEach((product) => {
+        const hasValue = !!String(product.unitValue ?? "").trim();
+
+        if (product.unit && !hasValue) {
+          findings.push({
+            message: `Product "${product.name}" has a unit but no unit value`,
+            entityType: "product",
+            entityIds: [product.id],
+            ...productFix(
+              context,
+              product,
+              `Remove unit of "${product.name}"`,
+              { isUnitRemove: true }
+            ),
+          });
+        } else if (!product.unit && hasValue) {
+          findings.push({
+            message: `Product "${product.name}" has a unit value but no unit`,
+            entityType: "product",
+            entityIds: [product.id],
+          });
+        } else if (
+          MEASURED_UNITS.has(product.unit) &&
+          getProductWeight(product) === null
+        ) {
+          findings.push({
+            message:
+              `Product "${product.name}" has a non-numeric unit value ` +
+              `"${product.unitValue}"`,
+            entityType: "product",
+            entityIds: [product.id],
+          });
+        }
+
+        const variants = (product.variants || [])
+          .map((variant: any) => context.productsById.get(variant.id))
+          .filter(Boolean);
+        const mismatched = variants.filter(
+          (variant: any) => (variant.unit || null) !== (product.unit || null)
+        );
+        if (mismatched.length > 0) {
+          findings.push({
+            message: `Variants of "${product.name}" use different units`,
+            entityType: "product",
+            entityIds: [
+              product.id,
+              ...mismatched.map((variant: any) => variant.id),
+            ],
+          });
+        }
+      });
+
+      return findings;
+    },
+  },
+];
+
+export const MENU_LINT_RULE_SETS: Record<string, MenuLintRuleSet> = {
+  recommended: Object.fromEntries(
+    MENU_LINT_RULES.map((rule) => [rule.id, rule.severity])
+  ),
+  strict: Object.fromEntries(
+    MENU_LINT_RULES.map((rule) => [rule.id, "error"])
+  ),
+  /** What guests see on the menu of a point */
+  storefront: {
+    "product-missing-image": "warning",
+    "product-missing-description": "info",
+    "product-missing-price": "error",
+    "product-uncategorized": "warning",
+    "product-category-unbound": "error",
+    "category-empty": "warning",
+    "unit-inconsistent": "warning",
+  },
+  /** Category tree only, no products needed */
+  structure: {
+    "category-inactive-parent": "warning",
+    "category-orphaned": "warning",
+    "category-circular": "error",
+    "category-too-deep": "warning",
+    "duplicate-name": "warning",
+    "duplicate-slug": "error",
+  },
+};
+
+// ================== ENGINE ==================
+
+const resolveRuleSet = (ruleSet: MenuLintOptions["ruleSet"]) => {
+  if (typeof ruleSet === "object") return ruleSet;
+
+  const name = ruleSet || "recommended";
+  const resolved = MENU_LINT_RULE_SETS[name];
+  if (!resolved) throw new Error(`Unknown menu lint rule set: ${name}`);
+  return resolved;
+};
+
+/**
+ * Run the enabled rules over a menu. Issues come in rule order.
+ */
+export const lintMenu = (
+  source: MenuLintSource,
+  options: MenuLintOptions = {}
+): MenuLintReport => {
+  const ruleSet = { ...resolveRuleSet(options.ruleSet), ...options.rules };
+  const customRules = options.customRules || [];
+
+  const context: MenuLintContext = {
+    categories: source.categories,
+    products: source.products,
+    categoriesById: new Map(
+      source.categories.map((category) => [category.id, category])
+    ),
+    productsById: new Map(
+      source.products.map((product) => [product.id, product])
+    ),
+    priceResolver: options.priceResolver || new PriceResolver(),
+    getScopedBinds: (entity) =>
+      (entity.pointBinds || []).filter(
+        (bind: any) =>
+          (!options.pointId || bind.pointId === options.pointId) &&
+          (!options.orderType || bind.orderType === options.orderType)
+      ),
+  };
+  if (source.brandId) context.brandId = source.brandId;
+  if (options.pointId) context.pointId = options.pointId;
+  if (options.orderType) context.orderType = options.orderType;
+
+  const report: MenuLintReport = {
+    issues: [],
+    counts: { error: 0, warning: 0, info: 0 },
+    passed: true,
+    rules: {},
+    recommendations: [],
+  };
+
+  [...MENU_LINT_RULES, ...customRules].forEach((rule) => {
+    const isCustom = customRules.includes(rule);
+    const setting = ruleSet[rule.id] ?? (isCustom ? rule.severity : "off");
+    if (setting === "off") return;
+
+    report.rules[rule.id] = setting;
+    const findings = rule.check(context);
+    findings.forEach((finding) => {
+      report.issues.push({ ruleId: rule.id, severity: setting, ...finding });
+      report.counts[setting]++;
+    });
+    if (findings.length > 0 && rule.recommendation) {
+      report.recommendations.push(rule.recommendation);
+    }
+  });
+
+  report.passed = report.counts.error === 0;
+  return report;
+};
+
+// ================== FIXES ==================
+
+const mergeFixInputs = <T extends Record<string, any>>(
+  current: T,
+  next: T
+): T => {
+  const merged: Record<string, any> = { ...current };
+
+  Object.entries(next).forEach(([key, value]) => {
+    const existing = merged[key];
+    if (key === "pointBinds" && Array.isArray(existing)) {
+      const binds = new Map(
+        [...existing, ...value].map((bind: any) => [
+          availabilityKey(bind.pointId, bind.orderType),
+          bind,
+        ])
+      );
+      merged[key] = [...binds.values()];
+    } else if (key === "variants" && Array.isArray(existing)) {
+      merged[key] = [...existing, ...value];
+    } else {
+      merged[key] = value;
+    }
+  });
+
+  return merged as T;
+};
+
+/**
+ * Mutation inputs for the fixable issues, one per entity. Point binds
+ * added by several fixes are combined.
+ */
+export const getMenuLintFixes = (issues: MenuLintIssue[]): MenuLintFixes => {
+  const products = new Map<string, ProductUpdateInput>();
+  const categories = new Map<string, CategoryUpdateInput>();
+
+  issues.forEach(({ fix }) => {
+    if (fix?.entityType === "product") {
+      const current = products.get(fix.input.id);
+      products.set(
+        fix.input.id,
+        current ? mergeFixInputs(current, fix.input) : fix.input
+      );
+    } else if (fix?.entityType === "category") {
+      const current = categories.get(fix.input.id);
+      categories.set(
+        fix.input.id,
+        current ? mergeFixInputs(current, fix.input) : fix.input
+      );
+    }
+  });
+
+  return {
+    products: [...products.values()],
+    categories: [...categories.values()],
+  };
+};
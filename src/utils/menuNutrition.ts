@@ -0,0 +1,255 @@
+// ====================================================================
+// MENU NUTRITION - Nutrition constraints and dietary profiles
+// ====================================================================
+
+/**
+ * "portion" is the product as sold (unit × unitValue), "per100g" is
+ * normalized by its weight
+ */
+export type NutritionBasis = "portion" | "per100g";
+
+export type Nutrient = "calories" | "protein" | "fats" | "carbohydrates";
+
+export type ProductNutrition = Record<Nutrient, number | null>;
+
+export interface NutritionRange {
+  min?: number;
+  max?: number;
+}
+
+export interface NutritionFilter {
+  /** Basis the thresholds are given in, "portion" by default */
+  basis?: NutritionBasis;
+  /** Basis the product values are stored in, "portion" by default */
+  sourceBasis?: NutritionBasis;
+  calories?: NutritionRange;
+  protein?: NutritionRange;
+  fats?: NutritionRange;
+  carbohydrates?: NutritionRange;
+  /** Minimum protein in grams, NUTRITION_THRESHOLDS.highProtein if true */
+  highProtein?: boolean | number;
+  /** Maximum carbohydrates in grams, NUTRITION_THRESHOLDS.lowCarb if true */
+  lowCarb?: boolean | number;
+}
+
+/**
+ * Tag rules match tag ids or names, names case-insensitively
+ */
+export interface DietaryTagRules {
+  /** Every tag is present */
+  all?: string[];
+  /** At least one tag is present */
+  any?: string[];
+  /** None of the tags is present */
+  none?: string[];
+}
+
+export interface DietaryProfile {
+  id: string;
+  name: string;
+  description?: string;
+  nutrition?: NutritionFilter;
+  tags?: DietaryTagRules;
+}
+
+/**
+ * Defaults for the highProtein and lowCarb shorthands, grams in the
+ * filter basis
+ */
+export const NUTRITION_THRESHOLDS = {
+  highProtein: 20,
+  lowCarb: 10,
+};
+
+export const DIETARY_PROFILES: Record<string, DietaryProfile> = {
+  light: {
+    id: "light",
+    name: "Лёгкое",
+    description: "До 150 ккал и 5 г жиров на 100 г",
+    nutrition: {
+      basis: "per100g",
+      calories: { max: 150 },
+      fats: { max: 5 },
+    },
+  },
+  sport: {
+    id: "sport",
+    name: "Спорт",
+    description: "От 25 г белка на порцию",
+    nutrition: { basis: "portion", highProtein: 25 },
+  },
+  lowCarb: {
+    id: "lowCarb",
+    name: "Мало углеводов",
+    description: "До 10 г углеводов на 100 г",
+    nutrition: { basis: "per100g", lowCarb: true },
+  },
+  vegetarian: {
+    id: "vegetarian",
+    name: "Вегетарианское",
+    tags: {
+      any: [
+        "vegetarian",
+        "vegan",
+        "вегетарианское",
+        "веганское",
+        "постное",
+      ],
+    },
+  },
+};
+
+const NUTRIENTS: Nutrient[] = ["calories", "protein", "fats", "carbohydrates"];
+
+/** Grams per unit, liquids count as 1 g per ml */
+const UNIT_GRAMS: Record<string, number> = {
+  GRAM: 1,
+  MILLILITERS: 1,
+  KILOGRAM: 1000,
+  LITERS: 1000,
+};
+
+// ================== NORMALIZATION ==================
+
+/**
+ * Portion weight in grams from unit and unitValue, null for pieces,
+ * portions and bottles. Composite values like "150/50" are summed.
+ */
+export const getProductWeight = (product: any): number | null => {
+  const grams = UNIT_GRAMS[product.unit];
+  if (!grams || product.unitValue == null) return null;
+
+  const parts = String(product.unitValue)
+    .replace(/,/g, ".")
+    .split(/[/+]/)
+    .map((part) => parseFloat(part));
+  if (parts.some((part) => !Number.isFinite(part))) return null;
+
+  const total = parts.reduce((sum, part) => sum + part, 0);
+  return total > 0 ? total * grams : null;
+};
+
+/**
+ * Nutrition values in the requested basis, null where the value is
+ * missing or the weight needed for conversion is unknown
+ */
+export const getProductNutrition = (
+  product: any,
+  basis: NutritionBasis = "portion",
+  sourceBasis: NutritionBasis = "portion"
+): ProductNutrition => {
+  let factor: number | null = 1;
+  if (basis !== sourceBasis) {
+    const weight = getProductWeight(product);
+    if (weight === null) factor = null;
+    else factor = basis === "per100g" ? 100 / weight : weight / 100;
+  }
+
+  const nutrition = {} as ProductNutrition;
+  NUTRIENTS.forEach((nutrient) => {
+    const value = product[nutrient];
+    nutrition[nutrient] =
+      typeof value === "number" && factor !== null
+        ? Math.round(value * factor * 10) / 10
+        : null;
+  });
+  return nutrition;
+};
+
+// ================== PREDICATES ==================
+
+const inRange = (value: number | null, range: NutritionRange) =>
+  value !== null &&
+  (range.min === undefined || value >= range.min) &&
+  (range.max === undefined || value <= range.max);
+
+const threshold = (value: boolean | number | undefined, fallback: number) =>
+  value === true ? fallback : typeof value === "number" ? value : undefined;
+
+/**
+ * Product satisfies every constraint; a constrained nutrient that is
+ * missing or cannot be normalized fails it
+ */
+export const matchesNutritionFilter = (
+  product: any,
+  filter: NutritionFilter | undefined
+): boolean => {
+  if (!filter) return true;
+
+  const nutrition = getProductNutrition(
+    product,
+    filter.basis,
+    filter.sourceBasis
+  );
+  const minProtein = threshold(
+    filter.highProtein,
+    NUTRITION_THRESHOLDS.highProtein
+  );
+  const maxCarbohydrates = threshold(
+    filter.lowCarb,
+    NUTRITION_THRESHOLDS.lowCarb
+  );
+
+  return (
+    NUTRIENTS.every(
+      (nutrient) =>
+        !filter[nutrient] || inRange(nutrition[nutrient], filter[nutrient]!)
+    ) &&
+    (minProtein === undefined ||
+      inRange(nutrition.protein, { min: minProtein })) &&
+    (maxCarbohydrates === undefined ||
+      inRange(nutrition.carbohydrates, { max: maxCarbohydrates }))
+  );
+};
+
+/**
+ * Product tags match the rules by id or name
+ */
+export const matchesDietaryTagRules = (
+  product: any,
+  rules: DietaryTagRules | undefined
+): boolean => {
+  if (!rules) return true;
+
+  const keys = new Set<string>();
+  (product.tags || []).forEach((tag: any) => {
+    keys.add(tag.id);
+    if (tag.name) keys.add(tag.name.trim().toLowerCase());
+  });
+  const has = (rule: string) =>
+    keys.has(rule) || keys.has(rule.trim().toLowerCase());
+
+  return (
+    (!rules.all || rules.all.every(has)) &&
+    (!rules.any || rules.any.length === 0 || rules.any.some(has)) &&
+    (!rules.none || !rules.none.some(has))
+  );
+};
+
+/**
+ * Profile by id from the given profiles, built-in ones by default
+ */
+export const resolveDietaryProfile = (
+  profile: string | DietaryProfile,
+  profiles: Record<string, DietaryProfile> = DIETARY_PROFILES
+): DietaryProfile | null =>
+  typeof profile === "string" ? profiles[profile] || null : profile;
+
+/**
+ * Product fits the profile nutrition thresholds and tag rules. Unknown
+ * profile ids match nothing.
+ */
+export const matchesDietaryProfile = (
+  product: any,
+  profile: string | DietaryProfile | undefined,
+  profiles?: Record<string, DietaryProfile>
+): boolean => {
+  if (!profile) return true;
+
+  const resolved = resolveDietaryProfile(profile, profiles);
+  return (
+    !!resolved &&
+    matchesNutritionFilter(product, resolved.nutrition) &&
+    matchesDietaryTagRules(product, resolved.tags)
+  );
+};
@@ -0,0 +1,573 @@
+import type { OrderType } from "../graphql-types";
+import { flattenCategoryTree } from "./common";
+import { escapeHtml, formatPrice } from "./formatting";
+import { PRODUCT_UNIT_LABELS } from "./menuFacets";
+import { ORDER_DOCUMENT_LABELS } from "./orderDocuments";
+
+// ====================================================================
+// MENU PRINT - Paginated print-ready menus and counter price lists
+// ====================================================================
+
+/**
+ * "menu" prints descriptions and nutrition, "priceList" only name, unit
+ * and price per category
+ */
+export type MenuPrintLayout = "menu" | "priceList";
+
+export type MenuPrintLocale = "ru" | "en";
+
+export type MenuPrintPageSize = "A3" | "A4" | "A5";
+
+export interface MenuPrintTheme {
+  id: string;
+  fontFamily: string;
+  headingFontFamily: string;
+  textColor: string;
+  mutedColor: string;
+  accentColor: string;
+  background: string;
+  /** Extra CSS appended after the base styles */
+  css?: string;
+}
+
+/**
+ * Menu content to print, MenuData fits as is
+ */
+export interface PrintableMenu {
+  categories: any[];
+  products: any[];
+}
+
+export interface MenuPrintOptions {
+  layout?: MenuPrintLayout;
+  locale?: MenuPrintLocale;
+  /** Heading of the first page, e.g. brand name */
+  title?: string;
+  /** Line under the title, e.g. point address */
+  subtitle?: string;
+  orderType?: OrderType | string;
+  /** Theme id from MENU_PRINT_THEMES or a custom theme */
+  theme?: string | MenuPrintTheme;
+  /** Text columns per page, 2 for menus and 1 for price lists by default */
+  columns?: number;
+  pageSize?: MenuPrintPageSize;
+  /** Page capacity per column in text lines, derived from pageSize */
+  linesPerColumn?: number;
+  /** Menu layout only, true by default */
+  showDescriptions?: boolean;
+  /** Menu layout only, true by default */
+  showNutrition?: boolean;
+  currency?: string;
+}
+
+export interface MenuPrintItem {
+  id: string;
+  name: string;
+  description?: string;
+  /** "250 г" */
+  unit?: string;
+  /** "250 ккал · Б 12 г · Ж 8 г · У 30 г" */
+  nutrition?: string;
+  price?: string;
+}
+
+export interface MenuPrintSection {
+  /** null for products without a category */
+  categoryId: string | null;
+  title: string;
+  depth: number;
+  /** Section started on a previous page */
+  continued: boolean;
+  items: MenuPrintItem[];
+}
+
+export interface MenuPrintPage {
+  number: number;
+  sections: MenuPrintSection[];
+}
+
+/**
+ * Format-independent content of a printed menu
+ */
+export interface MenuPrintDocument {
+  layout: MenuPrintLayout;
+  locale: MenuPrintLocale;
+  title?: string;
+  subtitle?: string;
+  orderType?: string;
+  columns: number;
+  pageSize: MenuPrintPageSize;
+  theme: MenuPrintTheme;
+  pages: MenuPrintPage[];
+}
+
+export const MENU_PRINT_THEMES: Record<string, MenuPrintTheme> = {
+  classic: {
+    id: "classic",
+    fontFamily: 'Georgia, "Times New Roman", serif',
+    headingFontFamily: 'Georgia, "Times New Roman", serif',
+    textColor: "#2b2118",
+    mutedColor: "#6f6254",
+    accentColor: "#8b1e1e",
+    background: "#fffdf8",
+  },
+  modern: {
+    id: "modern",
+    fontFamily: '"Helvetica Neue", Arial, sans-serif',
+    headingFontFamily: '"Helvetica Neue", Arial, sans-serif',
+    textColor: "#1b1f24",
+    mutedColor: "#5b636e",
+    accentColor: "#1f6feb",
+    background: "#ffffff",
+  },
+  minimal: {
+    id: "minimal",
+    fontFamily: "Arial, sans-serif",
+    headingFontFamily: "Arial, sans-serif",
+    textColor: "#000000",
+    mutedColor: "#555555",
+    accentColor: "#000000",
+    background: "#ffffff",
+  },
+};
+
+export const MENU_PRINT_LINES_PER_COLUMN: Record<MenuPrintPageSize, number> =
+  {
+    A3: 72,
+    A4: 48,
+    A5: 32,
+  };
+
+export const MENU_PRINT_LABELS: Record<
+  MenuPrintLocale,
+  {
+    other: string;
+    continued: string;
+    page: string;
+    calories: string;
+    protein: string;
+    fats: string;
+    carbohydrates: string;
+    grams: string;
+  }
+> = {
+  ru: {
+    other: "Другое",
+    continued: "продолжение",
+    page: "Стр.",
+    calories: "ккал",
+    protein: "Б",
+    fats: "Ж",
+    carbohydrates: "У",
+    grams: "г",
+  },
+  en: {
+    other: "Other",
+    continued: "continued",
+    page: "Page",
+    calories: "kcal",
+    protein: "P",
+    fats: "F",
+    carbohydrates: "C",
+    grams: "g",
+  },
+};
+
+/** Description characters per printed line, for the page budget */
+const DESCRIPTION_LINE_LENGTH = 48;
+
+// ================== DOCUMENT MODEL ==================
+
+const formatUnit = (product: any): string | undefined => {
+  if (product.unitValue == null || product.unitValue === "") return undefined;
+  const label = product.unit
+    ? PRODUCT_UNIT_LABELS[product.unit] || product.unit
+    : "";
+  return `${product.unitValue}${label ? ` ${label}` : ""}`;
+};
+
+const formatNutritionLine = (
+  product: any,
+  labels: (typeof MENU_PRINT_LABELS)[MenuPrintLocale]
+): string | undefined => {
+  const parts: string[] = [];
+  if (typeof product.calories === "number") {
+    parts.push(`${product.calories} ${labels.calories}`);
+  }
+  (["protein", "fats", "carbohydrates"] as const).forEach((nutrient) => {
+    if (typeof product[nutrient] === "number") {
+      parts.push(`${labels[nutrient]} ${product[nutrient]} ${labels.grams}`);
+    }
+  });
+  return parts.length > 0 ? parts.join(" · ") : undefined;
+};
+
+const getBindPriority = (product: any, categoryId: string) =>
+  product.categoryBinds?.find((bind: any) => bind.categoryId === categoryId)
+    ?.priority ?? 0;
+
+/**
+ * Lines an item takes on the page, used to split pages
+ */
+const getItemLines = (item: MenuPrintItem) =>
+  1 +
+  (item.description
+    ? Math.ceil(item.description.length / DESCRIPTION_LINE_LENGTH)
+    : 0) +
+  (item.nutrition ? 1 : 0);
+
+const SECTION_HEADER_LINES = 2;
+
+/**
+ * Lines of the page 1 header: the title takes two, subtitle and order type
+ * one each, plus one for the margin below
+ */
+const getHeaderLines = (document: MenuPrintDocument) => {
+  const lines =
+    (document.title ? 2 : 0) +
+    (document.subtitle ? 1 : 0) +
+    (document.orderType ? 1 : 0);
+  return lines > 0 ? lines + 1 : 0;
+};
+
+/**
+ * Build the paginated document. Categories follow the hierarchy, products
+ * their category priority; categories without products in their subtree
+ * are skipped and uncategorized products come last.
+ */
+export const buildMenuPrintDocument = (
+  menu: PrintableMenu,
+  options: MenuPrintOptions = {}
+): MenuPrintDocument => {
+  const layout = options.layout || "menu";
+  const locale = options.locale || "ru";
+  const labels = MENU_PRINT_LABELS[locale];
+  const pageSize = options.pageSize || "A4";
+  const columns = Math.max(
+    1,
+    Math.floor(options.columns ?? (layout === "menu" ? 2 : 1))
+  );
+  const theme =
+    typeof options.theme === "object"
+      ? options.theme
+      : MENU_PRINT_THEMES[options.theme || "classic"] ||
+        MENU_PRINT_THEMES.classic!;
+  const showDescriptions =
+    layout === "menu" && options.showDescriptions !== false;
+  const showNutrition = layout === "menu" && options.showNutrition !== false;
+
+  const toItem = (product: any): MenuPrintItem => {
+    const item: MenuPrintItem = { id: product.id, name: product.name };
+    const unit = formatUnit(product);
+    if (unit) item.unit = unit;
+    if (typeof product.pricePoint === "number") {
+      item.price = formatPrice(product.pricePoint, options.currency);
+    }
+    if (showDescriptions && product.description) {
+      item.description = product.description;
+    }
+    if (showNutrition) {
+      const nutrition = formatNutritionLine(product, labels);
+      if (nutrition) item.nutrition = nutrition;
+    }
+    return item;
+  };
+
+  // Sections in hierarchy order, parents kept when a child has products
+  const nodes = flattenCategoryTree(menu.categories);
+  const productsByCategory = new Map<string, any[]>();
+  nodes.forEach(({ category }) => {
+    productsByCategory.set(
+      category.id,
+      menu.products
+        .filter((product) =>
+          product.categoryBinds?.some(
+            (bind: any) => bind.categoryId === category.id
+          )
+        )
+        .sort(
+          (a, b) =>
+            getBindPriority(a, category.id) - getBindPriority(b, category.id)
+        )
+    );
+  });
+  const filledIds = new Set<string>();
+  nodes.forEach(({ category, path }) => {
+    if ((productsByCategory.get(category.id) || []).length === 0) return;
+    [...path, category.id].forEach((id) => filledIds.add(id));
+  });
+
+  const sections: MenuPrintSection[] = nodes
+    .filter(({ category }) => filledIds.has(category.id))
+    .map(({ category, depth }) => ({
+      categoryId: category.id,
+      title: category.name,
+      depth,
+      continued: false,
+      items: (productsByCategory.get(category.id) || []).map(toItem),
+    }));
+
+  const uncategorized = menu.products.filter(
+    (product) => !product.categoryBinds || product.categoryBinds.length === 0
+  );
+  if (uncategorized.length > 0) {
+    sections.push({
+      categoryId: null,
+      title: labels.other,
+      depth: 0,
+      continued: false,
+      items: uncategorized.map(toItem),
+    });
+  }
+
+  const document: MenuPrintDocument = {
+    layout,
+    locale,
+    columns,
+    pageSize,
+    theme,
+    pages: [],
+  };
+  if (options.title) document.title = options.title;
+  if (options.subtitle) document.subtitle = options.subtitle;
+  if (options.orderType) {
+    document.orderType =
+      ORDER_DOCUMENT_LABELS[locale].orderTypes[
+        options.orderType as OrderType
+      ] ?? options.orderType;
+  }
+
+  // Split into pages by line budget
+  const capacity =
+    (options.linesPerColumn || MENU_PRINT_LINES_PER_COLUMN[pageSize]) *
+    columns;
+  const pages = document.pages;
+  let page: MenuPrintPage = { number: 1, sections: [] };
+  // The page 1 header spans every column
+  let used = getHeaderLines(document) * columns;
+  const nextPage = () => {
+    pages.push(page);
+    page = { number: page.number + 1, sections: [] };
+    used = 0;
+  };
+
+  sections.forEach((section) => {
+    const firstItemLines = section.items[0]
+      ? getItemLines(section.items[0])
+      : 0;
+    // Keep a header together with its first item
+    if (
+      page.sections.length > 0 &&
+      used + SECTION_HEADER_LINES + firstItemLines > capacity
+    ) {
+      nextPage();
+    }
+
+    let current: MenuPrintSection = { ...section, items: [] };
+    page.sections.push(current);
+    used += SECTION_HEADER_LINES;
+
+    section.items.forEach((item) => {
+      const lines = getItemLines(item);
+      if (current.items.length > 0 && used + lines > capacity) {
+        nextPage();
+        current = { ...section, continued: true, items: [] };
+        page.sections.push(current);
+        used = SECTION_HEADER_LINES;
+      }
+      current.items.push(item);
+      used += lines;
+    });
+  });
+  if (page.sections.length > 0 || pages.length === 0) pages.push(page);
+
+  return document;
+};
+
+// ================== HTML ==================
+
+const renderMenuPrintStyles = (document: MenuPrintDocument) => {
+  const { theme } = document;
+  return [
+    `@page { size: ${document.pageSize}; margin: 12mm; }`,
+    "* { box-sizing: border-box; }",
+    `body { margin: 0; font-family: ${theme.fontFamily}; ` +
+      `color: ${theme.textColor}; background: ${theme.background}; ` +
+      "font-size: 11pt; line-height: 1.35; }",
+    ".menu-print__page { break-after: page; page-break-after: always; }",
+    ".menu-print__page:last-child { break-after: auto; " +
+      "page-break-after: auto; }",
+    ".menu-print__header { text-align: center; margin-bottom: 8mm; }",
+    `.menu-print__title { font-family: ${theme.headingFontFamily}; ` +
+      `color: ${theme.accentColor}; margin: 0; font-size: 24pt; }`,
+    `.menu-print__subtitle, .menu-print__type { color: ${theme.mutedColor}; }`,
+    `.menu-print__columns { column-count: ${document.columns}; ` +
+      "column-gap: 8mm; }",
+    ".menu-print__section h2, .menu-print__section h3 { " +
+      `font-family: ${theme.headingFontFamily}; ` +
+      `color: ${theme.accentColor}; margin: 0 0 2mm; break-after: avoid; }`,
+    ".menu-print__section h2 { font-size: 15pt; }",
+    ".menu-print__section h3 { font-size: 12.5pt; }",
+    `.menu-print__continued { color: ${theme.mutedColor}; ` +
+      "font-size: 9pt; font-weight: normal; }",
+    ".menu-print__items { list-style: none; margin: 0 0 5mm; padding: 0; }",
+    ".menu-print__item { break-inside: avoid; margin-bottom: 2mm; }",
+    ".menu-print__line { display: flex; gap: 2mm; align-items: baseline; }",
+    ".menu-print__name { flex: 1; font-weight: bold; }",
+    `.menu-print__unit { color: ${theme.mutedColor}; white-space: nowrap; }`,
+    ".menu-print__price { white-space: nowrap; font-weight: bold; }",
+    ".menu-print__description, .menu-print__nutrition { margin: 0; " +
+      `color: ${theme.mutedColor}; font-size: 9.5pt; }`,
+    ".menu-print__price-list { width: 100%; border-collapse: collapse; " +
+      "margin-bottom: 5mm; }",
+    ".menu-print__price-list td { padding: 1mm 0; " +
+      `border-bottom: 0.2mm dotted ${theme.mutedColor}; }`,
+    ".menu-print__price-list td + td { text-align: right; " +
+      "white-space: nowrap; padding-left: 3mm; }",
+    `.menu-print__footer { text-align: center; color: ${theme.mutedColor}; ` +
+      "font-size: 9pt; margin-top: 4mm; }",
+    theme.css || "",
+  ]
+    .filter(Boolean)
+    .join("\n");
+};
+
+const renderSectionHtml = (
+  section: MenuPrintSection,
+  layout: MenuPrintLayout,
+  labels: (typeof MENU_PRINT_LABELS)[MenuPrintLocale]
+): string => {
+  const heading = section.depth === 0 ? "h2" : "h3";
+  const html: string[] = [
+    '<section class="menu-print__section ' +
+      `menu-print__section--depth-${section.depth}">`,
+    `<${heading}>${escapeHtml(section.title)}` +
+      (section.continued
+        ? ` <span class="menu-print__continued">(${labels.continued})</span>`
+        : "") +
+      `</${heading}>`,
+  ];
+  if (section.items.length === 0) {
+    html.push("</section>");
+    return html.join("\n");
+  }
+
+  if (layout === "priceList") {
+    html.push('<table class="menu-print__price-list">');
+    section.items.forEach((item) => {
+      html.push(
+        `<tr><td>${escapeHtml(item.name)}</td>` +
+          `<td>${escapeHtml(item.unit ?? "")}</td>` +
+          `<td>${escapeHtml(item.price ?? "")}</td></tr>`
+      );
+    });
+    html.push("</table>", "</section>");
+    return html.join("\n");
+  }
+
+  html.push('<ul class="menu-print__items">');
+  section.items.forEach((item) => {
+    html.push(
+      '<li class="menu-print__item">',
+      '<div class="menu-print__line">' +
+        `<span class="menu-print__name">${escapeHtml(item.name)}</span>` +
+        (item.unit
+          ? `<span class="menu-print__unit">${escapeHtml(item.unit)}</span>`
+          : "") +
+        (item.price
+          ? `<span class="menu-print__price">${escapeHtml(item.price)}</span>`
+          : "") +
+        "</div>"
+    );
+    if (item.description) {
+      html.push(
+        '<p class="menu-print__description">' +
+          `${escapeHtml(item.description)}</p>`
+      );
+    }
+    if (item.nutrition) {
+      html.push(
+        `<p class="menu-print__nutrition">${escapeHtml(item.nutrition)}</p>`
+      );
+    }
+    html.push("</li>");
+  });
+  html.push("</ul>", "</section>");
+  return html.join("\n");
+};
+
+/**
+ * Render a built document as a standalone HTML page with one
+ * `menu-print__page` per printed page
+ */
+export const renderMenuPrintDocumentHtml = (
+  document: MenuPrintDocument
+): string => {
+  const locale = document.locale;
+  const labels = MENU_PRINT_LABELS[locale];
+  const total = document.pages.length;
+
+  const html: string[] = [
+    "<!DOCTYPE html>",
+    `<html lang="${locale}">`,
+    "<head>",
+    '<meta charset="utf-8">',
+    `<title>${escapeHtml(document.title ?? "")}</title>`,
+    `<style>\n${renderMenuPrintStyles(document)}\n</style>`,
+    "</head>",
+    `<body class="menu-print menu-print--${document.layout} ` +
+      `menu-print--${escapeHtml(document.theme.id)}">`,
+  ];
+
+  document.pages.forEach((page) => {
+    html.push(`<section class="menu-print__page" data-page="${page.number}">`);
+
+    if (
+      page.number === 1 &&
+      (document.title || document.subtitle || document.orderType)
+    ) {
+      html.push('<header class="menu-print__header">');
+      if (document.title) {
+        html.push(
+          `<h1 class="menu-print__title">${escapeHtml(document.title)}</h1>`
+        );
+      }
+      if (document.subtitle) {
+        html.push(
+          '<div class="menu-print__subtitle">' +
+            `${escapeHtml(document.subtitle)}</div>`
+        );
+      }
+      if (document.orderType) {
+        html.push(
+          '<div class="menu-print__type">' +
+            `${escapeHtml(document.orderType)}</div>`
+        );
+      }
+      html.push("</header>");
+    }
+
+    html.push('<div class="menu-print__columns">');
+    page.sections.forEach((section) =>
+      html.push(renderSectionHtml(section, document.layout, labels))
+    );
+    html.push(
+      "</div>",
+      `<footer class="menu-print__footer">${labels.page} ` +
+        `${page.number} / ${total}</footer>`,
+      "</section>"
+    );
+  });
+
+  html.push("</body>", "</html>");
+  return html.join("\n");
+};
+
+/**
+ * Render a standalone HTML page with one `menu-print__page` per printed
+ * page, ready for window.print() or an HTML-to-PDF converter
+ */
+export const renderMenuPrintHtml = (
+  menu: PrintableMenu,
+  options: MenuPrintOptions = {}
+): string => renderMenuPrintDocumentHtml(buildMenuPrintDocument(menu, options));
@@ -0,0 +1,368 @@
+import { OrderType } from "../graphql-types";
+import { escapeHtml } from "./formatting";
+import type { MenuPrintPageSize } from "./menuPrint";
+import {
+  encodeQrCode,
+  renderQrPng,
+  renderQrSvg,
+  toPngDataUrl,
+  type QrErrorCorrection,
+  type QrPngOptions,
+  type QrSvgOptions,
+} from "./qrCode";
+
+// ====================================================================
+// MENU QR - Deep links and printable QR codes for electronic menus
+// ====================================================================
+
+/**
+ * Menu opened from a QR code: brand, point, order type and, for
+ * ON_TABLE, the table
+ */
+export interface MenuDeepLink {
+  brandSlug: string;
+  pointId: string;
+  orderType: OrderType;
+  /** Required for ON_TABLE, a string when parsed */
+  table?: string | number;
+  /** Extra query parameters, e.g. utm tags */
+  params?: Record<string, string>;
+}
+
+export interface MenuQrCodeOptions {
+  /** "M" by default, "Q" or "H" for codes printed with a logo over them */
+  errorCorrection?: QrErrorCorrection;
+  svg?: QrSvgOptions;
+  png?: QrPngOptions;
+}
+
+export interface MenuQrCode {
+  url: string;
+  svg: string;
+  /** data:image/png;base64 URL */
+  png: string;
+}
+
+export type MenuQrLocale = "ru" | "en";
+
+export interface TableQrSheetOptions {
+  /** Web menu origin and path, e.g. "https://menu.example.com" */
+  baseUrl: string;
+  brandSlug: string;
+  pointId: string;
+  /** Table numbers or an inclusive range */
+  tables: Array<number | string> | { from: number; to: number };
+  /** Heading of every page, e.g. brand name */
+  title?: string;
+  pointName?: string;
+  /** Printed under each code */
+  pointAddress?: string;
+  locale?: MenuQrLocale;
+  /** "Стол 12" by default */
+  tableLabel?: (table: string) => string;
+  /** Codes per row, 3 by default */
+  columns?: number;
+  /** Rows per page, 4 by default */
+  rows?: number;
+  pageSize?: MenuPrintPageSize;
+  errorCorrection?: QrErrorCorrection;
+  params?: Record<string, string>;
+}
+
+export interface TableQrSheetItem {
+  table: string;
+  label: string;
+  url: string;
+  svg: string;
+}
+
+export interface TableQrSheet {
+  locale: MenuQrLocale;
+  title?: string;
+  pointName?: string;
+  pointAddress?: string;
+  pageSize: MenuPrintPageSize;
+  columns: number;
+  /** Items split into pages of columns × rows */
+  pages: TableQrSheetItem[][];
+}
+
+export const MENU_QR_LABELS: Record<
+  MenuQrLocale,
+  { table: string; scan: string }
+> = {
+  ru: { table: "Стол", scan: "Наведите камеру, чтобы открыть меню" },
+  en: { table: "Table", scan: "Scan to open the menu" },
+};
+
+/** Query parameters of menu links */
+const POINT_PARAM = "point";
+const ORDER_TYPE_PARAM = "type";
+const TABLE_PARAM = "table";
+
+const ORDER_TYPES = Object.values(OrderType) as string[];
+const SLUG_PATTERN = /^[a-z0-9]+(?:[-_][a-z0-9]+)*$/i;
+const TABLE_PATTERN = /^[\p{L}\p{N}][\p{L}\p{N} _-]{0,31}$/u;
+
+// ================== DEEP LINKS ==================
+
+const validateMenuDeepLink = (link: MenuDeepLink) => {
+  if (!SLUG_PATTERN.test(link.brandSlug)) {
+    throw new Error(`Invalid brand slug: ${link.brandSlug}`);
+  }
+  if (!link.pointId) {
+    throw new Error("pointId is required for a menu link");
+  }
+  if (!ORDER_TYPES.includes(link.orderType)) {
+    throw new Error(`Unknown order type: ${link.orderType}`);
+  }
+  if (link.orderType === OrderType.OnTable) {
+    if (link.table === undefined || link.table === "") {
+      throw new Error("Table number is required for ON_TABLE menu links");
+    }
+    if (!TABLE_PATTERN.test(String(link.table))) {
+      throw new Error(`Invalid table number: ${link.table}`);
+    }
+  } else if (link.table !== undefined) {
+    throw new Error("Table number is only used with ON_TABLE links");
+  }
+};
+
+/**
+ * Menu URL for a brand, point and order type:
+ * `${baseUrl}/${brandSlug}?point=…&type=ON_TABLE&table=12`
+ */
+export const buildMenuDeepLink = (
+  baseUrl: string,
+  link: MenuDeepLink
+): string => {
+  validateMenuDeepLink(link);
+
+  const params = new URLSearchParams({
+    [POINT_PARAM]: link.pointId,
+    [ORDER_TYPE_PARAM]: link.orderType,
+  });
+  if (link.table !== undefined) params.set(TABLE_PARAM, String(link.table));
+  Object.entries(link.params || {}).forEach(([key, value]) => {
+    if (!params.has(key)) params.set(key, value);
+  });
+
+  const base = baseUrl.replace(/\/+$/, "");
+  return `${base}/${encodeURIComponent(link.brandSlug)}?${params}`;
+};
+
+/**
+ * Read a menu link back, null for URLs that are not menu links. With
+ * baseUrl, links to other hosts or paths are rejected.
+ */
+export const parseMenuDeepLink = (
+  url: string,
+  baseUrl?: string
+): MenuDeepLink | null => {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return null;
+  }
+
+  let path = parsed.pathname;
+  if (baseUrl) {
+    const base = new URL(baseUrl);
+    const prefix = base.pathname.replace(/\/+$/, "");
+    if (parsed.origin !== base.origin || !path.startsWith(`${prefix}/`)) {
+      return null;
+    }
+    path = path.slice(prefix.length);
+  }
+
+  const segments = path.split("/").filter(Boolean);
+  const brandSlug = decodeURIComponent(segments.pop() || "");
+  const params = Object.fromEntries(parsed.searchParams);
+  const {
+    [POINT_PARAM]: pointId,
+    [ORDER_TYPE_PARAM]: orderType,
+    [TABLE_PARAM]: table,
+    ...rest
+  } = params;
+
+  const link: MenuDeepLink = {
+    brandSlug,
+    pointId: pointId || "",
+    orderType: orderType as OrderType,
+  };
+  if (table) link.table = table;
+  if (Object.keys(rest).length > 0) link.params = rest;
+
+  try {
+    validateMenuDeepLink(link);
+  } catch {
+    return null;
+  }
+  return link;
+};
+
+// ================== CODES ==================
+
+/**
+ * Menu link with its QR code as SVG markup and a PNG data URL
+ */
+export const createMenuQrCode = (
+  baseUrl: string,
+  link: MenuDeepLink,
+  options: MenuQrCodeOptions = {}
+): MenuQrCode => {
+  const url = buildMenuDeepLink(baseUrl, link);
+  const qr = encodeQrCode(url, {
+    errorCorrection: options.errorCorrection || "M",
+  });
+
+  return {
+    url,
+    svg: renderQrSvg(qr, { title: url, ...options.svg }),
+    png: toPngDataUrl(renderQrPng(qr, options.png)),
+  };
+};
+
+const getTableList = (tables: TableQrSheetOptions["tables"]): string[] => {
+  if (Array.isArray(tables)) return tables.map((table) => String(table));
+
+  if (!Number.isInteger(tables.from) || tables.to < tables.from) {
+    throw new Error(`Invalid table range ${tables.from}-${tables.to}`);
+  }
+  return Array.from({ length: tables.to - tables.from + 1 }, (_item, i) =>
+    String(tables.from + i)
+  );
+};
+
+/**
+ * ON_TABLE codes of a point split into printable pages
+ */
+export const buildTableQrSheet = (
+  options: TableQrSheetOptions
+): TableQrSheet => {
+  const locale = options.locale || "ru";
+  const labels = MENU_QR_LABELS[locale];
+  const tableLabel =
+    options.tableLabel || ((table: string) => `${labels.table} ${table}`);
+  const columns = options.columns ?? 3;
+  const perPage = columns * (options.rows ?? 4);
+
+  const items = getTableList(options.tables).map((table) => {
+    const url = buildMenuDeepLink(options.baseUrl, {
+      brandSlug: options.brandSlug,
+      pointId: options.pointId,
+      orderType: OrderType.OnTable,
+      table,
+      ...(options.params && { params: options.params }),
+    });
+    const qr = encodeQrCode(url, {
+      errorCorrection: options.errorCorrection || "M",
+    });
+
+    return {
+      table,
+      label: tableLabel(table),
+      url,
+      // Sized by the sheet CSS
+      svg: renderQrSvg(qr, { size: "auto", title: url }),
+    };
+  });
+
+  const pages: TableQrSheetItem[][] = [];
+  for (let i = 0; i < items.length; i += perPage) {
+    pages.push(items.slice(i, i + perPage));
+  }
+
+  const sheet: TableQrSheet = {
+    locale,
+    pageSize: options.pageSize || "A4",
+    columns,
+    pages,
+  };
+  if (options.title) sheet.title = options.title;
+  if (options.pointName) sheet.pointName = options.pointName;
+  if (options.pointAddress) sheet.pointAddress = options.pointAddress;
+  return sheet;
+};
+
+/**
+ * Render a built sheet as standalone HTML with one `table-qr__page` per
+ * printed page, a cut-out card per table with the code, table label and
+ * point address
+ */
+export const renderTableQrSheetDocumentHtml = (sheet: TableQrSheet): string => {
+  const locale = sheet.locale;
+  const labels = MENU_QR_LABELS[locale];
+
+  const styles = [
+    `@page { size: ${sheet.pageSize}; margin: 10mm; }`,
+    "* { box-sizing: border-box; }",
+    "body { margin: 0; font-family: Helvetica, Arial, sans-serif; " +
+      "color: #1a1a1a; }",
+    ".table-qr__page { break-after: page; page-break-after: always; }",
+    ".table-qr__page:last-child { break-after: auto; " +
+      "page-break-after: auto; }",
+    ".table-qr__title { text-align: center; margin: 0 0 6mm; " +
+      "font-size: 16pt; }",
+    `.table-qr__grid { display: grid; gap: 6mm; ` +
+      `grid-template-columns: repeat(${sheet.columns}, 1fr); }`,
+    ".table-qr__card { border: 0.3mm dashed #999; padding: 4mm; " +
+      "text-align: center; break-inside: avoid; }",
+    ".table-qr__card svg { width: 100%; height: auto; display: block; }",
+    ".table-qr__label { font-size: 18pt; font-weight: bold; " +
+      "margin-top: 2mm; }",
+    ".table-qr__address, .table-qr__scan { color: #666; font-size: 8.5pt; }",
+  ].join("\n");
+
+  const heading = [sheet.title, sheet.pointName].filter(Boolean).join(" · ");
+  const html: string[] = [
+    "<!DOCTYPE html>",
+    `<html lang="${locale}">`,
+    "<head>",
+    '<meta charset="utf-8">',
+    `<title>${escapeHtml(heading)}</title>`,
+    `<style>\n${styles}\n</style>`,
+    "</head>",
+    '<body class="table-qr">',
+  ];
+
+  sheet.pages.forEach((page, index) => {
+    html.push(`<section class="table-qr__page" data-page="${index + 1}">`);
+    if (heading) {
+      html.push(`<h1 class="table-qr__title">${escapeHtml(heading)}</h1>`);
+    }
+    html.push('<div class="table-qr__grid">');
+    page.forEach((item) => {
+      html.push(
+        '<figure class="table-qr__card" ' +
+          `data-table="${escapeHtml(item.table)}">`,
+        item.svg,
+        "<figcaption>",
+        `<div class="table-qr__label">${escapeHtml(item.label)}</div>`
+      );
+      if (sheet.pointAddress) {
+        html.push(
+          '<div class="table-qr__address">' +
+            `${escapeHtml(sheet.pointAddress)}</div>`
+        );
+      }
+      html.push(
+        `<div class="table-qr__scan">${escapeHtml(labels.scan)}</div>`,
+        "</figcaption>",
+        "</figure>"
+      );
+    });
+    html.push("</div>", "</section>");
+  });
+
+  html.push("</body>", "</html>");
+  return html.join("\n");
+};
+
+/**
+ * Standalone HTML of the ON_TABLE codes of a point, ready for
+ * window.print()
+ */
+export const renderTableQrSheetHtml = (options: TableQrSheetOptions): string =>
+  renderTableQrSheetDocumentHtml(buildTableQrSheet(options));
@@ -0,0 +1,427 @@
+// ====================================================================
+// MENU SCHEDULE - Weekly time windows for tags and categories
+// ====================================================================
+
+/**
+ * Day of week, 0 is Monday
+ */
+export type MenuScheduleWeekday = 0 | 1 | 2 | 3 | 4 | 5 | 6;
+
+/**
+ * Local time window in the point timezone. A window ending at or before
+ * its start runs past midnight into the next day.
+ */
+export interface MenuTimeWindow {
+  /** Days the window starts on, every day when omitted */
+  days?: MenuScheduleWeekday[];
+  /** "HH:MM" */
+  from: string;
+  /** "HH:MM", "24:00" for end of day */
+  to: string;
+}
+
+/**
+ * Products with one of the tags or categories are only available inside
+ * the windows
+ */
+export interface MenuScheduleRule {
+  id: string;
+  name?: string;
+  tagIds?: string[];
+  categoryIds?: string[];
+  /** Points the rule applies to, every point when omitted */
+  pointIds?: string[];
+  windows: MenuTimeWindow[];
+}
+
+/**
+ * Serializable schedule supplied by the app
+ */
+export interface MenuScheduleConfig {
+  version: 1;
+  /** IANA timezone of the points, e.g. "Europe/Moscow" */
+  timezone: string;
+  /** Timezone overrides by point id */
+  pointTimezones?: Record<string, string>;
+  rules: MenuScheduleRule[];
+}
+
+/**
+ * "hide" drops unavailable products, "mark" keeps them with
+ * scheduleStatus.available set to false
+ */
+export type MenuScheduleMode = "hide" | "mark";
+
+export type MenuScheduleLocale = "ru" | "en";
+
+export interface MenuScheduleOptions {
+  /** Instant to evaluate, now by default */
+  at?: Date;
+  pointId?: string;
+  mode?: MenuScheduleMode;
+  locale?: MenuScheduleLocale;
+}
+
+export interface ProductScheduleStatus {
+  available: boolean;
+  /** Matching rule ids, empty for products without a schedule */
+  ruleIds: string[];
+  /** Next window start while unavailable */
+  availableFrom: Date | null;
+  /** End of the current window while available */
+  availableUntil: Date | null;
+  /** "Доступно с 12:00", only while unavailable */
+  label: string | null;
+}
+
+export const MENU_SCHEDULE_LABELS: Record<
+  MenuScheduleLocale,
+  { availableFrom: string; weekdays: string[] }
+> = {
+  ru: {
+    availableFrom: "Доступно с",
+    weekdays: ["пн", "вт", "ср", "чт", "пт", "сб", "вс"],
+  },
+  en: {
+    availableFrom: "Available from",
+    weekdays: ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"],
+  },
+};
+
+const MINUTES_PER_DAY = 24 * 60;
+/** Days scanned ahead for the next window boundary */
+const LOOKAHEAD_DAYS = 8;
+
+// ================== TIME ==================
+
+const parseTime = (time: string): number => {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(time.trim());
+  if (!match) throw new Error(`Invalid schedule time: ${time}`);
+
+  const minutes = Number(match[1]) * 60 + Number(match[2]);
+  if (minutes > MINUTES_PER_DAY || Number(match[2]) > 59) {
+    throw new Error(`Invalid schedule time: ${time}`);
+  }
+  return minutes;
+};
+
+const getWeekday = (date: Date) =>
+  ((date.getUTCDay() + 6) % 7) as MenuScheduleWeekday;
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timezone: string) => {
+  let formatter = formatterCache.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    });
+    formatterCache.set(timezone, formatter);
+  }
+  return formatter;
+};
+
+interface ZonedTime {
+  year: number;
+  month: number;
+  day: number;
+  /** 0 is Monday */
+  weekday: MenuScheduleWeekday;
+  /** Minutes since local midnight */
+  minutes: number;
+}
+
+/**
+ * Wall-clock time of an instant in a timezone
+ */
+export const getZonedTime = (at: Date, timezone: string): ZonedTime => {
+  const parts: Record<string, number> = {};
+  getFormatter(timezone)
+    .formatToParts(at)
+    .forEach((part) => {
+      if (part.type !== "literal") parts[part.type] = Number(part.value);
+    });
+
+  const year = parts.year!;
+  const month = parts.month!;
+  const day = parts.day!;
+
+  return {
+    year,
+    month,
+    day,
+    weekday: getWeekday(new Date(Date.UTC(year, month - 1, day))),
+    minutes: parts.hour! * 60 + parts.minute!,
+  };
+};
+
+/**
+ * Instant of a local date and time in a timezone
+ */
+const zonedToDate = (
+  year: number,
+  month: number,
+  day: number,
+  minutes: number,
+  timezone: string
+): Date => {
+  const local = Date.UTC(year, month - 1, day, 0, minutes);
+  const offsetAt = (time: number) => {
+    const zoned = getZonedTime(new Date(time), timezone);
+    return (
+      Date.UTC(zoned.year, zoned.month - 1, zoned.day, 0, zoned.minutes) -
+      Math.floor(time / 60000) * 60000
+    );
+  };
+
+  // Second pass settles instants near a DST switch
+  const guess = local - offsetAt(local);
+  return new Date(local - offsetAt(guess));
+};
+
+// ================== RULES ==================
+
+export const getScheduleTimezone = (
+  config: MenuScheduleConfig,
+  pointId?: string
+): string =>
+  (pointId && config.pointTimezones?.[pointId]) || config.timezone;
+
+/**
+ * Rules that apply to a product at a point
+ */
+export const getProductScheduleRules = (
+  product: any,
+  config: MenuScheduleConfig,
+  pointId?: string
+): MenuScheduleRule[] => {
+  const tagIds = new Set((product.tags || []).map((tag: any) => tag.id));
+  const categoryIds = new Set(
+    (product.categoryBinds || []).map((bind: any) => bind.categoryId)
+  );
+
+  return config.rules.filter(
+    (rule) =>
+      (!rule.pointIds || !pointId || rule.pointIds.includes(pointId)) &&
+      ((rule.tagIds || []).some((id) => tagIds.has(id)) ||
+        (rule.categoryIds || []).some((id) => categoryIds.has(id)))
+  );
+};
+
+interface WindowSpan {
+  start: Date;
+  end: Date;
+}
+
+/**
+ * Window occurrences overlapping [at - 1 day, at + LOOKAHEAD_DAYS]
+ */
+const getWindowSpans = (
+  rules: MenuScheduleRule[],
+  at: Date,
+  timezone: string
+): WindowSpan[] => {
+  const today = getZonedTime(at, timezone);
+  const spans: WindowSpan[] = [];
+
+  for (let offset = -1; offset <= LOOKAHEAD_DAYS; offset++) {
+    const date = new Date(
+      Date.UTC(today.year, today.month - 1, today.day + offset)
+    );
+    const weekday = getWeekday(date);
+    const local = (minutes: number) =>
+      zonedToDate(
+        date.getUTCFullYear(),
+        date.getUTCMonth() + 1,
+        date.getUTCDate(),
+        minutes,
+        timezone
+      );
+
+    rules.forEach((rule) =>
+      rule.windows.forEach((window) => {
+        if (window.days && !window.days.includes(weekday)) return;
+
+        const from = parseTime(window.from);
+        let to = parseTime(window.to);
+        if (to <= from) to += MINUTES_PER_DAY;
+        spans.push({ start: local(from), end: local(to) });
+      })
+    );
+  }
+
+  return spans.sort((a, b) => a.start.getTime() - b.start.getTime());
+};
+
+const formatAvailableFrom = (
+  availableFrom: Date,
+  at: Date,
+  timezone: string,
+  locale: MenuScheduleLocale
+): string => {
+  const labels = MENU_SCHEDULE_LABELS[locale];
+  const from = getZonedTime(availableFrom, timezone);
+  const now = getZonedTime(at, timezone);
+  const time =
+    `${String(Math.floor(from.minutes / 60)).padStart(2, "0")}:` +
+    String(from.minutes % 60).padStart(2, "0");
+  const sameDay =
+    from.year === now.year && from.month === now.month && from.day === now.day;
+
+  return sameDay
+    ? `${labels.availableFrom} ${time}`
+    : `${labels.availableFrom} ${labels.weekdays[from.weekday]} ${time}`;
+};
+
+/**
+ * Availability of a product at an instant. Products without rules are
+ * always available; with several rules any open window is enough.
+ */
+export const getProductScheduleStatus = (
+  product: any,
+  config: MenuScheduleConfig,
+  options: MenuScheduleOptions = {}
+): ProductScheduleStatus => {
+  const at = options.at || new Date();
+  const rules = getProductScheduleRules(product, config, options.pointId);
+  const status: ProductScheduleStatus = {
+    available: true,
+    ruleIds: rules.map((rule) => rule.id),
+    availableFrom: null,
+    availableUntil: null,
+    label: null,
+  };
+  if (rules.length === 0) return status;
+
+  const timezone = getScheduleTimezone(config, options.pointId);
+  const spans = getWindowSpans(rules, at, timezone);
+  const time = at.getTime();
+  const current = spans.filter(
+    (span) => span.start.getTime() <= time && time < span.end.getTime()
+  );
+
+  if (current.length > 0) {
+    // Adjacent or overlapping windows extend the current one
+    let until = Math.max(...current.map((span) => span.end.getTime()));
+    spans.forEach((span) => {
+      if (span.start.getTime() <= until && span.end.getTime() > until) {
+        until = span.end.getTime();
+      }
+    });
+    status.availableUntil = new Date(until);
+    return status;
+  }
+
+  status.available = false;
+  const next = spans.find((span) => span.start.getTime() > time);
+  if (next) {
+    status.availableFrom = next.start;
+    status.label = formatAvailableFrom(
+      next.start,
+      at,
+      timezone,
+      options.locale || "ru"
+    );
+  }
+  return status;
+};
+
+// ================== MENU ==================
+
+/**
+ * Hide or mark products outside their windows. Marked products get a
+ * `scheduleStatus` field; in hide mode categories left without products
+ * are dropped too.
+ */
+export const applyMenuSchedule = <
+  T extends { categories: any[]; products: any[] },
+>(
+  menu: T,
+  config: MenuScheduleConfig,
+  options: MenuScheduleOptions = {}
+): T => {
+  const mode = options.mode || "hide";
+  const statuses = new Map(
+    menu.products.map((product) => [
+      product.id,
+      getProductScheduleStatus(product, config, options),
+    ])
+  );
+
+  if (mode === "mark") {
+    return {
+      ...menu,
+      products: menu.products.map((product) => ({
+        ...product,
+        scheduleStatus: statuses.get(product.id),
+      })),
+    };
+  }
+
+  const products = menu.products.filter(
+    (product) => statuses.get(product.id)?.available !== false
+  );
+  if (products.length === menu.products.length) return menu;
+
+  const usedCategoryIds = new Set<string>();
+  products.forEach((product) =>
+    (product.categoryBinds || []).forEach((bind: any) =>
+      usedCategoryIds.add(bind.categoryId)
+    )
+  );
+  const hiddenCategoryIds = new Set<string>();
+  menu.products.forEach((product) => {
+    if (statuses.get(product.id)?.available !== false) return;
+    (product.categoryBinds || []).forEach((bind: any) => {
+      if (!usedCategoryIds.has(bind.categoryId)) {
+        hiddenCategoryIds.add(bind.categoryId);
+      }
+    });
+  });
+
+  return {
+    ...menu,
+    products,
+    categories: menu.categories.filter(
+      (category) => !hiddenCategoryIds.has(category.id)
+    ),
+  };
+};
+
+/**
+ * Next instant any product of the menu becomes available or unavailable,
+ * null when the schedule never changes. Refresh the menu at that time.
+ */
+export const getNextScheduleChange = (
+  menu: { products: any[] },
+  config: MenuScheduleConfig,
+  options: Pick<MenuScheduleOptions, "at" | "pointId"> = {}
+): Date | null => {
+  const at = options.at || new Date();
+  const ruleIds = new Set<string>();
+  menu.products.forEach((product) =>
+    getProductScheduleRules(product, config, options.pointId).forEach(
+      (rule) => ruleIds.add(rule.id)
+    )
+  );
+  const rules = config.rules.filter((rule) => ruleIds.has(rule.id));
+  if (rules.length === 0) return null;
+
+  const time = at.getTime();
+  const boundaries = getWindowSpans(
+    rules,
+    at,
+    getScheduleTimezone(config, options.pointId)
+  )
+    .flatMap((span) => [span.start.getTime(), span.end.getTime()])
+    .filter((boundary) => boundary > time);
+
+  return boundaries.length > 0 ? new Date(Math.min(...boundaries)) : null;
+};
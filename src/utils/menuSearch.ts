@@ -0,0 +1,568 @@
+// ====================================================================
+// MENU SEARCH - In-memory full-text index for products and categories
+// ====================================================================
+
+export type MenuSearchField =
+  | "name"
+  | "slug"
+  | "tags"
+  | "description"
+  | "category";
+
+export type MenuSearchDocumentType = "product" | "category";
+
+export type MenuSearchMatchKind = "exact" | "prefix" | "fuzzy";
+
+export const DEFAULT_MENU_SEARCH_WEIGHTS: Record<MenuSearchField, number> = {
+  name: 10,
+  slug: 8,
+  tags: 6,
+  description: 3,
+  category: 2,
+};
+
+export interface MenuSearchIndexOptions {
+  weights?: Partial<Record<MenuSearchField, number>>;
+}
+
+export interface MenuSearchOptions {
+  limit?: number;
+  /** Document types to return, products and categories by default */
+  types?: MenuSearchDocumentType[];
+  /** Match words by their beginning, true by default */
+  prefix?: boolean;
+  /** Tolerate typos, true by default */
+  fuzzy?: boolean;
+}
+
+export interface MenuSearchMatch {
+  /** Query word */
+  query: string;
+  field: MenuSearchField;
+  kind: MenuSearchMatchKind;
+}
+
+export interface MenuSearchHit {
+  id: string;
+  type: MenuSearchDocumentType;
+  score: number;
+  /** The indexed product or category */
+  item: any;
+  matches: MenuSearchMatch[];
+}
+
+export interface MenuSearchSyncResult {
+  added: number;
+  updated: number;
+  removed: number;
+}
+
+// ================== TEXT PROCESSING ==================
+
+const CYRILLIC_TO_LATIN: Record<string, string> = {
+  а: "a",
+  б: "b",
+  в: "v",
+  г: "g",
+  д: "d",
+  е: "e",
+  ж: "zh",
+  з: "z",
+  и: "i",
+  й: "i",
+  к: "k",
+  л: "l",
+  м: "m",
+  н: "n",
+  о: "o",
+  п: "p",
+  р: "r",
+  с: "s",
+  т: "t",
+  у: "u",
+  ф: "f",
+  х: "kh",
+  ц: "ts",
+  ч: "ch",
+  ш: "sh",
+  щ: "shch",
+  ъ: "",
+  ы: "y",
+  ь: "",
+  э: "e",
+  ю: "yu",
+  я: "ya",
+};
+
+// Longest sequences first
+const LATIN_TO_CYRILLIC: Array<[string, string]> = [
+  ["shch", "щ"],
+  ["sch", "щ"],
+  ["zh", "ж"],
+  ["kh", "х"],
+  ["ts", "ц"],
+  ["ch", "ч"],
+  ["sh", "ш"],
+  ["yu", "ю"],
+  ["ya", "я"],
+  ["yo", "е"],
+  ["a", "а"],
+  ["b", "б"],
+  ["c", "к"],
+  ["d", "д"],
+  ["e", "е"],
+  ["f", "ф"],
+  ["g", "г"],
+  ["h", "х"],
+  ["i", "и"],
+  ["j", "й"],
+  ["k", "к"],
+  ["l", "л"],
+  ["m", "м"],
+  ["n", "н"],
+  ["o", "о"],
+  ["p", "п"],
+  ["q", "к"],
+  ["r", "р"],
+  ["s", "с"],
+  ["t", "т"],
+  ["u", "у"],
+  ["v", "в"],
+  ["w", "в"],
+  ["x", "кс"],
+  ["y", "ы"],
+  ["z", "з"],
+];
+
+/**
+ * Lowercase, fold ё to е and replace punctuation with spaces
+ */
+export const normalizeSearchText = (text: string): string =>
+  text
+    .toLowerCase()
+    .replace(/ё/g, "е")
+    .replace(/[^a-zа-я0-9]+/g, " ")
+    .trim();
+
+export const tokenizeSearchText = (text: string): string[] => {
+  const normalized = normalizeSearchText(text);
+  return normalized ? normalized.split(" ") : [];
+};
+
+/**
+ * Cyrillic to Latin transliteration, other characters are kept
+ */
+export const transliterateToLatin = (text: string): string =>
+  Array.from(text.toLowerCase())
+    .map((char) => CYRILLIC_TO_LATIN[char] ?? char)
+    .join("");
+
+/**
+ * Latin to Cyrillic transliteration, other characters are kept
+ */
+export const transliterateToCyrillic = (text: string): string => {
+  const source = text.toLowerCase();
+  let result = "";
+  let index = 0;
+
+  while (index < source.length) {
+    const pair = LATIN_TO_CYRILLIC.find(([latin]) =>
+      source.startsWith(latin, index)
+    );
+    if (pair) {
+      result += pair[1];
+      index += pair[0].length;
+    } else {
+      result += source[index];
+      index += 1;
+    }
+  }
+
+  return result;
+};
+
+// Porter stemmer for Russian. Endings that must follow а or я capture the
+// vowel and put it back, lookbehind is a syntax error in older Safari.
+const KEEP_VOWEL = "$2";
+const PERFECTIVE_GERUND =
+  /(ив|ивши|ившись|ыв|ывши|ывшись)$|([ая])(в|вши|вшись)$/;
+const REFLEXIVE = /(с[яь])$/;
+const ADJECTIVE =
+  /(ее|ие|ые|ое|ими|ыми|ей|ий|ый|ой|ем|им|ым|ом|его|ого|ему|ому|их|ых|ую|юю|ая|яя|ою|ею)$/;
+const PARTICIPLE = /(ивш|ывш|ующ)$|([ая])(ем|нн|вш|ющ|щ)$/;
+const VERB =
+  /(ила|ыла|ена|ейте|уйте|ите|или|ыли|ей|уй|ил|ыл|им|ым|ен|ило|ыло|ено|ят|ует|уют|ит|ыт|ены|ить|ыть|ишь|ую|ю)$|([ая])(ла|на|ете|йте|ли|й|л|ем|н|ло|но|ет|ют|ны|ть|ешь|нно)$/;
+const NOUN =
+  /(а|ев|ов|ие|ье|е|иями|ями|ами|еи|ии|и|ией|ей|ой|ий|й|иям|ям|ием|ем|ам|ом|о|у|ах|иях|ях|ы|ь|ию|ью|ю|ия|ья|я)$/;
+const RV = /^(.*?[аеиоуыэюя])(.*)$/;
+const DERIVATIONAL = /.*[^аеиоуыэюя]+[аеиоуыэюя].*ость?$/;
+
+/**
+ * Strip Russian inflection endings: "борща" → "борщ"
+ */
+export const stemRussian = (word: string): string => {
+  const match = RV.exec(word.replace(/ё/g, "е"));
+  if (!match) return word;
+
+  const start = match[1] ?? "";
+  let rv = match[2] ?? "";
+
+  let stripped = rv.replace(PERFECTIVE_GERUND, KEEP_VOWEL);
+  if (stripped === rv) {
+    rv = rv.replace(REFLEXIVE, "");
+    stripped = rv.replace(ADJECTIVE, "");
+    if (stripped !== rv) {
+      rv = stripped.replace(PARTICIPLE, KEEP_VOWEL);
+    } else {
+      stripped = rv.replace(VERB, KEEP_VOWEL);
+      rv = stripped === rv ? rv.replace(NOUN, "") : stripped;
+    }
+  } else {
+    rv = stripped;
+  }
+
+  rv = rv.replace(/и$/, "");
+  if (DERIVATIONAL.test(rv)) rv = rv.replace(/ость?$/, "");
+
+  stripped = rv.replace(/ь$/, "");
+  if (stripped === rv) {
+    rv = rv.replace(/(ейше|ейш)$/, "").replace(/нн$/, "н");
+  } else {
+    rv = stripped;
+  }
+
+  return start + rv;
+};
+
+/**
+ * Index keys of a word: the stem and the whole word, both in Latin so that
+ * "борщ", "borsch" and "borshch" share a key
+ */
+const wordKeys = (word: string): string[] => {
+  const cyrillic = transliterateToCyrillic(word);
+  const stem = transliterateToLatin(stemRussian(cyrillic));
+  const whole = transliterateToLatin(cyrillic);
+  return stem === whole ? [stem] : [stem, whole];
+};
+
+/** Allowed edit distance for a key length */
+const maxTypos = (length: number) => (length <= 3 ? 0 : length <= 6 ? 1 : 2);
+
+/**
+ * Levenshtein distance with adjacent transpositions, gives up above `limit`
+ */
+const editDistance = (a: string, b: string, limit: number): number => {
+  if (Math.abs(a.length - b.length) > limit) return limit + 1;
+
+  let previousRow: number[] = [];
+  let row = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+  for (let i = 1; i <= a.length; i++) {
+    const beforePrevious = previousRow;
+    previousRow = row;
+    row = [i];
+    let rowMin = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(
+        previousRow[j]! + 1,
+        row[j - 1]! + 1,
+        previousRow[j - 1]! + cost
+      );
+      if (
+        i > 1 &&
+        j > 1 &&
+        a[i - 1] === b[j - 2] &&
+        a[i - 2] === b[j - 1]
+      ) {
+        value = Math.min(value, beforePrevious[j - 2]! + 1);
+      }
+      row.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+
+    if (rowMin > limit) return limit + 1;
+  }
+
+  return row[b.length]!;
+};
+
+// ================== INDEX ==================
+
+interface IndexedDocument {
+  id: string;
+  type: MenuSearchDocumentType;
+  item: any;
+  signature: string;
+  name: string;
+  keys: string[];
+}
+
+const MATCH_QUALITY: Record<MenuSearchMatchKind, number> = {
+  exact: 1,
+  prefix: 0.7,
+  fuzzy: 0.5,
+};
+
+export class MenuSearchIndex {
+  private weights: Record<MenuSearchField, number>;
+  private documents = new Map<string, IndexedDocument>();
+  /** Key → document → fields containing the key */
+  private postings = new Map<string, Map<string, Set<MenuSearchField>>>();
+
+  constructor(options: MenuSearchIndexOptions = {}) {
+    this.weights = { ...DEFAULT_MENU_SEARCH_WEIGHTS, ...options.weights };
+  }
+
+  get size(): number {
+    return this.documents.size;
+  }
+
+  /**
+   * Bring the index in line with menu data. Only documents whose indexed
+   * text changed are re-tokenized; missing ones are removed.
+   */
+  sync(data: { products?: any[]; categories?: any[] }): MenuSearchSyncResult {
+    const categories = data.categories || [];
+    const categoryNames = new Map<string, string>(
+      categories.map((category) => [category.id, category.name || ""])
+    );
+    const result: MenuSearchSyncResult = { added: 0, updated: 0, removed: 0 };
+    const seen = new Set<string>();
+
+    const upsert = (
+      type: MenuSearchDocumentType,
+      item: any,
+      fields: Record<MenuSearchField, string>
+    ) => {
+      const documentKey = `${type}:${item.id}`;
+      const signature = JSON.stringify(fields);
+      const existing = this.documents.get(documentKey);
+      seen.add(documentKey);
+
+      if (existing && existing.signature === signature) {
+        // Keep the latest object for fields that are not indexed, e.g. price
+        existing.item = item;
+        return;
+      }
+
+      if (existing) {
+        this.removeDocument(documentKey);
+        result.updated += 1;
+      } else {
+        result.added += 1;
+      }
+      this.addDocument(documentKey, type, item, signature, fields);
+    };
+
+    (data.products || []).forEach((product) => {
+      upsert("product", product, {
+        name: product.name || "",
+        slug: product.slug || "",
+        tags: (product.tags || []).map((tag: any) => tag.name).join(" "),
+        description: product.description || "",
+        category: (product.categoryBinds || [])
+          .map((bind: any) => categoryNames.get(bind.categoryId) || "")
+          .join(" "),
+      });
+    });
+
+    categories.forEach((category) => {
+      upsert("category", category, {
+        name: category.name || "",
+        slug: category.slug || "",
+        tags: "",
+        description: "",
+        category: "",
+      });
+    });
+
+    [...this.documents.keys()].forEach((documentKey) => {
+      if (!seen.has(documentKey)) {
+        this.removeDocument(documentKey);
+        result.removed += 1;
+      }
+    });
+
+    return result;
+  }
+
+  /**
+   * Remove a single document
+   */
+  remove(type: MenuSearchDocumentType, id: string): boolean {
+    return this.removeDocument(`${type}:${id}`);
+  }
+
+  clear() {
+    this.documents.clear();
+    this.postings.clear();
+  }
+
+  /**
+   * Find documents containing every query word, best matches first
+   */
+  search(query: string, options: MenuSearchOptions = {}): MenuSearchHit[] {
+    const words = tokenizeSearchText(query);
+    if (words.length === 0) return [];
+
+    const usePrefix = options.prefix !== false;
+    const useFuzzy = options.fuzzy !== false;
+    const scores = new Map<
+      string,
+      { score: number; matches: MenuSearchMatch[] }
+    >();
+
+    words.forEach((word, wordIndex) => {
+      const variants = wordKeys(word);
+      // Best match of this word per document
+      const best = new Map<string, { score: number; match: MenuSearchMatch }>();
+
+      this.postings.forEach((documents, key) => {
+        const kind = this.matchKey(key, variants, usePrefix, useFuzzy);
+        if (!kind) return;
+
+        documents.forEach((fields, documentKey) => {
+          fields.forEach((field) => {
+            const score = this.weights[field] * MATCH_QUALITY[kind];
+            const current = best.get(documentKey);
+            if (!current || score > current.score) {
+              best.set(documentKey, {
+                score,
+                match: { query: word, field, kind },
+              });
+            }
+          });
+        });
+      });
+
+      if (wordIndex === 0) {
+        best.forEach((value, documentKey) => {
+          scores.set(documentKey, {
+            score: value.score,
+            matches: [value.match],
+          });
+        });
+        return;
+      }
+
+      // Every word has to match
+      [...scores.keys()].forEach((documentKey) => {
+        const value = best.get(documentKey);
+        const total = scores.get(documentKey)!;
+        if (!value) {
+          scores.delete(documentKey);
+        } else {
+          total.score += value.score;
+          total.matches.push(value.match);
+        }
+      });
+    });
+
+    const normalizedQuery = normalizeSearchText(query);
+    let hits: MenuSearchHit[] = [];
+
+    scores.forEach((value, documentKey) => {
+      const document = this.documents.get(documentKey)!;
+      if (options.types && !options.types.includes(document.type)) return;
+
+      let score = value.score;
+      // Whole name typed: rank above names that only contain the words
+      if (document.name === normalizedQuery) score += this.weights.name;
+      else if (document.name.startsWith(normalizedQuery)) {
+        score += this.weights.name / 2;
+      }
+
+      hits.push({
+        id: document.id,
+        type: document.type,
+        score: Math.round(score * 100) / 100,
+        item: document.item,
+        matches: value.matches,
+      });
+    });
+
+    hits.sort((a, b) => b.score - a.score);
+    if (options.limit !== undefined) hits = hits.slice(0, options.limit);
+    return hits;
+  }
+
+  private matchKey(
+    key: string,
+    variants: string[],
+    usePrefix: boolean,
+    useFuzzy: boolean
+  ): MenuSearchMatchKind | null {
+    if (variants.includes(key)) return "exact";
+    if (
+      usePrefix &&
+      variants.some(
+        (variant) => variant.length >= 2 && key.startsWith(variant)
+      )
+    ) {
+      return "prefix";
+    }
+    if (
+      useFuzzy &&
+      variants.some((variant) => {
+        const limit = maxTypos(variant.length);
+        return limit > 0 && editDistance(variant, key, limit) <= limit;
+      })
+    ) {
+      return "fuzzy";
+    }
+    return null;
+  }
+
+  private addDocument(
+    documentKey: string,
+    type: MenuSearchDocumentType,
+    item: any,
+    signature: string,
+    fields: Record<MenuSearchField, string>
+  ) {
+    const keys = new Set<string>();
+
+    (Object.keys(fields) as MenuSearchField[]).forEach((field) => {
+      tokenizeSearchText(fields[field]).forEach((word) => {
+        wordKeys(word).forEach((key) => {
+          keys.add(key);
+          let documents = this.postings.get(key);
+          if (!documents) {
+            documents = new Map();
+            this.postings.set(key, documents);
+          }
+          let documentFields = documents.get(documentKey);
+          if (!documentFields) {
+            documentFields = new Set();
+            documents.set(documentKey, documentFields);
+          }
+          documentFields.add(field);
+        });
+      });
+    });
+
+    this.documents.set(documentKey, {
+      id: item.id,
+      type,
+      item,
+      signature,
+      name: normalizeSearchText(fields.name),
+      keys: [...keys],
+    });
+  }
+
+  private removeDocument(documentKey: string): boolean {
+    const document = this.documents.get(documentKey);
+    if (!document) return false;
+
+    document.keys.forEach((key) => {
+      const documents = this.postings.get(key);
+      documents?.delete(documentKey);
+      if (documents && documents.size === 0) this.postings.delete(key);
+    });
+    this.documents.delete(documentKey);
+    return true;
+  }
+}
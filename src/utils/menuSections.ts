@@ -0,0 +1,264 @@
+import { flattenCategoryTree } from "./common";
+
+// ====================================================================
+// MENU SECTIONS - Header / product rows for scroll-spy menu screens
+// ====================================================================
+
+/** Category id of the bucket with products outside every category */
+export const UNCATEGORIZED_SECTION_ID = "__uncategorized__";
+
+export interface MenuSection {
+  /** Stable key, same as the key of the header row */
+  key: string;
+  /** UNCATEGORIZED_SECTION_ID for the uncategorized bucket */
+  categoryId: string;
+  category: any | null;
+  title: string;
+  /** 0 for root categories */
+  depth: number;
+  /** Ancestor category ids from the root down */
+  path: string[];
+  headerIndex: number;
+  /** Index after the last product row of the section */
+  endIndex: number;
+  productCount: number;
+}
+
+export type MenuSectionRow =
+  | {
+      type: "header";
+      key: string;
+      index: number;
+      sectionIndex: number;
+      section: MenuSection;
+    }
+  | {
+      type: "product";
+      key: string;
+      index: number;
+      sectionIndex: number;
+      product: any;
+      /** Position inside the section */
+      position: number;
+    };
+
+export interface MenuSectionOptions {
+  /** "Другое" by default */
+  uncategorizedTitle?: string;
+  uncategorizedPosition?: "start" | "end";
+  /** Keep headers of categories with no products in their subtree */
+  keepEmpty?: boolean;
+  /** Products in several categories: a row in each (default) or the first */
+  duplicates?: "all" | "first";
+}
+
+export interface MenuSectionState {
+  /** -1 until a range is set or when there are no sections */
+  activeSectionIndex: number;
+  activeSection: MenuSection | null;
+  /** Root category of the active section, for top-level tab bars */
+  activeRootCategoryId: string | null;
+}
+
+export type MenuSectionListener = (state: MenuSectionState) => void;
+
+const headerKey = (categoryId: string) => `header:${categoryId}`;
+
+// ================== MODEL ==================
+
+export class MenuSectionModel {
+  readonly rows: MenuSectionRow[] = [];
+  readonly sections: MenuSection[] = [];
+  /** Category id → header row index, for jump-to-section */
+  readonly categoryRowIndex: Record<string, number> = {};
+  /** Header row indices, e.g. FlatList stickyHeaderIndices */
+  readonly stickyHeaderIndices: number[] = [];
+
+  private state: MenuSectionState = {
+    activeSectionIndex: -1,
+    activeSection: null,
+    activeRootCategoryId: null,
+  };
+  private listeners = new Set<MenuSectionListener>();
+
+  constructor(
+    menu: { categories: any[]; products: any[] },
+    options: MenuSectionOptions = {}
+  ) {
+    const categoryIds = new Set(
+      menu.categories.map((category) => category.id)
+    );
+    const byCategory = new Map<string, any[]>();
+    const uncategorized: any[] = [];
+
+    menu.products.forEach((product) => {
+      const binds = [...(product.categoryBinds || [])]
+        .filter((bind: any) => categoryIds.has(bind.categoryId))
+        .sort((a: any, b: any) => (a.priority || 0) - (b.priority || 0));
+      if (binds.length === 0) {
+        uncategorized.push(product);
+        return;
+      }
+
+      (options.duplicates === "first" ? binds.slice(0, 1) : binds).forEach(
+        (bind: any) =>
+          byCategory.set(bind.categoryId, [
+            ...(byCategory.get(bind.categoryId) || []),
+            { product, priority: bind.priority || 0 },
+          ])
+      );
+    });
+
+    const nodes = flattenCategoryTree(menu.categories);
+
+    // Categories with products in their subtree
+    const filled = new Set<string>();
+    nodes.forEach(({ category, path }) => {
+      if (byCategory.has(category.id)) {
+        [...path, category.id].forEach((id) => filled.add(id));
+      }
+    });
+
+    const uncategorizedTitle = options.uncategorizedTitle || "Другое";
+    const addUncategorized = () => {
+      if (uncategorized.length === 0) return;
+      this.addSection(
+        UNCATEGORIZED_SECTION_ID,
+        null,
+        uncategorizedTitle,
+        0,
+        [],
+        uncategorized
+      );
+    };
+
+    if (options.uncategorizedPosition === "start") addUncategorized();
+    nodes.forEach(({ category, depth, path }) => {
+      if (!options.keepEmpty && !filled.has(category.id)) return;
+
+      const products = [...(byCategory.get(category.id) || [])]
+        .sort((a, b) => a.priority - b.priority)
+        .map((item) => item.product);
+      this.addSection(
+        category.id,
+        category,
+        category.name,
+        depth,
+        path,
+        products
+      );
+    });
+    if (options.uncategorizedPosition !== "start") addUncategorized();
+  }
+
+  private addSection(
+    categoryId: string,
+    category: any | null,
+    title: string,
+    depth: number,
+    path: string[],
+    products: any[]
+  ) {
+    const sectionIndex = this.sections.length;
+    const headerIndex = this.rows.length;
+    const section: MenuSection = {
+      key: headerKey(categoryId),
+      categoryId,
+      category,
+      title,
+      depth,
+      path,
+      headerIndex,
+      endIndex: headerIndex + 1 + products.length,
+      productCount: products.length,
+    };
+
+    this.sections.push(section);
+    this.categoryRowIndex[categoryId] = headerIndex;
+    this.stickyHeaderIndices.push(headerIndex);
+    this.rows.push({
+      type: "header",
+      key: section.key,
+      index: headerIndex,
+      sectionIndex,
+      section,
+    });
+    products.forEach((product, position) =>
+      this.rows.push({
+        type: "product",
+        key: `product:${categoryId}:${product.id}`,
+        index: this.rows.length,
+        sectionIndex,
+        product,
+        position,
+      })
+    );
+  }
+
+  get rowCount(): number {
+    return this.rows.length;
+  }
+
+  /**
+   * Header row index of a category, -1 when it has no section
+   */
+  getRowIndexForCategory(categoryId: string): number {
+    return this.categoryRowIndex[categoryId] ?? -1;
+  }
+
+  /**
+   * Index of the section a row belongs to, -1 when out of range
+   */
+  getSectionIndexAt(rowIndex: number): number {
+    return this.rows[rowIndex]?.sectionIndex ?? -1;
+  }
+
+  getSectionAt(rowIndex: number): MenuSection | null {
+    return this.sections[this.getSectionIndexAt(rowIndex)] || null;
+  }
+
+  getState(): MenuSectionState {
+    return this.state;
+  }
+
+  /**
+   * Update the active section from the visible rows. The section of the
+   * first visible row is active, except at the end of the list where the
+   * last section with a visible header wins, so short trailing sections
+   * can still become active.
+   */
+  setVisibleRange(firstIndex: number, lastIndex: number): MenuSectionState {
+    const first = Math.max(0, Math.min(firstIndex, this.rows.length - 1));
+    let sectionIndex = this.getSectionIndexAt(first);
+
+    if (lastIndex >= this.rows.length - 1) {
+      const lastSection = this.getSectionIndexAt(this.rows.length - 1);
+      const header = this.sections[lastSection]?.headerIndex ?? -1;
+      if (header >= first) sectionIndex = lastSection;
+    }
+
+    if (sectionIndex !== this.state.activeSectionIndex) {
+      const section = this.sections[sectionIndex] || null;
+      this.state = {
+        activeSectionIndex: section ? sectionIndex : -1,
+        activeSection: section,
+        activeRootCategoryId: section
+          ? section.path[0] || section.categoryId
+          : null,
+      };
+      this.listeners.forEach((listener) => listener(this.state));
+    }
+
+    return this.state;
+  }
+
+  /**
+   * Called with the new state whenever the active section changes
+   */
+  subscribe(listener: MenuSectionListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
@@ -0,0 +1,332 @@
+import { flattenCategoryTree } from "./common";
+import { escapeHtml } from "./formatting";
+
+// ====================================================================
+// MENU STRUCTURED DATA - schema.org JSON-LD and OpenGraph meta tags
+// ====================================================================
+
+export interface StructuredDataBrand {
+  name: string;
+  slug?: string;
+  /** Public site of the brand */
+  url?: string;
+  logo?: string;
+  description?: string;
+  servesCuisine?: string | string[];
+}
+
+/**
+ * Point fields used for the Restaurant node, Point fits as is
+ */
+export interface StructuredDataPoint {
+  id?: string;
+  name?: string | null;
+  address: string;
+  city?: { name: string } | null;
+  phone?: string | null;
+  /** Public menu page of the point */
+  url?: string;
+  geo?: { latitude: number; longitude: number };
+  /** ISO 3166 code, "RU" by default */
+  country?: string;
+}
+
+export interface MenuStructuredDataOptions {
+  brand: StructuredDataBrand;
+  point?: StructuredDataPoint;
+  /** ISO 4217 code, prices are converted from kopecks */
+  currency?: string;
+  /** Public product page, omitted from the data when not given */
+  productUrl?: (product: any) => string | undefined;
+  menuName?: string;
+}
+
+export interface OpenGraphOptions {
+  brand: StructuredDataBrand;
+  point?: StructuredDataPoint;
+  url?: string;
+  /** og:locale, "ru_RU" by default */
+  locale?: string;
+  currency?: string;
+  /** Used when the product has no images, e.g. the brand logo */
+  fallbackImage?: string;
+}
+
+export interface OpenGraphTag {
+  property: string;
+  content: string;
+}
+
+type JsonLd = Record<string, any>;
+
+const SCHEMA_CONTEXT = "https://schema.org";
+
+/** schema.org servingSize units for ProductUnit */
+const SERVING_UNITS: Record<string, string> = {
+  GRAM: "g",
+  KILOGRAM: "kg",
+  MILLILITERS: "ml",
+  LITERS: "l",
+};
+
+// ================== HELPERS ==================
+
+/**
+ * Int53 kopecks as a decimal string, 35050 → "350.50"
+ */
+export const kopecksToDecimal = (kopecks: number): string =>
+  (kopecks / 100).toFixed(2);
+
+/**
+ * Image urls ordered by priority
+ */
+export const getProductImageUrls = (product: any): string[] =>
+  [...(product.images || [])]
+    .sort((a: any, b: any) => (a.priority || 0) - (b.priority || 0))
+    .map((image: any) => image.url)
+    .filter(Boolean);
+
+const getNutritionJsonLd = (product: any): JsonLd | undefined => {
+  const nutrition: JsonLd = {};
+  if (typeof product.calories === "number") {
+    nutrition.calories = `${product.calories} calories`;
+  }
+  if (typeof product.protein === "number") {
+    nutrition.proteinContent = `${product.protein} g`;
+  }
+  if (typeof product.fats === "number") {
+    nutrition.fatContent = `${product.fats} g`;
+  }
+  if (typeof product.carbohydrates === "number") {
+    nutrition.carbohydrateContent = `${product.carbohydrates} g`;
+  }
+  if (Object.keys(nutrition).length === 0) return undefined;
+
+  const servingUnit = SERVING_UNITS[product.unit];
+  if (servingUnit && product.unitValue) {
+    nutrition.servingSize = `${product.unitValue} ${servingUnit}`;
+  }
+  return { "@type": "NutritionInformation", ...nutrition };
+};
+
+// ================== JSON-LD ==================
+
+/**
+ * MenuItem with an Offer from pricePoint, nutrition from KBJU fields and
+ * images from ProductImage.url
+ */
+export const buildMenuItemJsonLd = (
+  product: any,
+  options: Pick<MenuStructuredDataOptions, "currency" | "productUrl"> = {}
+): JsonLd => {
+  const item: JsonLd = { "@type": "MenuItem", name: product.name };
+
+  if (product.description) item.description = product.description;
+
+  const images = getProductImageUrls(product);
+  if (images.length === 1) item.image = images[0];
+  if (images.length > 1) item.image = images;
+
+  const url = options.productUrl?.(product);
+  if (url) item.url = url;
+
+  if (typeof product.pricePoint === "number") {
+    item.offers = {
+      "@type": "Offer",
+      price: kopecksToDecimal(product.pricePoint),
+      priceCurrency: options.currency || "RUB",
+      availability: "https://schema.org/InStock",
+      ...(url && { url }),
+    };
+  }
+
+  const nutrition = getNutritionJsonLd(product);
+  if (nutrition) item.nutrition = nutrition;
+
+  return item;
+};
+
+/**
+ * Menu with nested MenuSections in category hierarchy order. Categories
+ * without products in their subtree are skipped, uncategorized products
+ * are listed on the menu itself.
+ */
+export const buildMenuJsonLd = (
+  menu: { categories: any[]; products: any[] },
+  options: Pick<
+    MenuStructuredDataOptions,
+    "currency" | "productUrl" | "menuName"
+  > = {}
+): JsonLd => {
+  const sections = new Map<string, JsonLd>();
+  const roots: JsonLd[] = [];
+
+  flattenCategoryTree(menu.categories).forEach(({ category, path }) => {
+    const items = menu.products
+      .filter((product) =>
+        product.categoryBinds?.some(
+          (bind: any) => bind.categoryId === category.id
+        )
+      )
+      .map((product) => buildMenuItemJsonLd(product, options));
+
+    const section: JsonLd = { "@type": "MenuSection", name: category.name };
+    if (items.length > 0) section.hasMenuItem = items;
+    sections.set(category.id, section);
+
+    const parent = sections.get(path[path.length - 1] || "");
+    if (parent) {
+      parent.hasMenuSection = [...(parent.hasMenuSection || []), section];
+    } else {
+      roots.push(section);
+    }
+  });
+
+  // Drop sections with nothing inside, children first
+  const prune = (list: JsonLd[]): JsonLd[] =>
+    list.filter((section) => {
+      if (section.hasMenuSection) {
+        section.hasMenuSection = prune(section.hasMenuSection);
+        if (section.hasMenuSection.length === 0) delete section.hasMenuSection;
+      }
+      return !!(section.hasMenuItem || section.hasMenuSection);
+    });
+
+  const result: JsonLd = { "@type": "Menu" };
+  if (options.menuName) result.name = options.menuName;
+
+  const menuSections = prune(roots);
+  if (menuSections.length > 0) result.hasMenuSection = menuSections;
+
+  const uncategorized = menu.products.filter(
+    (product) => !product.categoryBinds || product.categoryBinds.length === 0
+  );
+  if (uncategorized.length > 0) {
+    result.hasMenuItem = uncategorized.map((product) =>
+      buildMenuItemJsonLd(product, options)
+    );
+  }
+
+  return result;
+};
+
+/**
+ * Restaurant document for a point with its menu, ready for a
+ * `<script type="application/ld+json">` tag
+ */
+export const buildRestaurantJsonLd = (
+  menu: { categories: any[]; products: any[] },
+  options: MenuStructuredDataOptions
+): JsonLd => {
+  const { brand, point } = options;
+  const restaurant: JsonLd = {
+    "@context": SCHEMA_CONTEXT,
+    "@type": "Restaurant",
+    name: point?.name ? `${brand.name}, ${point.name}` : brand.name,
+  };
+
+  if (brand.description) restaurant.description = brand.description;
+  if (brand.logo) {
+    restaurant.logo = brand.logo;
+    restaurant.image = brand.logo;
+  }
+  if (brand.servesCuisine) restaurant.servesCuisine = brand.servesCuisine;
+
+  const url = point?.url || brand.url;
+  if (url) restaurant.url = url;
+
+  if (point) {
+    restaurant.address = {
+      "@type": "PostalAddress",
+      streetAddress: point.address,
+      ...(point.city?.name && { addressLocality: point.city.name }),
+      addressCountry: point.country || "RU",
+    };
+    if (point.phone) restaurant.telephone = point.phone;
+    if (point.geo) {
+      restaurant.geo = { "@type": "GeoCoordinates", ...point.geo };
+    }
+  }
+
+  restaurant.hasMenu = buildMenuJsonLd(menu, {
+    ...options,
+    ...(!options.menuName && { menuName: brand.name }),
+  });
+
+  return restaurant;
+};
+
+/**
+ * Script tag with the JSON escaped for inline HTML
+ */
+export const renderJsonLdScript = (data: JsonLd): string =>
+  '<script type="application/ld+json">' +
+  JSON.stringify(data)
+    .replace(/</g, "\\u003c")
+    .replace(/>/g, "\\u003e")
+    .replace(/&/g, "\\u0026") +
+  "</script>";
+
+// ================== OPENGRAPH ==================
+
+/**
+ * og:* and product:price:* tags of a product page
+ */
+export const buildProductOpenGraph = (
+  product: any,
+  options: OpenGraphOptions
+): OpenGraphTag[] => {
+  const { brand, point } = options;
+  const tags: OpenGraphTag[] = [
+    { property: "og:type", content: "product" },
+    { property: "og:title", content: `${product.name} — ${brand.name}` },
+    { property: "og:site_name", content: brand.name },
+    { property: "og:locale", content: options.locale || "ru_RU" },
+  ];
+
+  const description =
+    product.description ||
+    (point ? `${brand.name}, ${point.address}` : undefined);
+  if (description) {
+    tags.push({ property: "og:description", content: description });
+  }
+  if (options.url) tags.push({ property: "og:url", content: options.url });
+
+  const images = getProductImageUrls(product);
+  if (images.length === 0 && options.fallbackImage) {
+    images.push(options.fallbackImage);
+  }
+  images.forEach((image) =>
+    tags.push({ property: "og:image", content: image })
+  );
+  if (images.length > 0) {
+    tags.push({ property: "og:image:alt", content: product.name });
+  }
+
+  if (typeof product.pricePoint === "number") {
+    tags.push(
+      {
+        property: "product:price:amount",
+        content: kopecksToDecimal(product.pricePoint),
+      },
+      {
+        property: "product:price:currency",
+        content: options.currency || "RUB",
+      }
+    );
+  }
+
+  return tags;
+};
+
+/**
+ * `<meta property content>` tags, one per line
+ */
+export const renderOpenGraphTags = (tags: OpenGraphTag[]): string =>
+  tags
+    .map(
+      (tag) =>
+        `<meta property="${escapeHtml(tag.property)}" ` +
+        `content="${escapeHtml(tag.content)}">`
+    )
+    .join("\n");
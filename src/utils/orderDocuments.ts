@@ -0,0 +1,521 @@
+import { OrderType } from "../graphql-types";
+import type {
+  OrderItemCategory,
+  OrderItemProductVariantProperty,
+} from "../graphql-types";
+import { escapeHtml, formatDateTime, formatPrice } from "./formatting";
+
+// ====================================================================
+// ORDER DOCUMENTS - Receipts and kitchen tickets for printing
+// ====================================================================
+
+export type OrderDocumentLayout = "receipt" | "kitchen";
+
+export type OrderDocumentLocale = "ru" | "en";
+
+/**
+ * Order fields used for printing, OrderPreOrder fits as is
+ */
+export interface PrintableOrder {
+  number: number;
+  type?: OrderType | string | null;
+  dueTime: string | Date;
+  comment?: string | null;
+  personsNumber?: number | null;
+  priceTotal?: number | null;
+  customerName?: string | null;
+  customerPhone?: string | null;
+  items?: Array<{
+    name: string;
+    quantity: number;
+    price: number;
+    productVariantProperties?: OrderItemProductVariantProperty[] | null;
+    categories?: OrderItemCategory[] | null;
+  }> | null;
+}
+
+export interface OrderDocumentOptions {
+  layout?: OrderDocumentLayout;
+  locale?: OrderDocumentLocale;
+  /** Heading above the order number, e.g. point or brand name */
+  title?: string;
+  currency?: string;
+  formatDate?: (date: string | Date) => string;
+}
+
+export interface TextDocumentOptions extends OrderDocumentOptions {
+  /** Characters per line: 32 for 58mm paper, 48 for 80mm */
+  width?: number;
+}
+
+export interface EscPosOptions extends TextDocumentOptions {
+  /** Turn text into printer bytes, CP866 by default */
+  encode?: (text: string) => number[];
+  /** ESC t code page number matching `encode` */
+  codePage?: number;
+  /** Feed and cut the paper at the end */
+  cut?: boolean;
+}
+
+export interface OrderDocumentLine {
+  name: string;
+  quantity: number;
+  /** "Property: value" strings */
+  properties: string[];
+  /** Formatted unit price, receipts only */
+  price?: string;
+  /** Formatted line total, receipts only */
+  total?: string;
+}
+
+export interface OrderDocumentSection {
+  title?: string;
+  lines: OrderDocumentLine[];
+}
+
+/**
+ * Format-independent content of a receipt or kitchen ticket
+ */
+export interface OrderDocument {
+  layout: OrderDocumentLayout;
+  title?: string;
+  heading: string;
+  orderType?: string;
+  details: Array<{ label: string; value: string }>;
+  sections: OrderDocumentSection[];
+  total?: { label: string; value: string };
+  comment?: { label: string; value: string };
+}
+
+export const ORDER_DOCUMENT_LABELS: Record<
+  OrderDocumentLocale,
+  {
+    order: string;
+    kitchen: string;
+    dueTime: string;
+    persons: string;
+    customer: string;
+    phone: string;
+    comment: string;
+    total: string;
+    noCategory: string;
+    orderTypes: Record<OrderType, string>;
+  }
+> = {
+  ru: {
+    order: "Заказ №",
+    kitchen: "Кухня",
+    dueTime: "Время",
+    persons: "Персон",
+    customer: "Клиент",
+    phone: "Телефон",
+    comment: "Комментарий",
+    total: "Итого",
+    noCategory: "Без категории",
+    orderTypes: {
+      [OrderType.Delivery]: "Доставка",
+      [OrderType.OnTable]: "В зале",
+      [OrderType.Pickup]: "Самовывоз",
+      [OrderType.PreOrder]: "Предзаказ",
+    },
+  },
+  en: {
+    order: "Order #",
+    kitchen: "Kitchen",
+    dueTime: "Due",
+    persons: "Persons",
+    customer: "Customer",
+    phone: "Phone",
+    comment: "Comment",
+    total: "Total",
+    noCategory: "Other",
+    orderTypes: {
+      [OrderType.Delivery]: "Delivery",
+      [OrderType.OnTable]: "On table",
+      [OrderType.Pickup]: "Pickup",
+      [OrderType.PreOrder]: "Pre-order",
+    },
+  },
+};
+
+export const DEFAULT_RECEIPT_WIDTH = 32;
+
+// ================== DOCUMENT MODEL ==================
+
+const getItemProperties = (
+  properties: OrderItemProductVariantProperty[] | null | undefined
+) =>
+  (properties || []).map(
+    (property) =>
+      `${property.productVariantPropertyName}: ` +
+      property.productVariantPropertyValueName
+  );
+
+/**
+ * Build the document content. Receipts list priced items in order,
+ * kitchen tickets drop prices and group items by their first category.
+ */
+export const buildOrderDocument = (
+  order: PrintableOrder,
+  options: OrderDocumentOptions = {}
+): OrderDocument => {
+  const layout = options.layout || "receipt";
+  const locale = options.locale || "ru";
+  const labels = ORDER_DOCUMENT_LABELS[locale];
+  const formatDate =
+    options.formatDate ||
+    ((date: string | Date) =>
+      formatDateTime(date, locale === "ru" ? "ru-RU" : "en-US"));
+  const price = (value: number) => formatPrice(value, options.currency);
+  const items = order.items || [];
+
+  const document: OrderDocument = {
+    layout,
+    heading:
+      layout === "kitchen"
+        ? `${labels.kitchen}. ${labels.order}${order.number}`
+        : `${labels.order}${order.number}`,
+    details: [{ label: labels.dueTime, value: formatDate(order.dueTime) }],
+    sections: [],
+  };
+
+  if (options.title) document.title = options.title;
+  if (order.type) {
+    document.orderType =
+      labels.orderTypes[order.type as OrderType] ?? order.type;
+  }
+  if (order.personsNumber != null) {
+    document.details.push({
+      label: labels.persons,
+      value: String(order.personsNumber),
+    });
+  }
+  if (layout === "receipt") {
+    if (order.customerName) {
+      document.details.push({
+        label: labels.customer,
+        value: order.customerName,
+      });
+    }
+    if (order.customerPhone) {
+      document.details.push({
+        label: labels.phone,
+        value: order.customerPhone,
+      });
+    }
+  }
+  if (order.comment) {
+    document.comment = { label: labels.comment, value: order.comment };
+  }
+
+  if (layout === "kitchen") {
+    const sections = new Map<string, OrderDocumentSection>();
+    items.forEach((item) => {
+      const category = item.categories?.[0];
+      const key = category?.categoryId || "";
+      const section = sections.get(key) || {
+        title: category?.categoryName || labels.noCategory,
+        lines: [],
+      };
+      section.lines.push({
+        name: item.name,
+        quantity: item.quantity,
+        properties: getItemProperties(item.productVariantProperties),
+      });
+      sections.set(key, section);
+    });
+    document.sections = Array.from(sections.values());
+    return document;
+  }
+
+  document.sections = [
+    {
+      lines: items.map((item) => ({
+        name: item.name,
+        quantity: item.quantity,
+        properties: getItemProperties(item.productVariantProperties),
+        price: price(item.price),
+        total: price(item.price * item.quantity),
+      })),
+    },
+  ];
+  const total =
+    order.priceTotal ??
+    items.reduce((sum, item) => sum + item.price * item.quantity, 0);
+  document.total = { label: labels.total, value: price(total) };
+
+  return document;
+};
+
+// ================== PLAIN TEXT ==================
+
+const wrapText = (text: string, width: number, indent = ""): string[] => {
+  const lines: string[] = [];
+  let line = indent;
+
+  text.split(/\s+/).forEach((word) => {
+    if (!word) return;
+    const candidate = line.trim() ? `${line} ${word}` : `${line}${word}`;
+    if (candidate.length <= width) {
+      line = candidate;
+      return;
+    }
+    if (line.trim()) lines.push(line);
+    // Break words longer than a whole line
+    let rest = word;
+    while (indent.length + rest.length > width) {
+      const size = Math.max(width - indent.length, 1);
+      lines.push(indent + rest.slice(0, size));
+      rest = rest.slice(size);
+    }
+    line = indent + rest;
+  });
+
+  if (line.trim()) lines.push(line);
+  return lines;
+};
+
+const alignRight = (left: string, right: string, width: number): string[] => {
+  const space = width - left.length - right.length;
+  if (space >= 1) return [left + " ".repeat(space) + right];
+  return [left, " ".repeat(Math.max(width - right.length, 0)) + right];
+};
+
+const center = (text: string, width: number) =>
+  wrapText(text, width).map((line) => {
+    const padding = Math.floor((width - line.length) / 2);
+    return " ".repeat(Math.max(padding, 0)) + line;
+  });
+
+type TextRow = { text: string; emphasis?: boolean };
+
+/**
+ * Fixed-width lines of a document, headings marked for emphasis
+ */
+const layoutText = (document: OrderDocument, width: number): TextRow[] => {
+  const rows: TextRow[] = [];
+  const separator = () => rows.push({ text: "-".repeat(width) });
+  const push = (lines: string[], emphasis?: boolean) =>
+    lines.forEach((text) =>
+      rows.push(emphasis ? { text, emphasis } : { text })
+    );
+
+  if (document.title) push(center(document.title, width));
+  push(center(document.heading, width), true);
+  if (document.orderType) push(center(document.orderType, width));
+  separator();
+
+  document.details.forEach((detail) =>
+    push(wrapText(`${detail.label}: ${detail.value}`, width))
+  );
+  separator();
+
+  document.sections.forEach((section) => {
+    if (section.title) push(wrapText(`[ ${section.title} ]`, width), true);
+
+    section.lines.forEach((line) => {
+      if (line.price === undefined) {
+        push(wrapText(`${line.quantity} x ${line.name}`, width), true);
+        line.properties.forEach((property) =>
+          push(wrapText(property, width, "    "))
+        );
+        return;
+      }
+
+      push(wrapText(line.name, width));
+      line.properties.forEach((property) =>
+        push(wrapText(property, width, "  "))
+      );
+      push(
+        alignRight(
+          `  ${line.quantity} x ${line.price}`,
+          line.total ?? "",
+          width
+        )
+      );
+    });
+  });
+
+  if (document.total) {
+    separator();
+    push(
+      alignRight(
+        document.total.label.toUpperCase(),
+        document.total.value,
+        width
+      ),
+      true
+    );
+  }
+
+  if (document.comment) {
+    separator();
+    push(
+      wrapText(`${document.comment.label}: ${document.comment.value}`, width)
+    );
+  }
+
+  return rows;
+};
+
+/**
+ * Render a fixed-width plain-text receipt or kitchen ticket
+ */
+export const renderOrderText = (
+  order: PrintableOrder,
+  options: TextDocumentOptions = {}
+): string =>
+  layoutText(
+    buildOrderDocument(order, options),
+    options.width || DEFAULT_RECEIPT_WIDTH
+  )
+    .map((row) => row.text)
+    .join("\n");
+
+// ================== ESC/POS ==================
+
+const ESC = 0x1b;
+const GS = 0x1d;
+const LF = 0x0a;
+
+/** ESC t code page number of PC866 on Epson-compatible printers */
+export const ESC_POS_CP866 = 17;
+
+/**
+ * Encode text to CP866, replacing characters the code page lacks
+ */
+export const encodeCp866 = (text: string): number[] => {
+  const bytes: number[] = [];
+
+  for (const char of text.replace(/₽/g, "р.")) {
+    const code = char.codePointAt(0) ?? 0x3f;
+    if (code < 0x80) bytes.push(code);
+    else if (code >= 0x410 && code <= 0x43f) bytes.push(code - 0x410 + 0x80);
+    else if (code >= 0x440 && code <= 0x44f) bytes.push(code - 0x440 + 0xe0);
+    else if (code === 0x401) bytes.push(0xf0);
+    else if (code === 0x451) bytes.push(0xf1);
+    else if (code === 0x2116) bytes.push(0xfc);
+    else if (code === 0xa0) bytes.push(0xff);
+    else bytes.push(0x3f);
+  }
+
+  return bytes;
+};
+
+/**
+ * Render a document as ESC/POS commands for thermal printers
+ */
+export const renderOrderEscPos = (
+  order: PrintableOrder,
+  options: EscPosOptions = {}
+): Uint8Array => {
+  const encode = options.encode || encodeCp866;
+  const codePage = options.codePage ?? ESC_POS_CP866;
+  const rows = layoutText(
+    buildOrderDocument(order, options),
+    options.width || DEFAULT_RECEIPT_WIDTH
+  );
+
+  // Initialize printer and select the code page
+  const bytes: number[] = [ESC, 0x40, ESC, 0x74, codePage];
+  rows.forEach((row) => {
+    if (row.emphasis) bytes.push(ESC, 0x45, 1);
+    bytes.push(...encode(row.text), LF);
+    if (row.emphasis) bytes.push(ESC, 0x45, 0);
+  });
+
+  if (options.cut !== false) {
+    // Feed three lines and make a partial cut
+    bytes.push(ESC, 0x64, 3, GS, 0x56, 0x42, 0);
+  }
+
+  return Uint8Array.from(bytes);
+};
+
+// ================== HTML ==================
+
+/**
+ * Render a document as an HTML fragment with `order-ticket__*` classes
+ */
+export const renderOrderHtml = (
+  order: PrintableOrder,
+  options: OrderDocumentOptions = {}
+): string => {
+  const document = buildOrderDocument(order, options);
+  const html: string[] = [
+    `<div class="order-ticket order-ticket--${document.layout}">`,
+  ];
+
+  if (document.title) {
+    html.push(
+      `<div class="order-ticket__title">${escapeHtml(document.title)}</div>`
+    );
+  }
+  html.push(
+    `<h1 class="order-ticket__heading">${escapeHtml(document.heading)}</h1>`
+  );
+  if (document.orderType) {
+    html.push(
+      `<div class="order-ticket__type">${escapeHtml(document.orderType)}</div>`
+    );
+  }
+
+  html.push('<dl class="order-ticket__details">');
+  document.details.forEach((detail) => {
+    html.push(
+      `<dt>${escapeHtml(detail.label)}</dt><dd>${escapeHtml(detail.value)}</dd>`
+    );
+  });
+  html.push("</dl>");
+
+  document.sections.forEach((section) => {
+    html.push('<section class="order-ticket__section">');
+    if (section.title) html.push(`<h2>${escapeHtml(section.title)}</h2>`);
+    html.push('<ul class="order-ticket__items">');
+
+    section.lines.forEach((line) => {
+      html.push('<li class="order-ticket__item">');
+      html.push(
+        `<span class="order-ticket__quantity">${line.quantity} x</span> ` +
+          `<span class="order-ticket__name">${escapeHtml(line.name)}</span>`
+      );
+      if (line.price !== undefined) {
+        html.push(
+          `<span class="order-ticket__price">${escapeHtml(line.price)}</span>` +
+            '<span class="order-ticket__total">' +
+            `${escapeHtml(line.total ?? "")}</span>`
+        );
+      }
+      if (line.properties.length > 0) {
+        html.push(
+          '<ul class="order-ticket__properties">' +
+            line.properties
+              .map((property) => `<li>${escapeHtml(property)}</li>`)
+              .join("") +
+            "</ul>"
+        );
+      }
+      html.push("</li>");
+    });
+
+    html.push("</ul>", "</section>");
+  });
+
+  if (document.total) {
+    html.push(
+      '<div class="order-ticket__summary">' +
+        `<span>${escapeHtml(document.total.label)}</span>` +
+        `<strong>${escapeHtml(document.total.value)}</strong></div>`
+    );
+  }
+  if (document.comment) {
+    html.push(
+      '<div class="order-ticket__comment">' +
+        `<span>${escapeHtml(document.comment.label)}</span> ` +
+        `${escapeHtml(document.comment.value)}</div>`
+    );
+  }
+
+  html.push("</div>");
+  return html.join("\n");
+};
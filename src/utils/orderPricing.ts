@@ -0,0 +1,368 @@
+import type { OrderType } from "../graphql-types";
+
+// ====================================================================
+// ORDER PRICING - Ordered rule pipeline for order totals in kopecks
+// ====================================================================
+
+export type PricingRoundingMode = "HALF_UP" | "UP" | "DOWN";
+
+interface PricingRuleBase {
+  id?: string;
+  /** Breakdown label, defaults to a label derived from the rule */
+  label?: string;
+  /** Apply only to these order types, all types when omitted */
+  orderTypes?: Array<OrderType | string>;
+}
+
+export type OrderPricingRule =
+  | (PricingRuleBase & {
+      type: "PERCENT_DISCOUNT";
+      percent: number;
+      /** Minimum item subtotal for the discount, kopecks */
+      minSubtotal?: number;
+    })
+  | (PricingRuleBase & {
+      type: "FIXED_DISCOUNT";
+      amount: number;
+      minSubtotal?: number;
+    })
+  | (PricingRuleBase & {
+      type: "SERVICE_CHARGE";
+      percent?: number;
+      amount?: number;
+    })
+  | (PricingRuleBase & {
+      type: "VAT";
+      rate: number;
+      /** INCLUDED only reports the tax contained in the total */
+      mode: "INCLUDED" | "ADDED";
+    })
+  | (PricingRuleBase & {
+      type: "DELIVERY_FEE";
+      fees: Partial<Record<OrderType | string, number>>;
+      /** Item subtotal from which delivery is free, kopecks */
+      freeFrom?: number;
+    })
+  | (PricingRuleBase & { type: "MINIMUM_ORDER"; amount: number })
+  | (PricingRuleBase & {
+      type: "ROUNDING";
+      /** Rounding step in kopecks, e.g. 100 for whole rubles */
+      step: number;
+      mode?: PricingRoundingMode;
+    });
+
+export type OrderPricingRuleType = OrderPricingRule["type"];
+
+/**
+ * Rules per scope. The most specific scope wins as a whole:
+ * point rules, then brand rules, then the default rules.
+ */
+export interface OrderPricingSettings {
+  rules?: OrderPricingRule[];
+  brands?: Record<string, OrderPricingRule[]>;
+  points?: Record<string, OrderPricingRule[]>;
+}
+
+export interface OrderPricingContext {
+  orderType?: OrderType | string;
+  brandId?: string;
+  pointId?: string;
+}
+
+export interface PricingItem {
+  quantity: number;
+  /** Unit price in kopecks */
+  price: number;
+}
+
+export interface PricingLine {
+  type: OrderPricingRuleType;
+  ruleId?: string;
+  label: string;
+  /** Change of the total in kopecks, negative for discounts */
+  amount: number;
+  /** Set for included VAT: amount is contained in the total */
+  included?: boolean;
+}
+
+export interface OrderPricingResult {
+  /** Sum of item lines, kopecks */
+  subtotal: number;
+  itemsCount: number;
+  lines: PricingLine[];
+  /** Discounts applied, positive kopecks */
+  discount: number;
+  serviceCharge: number;
+  deliveryFee: number;
+  /** VAT added or contained in the total */
+  vat: number;
+  rounding: number;
+  total: number;
+  minimumOrder: { amount: number; shortfall: number } | null;
+  meetsMinimumOrder: boolean;
+}
+
+const RULE_LABELS: Record<OrderPricingRuleType, string> = {
+  PERCENT_DISCOUNT: "Скидка",
+  FIXED_DISCOUNT: "Скидка",
+  SERVICE_CHARGE: "Обслуживание",
+  VAT: "НДС",
+  DELIVERY_FEE: "Доставка",
+  MINIMUM_ORDER: "Минимальный заказ",
+  ROUNDING: "Округление",
+};
+
+// ================== HELPERS ==================
+
+const roundToStep = (
+  value: number,
+  step: number,
+  mode: PricingRoundingMode
+): number => {
+  const units = value / step;
+  if (mode === "UP") return Math.ceil(units) * step;
+  if (mode === "DOWN") return Math.floor(units) * step;
+  return Math.round(units) * step;
+};
+
+const percentOf = (value: number, percent: number) =>
+  Math.round((value * percent) / 100);
+
+const isKopecks = (value: number | undefined) =>
+  value === undefined || (Number.isInteger(value) && value >= 0);
+
+const isPercent = (value: number | undefined) =>
+  value === undefined || (value >= 0 && value <= 100);
+
+/**
+ * Check rules for values the pipeline cannot apply
+ */
+export const validateOrderPricingRules = (
+  rules: OrderPricingRule[]
+): string[] => {
+  const errors: string[] = [];
+
+  rules.forEach((rule, index) => {
+    const name = `Rule ${index + 1} (${rule.type})`;
+
+    switch (rule.type) {
+      case "PERCENT_DISCOUNT":
+        if (!isPercent(rule.percent))
+          errors.push(`${name}: percent must be between 0 and 100`);
+        if (!isKopecks(rule.minSubtotal))
+          errors.push(`${name}: minSubtotal must be integer kopecks`);
+        break;
+      case "FIXED_DISCOUNT":
+        if (!isKopecks(rule.amount) || !isKopecks(rule.minSubtotal))
+          errors.push(`${name}: amounts must be integer kopecks`);
+        break;
+      case "SERVICE_CHARGE":
+        if (rule.percent === undefined && rule.amount === undefined)
+          errors.push(`${name}: percent or amount is required`);
+        if (!isPercent(rule.percent))
+          errors.push(`${name}: percent must be between 0 and 100`);
+        if (!isKopecks(rule.amount))
+          errors.push(`${name}: amount must be integer kopecks`);
+        break;
+      case "VAT":
+        if (!isPercent(rule.rate))
+          errors.push(`${name}: rate must be between 0 and 100`);
+        break;
+      case "DELIVERY_FEE":
+        if (
+          !Object.values(rule.fees).every(isKopecks) ||
+          !isKopecks(rule.freeFrom)
+        )
+          errors.push(`${name}: fees must be integer kopecks`);
+        break;
+      case "MINIMUM_ORDER":
+        if (!isKopecks(rule.amount))
+          errors.push(`${name}: amount must be integer kopecks`);
+        break;
+      case "ROUNDING":
+        if (!Number.isInteger(rule.step) || rule.step <= 0)
+          errors.push(`${name}: step must be a positive integer`);
+        break;
+    }
+  });
+
+  return errors;
+};
+
+// ================== PIPELINE ==================
+
+/**
+ * Run items through the rules in order. Percentages apply to the running
+ * total, so a service charge after a discount is charged on the discounted
+ * amount. Every amount is rounded to whole kopecks.
+ */
+export const calculateOrderPricing = (
+  items: PricingItem[],
+  rules: OrderPricingRule[] = [],
+  context: OrderPricingContext = {}
+): OrderPricingResult => {
+  const subtotal = items.reduce(
+    (sum, item) => sum + item.quantity * item.price,
+    0
+  );
+  const result: OrderPricingResult = {
+    subtotal,
+    itemsCount: items.reduce((sum, item) => sum + item.quantity, 0),
+    lines: [],
+    discount: 0,
+    serviceCharge: 0,
+    deliveryFee: 0,
+    vat: 0,
+    rounding: 0,
+    total: subtotal,
+    minimumOrder: null,
+    meetsMinimumOrder: true,
+  };
+
+  const addLine = (
+    rule: OrderPricingRule,
+    amount: number,
+    included?: boolean
+  ) => {
+    const line: PricingLine = {
+      type: rule.type,
+      label: rule.label || RULE_LABELS[rule.type],
+      amount,
+    };
+    if (rule.id) line.ruleId = rule.id;
+    if (included) {
+      line.included = true;
+    } else {
+      result.total += amount;
+    }
+    result.lines.push(line);
+  };
+
+  rules.forEach((rule) => {
+    if (
+      rule.orderTypes &&
+      (!context.orderType || !rule.orderTypes.includes(context.orderType))
+    ) {
+      return;
+    }
+
+    switch (rule.type) {
+      case "PERCENT_DISCOUNT":
+      case "FIXED_DISCOUNT": {
+        if (rule.minSubtotal !== undefined && subtotal < rule.minSubtotal) {
+          return;
+        }
+        const requested =
+          rule.type === "PERCENT_DISCOUNT"
+            ? percentOf(result.total, rule.percent)
+            : rule.amount;
+        // Never discount below zero
+        const discount = Math.min(requested, Math.max(result.total, 0));
+        if (discount <= 0) return;
+        result.discount += discount;
+        addLine(rule, -discount);
+        return;
+      }
+
+      case "SERVICE_CHARGE": {
+        const charge =
+          (rule.percent !== undefined
+            ? percentOf(result.total, rule.percent)
+            : 0) + (rule.amount ?? 0);
+        if (charge <= 0) return;
+        result.serviceCharge += charge;
+        addLine(rule, charge);
+        return;
+      }
+
+      case "VAT": {
+        if (rule.mode === "ADDED") {
+          const vat = percentOf(result.total, rule.rate);
+          result.vat += vat;
+          addLine(rule, vat);
+        } else {
+          const vat = Math.round(
+            (result.total * rule.rate) / (100 + rule.rate)
+          );
+          result.vat += vat;
+          addLine(rule, vat, true);
+        }
+        return;
+      }
+
+      case "DELIVERY_FEE": {
+        const fee = context.orderType
+          ? rule.fees[context.orderType]
+          : undefined;
+        if (!fee) return;
+        if (rule.freeFrom !== undefined && subtotal >= rule.freeFrom) return;
+        result.deliveryFee += fee;
+        addLine(rule, fee);
+        return;
+      }
+
+      case "MINIMUM_ORDER": {
+        const shortfall = Math.max(rule.amount - subtotal, 0);
+        result.minimumOrder = { amount: rule.amount, shortfall };
+        result.meetsMinimumOrder = shortfall === 0;
+        return;
+      }
+
+      case "ROUNDING": {
+        const rounded = roundToStep(
+          result.total,
+          rule.step,
+          rule.mode || "HALF_UP"
+        );
+        const difference = rounded - result.total;
+        if (difference === 0) return;
+        result.rounding += difference;
+        addLine(rule, difference);
+        return;
+      }
+    }
+  });
+
+  return result;
+};
+
+/**
+ * Pricing pipeline bound to per brand and per point rule settings
+ */
+export class OrderPricingPipeline {
+  private settings: OrderPricingSettings;
+
+  constructor(settings: OrderPricingSettings = {}) {
+    const errors = [
+      settings.rules || [],
+      ...Object.values(settings.brands || {}),
+      ...Object.values(settings.points || {}),
+    ].flatMap(validateOrderPricingRules);
+
+    if (errors.length > 0) {
+      throw new Error(`Invalid pricing rules: ${errors.join("; ")}`);
+    }
+
+    this.settings = settings;
+  }
+
+  /**
+   * Rules for a context: point rules, then brand rules, then defaults
+   */
+  getRules(context: OrderPricingContext = {}): OrderPricingRule[] {
+    if (context.pointId && this.settings.points?.[context.pointId]) {
+      return this.settings.points[context.pointId]!;
+    }
+    if (context.brandId && this.settings.brands?.[context.brandId]) {
+      return this.settings.brands[context.brandId]!;
+    }
+    return this.settings.rules || [];
+  }
+
+  calculate(
+    items: PricingItem[],
+    context: OrderPricingContext = {}
+  ): OrderPricingResult {
+    return calculateOrderPricing(items, this.getRules(context), context);
+  }
+}
@@ -0,0 +1,162 @@
+import type { ApolloCache } from "@apollo/client";
+import { POINT_CITY_FRAGMENT } from "../graphql/fragments";
+import type { ProductPriceSettings } from "../graphql-types";
+
+// ====================================================================
+// PRICE RESOLVER - Effective product price from ProductPriceSettings
+// ====================================================================
+
+/**
+ * Price settings as they come from queries and the cache. Nested lists are
+ * optional because not every query selects all of them.
+ */
+export type PriceSettingsSource = {
+  price?: ProductPriceSettings["price"] | null;
+  priceOrderTypes?: Array<{
+    orderType: string;
+    priceCommon?: number | null;
+    priceCities?: Array<{ cityId: string; price: number }> | null;
+    pricePoints?: Array<{ pointId: string; price: number }> | null;
+  }> | null;
+};
+
+/** Rule that produced the effective price */
+export type PriceRule = "POINT" | "CITY" | "ORDER_TYPE" | "BASE";
+
+export interface PriceContext {
+  orderType: string;
+  pointId?: string;
+  /** City of the point. Looked up by pointId when omitted. */
+  cityId?: string;
+}
+
+export interface PriceResolution {
+  /** Price in kopecks, null when nothing is configured */
+  price: number | null;
+  rule: PriceRule | null;
+  explanation: string;
+  orderType: string;
+  pointId?: string;
+  cityId?: string;
+}
+
+/** Returns the city id of a point, if it is known */
+export type PointCityLookup = (pointId: string) => string | null | undefined;
+
+export interface PriceResolverOptions {
+  getPointCityId?: PointCityLookup;
+}
+
+export class PriceResolver {
+  private getPointCityId: PointCityLookup | undefined;
+
+  constructor(options: PriceResolverOptions = {}) {
+    this.getPointCityId = options.getPointCityId;
+  }
+
+  /**
+   * Resolve price walking point → city → order type common price → base price
+   */
+  resolve(
+    priceSettings: PriceSettingsSource | null | undefined,
+    context: PriceContext
+  ): PriceResolution {
+    const { orderType, pointId } = context;
+    const cityId =
+      context.cityId ??
+      (pointId && this.getPointCityId
+        ? this.getPointCityId(pointId) ?? undefined
+        : undefined);
+
+    const resolution = (
+      price: number | null,
+      rule: PriceRule | null,
+      explanation: string
+    ): PriceResolution => {
+      const result: PriceResolution = { price, rule, explanation, orderType };
+      if (pointId !== undefined) result.pointId = pointId;
+      if (cityId !== undefined) result.cityId = cityId;
+      return result;
+    };
+
+    const orderTypeSettings = priceSettings?.priceOrderTypes?.find(
+      (settings) => settings.orderType === orderType
+    );
+
+    if (orderTypeSettings) {
+      if (pointId) {
+        const pointPrice = orderTypeSettings.pricePoints?.find(
+          (item) => item.pointId === pointId
+        );
+        if (pointPrice && typeof pointPrice.price === "number") {
+          return resolution(
+            pointPrice.price,
+            "POINT",
+            `Point price for point ${pointId} (${orderType})`
+          );
+        }
+      }
+
+      if (cityId) {
+        const cityPrice = orderTypeSettings.priceCities?.find(
+          (item) => item.cityId === cityId
+        );
+        if (cityPrice && typeof cityPrice.price === "number") {
+          return resolution(
+            cityPrice.price,
+            "CITY",
+            `City price for city ${cityId} (${orderType})`
+          );
+        }
+      }
+
+      if (typeof orderTypeSettings.priceCommon === "number") {
+        return resolution(
+          orderTypeSettings.priceCommon,
+          "ORDER_TYPE",
+          `Common price for order type ${orderType}`
+        );
+      }
+    }
+
+    if (typeof priceSettings?.price === "number") {
+      return resolution(priceSettings.price, "BASE", "Base product price");
+    }
+
+    return resolution(null, null, "No price configured");
+  }
+
+  /**
+   * Resolve price only, without the explanation
+   */
+  resolvePrice(
+    priceSettings: PriceSettingsSource | null | undefined,
+    context: PriceContext
+  ): number | null {
+    return this.resolve(priceSettings, context).price;
+  }
+}
+
+/**
+ * Point → city lookup over Points already loaded into the Apollo cache
+ */
+export const createCachePointCityLookup =
+  (cache: ApolloCache<any>): PointCityLookup =>
+  (pointId) => {
+    const id = cache.identify({ __typename: "Point", id: pointId });
+    if (!id) return undefined;
+
+    const point = cache.readFragment<{ id: string; cityId?: string | null }>({
+      id,
+      fragment: POINT_CITY_FRAGMENT,
+    });
+    return point?.cityId;
+  };
+
+/**
+ * Create a resolver that takes point cities from the Apollo cache
+ */
+export const createCachePriceResolver = (
+  cache: ApolloCache<any>
+): PriceResolver =>
+  new PriceResolver({ getPointCityId: createCachePointCityLookup(cache) });
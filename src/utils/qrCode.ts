@@ -0,0 +1,706 @@
+import { escapeHtml } from "./formatting";
+
+// ====================================================================
+// QR CODE - QR Model 2 encoder with SVG and PNG output, no dependencies
+// ====================================================================
+
+/** Recovers about 7%, 15%, 25% and 30% of damaged codewords */
+export type QrErrorCorrection = "L" | "M" | "Q" | "H";
+
+export interface QrCode {
+  /** 1 to 40 */
+  version: number;
+  /** Modules per side without the quiet zone */
+  size: number;
+  errorCorrection: QrErrorCorrection;
+  mask: number;
+  /** modules[y][x], true for dark */
+  modules: boolean[][];
+}
+
+export interface QrEncodeOptions {
+  /** "M" by default */
+  errorCorrection?: QrErrorCorrection;
+  minVersion?: number;
+  maxVersion?: number;
+  /** 0 to 7, the lowest penalty mask by default */
+  mask?: number;
+}
+
+export interface QrRenderOptions {
+  /** Quiet zone in modules, 4 by default as the standard requires */
+  margin?: number;
+  /** "#000000" by default */
+  color?: string;
+  /** "#ffffff" by default */
+  background?: string;
+}
+
+export interface QrSvgOptions extends QrRenderOptions {
+  /** Pixel size of the image, "auto" leaves sizing to CSS */
+  size?: number | "auto";
+  /** Accessible name, e.g. the encoded link */
+  title?: string;
+}
+
+export interface QrPngOptions extends QrRenderOptions {
+  /** Pixels per module, 8 by default */
+  scale?: number;
+}
+
+/** Format bits per error correction level */
+const FORMAT_BITS: Record<QrErrorCorrection, number> = {
+  L: 1,
+  M: 0,
+  Q: 3,
+  H: 2,
+};
+
+/** ISO/IEC 18004 table 9, indexed by version */
+const ECC_CODEWORDS_PER_BLOCK: Record<QrErrorCorrection, number[]> = {
+  L: [
+    -1, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30,
+    28, 28, 28, 28, 30, 30, 26, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30,
+    30, 30, 30,
+  ],
+  M: [
+    -1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26,
+    26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28,
+    28, 28, 28,
+  ],
+  Q: [
+    -1, 13, 22, 18, 26, 18, 24, 18, 22, 20, 24, 28, 26, 24, 20, 30, 24, 28, 28,
+    26, 30, 28, 30, 30, 30, 30, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30,
+    30, 30, 30,
+  ],
+  H: [
+    -1, 17, 28, 22, 16, 22, 28, 26, 26, 24, 28, 24, 28, 22, 24, 24, 30, 28, 28,
+    26, 28, 30, 24, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30,
+    30, 30, 30,
+  ],
+};
+
+const ERROR_CORRECTION_BLOCKS: Record<QrErrorCorrection, number[]> = {
+  L: [
+    -1, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10,
+    12, 12, 12, 13, 14, 15, 16, 17, 18, 19, 19, 20, 21, 22, 24, 25,
+  ],
+  M: [
+    -1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17,
+    17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49,
+  ],
+  Q: [
+    -1, 1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20, 23,
+    23, 25, 27, 29, 34, 34, 35, 38, 40, 43, 45, 48, 51, 53, 56, 59, 62, 65, 68,
+  ],
+  H: [
+    -1, 1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25,
+    25, 34, 30, 32, 35, 37, 40, 42, 45, 48, 51, 54, 57, 60, 63, 66, 70, 74, 77,
+    81,
+  ],
+};
+
+const MASKS: Array<(x: number, y: number) => boolean> = [
+  (x, y) => (x + y) % 2 === 0,
+  (_x, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+  (x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+  (x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0,
+];
+
+const getBit = (value: number, index: number) => ((value >>> index) & 1) !== 0;
+
+// ================== CODEWORDS ==================
+
+/** Modules left for data and error correction after function patterns */
+const getRawDataModules = (version: number): number => {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const alignments = Math.floor(version / 7) + 2;
+    result -= (25 * alignments - 10) * alignments - 55;
+    if (version >= 7) result -= 36;
+  }
+  return result;
+};
+
+const getDataCodewords = (
+  version: number,
+  errorCorrection: QrErrorCorrection
+): number =>
+  Math.floor(getRawDataModules(version) / 8) -
+  ECC_CODEWORDS_PER_BLOCK[errorCorrection][version]! *
+    ERROR_CORRECTION_BLOCKS[errorCorrection][version]!;
+
+/** Multiplication in GF(2^8) modulo x^8 + x^4 + x^3 + x^2 + 1 */
+const multiply = (x: number, y: number): number => {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z & 0xff;
+};
+
+const getReedSolomonDivisor = (degree: number): number[] => {
+  const result = new Array<number>(degree).fill(0);
+  result[degree - 1] = 1;
+
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = multiply(result[j]!, root);
+      if (j + 1 < result.length) result[j]! ^= result[j + 1]!;
+    }
+    root = multiply(root, 0x02);
+  }
+  return result;
+};
+
+const getReedSolomonRemainder = (
+  data: number[],
+  divisor: number[]
+): number[] => {
+  const result = divisor.map(() => 0);
+  data.forEach((byte) => {
+    const factor = byte ^ result.shift()!;
+    result.push(0);
+    divisor.forEach((coefficient, index) => {
+      result[index]! ^= multiply(coefficient, factor);
+    });
+  });
+  return result;
+};
+
+/**
+ * Split data into blocks, append error correction and interleave
+ */
+const addErrorCorrection = (
+  data: number[],
+  version: number,
+  errorCorrection: QrErrorCorrection
+): number[] => {
+  const blockCount = ERROR_CORRECTION_BLOCKS[errorCorrection][version]!;
+  const eccLength = ECC_CODEWORDS_PER_BLOCK[errorCorrection][version]!;
+  const rawCodewords = Math.floor(getRawDataModules(version) / 8);
+  const shortBlocks = blockCount - (rawCodewords % blockCount);
+  const shortBlockLength = Math.floor(rawCodewords / blockCount);
+  const divisor = getReedSolomonDivisor(eccLength);
+
+  const blocks: number[][] = [];
+  let offset = 0;
+  for (let i = 0; i < blockCount; i++) {
+    const length = shortBlockLength - eccLength + (i < shortBlocks ? 0 : 1);
+    const block = data.slice(offset, offset + length);
+    offset += length;
+    const ecc = getReedSolomonRemainder(block, divisor);
+    // Placeholder keeps short blocks aligned, skipped when interleaving
+    if (i < shortBlocks) block.push(0);
+    blocks.push([...block, ...ecc]);
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i < blocks[0]!.length; i++) {
+    blocks.forEach((block, j) => {
+      if (i !== shortBlockLength - eccLength || j >= shortBlocks) {
+        result.push(block[i]!);
+      }
+    });
+  }
+  return result;
+};
+
+/** Without TextEncoder, missing in some JS engines */
+const toUtf8 = (text: string): number[] => {
+  const bytes: number[] = [];
+  for (const char of text) {
+    const code = char.codePointAt(0)!;
+    if (code < 0x80) {
+      bytes.push(code);
+    } else if (code < 0x800) {
+      bytes.push(0xc0 | (code >>> 6), 0x80 | (code & 63));
+    } else if (code < 0x10000) {
+      bytes.push(
+        0xe0 | (code >>> 12),
+        0x80 | ((code >>> 6) & 63),
+        0x80 | (code & 63)
+      );
+    } else {
+      bytes.push(
+        0xf0 | (code >>> 18),
+        0x80 | ((code >>> 12) & 63),
+        0x80 | ((code >>> 6) & 63),
+        0x80 | (code & 63)
+      );
+    }
+  }
+  return bytes;
+};
+
+// ================== MATRIX ==================
+
+class QrMatrix {
+  readonly size: number;
+  readonly modules: boolean[][];
+  private readonly reserved: boolean[][];
+
+  constructor(readonly version: number) {
+    this.size = version * 4 + 17;
+    this.modules = Array.from({ length: this.size }, () =>
+      new Array<boolean>(this.size).fill(false)
+    );
+    this.reserved = Array.from({ length: this.size }, () =>
+      new Array<boolean>(this.size).fill(false)
+    );
+  }
+
+  private set(x: number, y: number, dark: boolean) {
+    this.modules[y]![x] = dark;
+    this.reserved[y]![x] = true;
+  }
+
+  drawFunctionPatterns() {
+    const { size } = this;
+    for (let i = 0; i < size; i++) {
+      this.set(6, i, i % 2 === 0);
+      this.set(i, 6, i % 2 === 0);
+    }
+
+    [
+      [3, 3],
+      [size - 4, 3],
+      [3, size - 4],
+    ].forEach(([x, y]) => {
+      for (let dy = -4; dy <= 4; dy++) {
+        for (let dx = -4; dx <= 4; dx++) {
+          const distance = Math.max(Math.abs(dx), Math.abs(dy));
+          const xx = x! + dx;
+          const yy = y! + dy;
+          if (xx >= 0 && xx < size && yy >= 0 && yy < size) {
+            this.set(xx, yy, distance !== 2 && distance !== 4);
+          }
+        }
+      }
+    });
+
+    const positions = this.getAlignmentPositions();
+    const last = positions.length - 1;
+    positions.forEach((x, i) =>
+      positions.forEach((y, j) => {
+        // Corners are taken by the finder patterns
+        if ((i === 0 && j === 0) || (i === 0 && j === last)) return;
+        if (i === last && j === 0) return;
+        for (let dy = -2; dy <= 2; dy++) {
+          for (let dx = -2; dx <= 2; dx++) {
+            const distance = Math.max(Math.abs(dx), Math.abs(dy));
+            this.set(x + dx, y + dy, distance !== 1);
+          }
+        }
+      })
+    );
+
+    this.drawFormatBits("L", 0);
+    this.drawVersionBits();
+  }
+
+  private getAlignmentPositions(): number[] {
+    if (this.version === 1) return [];
+
+    const count = Math.floor(this.version / 7) + 2;
+    const step =
+      this.version === 32
+        ? 26
+        : Math.ceil((this.version * 4 + 4) / (count * 2 - 2)) * 2;
+    const result = [6];
+    let position = this.size - 7;
+    while (result.length < count) {
+      result.splice(1, 0, position);
+      position -= step;
+    }
+    return result;
+  }
+
+  drawFormatBits(errorCorrection: QrErrorCorrection, mask: number) {
+    const data = (FORMAT_BITS[errorCorrection] << 3) | mask;
+    let remainder = data;
+    for (let i = 0; i < 10; i++) {
+      remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+    }
+    const bits = ((data << 10) | remainder) ^ 0x5412;
+    const { size } = this;
+
+    for (let i = 0; i <= 5; i++) this.set(8, i, getBit(bits, i));
+    this.set(8, 7, getBit(bits, 6));
+    this.set(8, 8, getBit(bits, 7));
+    this.set(7, 8, getBit(bits, 8));
+    for (let i = 9; i < 15; i++) this.set(14 - i, 8, getBit(bits, i));
+
+    for (let i = 0; i < 8; i++) this.set(size - 1 - i, 8, getBit(bits, i));
+    for (let i = 8; i < 15; i++) this.set(8, size - 15 + i, getBit(bits, i));
+    this.set(8, size - 8, true);
+  }
+
+  private drawVersionBits() {
+    if (this.version < 7) return;
+
+    let remainder = this.version;
+    for (let i = 0; i < 12; i++) {
+      remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+    }
+    const bits = (this.version << 12) | remainder;
+    for (let i = 0; i < 18; i++) {
+      const a = this.size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      this.set(a, b, getBit(bits, i));
+      this.set(b, a, getBit(bits, i));
+    }
+  }
+
+  /** Zigzag placement from the bottom-right corner, two columns at once */
+  drawCodewords(codewords: number[]) {
+    const { size } = this;
+    let index = 0;
+    for (let right = size - 1; right >= 1; right -= 2) {
+      if (right === 6) right = 5;
+      const upward = ((right + 1) & 2) === 0;
+      for (let vertical = 0; vertical < size; vertical++) {
+        const y = upward ? size - 1 - vertical : vertical;
+        for (let j = 0; j < 2; j++) {
+          const x = right - j;
+          if (this.reserved[y]![x] || index >= codewords.length * 8) continue;
+          const codeword = codewords[index >>> 3]!;
+          this.modules[y]![x] = getBit(codeword, 7 - (index & 7));
+          index++;
+        }
+      }
+    }
+  }
+
+  /** XOR is its own inverse, applying a mask twice removes it */
+  applyMask(mask: number) {
+    const matches = MASKS[mask]!;
+    for (let y = 0; y < this.size; y++) {
+      for (let x = 0; x < this.size; x++) {
+        if (!this.reserved[y]![x] && matches(x, y)) {
+          this.modules[y]![x] = !this.modules[y]![x];
+        }
+      }
+    }
+  }
+
+  /** Penalty rules N1 to N4 of ISO/IEC 18004 section 7.8.3 */
+  getPenalty(): number {
+    const { size, modules } = this;
+    let penalty = 0;
+
+    const lines: boolean[][] = [
+      ...modules,
+      ...modules.map((_row, x) => modules.map((row) => row[x]!)),
+    ];
+    lines.forEach((line) => {
+      let run = 1;
+      for (let i = 1; i <= size; i++) {
+        if (i < size && line[i] === line[i - 1]) {
+          run++;
+          continue;
+        }
+        if (run >= 5) penalty += run - 2;
+        run = 1;
+      }
+
+      const pattern = line.map((dark) => (dark ? "1" : "0")).join("");
+      const finderLike = /(?=(10111010000|00001011101))/g;
+      penalty += [...pattern.matchAll(finderLike)].length * 40;
+    });
+
+    for (let y = 0; y < size - 1; y++) {
+      for (let x = 0; x < size - 1; x++) {
+        const color = modules[y]![x];
+        if (
+          color === modules[y]![x + 1] &&
+          color === modules[y + 1]![x] &&
+          color === modules[y + 1]![x + 1]
+        ) {
+          penalty += 3;
+        }
+      }
+    }
+
+    const total = size * size;
+    const dark = modules.reduce(
+      (sum, row) => sum + row.filter(Boolean).length,
+      0
+    );
+    penalty += (Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1) * 10;
+
+    return penalty;
+  }
+}
+
+// ================== ENCODE ==================
+
+/**
+ * Encode text in byte mode (UTF-8) in the smallest version that fits
+ */
+export const encodeQrCode = (
+  text: string,
+  options: QrEncodeOptions = {}
+): QrCode => {
+  const errorCorrection = options.errorCorrection || "M";
+  const minVersion = options.minVersion ?? 1;
+  const maxVersion = options.maxVersion ?? 40;
+  if (minVersion < 1 || maxVersion > 40 || minVersion > maxVersion) {
+    throw new Error(`Invalid QR version range ${minVersion}-${maxVersion}`);
+  }
+  if (
+    options.mask !== undefined &&
+    (!Number.isInteger(options.mask) || options.mask < 0 || options.mask > 7)
+  ) {
+    throw new Error(`Invalid QR mask ${options.mask}`);
+  }
+
+  const bytes = toUtf8(text);
+  let version = minVersion;
+  const getDataBits = (v: number) =>
+    4 + (v < 10 ? 8 : 16) + bytes.length * 8;
+  const fits = (v: number) =>
+    getDataBits(v) <= getDataCodewords(v, errorCorrection) * 8;
+  while (!fits(version)) {
+    if (version >= maxVersion) {
+      throw new Error(
+        `Text is too long for a QR code: ${bytes.length} bytes ` +
+          `at error correction ${errorCorrection}`
+      );
+    }
+    version++;
+  }
+
+  // Byte mode segment, terminator and padding
+  const capacity = getDataCodewords(version, errorCorrection) * 8;
+  const bits: number[] = [];
+  const push = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+  };
+  push(0b0100, 4);
+  push(bytes.length, version < 10 ? 8 : 16);
+  bytes.forEach((byte) => push(byte, 8));
+  push(0, Math.min(4, capacity - bits.length));
+  push(0, (8 - (bits.length % 8)) % 8);
+  for (let pad = 0xec; bits.length < capacity; pad ^= 0xec ^ 0x11) {
+    push(pad, 8);
+  }
+
+  const data: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    data.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit));
+  }
+
+  const matrix = new QrMatrix(version);
+  matrix.drawFunctionPatterns();
+  matrix.drawCodewords(addErrorCorrection(data, version, errorCorrection));
+
+  let mask = options.mask ?? -1;
+  if (mask < 0) {
+    let lowest = Infinity;
+    for (let candidate = 0; candidate < 8; candidate++) {
+      matrix.applyMask(candidate);
+      matrix.drawFormatBits(errorCorrection, candidate);
+      const penalty = matrix.getPenalty();
+      if (penalty < lowest) {
+        lowest = penalty;
+        mask = candidate;
+      }
+      matrix.applyMask(candidate);
+    }
+  }
+  matrix.applyMask(mask);
+  matrix.drawFormatBits(errorCorrection, mask);
+
+  return {
+    version,
+    size: matrix.size,
+    errorCorrection,
+    mask,
+    modules: matrix.modules,
+  };
+};
+
+// ================== SVG ==================
+
+/**
+ * Standalone SVG, dark modules merged into one path per row run
+ */
+export const renderQrSvg = (qr: QrCode, options: QrSvgOptions = {}): string => {
+  const margin = options.margin ?? 4;
+  const total = qr.size + margin * 2;
+  const pixels = options.size ?? total * 8;
+  const color = options.color || "#000000";
+  const background = options.background || "#ffffff";
+
+  const path: string[] = [];
+  qr.modules.forEach((row, y) => {
+    for (let x = 0; x < qr.size; x++) {
+      if (!row[x]) continue;
+      const start = x;
+      while (x + 1 < qr.size && row[x + 1]) x++;
+      const run = x - start + 1;
+      path.push(`M${start + margin} ${y + margin}h${run}v1h-${run}z`);
+    }
+  });
+
+  return [
+    '<svg xmlns="http://www.w3.org/2000/svg" ' +
+      (pixels === "auto" ? "" : `width="${pixels}" height="${pixels}" `) +
+      `viewBox="0 0 ${total} ${total}" shape-rendering="crispEdges">`,
+    options.title ? `<title>${escapeHtml(options.title)}</title>` : "",
+    `<rect width="${total}" height="${total}" fill="${background}"/>`,
+    `<path d="${path.join("")}" fill="${color}"/>`,
+    "</svg>",
+  ]
+    .filter(Boolean)
+    .join("");
+};
+
+export const toSvgDataUrl = (svg: string): string =>
+  `data:image/svg+xml;base64,${toBase64(toUtf8(svg))}`;
+
+// ================== PNG ==================
+
+const CRC_TABLE = Array.from({ length: 256 }, (_value, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+const crc32 = (bytes: number[]): number => {
+  let crc = 0xffffffff;
+  bytes.forEach((byte) => {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff]! ^ (crc >>> 8);
+  });
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const uint32 = (value: number) => [
+  (value >>> 24) & 0xff,
+  (value >>> 16) & 0xff,
+  (value >>> 8) & 0xff,
+  value & 0xff,
+];
+
+const pngChunk = (type: string, data: number[]): number[] => {
+  const body = [...type].map((char) => char.charCodeAt(0)).concat(data);
+  return [...uint32(data.length), ...body, ...uint32(crc32(body))];
+};
+
+/** Zlib stream of stored deflate blocks, QR images compress poorly anyway */
+const zlibStore = (data: number[]): number[] => {
+  const result = [0x78, 0x01];
+  let offset = 0;
+  do {
+    const length = Math.min(0xffff, data.length - offset);
+    const final = offset + length >= data.length ? 1 : 0;
+    result.push(
+      final,
+      length & 0xff,
+      length >>> 8,
+      ~length & 0xff,
+      (~length >>> 8) & 0xff
+    );
+    for (let i = 0; i < length; i++) result.push(data[offset + i]!);
+    offset += length;
+  } while (offset < data.length);
+
+  let a = 1;
+  let b = 0;
+  data.forEach((byte) => {
+    a = (a + byte) % 65521;
+    b = (b + a) % 65521;
+  });
+  return result.concat(uint32(((b << 16) | a) >>> 0));
+};
+
+const parseHexColor = (color: string): number[] => {
+  const hex = color.replace(/^#/, "");
+  const full =
+    hex.length === 3
+      ? hex
+          .split("")
+          .map((char) => char + char)
+          .join("")
+      : hex;
+  if (!/^[0-9a-f]{6}$/i.test(full)) {
+    throw new Error(`Unsupported PNG color ${color}, use #rgb or #rrggbb`);
+  }
+  return [0, 2, 4].map((i) => parseInt(full.slice(i, i + 2), 16));
+};
+
+/**
+ * Two-color indexed PNG bytes
+ */
+export const renderQrPng = (
+  qr: QrCode,
+  options: QrPngOptions = {}
+): Uint8Array => {
+  const margin = options.margin ?? 4;
+  const scale = options.scale ?? 8;
+  const pixels = (qr.size + margin * 2) * scale;
+  const rowBytes = Math.ceil(pixels / 8);
+
+  const raw: number[] = [];
+  for (let py = 0; py < pixels; py++) {
+    const y = Math.floor(py / scale) - margin;
+    const row = new Array<number>(rowBytes).fill(0);
+    for (let px = 0; px < pixels; px++) {
+      const x = Math.floor(px / scale) - margin;
+      if (qr.modules[y]?.[x]) row[px >>> 3]! |= 0x80 >>> (px & 7);
+    }
+    raw.push(0, ...row);
+  }
+
+  const header = [
+    ...uint32(pixels),
+    ...uint32(pixels),
+    1, // bit depth
+    3, // indexed color
+    0,
+    0,
+    0,
+  ];
+  const palette = [
+    ...parseHexColor(options.background || "#ffffff"),
+    ...parseHexColor(options.color || "#000000"),
+  ];
+
+  return new Uint8Array([
+    0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a,
+    ...pngChunk("IHDR", header),
+    ...pngChunk("PLTE", palette),
+    ...pngChunk("IDAT", zlibStore(raw)),
+    ...pngChunk("IEND", []),
+  ]);
+};
+
+const BASE64_ALPHABET =
+  "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+
+/** Works without Buffer or btoa, e.g. in React Native */
+const toBase64 = (bytes: ArrayLike<number>): string => {
+  let result = "";
+  for (let i = 0; i < bytes.length; i += 3) {
+    const a = bytes[i]!;
+    const b = bytes[i + 1];
+    const c = bytes[i + 2];
+    const triple = (a << 16) | ((b ?? 0) << 8) | (c ?? 0);
+    result +=
+      BASE64_ALPHABET[(triple >>> 18) & 63]! +
+      BASE64_ALPHABET[(triple >>> 12) & 63]! +
+      (b === undefined ? "=" : BASE64_ALPHABET[(triple >>> 6) & 63]!) +
+      (c === undefined ? "=" : BASE64_ALPHABET[triple & 63]!);
+  }
+  return result;
+};
+
+export const toPngDataUrl = (png: Uint8Array): string =>
+  `data:image/png;base64,${toBase64(png)}`;
@@ -0,0 +1,310 @@
+// ====================================================================
+// RECOMMENDATIONS - "Frequently ordered together" from order history
+// ====================================================================
+
+export const RECOMMENDATION_MODEL_FORMAT = "restomenu.recommendations";
+export const RECOMMENDATION_MODEL_VERSION = 1;
+
+/**
+ * Orders with `antecedent` also contain `consequent`
+ */
+export interface AssociationRule {
+  antecedent: string;
+  consequent: string;
+  /** Orders containing both products */
+  count: number;
+  /** Share of all orders containing both */
+  support: number;
+  /** Share of orders with the antecedent that contain the consequent */
+  confidence: number;
+  /** Confidence relative to how often the consequent is ordered at all */
+  lift: number;
+}
+
+/**
+ * Serializable model, computed once and shipped with the app
+ */
+export interface RecommendationModel {
+  format: typeof RECOMMENDATION_MODEL_FORMAT;
+  version: number;
+  brandId?: string;
+  pointId?: string;
+  generatedAt: string;
+  orderCount: number;
+  /** Orders containing each product */
+  productCounts: Record<string, number>;
+  /** Sorted by antecedent, then confidence */
+  rules: AssociationRule[];
+}
+
+export interface RecommendationModelOptions {
+  brandId?: string;
+  /** Only mine orders of this point */
+  pointId?: string;
+  /** Minimum orders with both products, 2 by default */
+  minCount?: number;
+  minSupport?: number;
+  /** 0.05 by default */
+  minConfidence?: number;
+  /** 1 by default, pairs ordered together no more than by chance are skipped */
+  minLift?: number;
+  /** Rules kept per antecedent, 20 by default */
+  maxRulesPerProduct?: number;
+  generatedAt?: Date;
+}
+
+export interface Recommendation {
+  productId: string;
+  /** Menu product when available products are known */
+  product?: any;
+  confidence: number;
+  lift: number;
+  support: number;
+  /** Products the recommendation comes from */
+  basedOn: string[];
+}
+
+export interface RecommendationQueryOptions {
+  /** 4 by default */
+  limit?: number;
+  minConfidence?: number;
+  minLift?: number;
+  /** Never recommend these products */
+  excludeProductIds?: string[];
+}
+
+export type RecommendationCartItem = string | { productId: string };
+
+const DEFAULT_RECOMMENDATION_LIMIT = 4;
+
+const round = (value: number) => Math.round(value * 10000) / 10000;
+
+// ================== MODEL ==================
+
+/**
+ * Mine pair rules from orders with items. Each order counts a product
+ * once regardless of quantity.
+ */
+export const buildRecommendationModel = (
+  orders: any[],
+  options: RecommendationModelOptions = {}
+): RecommendationModel => {
+  const minCount = options.minCount ?? 2;
+  const minSupport = options.minSupport ?? 0;
+  const minConfidence = options.minConfidence ?? 0.05;
+  const minLift = options.minLift ?? 1;
+  const maxRules = options.maxRulesPerProduct ?? 20;
+
+  const productCounts: Record<string, number> = {};
+  const pairCounts = new Map<string, number>();
+  let orderCount = 0;
+
+  orders
+    .filter((order) => !options.pointId || order.pointId === options.pointId)
+    .forEach((order) => {
+      const basket = [
+        ...new Set<string>(
+          (order.items || [])
+            .map((item: any) => item.productId)
+            .filter(Boolean)
+        ),
+      ].sort();
+      if (basket.length === 0) return;
+
+      orderCount++;
+      basket.forEach((productId, index) => {
+        productCounts[productId] = (productCounts[productId] || 0) + 1;
+        basket.slice(index + 1).forEach((other) => {
+          const key = `${productId}|${other}`;
+          pairCounts.set(key, (pairCounts.get(key) || 0) + 1);
+        });
+      });
+    });
+
+  const rulesByProduct = new Map<string, AssociationRule[]>();
+  pairCounts.forEach((count, key) => {
+    if (count < minCount || count / orderCount < minSupport) return;
+
+    const [a, b] = key.split("|") as [string, string];
+    const directions: Array<[string, string]> = [
+      [a, b],
+      [b, a],
+    ];
+    directions.forEach(([antecedent, consequent]) => {
+      const confidence = count / productCounts[antecedent]!;
+      const lift = confidence / (productCounts[consequent]! / orderCount);
+      if (confidence < minConfidence || lift < minLift) return;
+
+      rulesByProduct.set(antecedent, [
+        ...(rulesByProduct.get(antecedent) || []),
+        {
+          antecedent,
+          consequent,
+          count,
+          support: round(count / orderCount),
+          confidence: round(confidence),
+          lift: round(lift),
+        },
+      ]);
+    });
+  });
+
+  const rules = [...rulesByProduct.keys()].sort().flatMap((productId) =>
+    rulesByProduct
+      .get(productId)!
+      .sort(
+        (x, y) =>
+          y.confidence - x.confidence ||
+          y.lift - x.lift ||
+          x.consequent.localeCompare(y.consequent)
+      )
+      .slice(0, maxRules)
+  );
+
+  const model: RecommendationModel = {
+    format: RECOMMENDATION_MODEL_FORMAT,
+    version: RECOMMENDATION_MODEL_VERSION,
+    generatedAt: (options.generatedAt || new Date()).toISOString(),
+    orderCount,
+    productCounts,
+    rules,
+  };
+  if (options.brandId) model.brandId = options.brandId;
+  if (options.pointId) model.pointId = options.pointId;
+  return model;
+};
+
+/**
+ * Serialize a model to compact JSON
+ */
+export const serializeRecommendationModel = (
+  model: RecommendationModel
+): string => JSON.stringify(model);
+
+/**
+ * Parse and check a serialized model
+ */
+export const parseRecommendationModel = (
+  input: string | unknown
+): RecommendationModel => {
+  const data: any = typeof input === "string" ? JSON.parse(input) : input;
+
+  if (!data || data.format !== RECOMMENDATION_MODEL_FORMAT) {
+    throw new Error("Not a recommendation model");
+  }
+  if (
+    typeof data.version !== "number" ||
+    data.version > RECOMMENDATION_MODEL_VERSION
+  ) {
+    throw new Error(`Unsupported recommendation model version ${data.version}`);
+  }
+  if (!Array.isArray(data.rules) || typeof data.productCounts !== "object") {
+    throw new Error("Recommendation model is missing rules");
+  }
+
+  return data as RecommendationModel;
+};
+
+// ================== ENGINE ==================
+
+export class RecommendationEngine {
+  private model: RecommendationModel;
+  private rulesByProduct = new Map<string, AssociationRule[]>();
+  /** Products on the current menu, null when not restricted */
+  private available: Map<string, any> | null = null;
+
+  constructor(model: RecommendationModel, options: { products?: any[] } = {}) {
+    this.model = model;
+    model.rules.forEach((rule) =>
+      this.rulesByProduct.set(rule.antecedent, [
+        ...(this.rulesByProduct.get(rule.antecedent) || []),
+        rule,
+      ])
+    );
+    if (options.products) this.setAvailableProducts(options.products);
+  }
+
+  /**
+   * Limit results to the products of a point and order type menu,
+   * null allows every product of the model
+   */
+  setAvailableProducts(products: any[] | null): void {
+    this.available = products
+      ? new Map(
+          products
+            .filter((product) => product.isActive !== false)
+            .map((product) => [product.id, product])
+        )
+      : null;
+  }
+
+  getRecommendationsForProduct(
+    productId: string,
+    options: RecommendationQueryOptions = {}
+  ): Recommendation[] {
+    return this.getRecommendationsForCart([productId], options);
+  }
+
+  /**
+   * Products ordered together with the cart. Each candidate takes its
+   * strongest rule; products already in the cart are skipped.
+   */
+  getRecommendationsForCart(
+    items: RecommendationCartItem[],
+    options: RecommendationQueryOptions = {}
+  ): Recommendation[] {
+    const cartIds = new Set(
+      items.map((item) => (typeof item === "string" ? item : item.productId))
+    );
+    const excluded = new Set(options.excludeProductIds || []);
+    const candidates = new Map<string, Recommendation>();
+
+    cartIds.forEach((productId) =>
+      (this.rulesByProduct.get(productId) || []).forEach((rule) => {
+        if (cartIds.has(rule.consequent) || excluded.has(rule.consequent)) {
+          return;
+        }
+        if (this.available && !this.available.has(rule.consequent)) return;
+        if (rule.confidence < (options.minConfidence ?? 0)) return;
+        if (rule.lift < (options.minLift ?? 0)) return;
+
+        const current = candidates.get(rule.consequent);
+        if (current) {
+          current.basedOn.push(productId);
+          if (rule.confidence <= current.confidence) return;
+        }
+
+        const recommendation: Recommendation = {
+          productId: rule.consequent,
+          confidence: rule.confidence,
+          lift: rule.lift,
+          support: rule.support,
+          basedOn: current ? current.basedOn : [productId],
+        };
+        const product = this.available?.get(rule.consequent);
+        if (product) recommendation.product = product;
+        candidates.set(rule.consequent, recommendation);
+      })
+    );
+
+    return [...candidates.values()]
+      .sort(
+        (a, b) =>
+          b.confidence - a.confidence ||
+          b.lift - a.lift ||
+          b.support - a.support
+      )
+      .slice(0, options.limit ?? DEFAULT_RECOMMENDATION_LIMIT);
+  }
+
+  /**
+   * Available products by the number of orders containing them
+   */
+  getPopularProductIds(limit?: number): string[] {
+    const counts = this.model.productCounts;
+    return Object.keys(counts)
+      .filter((productId) => !this.available || this.available.has(productId))
+      .sort((a, b) => counts[b]! - counts[a]! || a.localeCompare(b))
+      .slice(0, limit);
+  }
+}
@@ -0,0 +1,184 @@
+import type {
+  OrderItemAddInput,
+  OrderItemUpdateInput,
+  OrderPreOrderByEmployeeUpdateInput,
+} from "../graphql-types";
+
+// ====================================================================
+// ORDER RECONCILIATION - Minimal pre-order update from a desired state
+// ====================================================================
+
+export interface DesiredOrderItem {
+  productId: string;
+  quantity: number;
+}
+
+/**
+ * Desired order state. Omitted fields are left untouched,
+ * null (or an empty comment) clears the value.
+ */
+export interface DesiredOrderState {
+  items?: DesiredOrderItem[];
+  comment?: string | null;
+  personsNumber?: number | null;
+}
+
+/**
+ * Order as it is now: only the fields reconciliation looks at
+ */
+export interface CurrentOrderState {
+  id: string;
+  brandId: string;
+  items?: Array<{ id: string; productId: string; quantity: number }> | null;
+  comment?: string | null;
+  personsNumber?: number | null;
+}
+
+export interface ReconcileOptions {
+  /** Send new quantities as absolute values or as offsets */
+  quantityMode?: "absolute" | "offset";
+}
+
+export interface OrderItemsChanges {
+  itemsAdd: OrderItemAddInput[];
+  itemsUpdate: OrderItemUpdateInput[];
+  itemsRemove: string[];
+}
+
+/**
+ * Compute item additions, updates and removals turning current items into
+ * the desired list. Quantities are compared per product, so an existing
+ * line is adjusted rather than removed and added again.
+ */
+export const reconcileOrderItems = (
+  currentItems: CurrentOrderState["items"],
+  desiredItems: DesiredOrderItem[],
+  options: ReconcileOptions = {}
+): OrderItemsChanges => {
+  const quantityMode = options.quantityMode || "absolute";
+  const changes: OrderItemsChanges = {
+    itemsAdd: [],
+    itemsUpdate: [],
+    itemsRemove: [],
+  };
+
+  const desired = new Map<string, number>();
+  desiredItems.forEach((item) => {
+    if (!Number.isInteger(item.quantity) || item.quantity < 0) {
+      throw new Error(
+        `Invalid quantity ${item.quantity} for product ${item.productId}`
+      );
+    }
+    desired.set(
+      item.productId,
+      (desired.get(item.productId) || 0) + item.quantity
+    );
+  });
+
+  const currentByProduct = new Map<
+    string,
+    Array<{ id: string; productId: string; quantity: number }>
+  >();
+  (currentItems || []).forEach((item) => {
+    const lines = currentByProduct.get(item.productId) || [];
+    lines.push(item);
+    currentByProduct.set(item.productId, lines);
+  });
+
+  const setQuantity = (
+    line: { id: string; quantity: number },
+    quantity: number
+  ) => {
+    changes.itemsUpdate.push(
+      quantityMode === "offset"
+        ? { id: line.id, quantityOffset: quantity - line.quantity }
+        : { id: line.id, quantity }
+    );
+  };
+
+  // Products that should stay in or be added to the order
+  desired.forEach((quantity, productId) => {
+    const lines = currentByProduct.get(productId) || [];
+    const currentQuantity = lines.reduce((sum, line) => sum + line.quantity, 0);
+
+    if (lines.length === 0) {
+      if (quantity > 0) changes.itemsAdd.push({ productId, quantity });
+      return;
+    }
+
+    let delta = quantity - currentQuantity;
+    if (delta > 0) {
+      const line = lines[0]!;
+      setQuantity(line, line.quantity + delta);
+      return;
+    }
+
+    // Shrink from the last line, dropping lines that reach zero
+    for (let index = lines.length - 1; index >= 0 && delta < 0; index--) {
+      const line = lines[index]!;
+      if (line.quantity <= -delta) {
+        changes.itemsRemove.push(line.id);
+        delta += line.quantity;
+      } else {
+        setQuantity(line, line.quantity + delta);
+        delta = 0;
+      }
+    }
+  });
+
+  // Products no longer wanted
+  currentByProduct.forEach((lines, productId) => {
+    if (!desired.has(productId)) {
+      lines.forEach((line) => changes.itemsRemove.push(line.id));
+    }
+  });
+
+  return changes;
+};
+
+/**
+ * Build the minimal orderPreOrderByEmployeeUpdate input for a desired state
+ */
+export const buildPreOrderUpdateInput = (
+  current: CurrentOrderState,
+  desired: DesiredOrderState,
+  options: ReconcileOptions = {}
+): OrderPreOrderByEmployeeUpdateInput => {
+  const input: OrderPreOrderByEmployeeUpdateInput = {
+    id: current.id,
+    brandId: current.brandId,
+  };
+
+  if (desired.items) {
+    const changes = reconcileOrderItems(current.items, desired.items, options);
+    if (changes.itemsAdd.length > 0) input.itemsAdd = changes.itemsAdd;
+    if (changes.itemsUpdate.length > 0) input.itemsUpdate = changes.itemsUpdate;
+    if (changes.itemsRemove.length > 0) input.itemsRemove = changes.itemsRemove;
+  }
+
+  if (desired.comment !== undefined) {
+    if (!desired.comment) {
+      if (current.comment) input.isCommentClear = true;
+    } else if (desired.comment !== current.comment) {
+      input.comment = desired.comment;
+    }
+  }
+
+  if (desired.personsNumber !== undefined) {
+    if (desired.personsNumber === null) {
+      if (current.personsNumber != null) input.isPersonsNumberClear = true;
+    } else if (desired.personsNumber !== current.personsNumber) {
+      input.personsNumber = desired.personsNumber;
+    }
+  }
+
+  return input;
+};
+
+/**
+ * Check whether an update input changes anything besides identifying the order
+ */
+export const hasPreOrderChanges = (
+  input: OrderPreOrderByEmployeeUpdateInput
+): boolean =>
+  Object.keys(input).some((key) => key !== "id" && key !== "brandId");